@@ -5,6 +5,32 @@ import type {
   QoS,
   Subscription,
   MessageFilter,
+  SessionInfo,
+  RetentionLimits,
+  RetentionResult,
+  RetentionSettings,
+  RetentionStatus,
+  SparkplugGroupState,
+  AutomationSettings,
+  AutomationStatus,
+  AlertRule,
+  AlertEvent,
+  MqttRequest,
+  MqttRequestResult,
+  SavedRequest,
+  PublishTemplateSet,
+  PublishJob,
+  PublishJobConfig,
+  SimulatorFleet,
+  SimulatorRun,
+  RetainedClearResult,
+  SysMonitorState,
+  InferredSchema,
+  TopicSnapshotSource,
+  TopicTreeDiff,
+  ProtobufRegistry,
+  ProtobufSchemaFile,
+  ProtobufTopicMapping,
 } from './models';
 
 // IPC channel names
@@ -19,6 +45,7 @@ export const IPC_CHANNELS = {
   MQTT_UNSUBSCRIBE: 'mqtt:unsubscribe',
   MQTT_PUBLISH: 'mqtt:publish',
   MQTT_GET_SUBSCRIPTIONS: 'mqtt:get-subscriptions',
+  MQTT_GET_SESSIONS: 'mqtt:get-sessions',
 
   // MQTT events (main -> renderer)
   MQTT_MESSAGE: 'mqtt:message',
@@ -33,6 +60,7 @@ export const IPC_CHANNELS = {
   CONNECTION_UPDATE: 'connection:update',
   CONNECTION_GET_LAST_USED: 'connection:get-last-used',
   CONNECTION_GET_CURRENT: 'connection:get-current',
+  CONNECTION_SET_ACTIVE: 'connection:set-active',
   CONNECTION_EXPORT: 'connection:export',
   CONNECTION_IMPORT: 'connection:import',
 
@@ -43,15 +71,86 @@ export const IPC_CHANNELS = {
   MESSAGE_GET_STATS: 'message:get-stats',
   MESSAGE_RESET_STATS: 'message:reset-stats',
 
+  // Retention
+  RETENTION_GET_STATUS: 'retention:get-status',
+  RETENTION_SAVE_SETTINGS: 'retention:save-settings',
+  RETENTION_PREVIEW: 'retention:preview',
+  RETENTION_APPLY: 'retention:apply',
+  RETENTION_PRUNED: 'retention:pruned', // Event (main -> renderer)
+
+  // Protobuf schemas
+  PROTOBUF_GET_REGISTRY: 'protobuf:get-registry',
+  PROTOBUF_ADD_FILE: 'protobuf:add-file',
+  PROTOBUF_REMOVE_FILE: 'protobuf:remove-file',
+  PROTOBUF_SAVE_MAPPINGS: 'protobuf:save-mappings',
+  PROTOBUF_REGISTRY_UPDATED: 'protobuf:registry-updated', // Event (main -> renderer)
+
+  // Sparkplug B
+  SPARKPLUG_GET_STATE: 'sparkplug:get-state',
+  SPARKPLUG_UPDATED: 'sparkplug:updated', // Event (main -> renderer)
+
+  // Automation API
+  AUTOMATION_GET_STATUS: 'automation:get-status',
+  AUTOMATION_SAVE_SETTINGS: 'automation:save-settings',
+  AUTOMATION_REGENERATE_TOKEN: 'automation:regenerate-token',
+
+  // Alerts
+  ALERT_GET_RULES: 'alert:get-rules',
+  ALERT_SAVE_RULES: 'alert:save-rules',
+  ALERT_GET_LOG: 'alert:get-log',
+  ALERT_CLEAR_LOG: 'alert:clear-log',
+  ALERT_TRIGGERED: 'alert:triggered', // Event (main -> renderer)
+
+  // MQTT 5.0 request/response tester
+  REQUEST_SEND: 'request:send',
+  REQUEST_GET_COLLECTION: 'request:get-collection',
+  REQUEST_SAVE_COLLECTION: 'request:save-collection',
+
+  // Publish templates
+  TEMPLATE_GET: 'template:get',
+  TEMPLATE_SAVE: 'template:save',
+
+  // Scheduled publishing
+  PUBLISH_JOB_START: 'publish-job:start',
+  PUBLISH_JOB_STOP: 'publish-job:stop',
+  PUBLISH_JOB_REMOVE: 'publish-job:remove',
+  PUBLISH_JOB_LIST: 'publish-job:list',
+  PUBLISH_JOBS_CHANGED: 'publish-job:changed', // Event (main -> renderer) when a job starts, stops or completes
+
+  // Device simulator
+  SIMULATOR_GET_FLEETS: 'simulator:get-fleets',
+  SIMULATOR_SAVE_FLEETS: 'simulator:save-fleets',
+  SIMULATOR_START: 'simulator:start',
+  SIMULATOR_STOP: 'simulator:stop',
+  SIMULATOR_GET_RUNS: 'simulator:get-runs',
+  SIMULATOR_RUNS_CHANGED: 'simulator:runs-changed', // Event (main -> renderer) when a fleet starts or stops
+
+  // Retained message manager
+  RETAINED_LIST: 'retained:list',
+  RETAINED_CLEAR: 'retained:clear',
+
+  // Broker $SYS monitor
+  SYS_MONITOR_START: 'sys-monitor:start',
+  SYS_MONITOR_STOP: 'sys-monitor:stop',
+  SYS_MONITOR_GET: 'sys-monitor:get',
+  SYS_MONITOR_UPDATED: 'sys-monitor:updated', // Event (main -> renderer) for every $SYS message
+
   // Topic Tree
   TOPIC_TREE_GET: 'topic-tree:get',
+  TOPIC_TREE_GET_STORED: 'topic-tree:get-stored', // Built from a connection's stored history
+  TOPIC_TREE_DIFF: 'topic-tree:diff',
+
+  // JSON schema inference
+  SCHEMA_INFER: 'schema:infer',
   TOPIC_TREE_UPDATED: 'topic-tree:updated',
 
   // Message Filtering (events)
   MESSAGE_FILTER_TOPIC: 'message:filter-topic',
 
   // Connection events
-  CONNECTION_CHANGED: 'connection:changed',
+  CONNECTION_CHANGED: 'connection:changed', // Active session changed
+  SESSIONS_UPDATED: 'connection:sessions-updated',
+  CONNECTION_PROFILES_UPDATED: 'connection:profiles-updated', // Saved, updated, deleted or imported
 } as const;
 
 // Type-safe IPC request/response types
@@ -60,30 +159,40 @@ export interface IpcRequest {
     request: string;
     response: string;
   };
+  // Requests that act on a broker session take an optional connectionId;
+  // when omitted, the active session is used.
   [IPC_CHANNELS.MQTT_CONNECT]: {
     request: ConnectionConfig;
-    response: void;
+    response: string; // Connection ID of the opened session
   };
   [IPC_CHANNELS.MQTT_DISCONNECT]: {
-    request: void;
+    request: string | void;
     response: void;
   };
   [IPC_CHANNELS.MQTT_SUBSCRIBE]: {
-    request: { topic: string; qos: QoS };
+    request: { topic: string; qos: QoS; subscriptionIdentifier?: number; connectionId?: string };
     response: void;
   };
   [IPC_CHANNELS.MQTT_UNSUBSCRIBE]: {
-    request: string;
+    request: { topic: string; connectionId?: string };
     response: void;
   };
   [IPC_CHANNELS.MQTT_PUBLISH]: {
-    request: { topic: string; payload: string; options: PublishOptions };
+    request: { topic: string; payload: string | Uint8Array; options: PublishOptions; connectionId?: string };
     response: void;
   };
   [IPC_CHANNELS.MQTT_GET_SUBSCRIPTIONS]: {
-    request: void;
+    request: string | void;
     response: Subscription[];
   };
+  [IPC_CHANNELS.MQTT_GET_SESSIONS]: {
+    request: void;
+    response: SessionInfo[];
+  };
+  [IPC_CHANNELS.CONNECTION_SET_ACTIVE]: {
+    request: string;
+    response: void;
+  };
   [IPC_CHANNELS.MESSAGE_SEARCH]: {
     request: MessageFilter;
     response: MqttMessage[];
@@ -92,6 +201,160 @@ export interface IpcRequest {
     request: void;
     response: void;
   };
+  [IPC_CHANNELS.RETENTION_GET_STATUS]: {
+    request: void;
+    response: RetentionStatus;
+  };
+  [IPC_CHANNELS.RETENTION_SAVE_SETTINGS]: {
+    request: RetentionSettings;
+    response: RetentionStatus;
+  };
+  // Preview/apply use the saved limits unless limits are given
+  [IPC_CHANNELS.RETENTION_PREVIEW]: {
+    request: RetentionLimits | void;
+    response: RetentionResult;
+  };
+  [IPC_CHANNELS.RETENTION_APPLY]: {
+    request: RetentionLimits | void;
+    response: RetentionResult;
+  };
+  [IPC_CHANNELS.PROTOBUF_GET_REGISTRY]: {
+    request: void;
+    response: ProtobufRegistry;
+  };
+  [IPC_CHANNELS.PROTOBUF_ADD_FILE]: {
+    request: Omit<ProtobufSchemaFile, 'id' | 'addedAt'>;
+    response: ProtobufRegistry;
+  };
+  [IPC_CHANNELS.PROTOBUF_REMOVE_FILE]: {
+    request: string;
+    response: ProtobufRegistry;
+  };
+  [IPC_CHANNELS.PROTOBUF_SAVE_MAPPINGS]: {
+    request: ProtobufTopicMapping[];
+    response: ProtobufRegistry;
+  };
+  [IPC_CHANNELS.SPARKPLUG_GET_STATE]: {
+    request: string | void; // connectionId (defaults to the active session)
+    response: SparkplugGroupState[];
+  };
+  [IPC_CHANNELS.AUTOMATION_GET_STATUS]: {
+    request: void;
+    response: AutomationStatus;
+  };
+  [IPC_CHANNELS.AUTOMATION_SAVE_SETTINGS]: {
+    request: AutomationSettings;
+    response: AutomationStatus;
+  };
+  [IPC_CHANNELS.AUTOMATION_REGENERATE_TOKEN]: {
+    request: void;
+    response: AutomationStatus;
+  };
+  [IPC_CHANNELS.ALERT_GET_RULES]: {
+    request: void;
+    response: AlertRule[];
+  };
+  [IPC_CHANNELS.ALERT_SAVE_RULES]: {
+    request: AlertRule[];
+    response: AlertRule[];
+  };
+  [IPC_CHANNELS.ALERT_GET_LOG]: {
+    request: number | void; // Most recent n entries (default 500)
+    response: AlertEvent[];
+  };
+  [IPC_CHANNELS.ALERT_CLEAR_LOG]: {
+    request: void;
+    response: void;
+  };
+  // Resolves once the reply arrives or the request times out
+  [IPC_CHANNELS.REQUEST_SEND]: {
+    request: { request: MqttRequest; connectionId?: string };
+    response: MqttRequestResult;
+  };
+  // Collections are kept per connection profile (defaults to the active session's)
+  [IPC_CHANNELS.REQUEST_GET_COLLECTION]: {
+    request: string | void;
+    response: SavedRequest[];
+  };
+  [IPC_CHANNELS.REQUEST_SAVE_COLLECTION]: {
+    request: { requests: SavedRequest[]; connectionId?: string };
+    response: SavedRequest[];
+  };
+  // Templates are kept per connection profile (defaults to the active session's)
+  [IPC_CHANNELS.TEMPLATE_GET]: {
+    request: string | void;
+    response: PublishTemplateSet;
+  };
+  [IPC_CHANNELS.TEMPLATE_SAVE]: {
+    request: { templateSet: PublishTemplateSet; connectionId?: string };
+    response: PublishTemplateSet;
+  };
+  [IPC_CHANNELS.PUBLISH_JOB_START]: {
+    request: PublishJobConfig;
+    response: PublishJob;
+  };
+  [IPC_CHANNELS.PUBLISH_JOB_STOP]: {
+    request: string; // Job ID
+    response: void;
+  };
+  [IPC_CHANNELS.PUBLISH_JOB_REMOVE]: {
+    request: string; // Job ID
+    response: void;
+  };
+  [IPC_CHANNELS.PUBLISH_JOB_LIST]: {
+    request: void;
+    response: PublishJob[];
+  };
+  [IPC_CHANNELS.SIMULATOR_GET_FLEETS]: {
+    request: void;
+    response: SimulatorFleet[];
+  };
+  [IPC_CHANNELS.SIMULATOR_SAVE_FLEETS]: {
+    request: SimulatorFleet[];
+    response: SimulatorFleet[];
+  };
+  [IPC_CHANNELS.SIMULATOR_START]: {
+    request: { fleetId: string; connectionId?: string };
+    response: SimulatorRun;
+  };
+  [IPC_CHANNELS.SIMULATOR_STOP]: {
+    request: string; // Fleet ID
+    response: void;
+  };
+  [IPC_CHANNELS.SIMULATOR_GET_RUNS]: {
+    request: void;
+    response: SimulatorRun[];
+  };
+  [IPC_CHANNELS.RETAINED_LIST]: {
+    request: { topicFilter?: string; connectionId?: string };
+    response: MqttMessage[];
+  };
+  [IPC_CHANNELS.RETAINED_CLEAR]: {
+    request: { topicFilter: string; dryRun: boolean; connectionId?: string };
+    response: RetainedClearResult;
+  };
+  [IPC_CHANNELS.SYS_MONITOR_START]: {
+    request: string | undefined; // Connection ID (defaults to the active session)
+    response: SysMonitorState;
+  };
+  [IPC_CHANNELS.SYS_MONITOR_STOP]: {
+    request: string | undefined;
+    response: void;
+  };
+  [IPC_CHANNELS.SYS_MONITOR_GET]: {
+    request: string | undefined;
+    response: SysMonitorState | null; // Null when the session isn't monitored
+  };
+  // Compares stored history of two connections, or of one connection at two time windows
+  [IPC_CHANNELS.TOPIC_TREE_DIFF]: {
+    request: { before: TopicSnapshotSource; after: TopicSnapshotSource };
+    response: TopicTreeDiff;
+  };
+  // Learns from the topic's most recent stored messages; the topic may be a filter
+  [IPC_CHANNELS.SCHEMA_INFER]: {
+    request: { topic: string; connectionId?: string };
+    response: InferredSchema;
+  };
 }
 
 // Type-safe IPC API interface
@@ -30,6 +30,27 @@ export interface ConnectionConfig {
     topic: string;
     qos: QoS;
   }>;
+  payloadSchemas?: PayloadSchemaAssignment[]; // JSON Schemas incoming payloads are validated against
+  payloadDecoders?: PayloadDecoderAssignment[]; // Decoders for payloads that aren't auto-detected correctly
+}
+
+// Payload decoder assigned to a topic pattern
+export interface PayloadDecoderAssignment {
+  topicPattern: string; // Topic filter (supports wildcards); the first matching assignment applies
+  decoder: string; // Decoder ID, e.g. 'msgpack' or 'gzip' (see shared/utils/payloadDecoders)
+}
+
+// JSON Schema document attached to a topic pattern
+export interface PayloadSchemaAssignment {
+  topicPattern: string; // Topic filter (supports wildcards); the first matching assignment applies
+  schema: string; // JSON Schema document as JSON text
+}
+
+// Result of validating a payload against the schema of its topic pattern
+export interface PayloadValidation {
+  topicPattern: string;
+  valid: boolean;
+  errors: string[]; // e.g. '$.items[0].sku: must be string'
 }
 
 // MQTT Quality of Service levels
@@ -38,16 +59,31 @@ export type QoS = 0 | 1 | 2;
 // MQTT 5.0 User Properties (key-value pairs)
 export type UserProperties = Record<string, string | string[]>;
 
+// MQTT 5.0 PUBLISH properties (user properties are carried separately)
+export interface MessageProperties {
+  contentType?: string;
+  payloadFormatIndicator?: boolean; // true when the payload is declared UTF-8 text
+  messageExpiryInterval?: number; // Seconds (on receive: the remaining lifetime)
+  responseTopic?: string;
+  correlationData?: Buffer | Uint8Array | string; // Binary; strings are sent as UTF-8
+  topicAlias?: number;
+  subscriptionIdentifiers?: number[]; // Receive only: identifiers of the matching subscriptions
+}
+
 // MQTT Message
 export interface MqttMessage {
   id: string;
   topic: string;
-  payload: Buffer | string;
+  payload: Buffer | Uint8Array | string; // Buffer in main, Uint8Array after crossing IPC
+  payloadText?: string; // UTF-8 preview, set by main for renderer messages when the payload is valid text
   qos: QoS;
   retained: boolean;
   timestamp: number;
   connectionId?: string;
   userProperties?: UserProperties;
+  properties?: MessageProperties; // MQTT 5.0 only
+  sparkplug?: SparkplugMessageInfo; // Decoded Sparkplug B payload (spBv1.0 topics only)
+  validation?: PayloadValidation; // Set when a payload schema applies to the topic
 }
 
 // Connection Status
@@ -64,6 +100,18 @@ export interface ConnectionState {
   connectedAt?: number;
 }
 
+// Open broker session (one per simultaneously connected profile)
+export interface SessionInfo {
+  connectionId: string;
+  name: string;
+  host: string;
+  port: number;
+  protocol: ConnectionConfig['protocol'];
+  status: ConnectionStatus;
+  connectedAt?: number;
+  active: boolean; // Default target for requests that don't name a connection
+}
+
 // Topic Tree Node
 export interface TopicNode {
   name: string;
@@ -72,6 +120,34 @@ export interface TopicNode {
   messageCount: number;
   lastMessage?: MqttMessage;
   subscribed: boolean;
+  firstSeen?: number;
+  lastSeen?: number;
+  rate: number; // Decaying messages/second as of lastSeen
+  minPayloadBytes?: number;
+  maxPayloadBytes?: number;
+  totalPayloadBytes: number;
+}
+
+// A topic's stored messages, summarised to rebuild the topic tree from history
+export interface StoredTopicSummary {
+  lastMessage: MqttMessage;
+  messageCount: number;
+  firstSeen: number;
+  minPayloadBytes: number;
+  maxPayloadBytes: number;
+  totalPayloadBytes: number;
+}
+
+// Message statistics of a topic, or of a topic and every topic below it
+export interface TopicStats {
+  messageCount: number;
+  messagesPerSecond: number; // Averaged over about the last minute
+  firstSeen?: number;
+  lastSeen?: number;
+  minPayloadBytes?: number;
+  avgPayloadBytes?: number;
+  maxPayloadBytes?: number;
+  totalPayloadBytes: number;
 }
 
 // Publish Options
@@ -79,12 +155,73 @@ export interface PublishOptions {
   qos: QoS;
   retain: boolean;
   userProperties?: UserProperties;
+  // Clients may not send subscription identifiers; set them when subscribing instead
+  properties?: Omit<MessageProperties, 'subscriptionIdentifiers'>;
+}
+
+// How the publisher turns the payload editor text into bytes: hex, base64,
+// msgpack and cbor (a JSON value) are encoded in the renderer; file sends a
+// file's bytes
+export type PublishPayloadType = 'text' | 'json' | 'hex' | 'base64' | 'msgpack' | 'cbor' | 'file';
+
+// Saved publish message; topic, payload and user property values may contain
+// template variables such as {{timestamp}} (see shared/utils/templateVariables)
+export interface PublishTemplate {
+  id: string;
+  name: string;
+  topic: string;
+  payload: string;
+  payloadType: Exclude<PublishPayloadType, 'file'>;
+  qos: QoS;
+  retain: boolean;
+  userProperties?: Record<string, string>;
+}
+
+// Publish templates of a connection profile, with the environment values they can reference
+export interface PublishTemplateSet {
+  templates: PublishTemplate[];
+  environment: Record<string, string>; // Referenced as {{env.NAME}}
+}
+
+// When a publish job sends: every intervalMs, or at the times matching a cron
+// expression ("[second] minute hour day-of-month month day-of-week")
+export type PublishJobSchedule =
+  | { type: 'interval'; intervalMs: number }
+  | { type: 'cron'; expression: string };
+
+// Periodic publishing job, run by the main process
+export interface PublishJobConfig {
+  name?: string;
+  topic: string; // Template variables are rendered for every message
+  payload: string;
+  qos: QoS;
+  retain: boolean;
+  userProperties?: Record<string, string>;
+  schedule: PublishJobSchedule;
+  durationMs?: number; // Runs until stopped when omitted
+  connectionId?: string; // Defaults to the active session
+}
+
+export type PublishJobStatus = 'running' | 'stopped' | 'completed';
+
+export interface PublishJob extends PublishJobConfig {
+  id: string;
+  connectionId: string;
+  status: PublishJobStatus;
+  startedAt: number;
+  endedAt?: number;
+  nextRunAt?: number;
+  sentCount: number;
+  errorCount: number;
+  lastSentAt?: number;
+  lastError?: string;
 }
 
 // Subscription
 export interface Subscription {
   topic: string;
   qos: QoS;
+  subscriptionIdentifier?: number; // MQTT 5.0; echoed back on matching messages
 }
 
 // Message Search/Filter Criteria
@@ -100,6 +237,387 @@ export interface MessageFilter {
   connectionId?: string; // Filter by connection
   userPropertyKey?: string; // Filter by user property key
   userPropertyValue?: string; // Filter by user property value
+  contentType?: string; // MQTT 5.0 content type contains this text
+  responseTopic?: string; // MQTT 5.0 response topic (supports wildcards)
+  correlationData?: string; // MQTT 5.0 correlation data, as UTF-8 text or hex
+  subscriptionIdentifier?: number; // MQTT 5.0 subscription identifier
+  invalidOnly?: boolean; // Only messages that failed payload schema validation
+}
+
+// Protobuf schema file registered for payload decoding
+export interface ProtobufSchemaFile {
+  id: string;
+  name: string;
+  format: 'proto' | 'descriptor-set';
+  content: string; // .proto source, or base64-encoded FileDescriptorSet
+  addedAt: number;
+}
+
+// Maps a topic pattern (MQTT wildcards allowed) to a fully-qualified message type
+export interface ProtobufTopicMapping {
+  topicPattern: string;
+  messageType: string;
+}
+
+export interface ProtobufRegistry {
+  files: ProtobufSchemaFile[];
+  mappings: ProtobufTopicMapping[];
+}
+
+// Sparkplug B message types carried in the topic
+export type SparkplugMessageType =
+  | 'NBIRTH'
+  | 'NDEATH'
+  | 'DBIRTH'
+  | 'DDEATH'
+  | 'NDATA'
+  | 'DDATA'
+  | 'NCMD'
+  | 'DCMD';
+
+// Parsed spBv1.0/<group_id>/<message_type>/<edge_node_id>[/<device_id>] topic
+export interface SparkplugTopic {
+  groupId: string;
+  messageType: SparkplugMessageType;
+  edgeNodeId: string;
+  deviceId?: string;
+}
+
+// Metric value; 64-bit integers that don't fit a number are kept as strings,
+// DataSet and Template values as their decoded objects
+export type SparkplugValue = number | string | boolean | null | Record<string, unknown>;
+
+export interface SparkplugMetric {
+  name?: string; // Resolved from the birth certificate when the metric only carries an alias
+  alias?: number;
+  timestamp?: number;
+  datatype: string;
+  value: SparkplugValue;
+  isHistorical?: boolean;
+  isTransient?: boolean;
+}
+
+// Decoded Sparkplug B payload together with its topic parts
+export interface SparkplugMessageInfo extends SparkplugTopic {
+  timestamp?: number;
+  seq?: number;
+  uuid?: string;
+  metrics: SparkplugMetric[];
+}
+
+// Latest known value of a metric in the Sparkplug explorer
+export interface SparkplugMetricState extends SparkplugMetric {
+  name: string;
+  updatedAt: number;
+}
+
+export interface SparkplugDeviceState {
+  deviceId: string;
+  online: boolean;
+  lastBirth?: number;
+  lastDeath?: number;
+  lastMessage?: number;
+  metrics: SparkplugMetricState[];
+}
+
+export interface SparkplugEdgeNodeState {
+  edgeNodeId: string;
+  online: boolean;
+  lastBirth?: number;
+  lastDeath?: number;
+  lastMessage?: number;
+  metrics: SparkplugMetricState[];
+  devices: SparkplugDeviceState[];
+}
+
+export interface SparkplugGroupState {
+  groupId: string;
+  edgeNodes: SparkplugEdgeNodeState[];
+}
+
+// Message retention limits (count and size limits apply to each connection separately)
+export interface RetentionLimits {
+  maxAgeDays?: number;
+  maxMessages?: number;
+  maxStorageMB?: number; // Stored payload bytes per connection
+}
+
+// Retention policy enforced by the main process
+export interface RetentionSettings extends RetentionLimits {
+  enabled: boolean;
+  intervalMinutes: number;
+  compactAfterPrune: boolean; // VACUUM and rebuild the full-text index after deleting
+}
+
+// Outcome of a retention run (or a preview of one)
+export interface RetentionResult {
+  dryRun: boolean;
+  deletedByAge: number;
+  deletedByCount: number;
+  deletedBySize: number;
+  totalDeleted: number;
+  compacted: boolean;
+  timestamp: number;
+}
+
+export interface RetentionStatus {
+  settings: RetentionSettings;
+  lastRun?: RetentionResult;
+  databaseSize: number; // Bytes on disk
+}
+
+// Local HTTP/WebSocket automation API (bound to 127.0.0.1 only)
+export interface AutomationSettings {
+  enabled: boolean;
+  port: number;
+  token: string; // Sent as "Authorization: Bearer <token>" (or ?token= for WebSocket clients)
+}
+
+export interface AutomationStatus {
+  settings: AutomationSettings;
+  running: boolean;
+  url?: string;
+  clientCount: number; // Connected WebSocket clients
+  error?: string;
+}
+
+// Alert rule conditions, evaluated on each message whose topic matches the rule
+export type AlertCondition =
+  | {
+      type: 'threshold'; // Extracted value outside [min, max]
+      fieldPath?: string; // Dot path into decoded payloads (JSON, MessagePack, CBOR, ...), or a Sparkplug metric name
+      min?: number;
+      max?: number;
+    }
+  | {
+      type: 'regex'; // Payload text matches a regular expression
+      pattern: string;
+      flags?: string;
+    }
+  | {
+      type: 'absence'; // A topic that has published goes silent
+      seconds: number;
+    }
+  | {
+      type: 'rate'; // Matching messages arrive faster than maxPerSecond
+      maxPerSecond: number;
+      windowSeconds: number;
+    };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  topicPattern: string; // MQTT wildcards allowed
+  connectionId?: string; // Only messages from this connection (any session when omitted)
+  condition: AlertCondition;
+  cooldownSeconds: number; // Minimum time between alerts for the same rule and topic
+  notify: boolean; // Show a desktop notification
+}
+
+// Entry in the alert log
+export interface AlertEvent {
+  id: number;
+  ruleId: string;
+  ruleName: string;
+  conditionType: AlertCondition['type'];
+  topic: string; // Topic (or topic pattern, for rate alerts) that raised the alert
+  connectionId?: string;
+  message: string;
+  value?: number;
+  timestamp: number;
+}
+
+// MQTT 5.0 request sent by the request/response tester
+export interface MqttRequest {
+  topic: string;
+  payload: string;
+  qos: QoS;
+  responseTopic?: string; // A unique topic is generated when omitted
+  contentType?: string;
+  timeoutMs?: number; // Default 10 s
+}
+
+// Saved request in a connection's request collection
+export interface SavedRequest extends MqttRequest {
+  id: string;
+  name: string;
+}
+
+// Outcome of a request: the reply is matched by correlation data on the response topic
+export interface MqttRequestResult {
+  status: 'success' | 'timeout';
+  correlationId: string;
+  responseTopic: string;
+  sentAt: number;
+  latencyMs?: number; // Round trip from publishing the request to receiving the reply
+  response?: MqttMessage;
+}
+
+// Value generator of a simulated device fleet
+export type SimulatorGenerator =
+  | {
+      type: 'sine';
+      min: number;
+      max: number;
+      periodSeconds: number; // Devices are spread evenly over the period
+    }
+  | {
+      type: 'randomWalk';
+      start: number;
+      step: number; // Largest change per message
+      min?: number;
+      max?: number;
+    }
+  | {
+      type: 'step'; // Cycles through the values, holding each one
+      values: number[];
+      holdSeconds: number;
+    }
+  | {
+      type: 'csv'; // Replays a column of a CSV file (with a header row)
+      csv: string;
+      column: string;
+      loop: boolean; // Devices stop at the last row otherwise
+    };
+
+// Fleet of simulated devices publishing generated values
+export interface SimulatorFleet {
+  id: string;
+  name: string;
+  topicPattern: string; // {{n}} is replaced by the device number, e.g. factory/line{{n}}/temp
+  deviceCount: number;
+  intervalMs: number; // Time between the messages of each device
+  payloadTemplate: string; // {{value}} and {{n}} plus the publish template variables
+  decimals: number; // Generated numbers are rounded to this many decimals
+  generator: SimulatorGenerator;
+  qos: QoS;
+  retain: boolean;
+}
+
+// Running (or finished) simulation of a fleet
+export interface SimulatorRun {
+  fleetId: string;
+  connectionId: string;
+  running: boolean;
+  startedAt: number;
+  endedAt?: number;
+  sentCount: number;
+  errorCount: number;
+  lastError?: string;
+}
+
+// Result of clearing retained messages by publishing empty retained payloads
+export interface RetainedClearResult {
+  dryRun: boolean;
+  topics: string[]; // Topics cleared, or that a dry run would clear
+  failed: Array<{ topic: string; error: string }>;
+}
+
+// Broker metrics read from $SYS topics (Mosquitto, EMQX and the HiveMQ $SYS extension)
+export type SysMetricKey =
+  | 'clientsConnected'
+  | 'subscriptions'
+  | 'messagesReceived' // Totals since the broker started
+  | 'messagesSent'
+  | 'messagesReceivedLoad' // Per minute, averaged over the last minute
+  | 'messagesSentLoad'
+  | 'bytesReceivedLoad'
+  | 'bytesSentLoad'
+  | 'uptimeSeconds';
+
+export interface SysMetricPoint {
+  timestamp: number;
+  value: number;
+}
+
+// $SYS message received by the broker monitor
+export interface SysTopicUpdate {
+  connectionId: string;
+  topic: string;
+  value: string;
+  timestamp: number;
+  metric?: SysMetricKey; // Set when the topic is a known metric
+  metricValue?: number; // The metric's value across all broker nodes
+  broker?: string; // Set when the topic is the broker's version
+}
+
+// Broker monitor of a session
+export interface SysMonitorState {
+  connectionId: string;
+  broker?: string; // e.g. "mosquitto version 2.0.18"
+  topics: Record<string, { value: string; timestamp: number }>; // Latest value of every $SYS topic
+  metrics: Partial<Record<SysMetricKey, SysMetricPoint[]>>;
+}
+
+// One side of a topic tree comparison: a connection's stored messages,
+// optionally limited to a time window
+export interface TopicSnapshotSource {
+  connectionId: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+export type TopicDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// A topic's traffic on one side of a comparison
+export interface TopicSnapshotStats {
+  messageCount: number;
+  messagesPerMinute: number; // Over the snapshot's time span
+  avgPayloadBytes: number;
+}
+
+// JSON field whose type differs between the two sides ("$" is the whole payload)
+export interface PayloadShapeChange {
+  path: string;
+  before?: string; // Missing when the field was added
+  after?: string; // Missing when the field was removed
+}
+
+export interface TopicDiffEntry {
+  topic: string;
+  status: TopicDiffStatus;
+  before?: TopicSnapshotStats;
+  after?: TopicSnapshotStats;
+  rateChange?: number; // Relative change in message rate, e.g. 0.5 for 50% more
+  shapeChanges: PayloadShapeChange[];
+}
+
+export interface TopicTreeDiff {
+  entries: TopicDiffEntry[]; // Sorted by topic
+  counts: Record<TopicDiffStatus, number>;
+}
+
+// JSON value type told apart by schema inference ('integer' for whole numbers)
+export type JsonValueType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null';
+
+// What was learned about a value of a topic's JSON payloads: the payload itself,
+// a field or the elements of an array
+export interface InferredSchemaNode {
+  count: number; // Times the value was seen
+  types: Partial<Record<JsonValueType, number>>; // Times it was seen with each type
+  minimum?: number;
+  maximum?: number;
+  minLength?: number; // Of strings
+  maxLength?: number;
+  values?: Array<string | number | boolean>; // Set when only a few distinct values were seen (enum-like)
+  properties?: Record<string, InferredSchemaNode>; // Required when seen in every object
+  items?: InferredSchemaNode;
+}
+
+// Structure of a topic's JSON payloads, learned from stored messages
+export interface InferredSchema {
+  topic: string; // Topic or topic filter learned from
+  sampleSize: number; // Messages learned from
+  jsonCount: number; // Of which were JSON
+  learnedAt: number;
+  root?: InferredSchemaNode; // Missing when none of the messages was JSON
+}
+
+// Way a message differs from the learned shape of its topic
+export interface SchemaDeviation {
+  path: string; // "$" for the payload, "$.a.b" for fields, "$.items[]" for array elements
+  message: string;
 }
 
 // Statistics
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBson, isBson } from './bson';
+import { parseHex } from './bytes';
+
+// Documents, mostly from the BSON specification's test corpus
+// (github.com/mongodb/specifications, source/bson-corpus)
+const VALID: Array<[string, string, Record<string, unknown>]> = [
+  ['double', '10000000016400000000000000F03F00', { d: 1 }],
+  ['negative double', '10000000016400000000000000F0BF00', { d: -1 }],
+  ['string', '190000000261000D0000006162636465666768696A6B6C0000', { a: 'abcdefghijkl' }],
+  ['UTF-8 string', '190000000261000D000000C3A9C3A9C3A9C3A9C3A9C3A90000', { a: 'éééééé' }],
+  ['embedded document', '150000000378000D00000002000200000062000000', { x: { '': 'b' } }],
+  ['array', '140000000461000C0000001030000A0000000000', { a: [10] }],
+  ['binary', '0F0000000578000200000000FFFF00', { x: Uint8Array.of(0xff, 0xff) }],
+  ['undefined', '0800000006610000', { a: null }],
+  ['ObjectId', '1400000007610056E1FC72E0C917E9C471416100', { a: '56e1fc72e0c917e9c4714161' }],
+  ['true', '090000000862000100', { b: true }],
+  ['false', '090000000862000000', { b: false }],
+  ['epoch date', '10000000096100000000000000000000', { a: '1970-01-01T00:00:00.000Z' }],
+  ['date', '10000000096100C5D8D6CC3B01000000', { a: '2012-12-24T12:15:30.501Z' }],
+  ['null', '080000000A610000', { a: null }],
+  ['regular expression', '0F0000000B610061626300696D0000', { a: '/abc/im' }],
+  ['code', '160000000D61000A0000006162636465666768690000', { a: 'abcdefghi' }],
+  ['int32', '0C0000001069000100000000', { i: 1 }],
+  ['negative int32', '0C0000001069000000008000', { i: -2147483648 }],
+  ['timestamp', '100000001161002A00000015CD5B0700', { a: { t: 123456789, i: 42 } }],
+  ['int64', '10000000126100FFFFFFFFFFFFFFFF00', { a: -1 }],
+  ['min key', '08000000FF610000', { a: '$minKey' }],
+  ['max key', '080000007F610000', { a: '$maxKey' }],
+];
+
+// Malformed documents and the errors they raise
+const INVALID: Array<[string, string, string]> = [
+  ['too short', '0400000000', 'Invalid document length'],
+  ['length past the end', '0D0000001061000100000000', 'Invalid document length'],
+  ['missing terminator', '0C0000001069000100000001', 'Invalid document length'],
+  ['string length past the end', '10000000026100060000006162630000', 'Unexpected end'],
+  ['string without its zero byte', '1100000002610005000000616263646500', 'Invalid string'],
+  ['invalid UTF-8', '100000000261000400000061C3280000', 'not valid'],
+  ['unknown element type', '0800000020610000', 'Unknown BSON element type 0x20'],
+];
+
+describe('decodeBson', () => {
+  it.each(VALID)('decodes a %s', (_name, hex, expected) => {
+    const bytes = parseHex(hex);
+    expect(isBson(bytes)).toBe(true);
+    expect(decodeBson(bytes)).toEqual(expected);
+  });
+
+  it.each(INVALID)('refuses a document with a %s', (_name, hex, message) => {
+    expect(() => decodeBson(parseHex(hex))).toThrow(message);
+  });
+
+  it('keeps the order of fields and array elements', () => {
+    // { b: 1, a: [ 'x', 'y' ] }
+    const decoded = decodeBson(parseHex('2600000010620001000000046100170000000230000200000078000231000200000079000000'));
+    expect(Object.keys(decoded)).toEqual(['b', 'a']);
+    expect(decoded.a).toEqual(['x', 'y']);
+  });
+
+  it('keeps a "__proto__" field as a field', () => {
+    const decoded = decodeBson(parseHex('14000000105F5F70726F746F5F5F000100000000'));
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded)).toEqual(['__proto__']);
+    expect(JSON.stringify(decoded)).toBe('{"__proto__":1}');
+  });
+
+  it('refuses documents nested too deeply', () => {
+    // 300 documents, each holding the next under the key ""
+    let bytes = parseHex('0500000000');
+    for (let i = 0; i < 300; i++) {
+      const outer = new Uint8Array(bytes.length + 7);
+      new DataView(outer.buffer).setInt32(0, outer.length, true);
+      outer.set([0x03, 0x00, ...bytes], 4);
+      bytes = outer;
+    }
+    expect(() => decodeBson(bytes)).toThrow('nested too deeply');
+  });
+});
+
+describe('isBson', () => {
+  it('checks the length prefix and the terminating zero', () => {
+    expect(isBson(parseHex('0500000000'))).toBe(true);
+    expect(isBson(parseHex('0600000000'))).toBe(false);
+    expect(isBson(parseHex('0500000001'))).toBe(false);
+    expect(isBson(new TextEncoder().encode('{"a":1}'))).toBe(false);
+  });
+});
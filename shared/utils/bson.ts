@@ -0,0 +1,193 @@
+// BSON (bsonspec.org) document decoding, shared by the main process and the
+// renderer
+//
+// Documents decode to plain JSON-like data: ObjectIds become hex strings,
+// dates ISO strings, binary Uint8Array and 64-bit integers numbers.
+
+// Nesting depth beyond which a payload is refused
+const MAX_DEPTH = 256;
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Set a field of a decoded object; like JSON.parse, a "__proto__" key becomes
+ * a field rather than replacing the prototype
+ */
+function setField(object: Record<string, unknown>, key: string, value: unknown): void {
+  if (key === '__proto__') {
+    Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+  } else {
+    object[key] = value;
+  }
+}
+
+/**
+ * Check if bytes are framed like a BSON document: a length prefix matching the
+ * payload size and a trailing zero byte
+ */
+export function isBson(bytes: Uint8Array): boolean {
+  if (bytes.length < 5 || bytes[bytes.length - 1] !== 0) {
+    return false;
+  }
+  const length = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getInt32(0, true);
+  return length === bytes.length;
+}
+
+/**
+ * Decode a BSON document
+ * Throws if the bytes are not a single well-formed document.
+ */
+export function decodeBson(bytes: Uint8Array): Record<string, unknown> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let position = 0;
+
+  const need = (count: number): void => {
+    if (count < 0 || position + count > bytes.length) {
+      throw new Error('Unexpected end of BSON data');
+    }
+  };
+
+  const readInt32 = (): number => {
+    need(4);
+    position += 4;
+    return view.getInt32(position - 4, true);
+  };
+
+  const readCString = (): string => {
+    const end = bytes.indexOf(0, position);
+    if (end === -1) {
+      throw new Error('Unterminated string in BSON data');
+    }
+    const text = utf8Decoder.decode(bytes.subarray(position, end));
+    position = end + 1;
+    return text;
+  };
+
+  const readString = (): string => {
+    const length = readInt32();
+    need(length);
+    if (length < 1 || bytes[position + length - 1] !== 0) {
+      throw new Error('Invalid string in BSON data');
+    }
+    position += length;
+    return utf8Decoder.decode(bytes.subarray(position - length, position - 1));
+  };
+
+  const readBytes = (count: number): Uint8Array => {
+    need(count);
+    position += count;
+    // A copy, and a plain Uint8Array even when decoding a Buffer
+    return new Uint8Array(bytes.subarray(position - count, position));
+  };
+
+  const readDocument = (depth: number, asArray: boolean): Record<string, unknown> | unknown[] => {
+    if (depth > MAX_DEPTH) {
+      throw new Error('BSON data is nested too deeply');
+    }
+    const start = position;
+    const length = readInt32();
+    const end = start + length;
+    if (length < 5 || end > bytes.length || bytes[end - 1] !== 0) {
+      throw new Error('Invalid document length in BSON data');
+    }
+
+    const document: Record<string, unknown> = {};
+    const items: unknown[] = [];
+    while (position < end - 1) {
+      const type = bytes[position++];
+      const name = readCString();
+      const value = readValue(type, depth);
+      if (asArray) {
+        items.push(value);
+      } else {
+        setField(document, name, value);
+      }
+    }
+    if (position !== end - 1) {
+      throw new Error('Invalid document length in BSON data');
+    }
+    position = end;
+    return asArray ? items : document;
+  };
+
+  const readValue = (type: number, depth: number): unknown => {
+    switch (type) {
+      case 0x01:
+        need(8);
+        position += 8;
+        return view.getFloat64(position - 8, true);
+      case 0x02: // String
+      case 0x0d: // JavaScript code
+      case 0x0e: // Symbol
+        return readString();
+      case 0x03:
+        return readDocument(depth + 1, false);
+      case 0x04:
+        return readDocument(depth + 1, true);
+      case 0x05: {
+        const length = readInt32();
+        need(1);
+        position++; // Subtype
+        return readBytes(length);
+      }
+      case 0x06: // Undefined
+      case 0x0a:
+        return null;
+      case 0x07:
+        return toHex(readBytes(12));
+      case 0x08:
+        need(1);
+        return bytes[position++] !== 0;
+      case 0x09: {
+        need(8);
+        position += 8;
+        const date = new Date(Number(view.getBigInt64(position - 8, true)));
+        return isNaN(date.getTime()) ? null : date.toISOString();
+      }
+      case 0x0b: {
+        const pattern = readCString();
+        return `/${pattern}/${readCString()}`;
+      }
+      case 0x0c: {
+        // DBPointer
+        const namespace = readString();
+        return { $ref: namespace, $id: toHex(readBytes(12)) };
+      }
+      case 0x0f: {
+        // JavaScript code with scope
+        readInt32();
+        const code = readString();
+        return { $code: code, $scope: readDocument(depth + 1, false) };
+      }
+      case 0x10:
+        return readInt32();
+      case 0x11: {
+        need(8);
+        position += 8;
+        return { t: view.getUint32(position - 4, true), i: view.getUint32(position - 8, true) };
+      }
+      case 0x12:
+        need(8);
+        position += 8;
+        return Number(view.getBigInt64(position - 8, true));
+      case 0x13:
+        return `decimal128(${toHex(readBytes(16))})`;
+      case 0xff:
+        return '$minKey';
+      case 0x7f:
+        return '$maxKey';
+      default:
+        throw new Error(`Unknown BSON element type 0x${type.toString(16)}`);
+    }
+  };
+
+  const document = readDocument(0, false) as Record<string, unknown>;
+  if (position !== bytes.length) {
+    throw new Error(`Extra ${bytes.length - position} byte(s) after BSON document`);
+  }
+  return document;
+}
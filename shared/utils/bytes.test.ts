@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToBase64, bytesToHex, parseBase64, parseHex } from './bytes';
+
+const bytes = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+describe('parseHex', () => {
+  it('ignores whitespace, colons and 0x prefixes', () => {
+    const expected = Uint8Array.of(0xde, 0xad, 0xbe, 0xef);
+    expect(parseHex('deadbeef')).toEqual(expected);
+    expect(parseHex('DE:AD:BE:EF')).toEqual(expected);
+    expect(parseHex('0xde 0xad\n0xbe 0xef')).toEqual(expected);
+    expect(parseHex('')).toEqual(new Uint8Array());
+  });
+
+  it('rejects other characters and odd digit counts', () => {
+    expect(() => parseHex('xyz1')).toThrow('may only contain 0-9 and a-f');
+    expect(() => parseHex('abc')).toThrow('odd number of digits');
+  });
+
+  it('reads what bytesToHex writes', () => {
+    const all = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(bytesToHex(Uint8Array.of(0, 15, 255))).toBe('00 0f ff');
+    expect(parseHex(bytesToHex(all))).toEqual(all);
+  });
+});
+
+describe('parseBase64', () => {
+  // Test vectors of RFC 4648, section 10
+  it.each([
+    ['', ''],
+    ['f', 'Zg=='],
+    ['fo', 'Zm8='],
+    ['foo', 'Zm9v'],
+    ['foob', 'Zm9vYg=='],
+    ['fooba', 'Zm9vYmE='],
+    ['foobar', 'Zm9vYmFy'],
+  ])('decodes "%s" from %s and back', (text, base64) => {
+    expect(parseBase64(base64)).toEqual(bytes(text));
+    expect(bytesToBase64(bytes(text))).toBe(base64);
+  });
+
+  it('accepts URL-safe base64, missing padding and whitespace', () => {
+    const expected = Uint8Array.of(0xfb, 0xff, 0xbf);
+    expect(parseBase64('+/+/')).toEqual(expected);
+    expect(parseBase64('-_-_')).toEqual(expected);
+    expect(parseBase64('aGk')).toEqual(bytes('hi'));
+    expect(parseBase64('aG Vs\nbG8=')).toEqual(bytes('hello'));
+  });
+
+  it('rejects invalid base64', () => {
+    expect(() => parseBase64('a*bc')).toThrow('Invalid base64');
+    expect(() => parseBase64('abcde')).toThrow('Invalid base64');
+    expect(() => parseBase64('ab=c')).toThrow('Invalid base64');
+  });
+
+  it('reads what bytesToBase64 writes', () => {
+    const all = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(parseBase64(bytesToBase64(all))).toEqual(all);
+    expect(parseBase64(bytesToBase64(all.subarray(1)))).toEqual(all.subarray(1));
+  });
+});
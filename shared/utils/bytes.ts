@@ -0,0 +1,71 @@
+// Conversions between bytes and hex or base64 text, shared by the main process
+// and the renderer (payload decoders, the publisher and payload views)
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Format bytes as space-separated hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return result;
+}
+
+/**
+ * Parse hex bytes, ignoring whitespace, colons and 0x prefixes
+ * e.g. "de ad be ef", "DE:AD:BE:EF" or "0xde 0xad"
+ */
+export function parseHex(text: string): Uint8Array {
+  const digits = text.replace(/0x/gi, '').replace(/[\s:]/g, '');
+  if (!/^[0-9a-fA-F]*$/.test(digits)) {
+    throw new Error('Hex may only contain 0-9 and a-f');
+  }
+  if (digits.length % 2 !== 0) {
+    throw new Error('Hex has an odd number of digits');
+  }
+
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Parse base64 (standard or URL-safe, padded or not), ignoring whitespace
+ */
+export function parseBase64(text: string): Uint8Array {
+  const normalized = text.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  const digits = normalized.replace(/=+$/, '');
+  if (!BASE64_PATTERN.test(normalized) || digits.length % 4 === 1) {
+    throw new Error('Invalid base64');
+  }
+
+  const bytes = new Uint8Array(Math.floor((digits.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of digits) {
+    buffer = ((buffer << 6) | BASE64_ALPHABET.indexOf(char)) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { parseHex } from './bytes';
+import { CborTag, decodeCbor, describeCborTag, encodeCbor, isSelfDescribedCbor, looksLikeCbor } from './cbor';
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Examples of encoded CBOR data items (RFC 8949, Appendix A) and what they decode to
+const EXAMPLES: Array<[string, unknown]> = [
+  ['00', 0],
+  ['01', 1],
+  ['0a', 10],
+  ['17', 23],
+  ['1818', 24],
+  ['1819', 25],
+  ['1864', 100],
+  ['1903e8', 1000],
+  ['1a000f4240', 1000000],
+  ['1b000000e8d4a51000', 1000000000000],
+  // 64-bit integers and bignums lose precision beyond 2^53
+  ['1bffffffffffffffff', 2 ** 64],
+  ['c249010000000000000000', new CborTag(2, 2 ** 64)],
+  ['3bffffffffffffffff', -(2 ** 64)],
+  ['c349010000000000000000', new CborTag(3, -(2 ** 64))],
+  ['20', -1],
+  ['29', -10],
+  ['3863', -100],
+  ['3903e7', -1000],
+  ['f90000', 0],
+  ['f98000', -0],
+  ['f93c00', 1],
+  ['fb3ff199999999999a', 1.1],
+  ['f93e00', 1.5],
+  ['f97bff', 65504],
+  ['fa47c35000', 100000],
+  ['fa7f7fffff', 3.4028234663852886e38],
+  ['fb7e37e43c8800759c', 1e300],
+  ['f90001', 5.960464477539063e-8],
+  ['f90400', 0.00006103515625],
+  ['f9c400', -4],
+  ['fbc010666666666666', -4.1],
+  ['f97c00', Infinity],
+  ['f97e00', NaN],
+  ['f9fc00', -Infinity],
+  ['fa7f800000', Infinity],
+  ['fa7fc00000', NaN],
+  ['faff800000', -Infinity],
+  ['fb7ff0000000000000', Infinity],
+  ['fb7ff8000000000000', NaN],
+  ['fbfff0000000000000', -Infinity],
+  ['f4', false],
+  ['f5', true],
+  ['f6', null],
+  ['f7', null],
+  ['f0', 'simple(16)'],
+  ['f8ff', 'simple(255)'],
+  ['c074323031332d30332d32315432303a30343a30305a', new CborTag(0, '2013-03-21T20:04:00Z')],
+  ['c11a514b67b0', new CborTag(1, 1363896240)],
+  ['c1fb41d452d9ec200000', new CborTag(1, 1363896240.5)],
+  ['d74401020304', new CborTag(23, Uint8Array.of(1, 2, 3, 4))],
+  ['d818456449455446', new CborTag(24, Uint8Array.of(0x64, 0x49, 0x45, 0x54, 0x46))],
+  ['d82076687474703a2f2f7777772e6578616d706c652e636f6d', new CborTag(32, 'http://www.example.com')],
+  ['40', new Uint8Array()],
+  ['4401020304', Uint8Array.of(1, 2, 3, 4)],
+  ['60', ''],
+  ['6161', 'a'],
+  ['6449455446', 'IETF'],
+  ['62225c', '"\\'],
+  ['62c3bc', 'ü'],
+  ['63e6b0b4', '水'],
+  ['64f0908591', '𐅑'],
+  ['80', []],
+  ['83010203', [1, 2, 3]],
+  ['8301820203820405', [1, [2, 3], [4, 5]]],
+  [
+    '98190102030405060708090a0b0c0d0e0f101112131415161718181819',
+    Array.from({ length: 25 }, (_, i) => i + 1),
+  ],
+  ['a0', {}],
+  ['a201020304', { 1: 2, 3: 4 }],
+  ['a26161016162820203', { a: 1, b: [2, 3] }],
+  ['826161a161626163', ['a', { b: 'c' }]],
+  ['a56161614161626142616361436164614461656145', { a: 'A', b: 'B', c: 'C', d: 'D', e: 'E' }],
+  ['5f42010243030405ff', Uint8Array.of(1, 2, 3, 4, 5)],
+  ['7f657374726561646d696e67ff', 'streaming'],
+  ['9fff', []],
+  ['9f018202039f0405ffff', [1, [2, 3], [4, 5]]],
+  ['9f01820203820405ff', [1, [2, 3], [4, 5]]],
+  ['83018202039f0405ff', [1, [2, 3], [4, 5]]],
+  ['83019f0203ff820405', [1, [2, 3], [4, 5]]],
+  [
+    '9f0102030405060708090a0b0c0d0e0f101112131415161718181819ff',
+    Array.from({ length: 25 }, (_, i) => i + 1),
+  ],
+  ['bf61610161629f0203ffff', { a: 1, b: [2, 3] }],
+  ['826161bf61626163ff', ['a', { b: 'c' }]],
+  ['bf6346756ef563416d7421ff', { Fun: true, Amt: -2 }],
+];
+
+describe('decodeCbor', () => {
+  it.each(EXAMPLES)('decodes %s', (hex, expected) => {
+    expect(decodeCbor(parseHex(hex))).toEqual(expected);
+  });
+
+  it('turns map keys into strings', () => {
+    // { 1: "a", h'0102': "b", [1]: "c" }
+    expect(decodeCbor(parseHex('a3016161420102616281016163'))).toEqual({ 1: 'a', '0102': 'b', '[1]': 'c' });
+  });
+
+  it('keeps a "__proto__" key as a field', () => {
+    const decoded = decodeCbor(parseHex('a1695f5f70726f746f5f5f01')) as Record<string, unknown>;
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded)).toEqual(['__proto__']);
+  });
+
+  it('unwraps self-described CBOR', () => {
+    const bytes = parseHex('d9d9f783010203');
+    expect(isSelfDescribedCbor(bytes)).toBe(true);
+    expect(decodeCbor(bytes)).toEqual([1, 2, 3]);
+  });
+
+  it.each([
+    ['', 'Unexpected end of CBOR data'],
+    ['1a0000', 'Unexpected end of CBOR data'],
+    ['830102', 'Unexpected end of CBOR data'],
+    ['0000', 'Extra 1 byte(s) after CBOR data'],
+    ['ff', 'Unexpected CBOR break'],
+    ['1c', 'Invalid CBOR additional information 28'],
+    ['1f', 'Invalid indefinite length'],
+    ['fc', 'Invalid CBOR simple value 28'],
+    ['5f6161ff', 'Invalid chunk'],
+    ['62c328', 'not valid'],
+  ])('refuses %s', (hex, message) => {
+    expect(() => decodeCbor(parseHex(hex))).toThrow(message);
+  });
+
+  it('refuses data nested too deeply', () => {
+    expect(() => decodeCbor(parseHex('81'.repeat(300) + '00'))).toThrow('nested too deeply');
+  });
+});
+
+describe('encodeCbor', () => {
+  it.each([
+    [0, '00'],
+    [23, '17'],
+    [24, '1818'],
+    [1000, '1903e8'],
+    [1000000, '1a000f4240'],
+    [1000000000000, '1b000000e8d4a51000'],
+    [-1, '20'],
+    [-1000, '3903e7'],
+    [BigInt('18446744073709551615'), '1bffffffffffffffff'],
+    [BigInt('-18446744073709551616'), '3bffffffffffffffff'],
+    [1.5, 'fa3fc00000'],
+    [1.1, 'fb3ff199999999999a'],
+    [-0, 'fa80000000'],
+    [Infinity, 'fa7f800000'],
+    [false, 'f4'],
+    [null, 'f6'],
+    ['IETF', '6449455446'],
+    ['水', '63e6b0b4'],
+    [Uint8Array.of(1, 2, 3, 4), '4401020304'],
+    [[1, [2, 3], [4, 5]], '8301820203820405'],
+    [{ a: 1, b: [2, 3] }, 'a26161016162820203'],
+    [new CborTag(1, 1363896240), 'c11a514b67b0'],
+  ])('encodes %s with the shortest head', (value, hex) => {
+    expect(toHex(encodeCbor(value))).toBe(hex);
+  });
+
+  it('skips undefined fields and encodes dates as tagged strings', () => {
+    expect(decodeCbor(encodeCbor({ a: undefined, b: 1 }))).toEqual({ b: 1 });
+    expect(decodeCbor(encodeCbor(new Date(Date.UTC(2013, 2, 21, 20, 4))))).toEqual(
+      new CborTag(0, '2013-03-21T20:04:00.000Z')
+    );
+  });
+
+  it('round-trips JSON-like values', () => {
+    const value: Record<string, unknown> = {
+      id: 'sensor-1',
+      readings: [20.5, -3, 0, 1e-7, 2 ** 40],
+      ok: true,
+      note: null,
+      nested: { deeper: { list: ['a', 'b'], empty: {} } },
+      raw: Uint8Array.of(0, 255),
+    };
+    expect(decodeCbor(encodeCbor(value))).toEqual(value);
+  });
+
+  it('refuses integers beyond 64 bits', () => {
+    expect(() => encodeCbor(BigInt(2) ** BigInt(64))).toThrow('too large');
+  });
+});
+
+describe('looksLikeCbor', () => {
+  it('accepts arrays, maps and tagged items', () => {
+    const looksLike = (hex: string): boolean => looksLikeCbor(parseHex(hex));
+    expect(['83010203', 'a0', 'c11a514b67b0', '9fff'].map(looksLike)).toEqual([true, true, true, true]);
+    expect(['00', '6161', 'fc'].map(looksLike)).toEqual([false, false, false]);
+  });
+});
+
+describe('describeCborTag', () => {
+  it('names the registered tags', () => {
+    expect(describeCborTag(1)).toBe('epoch date/time');
+    expect(describeCborTag(1000)).toBe('tag 1000');
+  });
+});
@@ -0,0 +1,430 @@
+// CBOR (RFC 8949) encoding and decoding, shared by the main process and the
+// renderer
+//
+// Values decode to JSON-like data: byte strings become Uint8Array, map keys
+// become strings and 64-bit integers become numbers (losing precision beyond
+// 2^53, like MessagePack decoding does). Tagged values become CborTag objects,
+// which serialize to JSON as their content.
+
+// Nesting depth beyond which a payload is refused
+const MAX_DEPTH = 256;
+
+// Tag marking data as CBOR, carrying no meaning of its own
+const SELF_DESCRIBED_TAG = 55799;
+
+const TAG_NAMES: Record<number, string> = {
+  0: 'date/time string',
+  1: 'epoch date/time',
+  2: 'unsigned bignum',
+  3: 'negative bignum',
+  4: 'decimal fraction',
+  5: 'bigfloat',
+  21: 'expected base64url',
+  22: 'expected base64',
+  23: 'expected base16',
+  24: 'embedded CBOR',
+  32: 'URI',
+  33: 'base64url',
+  34: 'base64',
+  35: 'regular expression',
+  36: 'MIME message',
+  37: 'UUID',
+  [SELF_DESCRIBED_TAG]: 'self-described CBOR',
+};
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+const utf8Encoder = new TextEncoder();
+
+/**
+ * A tagged data item (major type 6)
+ * Bignums carry their value as a number rather than the bytes.
+ */
+export class CborTag {
+  constructor(readonly tag: number, readonly value: unknown) {}
+
+  /**
+   * What the tag means, e.g. "epoch date/time" for tag 1
+   */
+  get description(): string {
+    return describeCborTag(this.tag);
+  }
+
+  toJSON(): unknown {
+    return this.value;
+  }
+}
+
+/**
+ * Describe a CBOR tag number, e.g. "epoch date/time" for tag 1
+ */
+export function describeCborTag(tag: number): string {
+  return TAG_NAMES[tag] ?? `tag ${tag}`;
+}
+
+/**
+ * Decode a half-precision float
+ */
+function decodeHalf(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) {
+    return sign * mantissa * 2 ** -24;
+  }
+  if (exponent === 0x1f) {
+    return mantissa ? NaN : sign * Infinity;
+  }
+  return sign * (mantissa + 1024) * 2 ** (exponent - 25);
+}
+
+/**
+ * Turn a decoded map key into an object key
+ */
+function toKey(key: unknown): string {
+  if (typeof key === 'string') {
+    return key;
+  }
+  if (key instanceof Uint8Array) {
+    return Array.from(key, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+  return typeof key === 'object' ? JSON.stringify(key) : String(key);
+}
+
+/**
+ * Add a map entry to the decoded object, keeping a "__proto__" key as an own
+ * field
+ */
+function setField(object: Record<string, unknown>, key: string, value: unknown): void {
+  if (key === '__proto__') {
+    Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+  } else {
+    object[key] = value;
+  }
+}
+
+/**
+ * Decode a CBOR data item
+ * Throws if the bytes are not a single well-formed data item.
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let position = 0;
+
+  const need = (count: number): void => {
+    if (position + count > bytes.length) {
+      throw new Error('Unexpected end of CBOR data');
+    }
+  };
+
+  // Argument of an initial byte: the value, length or count that follows it
+  // Returns -1 for the indefinite length marker
+  const readArgument = (info: number): number => {
+    if (info < 24) {
+      return info;
+    }
+    switch (info) {
+      case 24:
+        need(1);
+        return bytes[position++];
+      case 25:
+        need(2);
+        position += 2;
+        return view.getUint16(position - 2);
+      case 26:
+        need(4);
+        position += 4;
+        return view.getUint32(position - 4);
+      case 27: {
+        need(8);
+        position += 8;
+        return Number(view.getBigUint64(position - 8));
+      }
+      case 31:
+        return -1;
+      default:
+        throw new Error(`Invalid CBOR additional information ${info}`);
+    }
+  };
+
+  const isBreak = (): boolean => {
+    need(1);
+    if (bytes[position] === 0xff) {
+      position++;
+      return true;
+    }
+    return false;
+  };
+
+  const readChunks = (major: number): Uint8Array[] => {
+    const chunks: Uint8Array[] = [];
+    while (!isBreak()) {
+      const initial = bytes[position++];
+      if (initial >> 5 !== major || (initial & 0x1f) === 31) {
+        throw new Error('Invalid chunk in indefinite-length CBOR string');
+      }
+      const length = readArgument(initial & 0x1f);
+      need(length);
+      chunks.push(bytes.subarray(position, position + length));
+      position += length;
+    }
+    return chunks;
+  };
+
+  const concat = (chunks: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach((chunk) => {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return result;
+  };
+
+  const readItem = (depth: number): unknown => {
+    if (depth > MAX_DEPTH) {
+      throw new Error('CBOR data is nested too deeply');
+    }
+    need(1);
+    const initial = bytes[position++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      switch (info) {
+        case 20:
+          return false;
+        case 21:
+          return true;
+        case 22:
+        case 23: // undefined
+          return null;
+        case 24:
+          need(1);
+          return `simple(${bytes[position++]})`;
+        case 25:
+          need(2);
+          position += 2;
+          return decodeHalf(view.getUint16(position - 2));
+        case 26:
+          need(4);
+          position += 4;
+          return view.getFloat32(position - 4);
+        case 27:
+          need(8);
+          position += 8;
+          return view.getFloat64(position - 8);
+        case 31:
+          throw new Error('Unexpected CBOR break');
+        default:
+          if (info < 20) {
+            return `simple(${info})`;
+          }
+          throw new Error(`Invalid CBOR simple value ${info}`);
+      }
+    }
+
+    const argument = readArgument(info);
+    const indefinite = argument === -1;
+    if (indefinite && (major === 0 || major === 1 || major === 6)) {
+      throw new Error('Invalid indefinite length in CBOR data');
+    }
+
+    switch (major) {
+      case 0:
+        return argument;
+      case 1:
+        return -1 - argument;
+      case 2: {
+        if (indefinite) {
+          return concat(readChunks(2));
+        }
+        need(argument);
+        position += argument;
+        // A copy, and a plain Uint8Array even when decoding a Buffer
+        return new Uint8Array(bytes.subarray(position - argument, position));
+      }
+      case 3: {
+        if (indefinite) {
+          return readChunks(3).map((chunk) => utf8Decoder.decode(chunk)).join('');
+        }
+        need(argument);
+        position += argument;
+        return utf8Decoder.decode(bytes.subarray(position - argument, position));
+      }
+      case 4: {
+        const items: unknown[] = [];
+        if (indefinite) {
+          while (!isBreak()) {
+            items.push(readItem(depth + 1));
+          }
+        } else {
+          for (let i = 0; i < argument; i++) {
+            items.push(readItem(depth + 1));
+          }
+        }
+        return items;
+      }
+      case 5: {
+        const map: Record<string, unknown> = {};
+        const readEntry = () => {
+          const key = toKey(readItem(depth + 1));
+          setField(map, key, readItem(depth + 1));
+        };
+        if (indefinite) {
+          while (!isBreak()) {
+            readEntry();
+          }
+        } else {
+          for (let i = 0; i < argument; i++) {
+            readEntry();
+          }
+        }
+        return map;
+      }
+      default: {
+        const content = readItem(depth + 1);
+        if (argument === SELF_DESCRIBED_TAG) {
+          return content;
+        }
+        if ((argument === 2 || argument === 3) && content instanceof Uint8Array) {
+          const magnitude = content.reduce((value, byte) => value * 256 + byte, 0);
+          return new CborTag(argument, argument === 2 ? magnitude : -1 - magnitude);
+        }
+        return new CborTag(argument, content);
+      }
+    }
+  };
+
+  const value = readItem(0);
+  if (position !== bytes.length) {
+    throw new Error(`Extra ${bytes.length - position} byte(s) after CBOR data`);
+  }
+  return value;
+}
+
+/**
+ * Check for the CBOR self-described tag (55799) that marks CBOR data
+ */
+export function isSelfDescribedCbor(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xd9 && bytes[1] === 0xd9 && bytes[2] === 0xf7;
+}
+
+/**
+ * Check whether bytes start like a CBOR array, map or tagged item, the items
+ * device payloads are made of (a heuristic: the same bytes start MessagePack
+ * maps, arrays and strings)
+ */
+export function looksLikeCbor(bytes: Uint8Array): boolean {
+  if (bytes.length === 0 || bytes[0] < 0x80 || bytes[0] > 0xdb) {
+    return false;
+  }
+  const info = bytes[0] & 0x1f;
+  return info < 28 || info === 31;
+}
+
+/**
+ * Encode a value as CBOR
+ * Integers use the shortest encoding, other numbers a float32 when that is
+ * exact and a float64 otherwise; Uint8Array becomes a byte string and CborTag
+ * a tagged item. Undefined and functions become null, like in JSON arrays.
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  const push = (chunk: Uint8Array): void => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  const writeHead = (major: number, argument: number | bigint): void => {
+    const type = major << 5;
+    if (typeof argument === 'number' && argument < 24) {
+      push(Uint8Array.of(type | argument));
+    } else if (typeof argument === 'number' && argument <= 0xff) {
+      push(Uint8Array.of(type | 24, argument));
+    } else if (typeof argument === 'number' && argument <= 0xffff) {
+      push(Uint8Array.of(type | 25, argument >> 8, argument & 0xff));
+    } else if (typeof argument === 'number' && argument <= 0xffffffff) {
+      const head = new Uint8Array(5);
+      head[0] = type | 26;
+      new DataView(head.buffer).setUint32(1, argument);
+      push(head);
+    } else {
+      const head = new Uint8Array(9);
+      head[0] = type | 27;
+      new DataView(head.buffer).setBigUint64(1, BigInt(argument));
+      push(head);
+    }
+  };
+
+  const writeFloat = (num: number): void => {
+    const single = Math.fround(num) === num || isNaN(num);
+    const head = new Uint8Array(single ? 5 : 9);
+    const view = new DataView(head.buffer);
+    head[0] = single ? 0xfa : 0xfb;
+    if (single) {
+      view.setFloat32(1, num);
+    } else {
+      view.setFloat64(1, num);
+    }
+    push(head);
+  };
+
+  const writeItem = (item: unknown, depth: number): void => {
+    if (depth > MAX_DEPTH) {
+      throw new Error('Value is nested too deeply to encode as CBOR');
+    }
+    if (item === null || item === undefined || typeof item === 'function' || typeof item === 'symbol') {
+      push(Uint8Array.of(0xf6));
+    } else if (typeof item === 'boolean') {
+      push(Uint8Array.of(item ? 0xf5 : 0xf4));
+    } else if (typeof item === 'number') {
+      if (Number.isSafeInteger(item) && !Object.is(item, -0)) {
+        writeHead(item < 0 ? 1 : 0, item < 0 ? -1 - item : item);
+      } else {
+        writeFloat(item);
+      }
+    } else if (typeof item === 'bigint') {
+      if (item < -(BigInt(1) << BigInt(64)) || item >= BigInt(1) << BigInt(64)) {
+        throw new Error('Integer is too large to encode as CBOR');
+      }
+      writeHead(item < 0 ? 1 : 0, item < 0 ? -BigInt(1) - item : item);
+    } else if (typeof item === 'string') {
+      const bytes = utf8Encoder.encode(item);
+      writeHead(3, bytes.length);
+      push(bytes);
+    } else if (item instanceof Uint8Array) {
+      writeHead(2, item.length);
+      push(item);
+    } else if (item instanceof CborTag) {
+      writeHead(6, item.tag);
+      writeItem(item.value, depth + 1);
+    } else if (Array.isArray(item)) {
+      writeHead(4, item.length);
+      item.forEach((element) => writeItem(element, depth + 1));
+    } else if (item instanceof Date) {
+      writeHead(6, 0);
+      writeItem(item.toISOString(), depth + 1);
+    } else {
+      const entries = Object.entries(item as Record<string, unknown>).filter(
+        ([, entry]) => entry !== undefined && typeof entry !== 'function'
+      );
+      writeHead(5, entries.length);
+      entries.forEach(([key, entry]) => {
+        writeItem(key, depth + 1);
+        writeItem(entry, depth + 1);
+      });
+    }
+  };
+
+  writeItem(value, 0);
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
@@ -0,0 +1,176 @@
+import { randomBytes } from 'crypto';
+import zlib from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { gunzip, inflate, isGzip, isZlib } from './inflate';
+
+const encoder = new TextEncoder();
+
+// Compares with Buffer.equals: toEqual is slow on large arrays
+const expectBytes = (actual: Uint8Array, expected: Uint8Array): void => {
+  expect(actual.length).toBe(expected.length);
+  expect(Buffer.from(actual).equals(expected)).toBe(true);
+};
+
+// Writes a DEFLATE bit stream: values least significant bit first, Huffman
+// codes most significant bit first
+class BitWriter {
+  private bytes: number[] = [];
+  private bitCount = 0;
+
+  write(value: number, count: number): void {
+    for (let i = 0; i < count; i++, this.bitCount++) {
+      if (this.bitCount % 8 === 0) {
+        this.bytes.push(0);
+      }
+      this.bytes[this.bytes.length - 1] |= ((value >> i) & 1) << this.bitCount % 8;
+    }
+  }
+
+  writeCode(code: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.write((code >> i) & 1, 1);
+    }
+  }
+
+  align(): void {
+    this.bitCount = this.bytes.length * 8;
+  }
+
+  result(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+// Canonical Huffman codes for the given code lengths (RFC 1951, 3.2.2)
+function canonicalCodes(lengths: number[]): number[] {
+  const codes: number[] = [];
+  let code = 0;
+  for (let length = 1; length < 16; length++, code <<= 1) {
+    lengths.forEach((symbolLength, symbol) => {
+      if (symbolLength === length) {
+        codes[symbol] = code++;
+      }
+    });
+  }
+  return codes;
+}
+
+// JSON readings: compressible, with repeated keys and varying values
+function readings(count: number): Uint8Array {
+  const lines = Array.from({ length: count }, (_, i) =>
+    JSON.stringify({ sensor: `sensor-${i % 17}`, temperature: (i * 7919) % 400 / 10, ok: i % 3 !== 0 })
+  );
+  return encoder.encode(lines.join('\n'));
+}
+
+const samples: Record<string, Uint8Array> = {
+  empty: new Uint8Array(),
+  'one byte': Uint8Array.of(42),
+  text: encoder.encode('Hello, MQTT! '.repeat(20)),
+  readings: readings(5000),
+  // Incompressible: stored blocks, more than one of them past 64 KiB
+  random: new Uint8Array(randomBytes(150_000)),
+  // Long overlapping back-references
+  run: new Uint8Array(100_000).fill(7),
+  // Incompressible data between compressible data: stored blocks after Huffman-coded ones
+  mixed: Uint8Array.from([...readings(500), ...randomBytes(40_000), ...readings(500)]),
+};
+
+describe('inflate', () => {
+  describe.each(Object.entries(samples))('%s', (_name, data) => {
+    it.each([0, 1, 6, 9])('decompresses zlib, raw deflate and gzip data at level %i', (level) => {
+      expectBytes(inflate(zlib.deflateSync(data, { level })), data);
+      expectBytes(inflate(zlib.deflateRawSync(data, { level })), data);
+      expectBytes(gunzip(zlib.gzipSync(data, { level })), data);
+    });
+
+    it('decompresses fixed Huffman, Huffman-only and run-length encoded data', () => {
+      const { Z_FIXED, Z_HUFFMAN_ONLY, Z_RLE } = zlib.constants;
+      for (const strategy of [Z_FIXED, Z_HUFFMAN_ONLY, Z_RLE]) {
+        expectBytes(inflate(zlib.deflateSync(data, { strategy })), data);
+      }
+    });
+  });
+
+  it('starts a stored block at the byte after a block with long codes', () => {
+    // Dynamic block whose end-of-block code is 1 bit long and whose longest codes are 15 bits
+    const lengths: number[] = new Array(257).fill(0);
+    lengths[256] = 1;
+    'abcdefghijklmn'.split('').forEach((char, i) => (lengths[char.charCodeAt(0)] = i + 2));
+    lengths['o'.charCodeAt(0)] = 15;
+    const codes = canonicalCodes(lengths);
+
+    const stream = new BitWriter();
+    stream.write(0, 1); // Not the last block
+    stream.write(2, 2); // Dynamic Huffman codes
+    stream.write(0, 5); // 257 literal/length codes
+    stream.write(0, 5); // 1 distance code
+    stream.write(15, 4); // 19 code length codes, in the order 16, 17, 18, 0, 8, 7, ...
+    stream.write(0, 9); // 16, 17 and 18 unused
+    for (let i = 0; i < 16; i++) {
+      stream.write(4, 3); // 0-15 with 4-bit codes, so each code is the length itself
+    }
+    [...lengths, 1].forEach((length) => stream.writeCode(length, 4));
+    for (const symbol of [...encoder.encode('abc'), 256]) {
+      stream.writeCode(codes[symbol], lengths[symbol]);
+    }
+    stream.write(1, 1); // Last block
+    stream.write(0, 2); // Stored
+    stream.align();
+    [3, 0, 0xfc, 0xff, ...encoder.encode('xyz')].forEach((byte) => stream.write(byte, 8));
+
+    expect(zlib.inflateRawSync(stream.result()).toString()).toBe('abcxyz');
+    expectBytes(inflate(stream.result()), encoder.encode('abcxyz'));
+  });
+
+  it('refuses truncated and corrupt data', () => {
+    const compressed = zlib.deflateSync(samples.readings);
+    expect(() => inflate(compressed.subarray(0, compressed.length / 2))).toThrow('Unexpected end of compressed data');
+    // First block header with block type 3
+    expect(() => inflate(Uint8Array.of(0x07, 0x00))).toThrow('Invalid block type');
+    // Stored block whose length complement doesn't match
+    expect(() => inflate(Uint8Array.of(0x01, 0x05, 0x00, 0x00, 0x00))).toThrow('Invalid stored block length');
+  });
+
+  it('refuses back-references before the start of the data', () => {
+    const dictionary = encoder.encode('temperature humidity pressure');
+    const compressed = zlib.deflateRawSync(encoder.encode('pressure temperature'), { dictionary });
+    expect(() => inflate(compressed)).toThrow('Invalid distance in compressed data');
+    expect(() => inflate(zlib.deflateSync(samples.text, { dictionary }))).toThrow('needs a preset dictionary');
+  });
+});
+
+describe('gunzip', () => {
+  it('skips the optional header fields', () => {
+    const compressed = zlib.gzipSync(samples.text);
+    // FEXTRA, FNAME, FCOMMENT and FHCRC
+    const header = Uint8Array.from([
+      ...compressed.subarray(0, 3),
+      0x1e,
+      ...compressed.subarray(4, 10),
+      ...[0x02, 0x00, 0xab, 0xcd],
+      ...encoder.encode('data.json\0'),
+      ...encoder.encode('a comment\0'),
+      ...[0x12, 0x34],
+    ]);
+    expectBytes(gunzip(Uint8Array.from([...header, ...compressed.subarray(10)])), samples.text);
+  });
+
+  it('refuses data that is not gzip', () => {
+    expect(() => gunzip(zlib.deflateSync(samples.text))).toThrow('Not gzip data');
+  });
+});
+
+describe('isGzip and isZlib', () => {
+  it('recognize the headers of each format', () => {
+    const gzipped = zlib.gzipSync(samples.text);
+    const deflated = zlib.deflateSync(samples.text);
+
+    expect([isGzip(gzipped), isZlib(gzipped)]).toEqual([true, false]);
+    expect([isGzip(deflated), isZlib(deflated)]).toEqual([false, true]);
+    for (const level of [0, 1, 9]) {
+      expect(isZlib(zlib.deflateSync(samples.text, { level }))).toBe(true);
+    }
+    expect(isZlib(encoder.encode('{"a":1}'))).toBe(false);
+  });
+});
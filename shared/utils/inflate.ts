@@ -0,0 +1,339 @@
+// DEFLATE decompression (RFC 1951) with the gzip (RFC 1952) and zlib
+// (RFC 1950) wrappers, shared by the main process and the renderer, which has
+// no zlib of its own
+
+// Decompressed payloads larger than this are refused
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+// Base lengths and extra bits of length codes 257..285
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+// Base distances and extra bits of distance codes 0..29
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097,
+  6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// Canonical Huffman code as a lookup table indexed by the next `bits` input
+// bits (least significant first). Each entry holds `symbol << 4 | code length`,
+// or 0 where no code matches
+interface Huffman {
+  table: Uint32Array;
+  bits: number;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  let maxLength = 0;
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+    maxLength = Math.max(maxLength, lengths[i]);
+  }
+  counts[0] = 0;
+
+  // First code of each length, rejecting over-subscribed code sets
+  const nextCode = new Uint16Array(16);
+  let code = 0;
+  let left = 1;
+  for (let length = 1; length < 16; length++) {
+    code = (code + counts[length - 1]) << 1;
+    nextCode[length] = code;
+    left = (left << 1) - counts[length];
+    if (left < 0) {
+      throw new Error('Invalid Huffman code lengths in compressed data');
+    }
+  }
+
+  const bits = Math.max(maxLength, 1);
+  const table = new Uint32Array(1 << bits);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length === 0) {
+      continue;
+    }
+    // Codes are stored most significant bit first, the input is read least significant bit first
+    let reversed = 0;
+    for (let i = 0, value = nextCode[length]++; i < length; i++, value >>= 1) {
+      reversed = (reversed << 1) | (value & 1);
+    }
+    for (let index = reversed; index < table.length; index += 1 << length) {
+      table[index] = (symbol << 4) | length;
+    }
+  }
+  return { table, bits };
+}
+
+let fixedLiterals: Huffman | null = null;
+let fixedDistances: Huffman | null = null;
+
+function getFixedTables(): [Huffman, Huffman] {
+  if (!fixedLiterals || !fixedDistances) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedLiterals = buildHuffman(lengths);
+    fixedDistances = buildHuffman(new Uint8Array(30).fill(5));
+  }
+  return [fixedLiterals, fixedDistances];
+}
+
+/**
+ * Growable output buffer
+ */
+class Output {
+  bytes: Uint8Array;
+  length = 0;
+
+  constructor(sizeHint: number) {
+    this.bytes = new Uint8Array(Math.min(Math.max(sizeHint, 1024), MAX_OUTPUT_BYTES));
+  }
+
+  ensure(extra: number): void {
+    const needed = this.length + extra;
+    if (needed > this.bytes.length) {
+      if (needed > MAX_OUTPUT_BYTES) {
+        throw new Error('Decompressed payload is too large');
+      }
+      const grown = new Uint8Array(Math.min(Math.max(needed, this.bytes.length * 2), MAX_OUTPUT_BYTES));
+      grown.set(this.bytes.subarray(0, this.length));
+      this.bytes = grown;
+    }
+  }
+
+  append(chunk: Uint8Array): void {
+    this.ensure(chunk.length);
+    this.bytes.set(chunk, this.length);
+    this.length += chunk.length;
+  }
+
+  copyBack(distance: number, length: number): void {
+    if (distance > this.length) {
+      throw new Error('Invalid distance in compressed data');
+    }
+    this.ensure(length);
+    const bytes = this.bytes;
+    let to = this.length;
+    if (distance >= length) {
+      bytes.copyWithin(to, to - distance, to - distance + length);
+    } else {
+      // Byte by byte: the copy overlaps the bytes it produces
+      for (const end = to + length; to < end; to++) {
+        bytes[to] = bytes[to - distance];
+      }
+    }
+    this.length += length;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Decompress raw DEFLATE data
+ * @returns The decompressed bytes and the number of input bytes consumed
+ */
+function inflateRaw(input: Uint8Array, start = 0): { bytes: Uint8Array; end: number } {
+  // Compressed text typically expands three to four times
+  const out = new Output((input.length - start) * 4);
+  let position = start;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (position >= input.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      bitBuffer |= input[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  const decodeSymbol = ({ table, bits: tableBits }: Huffman): number => {
+    // Near the end of the input fewer bits may be left than the longest code
+    while (bitCount < tableBits && position < input.length) {
+      bitBuffer |= input[position++] << bitCount;
+      bitCount += 8;
+    }
+    const entry = table[bitBuffer & ((1 << tableBits) - 1)];
+    const length = entry & 15;
+    if (length === 0) {
+      throw new Error('Invalid Huffman code in compressed data');
+    }
+    if (length > bitCount) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    bitBuffer >>>= length;
+    bitCount -= length;
+    return entry >> 4;
+  };
+
+  const inflateBlock = (literals: Huffman, distances: Huffman): void => {
+    for (;;) {
+      const symbol = decodeSymbol(literals);
+      if (symbol < 256) {
+        out.ensure(1);
+        out.bytes[out.length++] = symbol;
+      } else if (symbol === 256) {
+        return;
+      } else {
+        const lengthCode = symbol - 257;
+        if (lengthCode >= LENGTH_BASE.length) {
+          throw new Error('Invalid length code in compressed data');
+        }
+        const length = LENGTH_BASE[lengthCode] + bits(LENGTH_EXTRA[lengthCode]);
+        const distanceCode = decodeSymbol(distances);
+        if (distanceCode >= DISTANCE_BASE.length) {
+          throw new Error('Invalid distance code in compressed data');
+        }
+        out.copyBack(DISTANCE_BASE[distanceCode] + bits(DISTANCE_EXTRA[distanceCode]), length);
+      }
+    }
+  };
+
+  const readDynamicTables = (): [Huffman, Huffman] => {
+    const literalCount = bits(5) + 257;
+    const distanceCount = bits(5) + 1;
+    const codeLengthCount = bits(4) + 4;
+
+    const codeLengthLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengthLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+    }
+    const codeLengths = buildHuffman(codeLengthLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let i = 0; i < lengths.length; ) {
+      const symbol = decodeSymbol(codeLengths);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) {
+          throw new Error('Invalid code lengths in compressed data');
+        }
+        value = lengths[i - 1];
+        repeat = 3 + bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + bits(3);
+      } else {
+        repeat = 11 + bits(7);
+      }
+      if (i + repeat > lengths.length) {
+        throw new Error('Invalid code lengths in compressed data');
+      }
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    return [buildHuffman(lengths.subarray(0, literalCount)), buildHuffman(lengths.subarray(literalCount))];
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+    if (type === 0) {
+      // Stored block: starts at the next byte boundary, after any whole bytes read ahead
+      position -= bitCount >> 3;
+      bitBuffer = 0;
+      bitCount = 0;
+      if (position + 4 > input.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      const length = input[position] | (input[position + 1] << 8);
+      const complement = input[position + 2] | (input[position + 3] << 8);
+      if ((length ^ 0xffff) !== complement) {
+        throw new Error('Invalid stored block length in compressed data');
+      }
+      position += 4;
+      if (position + length > input.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      out.append(input.subarray(position, position + length));
+      position += length;
+    } else if (type === 1) {
+      inflateBlock(...getFixedTables());
+    } else if (type === 2) {
+      inflateBlock(...readDynamicTables());
+    } else {
+      throw new Error('Invalid block type in compressed data');
+    }
+  }
+
+  return { bytes: out.result(), end: position - (bitCount >> 3) };
+}
+
+/**
+ * Check for the gzip magic bytes
+ */
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 18 && bytes[0] === 0x1f && bytes[1] === 0x8b && bytes[2] === 8;
+}
+
+/**
+ * Check for a zlib header (deflate method with a valid header checksum)
+ */
+export function isZlib(bytes: Uint8Array): boolean {
+  return bytes.length >= 6 && (bytes[0] & 0x0f) === 8 && bytes[0] >> 4 <= 7 && ((bytes[0] << 8) | bytes[1]) % 31 === 0;
+}
+
+/**
+ * Decompress a gzip member
+ */
+export function gunzip(bytes: Uint8Array): Uint8Array {
+  if (!isGzip(bytes)) {
+    throw new Error('Not gzip data');
+  }
+  const flags = bytes[3];
+  let position = 10;
+  if (flags & 0x04) {
+    // FEXTRA
+    position += 2 + (bytes[position] | (bytes[position + 1] << 8));
+  }
+  for (const flag of [0x08, 0x10]) {
+    // FNAME, FCOMMENT: zero-terminated
+    if (flags & flag) {
+      while (position < bytes.length && bytes[position] !== 0) {
+        position++;
+      }
+      position++;
+    }
+  }
+  if (flags & 0x02) {
+    // FHCRC
+    position += 2;
+  }
+  if (position >= bytes.length) {
+    throw new Error('Unexpected end of gzip header');
+  }
+  return inflateRaw(bytes, position).bytes;
+}
+
+/**
+ * Decompress zlib-wrapped DEFLATE data, or raw DEFLATE data without a header
+ */
+export function inflate(bytes: Uint8Array): Uint8Array {
+  if (isZlib(bytes)) {
+    if (bytes[1] & 0x20) {
+      throw new Error('Compressed data needs a preset dictionary');
+    }
+    return inflateRaw(bytes, 2).bytes;
+  }
+  return inflateRaw(bytes).bytes;
+}
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ProtobufRegistry } from '../types/models';
+import {
+  decodePayloadBytes,
+  findAssignedDecoder,
+  getPayloadDecoders,
+  isBuiltInPayloadDecoder,
+  registerPayloadDecoder,
+  unregisterPayloadDecoder,
+} from './payloadDecoders';
+import type { PayloadDecoder } from './payloadDecoders';
+import { buildProtobufRoot, registerProtobufDecoders } from './protobuf';
+
+const bytes = (text: string): Uint8Array => new TextEncoder().encode(text);
+const decoderIds = (): string[] => getPayloadDecoders().map(({ id }) => id);
+
+// Decodes "k=v;k=v" text, detected by its "kv:" prefix
+const keyValueDecoder: PayloadDecoder = {
+  id: 'key-value',
+  name: 'Key/value pairs',
+  detect: (_bytes, text) => text?.startsWith('kv:') ?? false,
+  decode: (payload) => ({
+    kind: 'data',
+    data: Object.fromEntries(
+      new TextDecoder().decode(payload).slice(3).split(';').map((pair) => pair.split('='))
+    ),
+  }),
+};
+
+describe('payload decoder registry', () => {
+  afterEach(() => {
+    getPayloadDecoders()
+      .filter(({ id }) => !isBuiltInPayloadDecoder(id))
+      .forEach(({ id }) => unregisterPayloadDecoder(id));
+  });
+
+  it('lists the built-in decoders in auto-detection order', () => {
+    expect(decoderIds()).toEqual(['gzip', 'deflate', 'bson', 'json', 'xml', 'msgpack', 'cbor', 'text', 'base64', 'hex']);
+  });
+
+  it('tries registered decoders before the text fallback', () => {
+    registerPayloadDecoder(keyValueDecoder);
+
+    expect(decoderIds().indexOf('key-value')).toBe(decoderIds().indexOf('text') - 1);
+    expect(decodePayloadBytes(bytes('kv:a=1;b=2'))).toMatchObject({
+      decoders: ['key-value'],
+      format: 'json',
+      value: { a: '1', b: '2' },
+    });
+  });
+
+  it('replaces a registered decoder with the same ID', () => {
+    registerPayloadDecoder(keyValueDecoder);
+    registerPayloadDecoder({ ...keyValueDecoder, name: 'Pairs' });
+
+    expect(getPayloadDecoders().filter(({ id }) => id === 'key-value')).toEqual([
+      expect.objectContaining({ name: 'Pairs' }),
+    ]);
+  });
+
+  it('keeps the built-in decoders', () => {
+    expect(() => registerPayloadDecoder({ ...keyValueDecoder, id: 'json' })).toThrow('built in');
+    unregisterPayloadDecoder('json');
+    expect(decoderIds()).toContain('json');
+  });
+
+  it('uses registered decoders assigned to a topic', () => {
+    registerPayloadDecoder({ ...keyValueDecoder, detect: undefined });
+
+    const assignments = [{ topicPattern: 'devices/+/state', decoder: 'key-value' }];
+    const decoderId = findAssignedDecoder('devices/a/state', assignments);
+    expect(decodePayloadBytes(bytes('kv:on=1'), decoderId).value).toEqual({ on: '1' });
+    expect(decodePayloadBytes(bytes('kv:on=1')).format).toBe('text');
+  });
+
+  it('falls back to auto-detection when an assigned decoder is unknown or fails', () => {
+    expect(decodePayloadBytes(bytes('{"a":1}'), 'missing')).toMatchObject({
+      decoders: ['json'],
+      value: { a: 1 },
+      error: 'missing: Unknown decoder "missing"',
+    });
+    expect(decodePayloadBytes(bytes('{"a":1}'), 'hex')).toMatchObject({
+      decoders: ['json'],
+      error: 'Hex: Hex may only contain 0-9 and a-f',
+    });
+  });
+
+  it('registers protobuf message types, replacing those of a previous schema', () => {
+    const registryOf = (proto: string): ProtobufRegistry => ({
+      files: [{ id: 'f1', name: 'a.proto', format: 'proto', content: proto, addedAt: 0 }],
+      mappings: [],
+    });
+
+    registerProtobufDecoders(
+      buildProtobufRoot(registryOf('syntax = "proto3"; package demo; message Old { int32 v = 1; }')).root
+    );
+    registerProtobufDecoders(
+      buildProtobufRoot(
+        registryOf('syntax = "proto3"; package demo; message Reading { int32 value = 1; string unit = 2; }')
+      ).root
+    );
+
+    expect(decoderIds().filter((id) => id.startsWith('protobuf:'))).toEqual(['protobuf:demo.Reading']);
+    // field 1 = 150, field 2 = "C"
+    const payload = new Uint8Array([0x08, 0x96, 0x01, 0x12, 0x01, 0x43]);
+    expect(decodePayloadBytes(payload, 'protobuf:demo.Reading')).toMatchObject({
+      decoders: ['protobuf:demo.Reading'],
+      value: { value: 150, unit: 'C' },
+    });
+  });
+});
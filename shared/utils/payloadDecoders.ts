@@ -0,0 +1,291 @@
+// Payload decoder registry, shared by the main process (exports) and the
+// renderer (message list, details, topic tree previews and charts) so every
+// view decodes a payload the same way
+//
+// A payload is decoded with the decoder assigned to its topic pattern in the
+// connection profile, or else by auto-detection: the first registered decoder
+// whose detect() accepts the payload and whose decode() succeeds. Compression
+// and text encodings (gzip, base64, ...) produce bytes that are decoded again.
+//
+// Besides the built-in decoders, decoders can be registered at runtime (e.g.
+// one per message type of the uploaded protobuf schemas).
+
+import { decode as msgpackDecode } from '@msgpack/msgpack';
+import { decodeBson, isBson } from './bson';
+import { bytesToBase64, bytesToHex, parseBase64, parseHex } from './bytes';
+import { decodeCbor, isSelfDescribedCbor, looksLikeCbor } from './cbor';
+import { gunzip, inflate, isGzip, isZlib } from './inflate';
+import { topicMatchesFilter } from './topicMatch';
+import type { PayloadDecoderAssignment } from '../types/models';
+
+// Decoders applied to one payload before the rest is shown undecoded
+const MAX_DECODE_STEPS = 4;
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * What a decoder turns a payload into: structured data, text, or bytes to be
+ * decoded further
+ */
+export type DecoderOutput =
+  | { kind: 'data'; data: unknown }
+  | { kind: 'text'; text: string; format: 'xml' | 'text' }
+  | { kind: 'bytes'; bytes: Uint8Array };
+
+export interface PayloadDecoder {
+  id: string;
+  name: string;
+  /**
+   * Whether auto-detection may try this decoder on a payload; decoders without
+   * one are only used when assigned to a topic pattern
+   * @param text - The payload as UTF-8 text; undefined if it isn't valid UTF-8
+   */
+  detect?: (bytes: Uint8Array, text: string | undefined) => boolean;
+  /**
+   * Decode a payload; throws if the payload isn't in this decoder's format
+   */
+  decode: (bytes: Uint8Array) => DecoderOutput;
+}
+
+/**
+ * A payload as decoded by the registry
+ */
+export interface DecodedPayload {
+  decoders: string[]; // IDs of the decoders applied, in order (e.g. ['gzip', 'json'])
+  format: 'json' | 'xml' | 'text' | 'binary'; // 'json' for any structured data
+  value?: unknown; // Structured data ('json' only); CBOR tagged items are CborTag objects
+  text: string; // Indented JSON, the text itself, or hex for binary payloads
+  error?: string; // Why the assigned decoder failed; the payload is then auto-detected
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return utf8Decoder.decode(bytes);
+}
+
+function tryDecodeText(bytes: Uint8Array): string | undefined {
+  try {
+    return decodeText(bytes);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check for the markers MessagePack maps, arrays, strings and typed values start with
+ * (a heuristic: positive fixints would match any ASCII text)
+ */
+function looksLikeMsgpack(bytes: Uint8Array): boolean {
+  return bytes.length > 0 && bytes[0] >= 0x80 && bytes[0] <= 0xdf;
+}
+
+/**
+ * Check for control characters other than tab, line feed and carriage return,
+ * which make text more likely binary
+ */
+function hasControlCharacters(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) {
+      return true;
+    }
+  }
+  return false;
+}
+
+const BUILT_IN_DECODERS: readonly PayloadDecoder[] = [
+  {
+    id: 'gzip',
+    name: 'gzip',
+    detect: (bytes) => isGzip(bytes),
+    decode: (bytes) => ({ kind: 'bytes', bytes: gunzip(bytes) }),
+  },
+  {
+    id: 'deflate',
+    name: 'Deflate (zlib)',
+    detect: (bytes, text) => text === undefined && isZlib(bytes),
+    decode: (bytes) => ({ kind: 'bytes', bytes: inflate(bytes) }),
+  },
+  {
+    id: 'bson',
+    name: 'BSON',
+    detect: (bytes) => isBson(bytes),
+    decode: (bytes) => ({ kind: 'data', data: decodeBson(bytes) }),
+  },
+  {
+    id: 'json',
+    name: 'JSON',
+    detect: (_bytes, text) => text !== undefined && text.trim() !== '',
+    decode: (bytes) => ({ kind: 'data', data: JSON.parse(decodeText(bytes)) }),
+  },
+  {
+    id: 'xml',
+    name: 'XML',
+    detect: (_bytes, text) => text !== undefined && text.trim().startsWith('<') && text.trim().endsWith('>'),
+    decode: (bytes) => ({ kind: 'text', text: decodeText(bytes), format: 'xml' }),
+  },
+  {
+    id: 'msgpack',
+    name: 'MessagePack',
+    detect: (bytes) => looksLikeMsgpack(bytes),
+    decode: (bytes) => ({ kind: 'data', data: msgpackDecode(bytes) }),
+  },
+  {
+    id: 'cbor',
+    name: 'CBOR',
+    // Tried after MessagePack, whose maps, arrays and strings start with the same bytes
+    detect: (bytes, text) => isSelfDescribedCbor(bytes) || (text === undefined && looksLikeCbor(bytes)),
+    decode: (bytes) => ({ kind: 'data', data: decodeCbor(bytes) }),
+  },
+  {
+    id: 'text',
+    name: 'Text (UTF-8)',
+    detect: (_bytes, text) => text !== undefined && !hasControlCharacters(text),
+    decode: (bytes) => ({ kind: 'text', text: decodeText(bytes), format: 'text' }),
+  },
+  {
+    id: 'base64',
+    name: 'Base64',
+    decode: (bytes) => ({ kind: 'bytes', bytes: parseBase64(decodeText(bytes)) }),
+  },
+  {
+    id: 'hex',
+    name: 'Hex',
+    decode: (bytes) => ({ kind: 'bytes', bytes: parseHex(decodeText(bytes)) }),
+  },
+];
+
+const builtInIds = new Set(BUILT_IN_DECODERS.map(({ id }) => id));
+
+const decoders: PayloadDecoder[] = [...BUILT_IN_DECODERS];
+
+/**
+ * Register a decoder, replacing any registered decoder with the same ID
+ * Registered decoders are tried by auto-detection before the built-in text fallback.
+ * @throws Error if the ID is that of a built-in decoder
+ */
+export function registerPayloadDecoder(decoder: PayloadDecoder): void {
+  if (builtInIds.has(decoder.id)) {
+    throw new Error(`Decoder "${decoder.id}" is built in`);
+  }
+  const existing = decoders.findIndex(({ id }) => id === decoder.id);
+  if (existing !== -1) {
+    decoders[existing] = decoder;
+    return;
+  }
+  const textIndex = decoders.findIndex(({ id }) => id === 'text');
+  decoders.splice(textIndex, 0, decoder);
+}
+
+/**
+ * Remove a registered decoder (built-in decoders stay)
+ */
+export function unregisterPayloadDecoder(decoderId: string): void {
+  const index = decoders.findIndex(({ id }) => id === decoderId);
+  if (index !== -1 && !builtInIds.has(decoderId)) {
+    decoders.splice(index, 1);
+  }
+}
+
+/**
+ * Check if a decoder is one of the built-in ones rather than registered
+ */
+export function isBuiltInPayloadDecoder(decoderId: string): boolean {
+  return builtInIds.has(decoderId);
+}
+
+/**
+ * List the built-in and registered decoders, in auto-detection order
+ */
+export function getPayloadDecoders(): PayloadDecoder[] {
+  return [...decoders];
+}
+
+/**
+ * Get the decoder assigned to a topic (first matching assignment wins)
+ */
+export function findAssignedDecoder(
+  topic: string,
+  assignments: PayloadDecoderAssignment[] | undefined
+): string | undefined {
+  return assignments?.find((assignment) => topicMatchesFilter(topic, assignment.topicPattern))?.decoder;
+}
+
+/**
+ * Format decoded data as JSON; byte strings are shown as base64
+ */
+export function stringifyDecodedValue(value: unknown, indent?: number): string {
+  const json = JSON.stringify(
+    value,
+    (_key, item) => (item instanceof Uint8Array ? bytesToBase64(item) : typeof item === 'bigint' ? item.toString() : item),
+    indent
+  );
+  // JSON.stringify gives undefined for undefined
+  return json ?? String(value);
+}
+
+function toDecodedPayload(output: DecoderOutput, applied: string[]): DecodedPayload {
+  if (output.kind === 'data') {
+    return { decoders: applied, format: 'json', value: output.data, text: stringifyDecodedValue(output.data, 2) };
+  }
+  if (output.kind === 'text') {
+    return { decoders: applied, format: output.format, text: output.text };
+  }
+  return { decoders: applied, format: 'binary', text: bytesToHex(output.bytes) };
+}
+
+/**
+ * Decode a payload
+ * @param decoderId - Decoder to start with (e.g. the one assigned to the topic);
+ * auto-detected when omitted, or when it fails
+ */
+export function decodePayloadBytes(bytes: Uint8Array, decoderId?: string): DecodedPayload {
+  const applied: string[] = [];
+  let error: string | undefined;
+  let current = bytes;
+
+  if (decoderId) {
+    const decoder = decoders.find(({ id }) => id === decoderId);
+    try {
+      if (!decoder) {
+        throw new Error(`Unknown decoder "${decoderId}"`);
+      }
+      const output = decoder.decode(current);
+      applied.push(decoder.id);
+      if (output.kind !== 'bytes') {
+        return toDecodedPayload(output, applied);
+      }
+      current = output.bytes;
+    } catch (decodeError) {
+      const reason = decodeError instanceof Error ? decodeError.message : String(decodeError);
+      error = `${decoder?.name ?? decoderId}: ${reason}`;
+    }
+  }
+
+  // Auto-detect the (rest of the) payload
+  while (applied.length < MAX_DECODE_STEPS) {
+    const text = tryDecodeText(current);
+    let next: DecoderOutput | undefined;
+    for (const decoder of decoders) {
+      if (!decoder.detect?.(current, text)) {
+        continue;
+      }
+      try {
+        next = decoder.decode(current);
+        applied.push(decoder.id);
+        break;
+      } catch {
+        // Not this format after all
+      }
+    }
+
+    if (!next) {
+      break;
+    }
+    if (next.kind !== 'bytes') {
+      return { ...toDecodedPayload(next, applied), error };
+    }
+    current = next.bytes;
+  }
+
+  return { decoders: applied, format: 'binary', text: bytesToHex(current), error };
+}
@@ -0,0 +1,169 @@
+// Protobuf decoding with the schemas and topic mappings of the protobuf
+// registry, shared by the main process (exports) and the renderer (message
+// list, details and charts)
+
+import * as protobuf from 'protobufjs';
+import 'protobufjs/ext/descriptor';
+import { Buffer } from 'buffer';
+import type { ProtobufRegistry, ProtobufTopicMapping } from '../types/models';
+import { getPayloadDecoders, registerPayloadDecoder, unregisterPayloadDecoder } from './payloadDecoders';
+import { topicMatchesFilter } from './topicMatch';
+
+export interface ProtobufDecodeResult {
+  success: boolean;
+  typeName: string;
+  data?: Record<string, unknown>;
+  error?: string;
+  formatted?: string;
+}
+
+// Payload decoder IDs of the message types are "protobuf:<type>"
+const DECODER_ID_PREFIX = 'protobuf:';
+
+// Plain-JSON conversion used for display, value extraction and exports
+const TO_OBJECT_OPTIONS: protobuf.IConversionOptions = {
+  longs: Number,
+  enums: String,
+  bytes: String, // base64
+  defaults: true,
+  arrays: true,
+  oneofs: true,
+};
+
+/**
+ * Parse a single schema file into a root
+ * Throws if the file can't be parsed.
+ */
+export function parseSchemaFile(
+  format: 'proto' | 'descriptor-set',
+  content: string,
+  target: protobuf.Root = new protobuf.Root()
+): protobuf.Root {
+  if (format === 'descriptor-set') {
+    // fromDescriptor is added by protobufjs/ext/descriptor but missing from its typings
+    const descriptorRoot = (protobuf.Root as any).fromDescriptor(
+      Buffer.from(content, 'base64')
+    ) as protobuf.Root;
+    descriptorRoot.resolveAll();
+    return descriptorRoot;
+  }
+
+  protobuf.parse(content, target, { keepCase: true });
+  target.resolveAll();
+  return target;
+}
+
+/**
+ * Build one root from every schema file of a registry
+ * Files that fail to parse are skipped and reported in errors, keyed by file ID.
+ */
+export function buildProtobufRoot(registry: ProtobufRegistry): { root: protobuf.Root; errors: Record<string, string> } {
+  const root = new protobuf.Root();
+  const errors: Record<string, string> = {};
+
+  // Plain .proto files share one root so they can reference each other
+  for (const file of registry.files.filter((f) => f.format === 'proto')) {
+    try {
+      protobuf.parse(file.content, root, { keepCase: true });
+    } catch (error) {
+      errors[file.id] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  for (const file of registry.files.filter((f) => f.format === 'descriptor-set')) {
+    try {
+      root.addJSON(parseSchemaFile(file.format, file.content).toJSON().nested ?? {});
+    } catch (error) {
+      errors[file.id] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  try {
+    root.resolveAll();
+  } catch (error) {
+    errors.resolve = error instanceof Error ? error.message : String(error);
+  }
+
+  return { root, errors };
+}
+
+/**
+ * List the fully-qualified message types of a root
+ */
+export function listProtobufMessageTypes(root: protobuf.Root): string[] {
+  const types: string[] = [];
+
+  const traverse = (namespace: protobuf.NamespaceBase): void => {
+    for (const nested of namespace.nestedArray) {
+      if (nested instanceof protobuf.Type) {
+        types.push(nested.fullName.replace(/^\./, ''));
+      }
+      if (nested instanceof protobuf.Namespace || nested instanceof protobuf.Type) {
+        traverse(nested);
+      }
+    }
+  };
+
+  traverse(root);
+  return types.sort();
+}
+
+/**
+ * Register each message type of a root as a payload decoder, so it can be
+ * assigned to topic patterns in connection profiles, replacing the types
+ * registered from a previous root
+ */
+export function registerProtobufDecoders(root: protobuf.Root): void {
+  getPayloadDecoders()
+    .filter(({ id }) => id.startsWith(DECODER_ID_PREFIX))
+    .forEach(({ id }) => unregisterPayloadDecoder(id));
+
+  for (const typeName of listProtobufMessageTypes(root)) {
+    const type = root.lookupType(typeName);
+    // No detect(): any bytes may parse as some message type, so these are only used when assigned
+    registerPayloadDecoder({
+      id: `${DECODER_ID_PREFIX}${typeName}`,
+      name: `Protobuf ${typeName}`,
+      decode: (bytes) => ({ kind: 'data', data: type.toObject(type.decode(bytes), TO_OBJECT_OPTIONS) }),
+    });
+  }
+}
+
+/**
+ * Get the message type mapped to a topic (first matching mapping wins)
+ */
+export function findProtobufType(mappings: ProtobufTopicMapping[], topic: string): string | undefined {
+  return mappings.find((mapping) => topicMatchesFilter(topic, mapping.topicPattern))?.messageType;
+}
+
+/**
+ * Decode a payload as the given message type
+ */
+export function decodeProtobufMessage(
+  root: protobuf.Root | null,
+  payload: Uint8Array,
+  typeName: string
+): ProtobufDecodeResult {
+  try {
+    if (!root) {
+      throw new Error('No protobuf schemas loaded');
+    }
+
+    const type = root.lookupType(typeName);
+    const decoded = type.decode(payload);
+    const data = type.toObject(decoded, TO_OBJECT_OPTIONS);
+
+    return {
+      success: true,
+      typeName,
+      data,
+      formatted: JSON.stringify(data, null, 2),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      typeName,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkAgainstSchema,
+  createSchemaLearner,
+  describeTypes,
+  inferSchema,
+  listSchemaFields,
+  toJsonSchema,
+} from './schemaInference';
+
+const learn = (...payloads: Array<string | undefined>) => inferSchema('sensors/temp', payloads);
+
+describe('inferSchema', () => {
+  it('counts the sampled and JSON payloads', () => {
+    const schema = learn('{"a":1}', 'not json', undefined, '');
+    expect(schema).toMatchObject({ topic: 'sensors/temp', sampleSize: 4, jsonCount: 1 });
+    expect(learn('not json').root).toBeUndefined();
+  });
+
+  it('records the types, ranges and lengths of each field', () => {
+    const schema = learn('{"t":20.5,"id":"ab"}', '{"t":21,"id":"abcd"}', '{"t":null,"id":"abc"}');
+    const { t, id } = schema.root?.properties ?? {};
+
+    expect(t.types).toEqual({ number: 1, integer: 1, null: 1 });
+    expect(describeTypes(t.types)).toBe('integer | null | number');
+    expect([t.minimum, t.maximum]).toEqual([20.5, 21]);
+    expect([id.minLength, id.maxLength]).toEqual([2, 4]);
+  });
+
+  it('keeps enum-like values only when they repeat', () => {
+    const repeated = learn(...Array.from({ length: 9 }, (_, i) => `{"state":"${['on', 'off', 'idle'][i % 3]}"}`));
+    expect(repeated.root?.properties?.state.values).toEqual(['idle', 'off', 'on']);
+
+    const unique = learn('{"state":"a"}', '{"state":"b"}', '{"state":"c"}');
+    expect(unique.root?.properties?.state.values).toBeUndefined();
+
+    const fractional = learn('{"v":1.5}', '{"v":1.5}', '{"v":1.5}');
+    expect(fractional.root?.properties?.v.values).toBeUndefined();
+  });
+
+  it('learns array elements and nested objects', () => {
+    const schema = learn('{"items":[{"id":1},{"id":2,"tag":"x"}]}');
+    expect(listSchemaFields(schema).map((field) => [field.path, field.required])).toEqual([
+      ['$', true],
+      ['$.items', true],
+      ['$.items[]', true],
+      ['$.items[].id', true],
+      ['$.items[].tag', false],
+    ]);
+  });
+
+  it('keeps fields named like Object.prototype members as fields', () => {
+    const schema = learn('{"__proto__":{"x":1},"constructor":2}', '{"__proto__":{"x":2},"constructor":3}');
+
+    expect(Object.getPrototypeOf(schema.root?.properties)).toBe(Object.prototype);
+    expect(listSchemaFields(schema).map((field) => field.path)).toEqual([
+      '$',
+      '$.__proto__',
+      '$.__proto__.x',
+      '$.constructor',
+    ]);
+  });
+});
+
+describe('checkAgainstSchema', () => {
+  const schema = learn('{"a":1,"b":"x","c":[1,2]}', '{"a":2,"b":"y","c":[],"d":true}');
+
+  it('accepts payloads of the learned shape', () => {
+    expect(checkAgainstSchema(schema, '{"a":3,"b":"z","c":[3]}')).toEqual([]);
+    expect(checkAgainstSchema(schema, '{"a":3,"b":"z","c":[],"d":false}')).toEqual([]);
+  });
+
+  it('accepts whole numbers where numbers were seen', () => {
+    expect(checkAgainstSchema(learn('{"v":1.5}'), '{"v":2}')).toEqual([]);
+    expect(checkAgainstSchema(learn('{"v":2}'), '{"v":1.5}')).toEqual([
+      { path: '$.v', message: 'Expected integer, got number' },
+    ]);
+  });
+
+  it('reports unknown types, new fields and missing required fields', () => {
+    expect(checkAgainstSchema(schema, '{"a":"1","c":["x"],"e":1}')).toEqual([
+      { path: '$.a', message: 'Expected integer, got string' },
+      { path: '$.c[]', message: 'Expected integer, got string' },
+      { path: '$.e', message: 'Field never seen before' },
+      { path: '$.b', message: 'Required field is missing' },
+    ]);
+  });
+
+  it('reports payloads that are not JSON', () => {
+    expect(checkAgainstSchema(schema, 'oops')).toEqual([{ path: '$', message: 'Payload is not JSON' }]);
+    expect(checkAgainstSchema(schema, undefined)).toEqual([{ path: '$', message: 'Payload is not JSON' }]);
+  });
+
+  it('ignores schemas learned without JSON payloads', () => {
+    expect(checkAgainstSchema(learn('binary'), '{"a":1}')).toEqual([]);
+  });
+
+  it('treats fields named like Object.prototype members as new fields', () => {
+    expect(checkAgainstSchema(learn('{"a":1}'), '{"a":1,"constructor":1,"toString":"x","__proto__":{}}')).toEqual([
+      { path: '$.constructor', message: 'Field never seen before' },
+      { path: '$.toString', message: 'Field never seen before' },
+      { path: '$.__proto__', message: 'Field never seen before' },
+    ]);
+  });
+
+  it('checks learned fields named like Object.prototype members', () => {
+    const learned = learn('{"constructor":1,"__proto__":{"x":1}}');
+    expect(checkAgainstSchema(learned, '{"constructor":2,"__proto__":{"x":2}}')).toEqual([]);
+    expect(checkAgainstSchema(learned, '{"__proto__":{"x":"2"}}')).toEqual([
+      { path: '$.__proto__.x', message: 'Expected integer, got string' },
+      { path: '$.constructor', message: 'Required field is missing' },
+    ]);
+  });
+
+  it('checks schemas that went through JSON serialization', () => {
+    const learned = JSON.parse(JSON.stringify(learn('{"a":1}')));
+    expect(checkAgainstSchema(learned, '{"a":1,"valueOf":1}')).toEqual([
+      { path: '$.valueOf', message: 'Field never seen before' },
+    ]);
+  });
+});
+
+describe('toJsonSchema', () => {
+  it('exports types, ranges, enums and required fields', () => {
+    const schema = learn(...Array.from({ length: 3 }, (_, i) => `{"t":${20 + i},"mode":"auto","note":"x"}`), '{"t":1.5}');
+
+    expect(toJsonSchema(schema)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'sensors/temp',
+      description: 'Inferred from 4 JSON messages',
+      type: 'object',
+      properties: {
+        t: { type: 'number', minimum: 1.5, maximum: 22 },
+        mode: { type: 'string', minLength: 4, maxLength: 4, enum: ['auto'] },
+        note: { type: 'string', minLength: 1, maxLength: 1, enum: ['x'] },
+      },
+      required: ['t'],
+    });
+  });
+});
+
+describe('createSchemaLearner', () => {
+  it('learns the same schema as inferSchema, one payload at a time', () => {
+    const payloads = ['{"a":1}', 'not json', undefined, '{"a":2.5,"b":[true]}'];
+    const learner = createSchemaLearner('sensors/temp');
+    payloads.forEach((payload) => learner.add(payload));
+
+    expect({ ...learner.toSchema(), learnedAt: 0 }).toEqual({ ...learn(...payloads), learnedAt: 0 });
+  });
+});
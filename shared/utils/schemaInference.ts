@@ -0,0 +1,324 @@
+// JSON schema inference, shared by the main process (learning from stored
+// messages) and the renderer (checking a message against what was learned)
+//
+// Values are addressed by path: "$" is the payload, "$.a.b" a field and
+// "$.items[]" the elements of an array.
+
+import type {
+  InferredSchema,
+  InferredSchemaNode,
+  JsonValueType,
+  SchemaDeviation,
+} from '../types/models';
+
+// Distinct values a field may have to count as enum-like
+const ENUM_MAX_VALUES = 10;
+
+// Times each distinct value must have been seen on average to count as enum-like
+const ENUM_MIN_REPEATS = 3;
+
+// Strings longer than this are free text rather than enum values
+const ENUM_MAX_STRING_LENGTH = 64;
+
+// Deviations reported per message before the rest are left out
+const MAX_DEVIATIONS = 50;
+
+export interface SchemaField {
+  path: string;
+  node: InferredSchemaNode;
+  required: boolean; // Seen in every object of its parent
+}
+
+interface Accumulator {
+  count: number;
+  types: Partial<Record<JsonValueType, number>>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  values: Set<string | number | boolean> | null; // Null once the value isn't enum-like
+  properties: Map<string, Accumulator>;
+  items?: Accumulator;
+}
+
+function createAccumulator(): Accumulator {
+  return { count: 0, types: {}, values: new Set(), properties: new Map() };
+}
+
+// Payload field names are arbitrary, so only own properties count (not
+// "constructor", "toString" or "__proto__" inherited from Object.prototype)
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function jsonTypeOf(value: unknown): JsonValueType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonValueType;
+}
+
+/**
+ * Record a value in its accumulator, and its fields or elements in theirs
+ */
+function accumulate(acc: Accumulator, value: unknown): void {
+  const type = jsonTypeOf(value);
+  acc.count++;
+  acc.types[type] = (acc.types[type] ?? 0) + 1;
+
+  if (typeof value === 'number') {
+    acc.minimum = Math.min(acc.minimum ?? value, value);
+    acc.maximum = Math.max(acc.maximum ?? value, value);
+  } else if (typeof value === 'string') {
+    acc.minLength = Math.min(acc.minLength ?? value.length, value.length);
+    acc.maxLength = Math.max(acc.maxLength ?? value.length, value.length);
+  }
+
+  if (acc.values) {
+    const enumLike =
+      type === 'boolean' ||
+      type === 'integer' ||
+      (type === 'string' && (value as string).length <= ENUM_MAX_STRING_LENGTH);
+    if (enumLike) {
+      acc.values.add(value as string | number | boolean);
+    }
+    if ((!enumLike && type !== 'object' && type !== 'array' && type !== 'null') || acc.values.size > ENUM_MAX_VALUES) {
+      acc.values = null;
+    }
+  }
+
+  if (type === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      const childAcc = acc.properties.get(key) ?? createAccumulator();
+      acc.properties.set(key, childAcc);
+      accumulate(childAcc, child);
+    });
+  } else if (type === 'array') {
+    (value as unknown[]).forEach((item) => {
+      acc.items = acc.items ?? createAccumulator();
+      accumulate(acc.items, item);
+    });
+  }
+}
+
+function toSchemaNode(acc: Accumulator): InferredSchemaNode {
+  const node: InferredSchemaNode = { count: acc.count, types: acc.types };
+  if (acc.minimum !== undefined) {
+    node.minimum = acc.minimum;
+    node.maximum = acc.maximum;
+  }
+  if (acc.minLength !== undefined) {
+    node.minLength = acc.minLength;
+    node.maxLength = acc.maxLength;
+  }
+  if (acc.values && acc.values.size > 0 && acc.count >= acc.values.size * ENUM_MIN_REPEATS) {
+    node.values = Array.from(acc.values).sort((a, b) => String(a).localeCompare(String(b)));
+  }
+  if (acc.properties.size > 0) {
+    // fromEntries defines a "__proto__" field as a property instead of setting the prototype
+    node.properties = Object.fromEntries(
+      Array.from(acc.properties, ([key, child]) => [key, toSchemaNode(child)])
+    );
+  }
+  if (acc.items) {
+    node.items = toSchemaNode(acc.items);
+  }
+  return node;
+}
+
+function parseJson(text: string | undefined): { value: unknown } | undefined {
+  if (text === undefined || text.trim() === '') {
+    return undefined;
+  }
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+function isRequired(parent: InferredSchemaNode, child: InferredSchemaNode): boolean {
+  return child.count >= (parent.types.object ?? 0);
+}
+
+/**
+ * Learns the structure of a topic's JSON payloads one payload at a time
+ */
+export interface SchemaLearner {
+  /**
+   * @param text - The payload as text; undefined for a binary payload
+   */
+  add: (text: string | undefined) => void;
+  toSchema: () => InferredSchema;
+}
+
+/**
+ * Start learning a topic's schema
+ */
+export function createSchemaLearner(topic: string): SchemaLearner {
+  const root = createAccumulator();
+  let sampleSize = 0;
+  let jsonCount = 0;
+
+  return {
+    add: (text) => {
+      sampleSize++;
+      const parsed = parseJson(text);
+      if (parsed) {
+        jsonCount++;
+        accumulate(root, parsed.value);
+      }
+    },
+    toSchema: () => ({
+      topic,
+      sampleSize,
+      jsonCount,
+      learnedAt: Date.now(),
+      root: jsonCount > 0 ? toSchemaNode(root) : undefined,
+    }),
+  };
+}
+
+/**
+ * Learn the structure of a topic's JSON payloads
+ * @param payloadTexts - Payloads as text; undefined for binary payloads
+ */
+export function inferSchema(topic: string, payloadTexts: Array<string | undefined>): InferredSchema {
+  const learner = createSchemaLearner(topic);
+  payloadTexts.forEach((text) => learner.add(text));
+  return learner.toSchema();
+}
+
+/**
+ * List every value of a schema by path, parents before their fields
+ */
+export function listSchemaFields(schema: InferredSchema): SchemaField[] {
+  const fields: SchemaField[] = [];
+
+  const walk = (node: InferredSchemaNode, path: string, required: boolean): void => {
+    fields.push({ path, node, required });
+    Object.entries(node.properties ?? {}).forEach(([key, child]) =>
+      walk(child, `${path}.${key}`, isRequired(node, child))
+    );
+    if (node.items) {
+      walk(node.items, `${path}[]`, true);
+    }
+  };
+
+  if (schema.root) {
+    walk(schema.root, '$', true);
+  }
+  return fields;
+}
+
+/**
+ * Describe the types a value was seen with, e.g. "integer | null"
+ */
+export function describeTypes(types: InferredSchemaNode['types']): string {
+  return Object.keys(types).sort().join(' | ');
+}
+
+/**
+ * Check a payload against the learned shape of its topic: payloads that are not
+ * JSON, values of types never seen, and fields that are new or missing
+ * Ranges and enum-like value sets are informational and not checked.
+ * @param payloadText - The payload as text; undefined for binary payloads
+ */
+export function checkAgainstSchema(schema: InferredSchema, payloadText: string | undefined): SchemaDeviation[] {
+  if (!schema.root) {
+    return [];
+  }
+
+  const parsed = parseJson(payloadText);
+  if (!parsed) {
+    return [{ path: '$', message: 'Payload is not JSON' }];
+  }
+
+  const deviations = new Map<string, SchemaDeviation>();
+  const report = (path: string, message: string) => {
+    if (deviations.size < MAX_DEVIATIONS) {
+      deviations.set(`${path}\n${message}`, { path, message });
+    }
+  };
+
+  const check = (value: unknown, node: InferredSchemaNode, path: string): void => {
+    const type = jsonTypeOf(value);
+    // Whole numbers are numbers too
+    const known = node.types[type] !== undefined || (type === 'integer' && node.types.number !== undefined);
+    if (!known) {
+      report(path, `Expected ${describeTypes(node.types)}, got ${type}`);
+      return;
+    }
+
+    if (type === 'object') {
+      const object = value as Record<string, unknown>;
+      Object.entries(object).forEach(([key, child]) => {
+        const childNode = node.properties && hasOwn(node.properties, key) ? node.properties[key] : undefined;
+        if (childNode) {
+          check(child, childNode, `${path}.${key}`);
+        } else {
+          report(`${path}.${key}`, 'Field never seen before');
+        }
+      });
+      Object.entries(node.properties ?? {}).forEach(([key, childNode]) => {
+        if (!hasOwn(object, key) && isRequired(node, childNode)) {
+          report(`${path}.${key}`, 'Required field is missing');
+        }
+      });
+    } else if (type === 'array' && node.items) {
+      const items = node.items;
+      (value as unknown[]).forEach((item) => check(item, items, `${path}[]`));
+    }
+  };
+
+  check(parsed.value, schema.root, '$');
+  return Array.from(deviations.values());
+}
+
+/**
+ * Export a learned schema as a JSON Schema (draft 2020-12) document
+ */
+export function toJsonSchema(schema: InferredSchema): Record<string, unknown> {
+  const convert = (node: InferredSchemaNode): Record<string, unknown> => {
+    // JSON Schema's "number" includes integers
+    const types = Object.keys(node.types).filter((type) => type !== 'integer' || node.types.number === undefined);
+    const result: Record<string, unknown> = { type: types.length === 1 ? types[0] : types.sort() };
+
+    if (node.minimum !== undefined) {
+      result.minimum = node.minimum;
+      result.maximum = node.maximum;
+    }
+    if (node.minLength !== undefined) {
+      result.minLength = node.minLength;
+      result.maxLength = node.maxLength;
+    }
+    if (node.values && types.every((type) => ['string', 'integer', 'boolean'].includes(type))) {
+      result.enum = node.values;
+    }
+    if (node.properties) {
+      const properties = Object.entries(node.properties);
+      result.properties = Object.fromEntries(properties.map(([key, child]) => [key, convert(child)]));
+      const required = properties.filter(([, child]) => isRequired(node, child)).map(([key]) => key);
+      if (required.length > 0) {
+        result.required = required;
+      }
+    }
+    if (node.items) {
+      result.items = convert(node.items);
+    }
+    return result;
+  };
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: schema.topic,
+    description: `Inferred from ${schema.jsonCount} JSON messages`,
+    ...(schema.root ? convert(schema.root) : {}),
+  };
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderTemplate } from './templateVariables';
+
+describe('renderTemplate', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('substitutes the time variables', () => {
+    const now = Date.UTC(2030, 0, 2, 3, 4, 5);
+    vi.useFakeTimers({ now, toFake: ['Date'] });
+    expect(renderTemplate('{{timestamp}} {{ isoDate }}', { counter: 1 })).toBe(`${now} 2030-01-02T03:04:05.000Z`);
+  });
+
+  it('substitutes the counter and a random UUID', () => {
+    const rendered = renderTemplate('{{counter}}/{{uuid}}', { counter: 42 });
+    expect(rendered).toMatch(/^42\/[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  it('keeps random integers within their bounds', () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.9999);
+    expect(renderTemplate('{{randomInt 10 30}} {{randomInt 10 30}}', { counter: 1 })).toBe('10 30');
+  });
+
+  it('uses the default bounds and digits of randomFloat', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(renderTemplate('{{randomFloat}}', { counter: 1 })).toBe('0.50');
+    expect(renderTemplate('{{randomFloat -10 10 1}}', { counter: 1 })).toBe('0.0');
+    expect(renderTemplate('{{randomInt}}', { counter: 1 })).toBe('50');
+  });
+
+  it('substitutes environment values of the connection profile', () => {
+    const context = { counter: 1, environment: { SITE: 'plant-1' } };
+    expect(renderTemplate('sites/{{env.SITE}}/status', context)).toBe('sites/plant-1/status');
+  });
+
+  it('leaves unknown variables as they are', () => {
+    const context = { counter: 1, environment: { SITE: 'plant-1' } };
+    expect(renderTemplate('{{nope}} {{env.OTHER}} {{env.constructor}} {{env.toString}}', context)).toBe(
+      '{{nope}} {{env.OTHER}} {{env.constructor}} {{env.toString}}'
+    );
+    expect(renderTemplate('{{env.SITE}}', { counter: 1 })).toBe('{{env.SITE}}');
+  });
+});
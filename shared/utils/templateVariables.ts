@@ -0,0 +1,63 @@
+// Publish template variables, shared by the main process and the renderer
+//
+//   {{timestamp}}                  Milliseconds since the epoch
+//   {{isoDate}}                    Current time as an ISO 8601 string
+//   {{uuid}}                       Random UUID
+//   {{randomInt min max}}          Random integer in [min, max] (default 0 100)
+//   {{randomFloat min max digits}} Random number in [min, max) (default 0 1 2)
+//   {{counter}}                    Publish count of the template, starting at 1
+//   {{env.NAME}}                   Environment value of the connection profile
+//
+// Unknown variables are left as they are.
+
+export interface TemplateContext {
+  counter: number;
+  environment?: Record<string, string>;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)((?:\s+-?\d+(?:\.\d+)?)*)\s*\}\}/g;
+
+/**
+ * Substitute the variables in a topic, payload or property value
+ * @example renderTemplate('{"t": {{randomInt 10 30}}}', { counter: 1 }) => '{"t": 17}'
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string, rawArgs: string) => {
+    const args = rawArgs.trim() ? rawArgs.trim().split(/\s+/).map(Number) : [];
+    return resolveVariable(name, args, context) ?? match;
+  });
+}
+
+/**
+ * Resolve a variable to its value, or undefined if it is unknown
+ */
+function resolveVariable(name: string, args: number[], context: TemplateContext): string | undefined {
+  if (name.startsWith('env.')) {
+    const key = name.slice(4);
+    const environment = context.environment;
+    return environment && Object.prototype.hasOwnProperty.call(environment, key) ? environment[key] : undefined;
+  }
+
+  switch (name) {
+    case 'timestamp':
+      return String(Date.now());
+    case 'isoDate':
+      return new Date().toISOString();
+    case 'uuid':
+      return crypto.randomUUID();
+    case 'counter':
+      return String(context.counter);
+    case 'randomInt': {
+      const [min = 0, max = 100] = args;
+      const low = Math.ceil(Math.min(min, max));
+      const high = Math.floor(Math.max(min, max));
+      return String(low + Math.floor(Math.random() * (high - low + 1)));
+    }
+    case 'randomFloat': {
+      const [min = 0, max = 1, digits = 2] = args;
+      return (min + Math.random() * (max - min)).toFixed(Math.max(0, Math.min(20, digits)));
+    }
+    default:
+      return undefined;
+  }
+}
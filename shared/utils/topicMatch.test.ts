@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getLiteralPrefix,
+  getPrefixUpperBound,
+  hasWildcards,
+  stripSharedSubscription,
+  topicMatchesFilter,
+} from './topicMatch';
+
+describe('topicMatchesFilter', () => {
+  it('matches topics without wildcards literally', () => {
+    expect(topicMatchesFilter('sensors/a/temp', 'sensors/a/temp')).toBe(true);
+    expect(topicMatchesFilter('sensors/a/temp', 'sensors/b/temp')).toBe(false);
+    expect(topicMatchesFilter('sensors/a', 'sensors/a/temp')).toBe(false);
+    expect(topicMatchesFilter('sensors/a/temp', 'sensors/a')).toBe(false);
+  });
+
+  it('matches exactly one level with +', () => {
+    expect(topicMatchesFilter('sensors/a/temp', 'sensors/+/temp')).toBe(true);
+    expect(topicMatchesFilter('sensors/a/b/temp', 'sensors/+/temp')).toBe(false);
+    expect(topicMatchesFilter('sensors/temp', 'sensors/+/temp')).toBe(false);
+    expect(topicMatchesFilter('sensors//temp', 'sensors/+/temp')).toBe(true);
+    expect(topicMatchesFilter('sensors/a', '+/+')).toBe(true);
+    expect(topicMatchesFilter('/a', '+/+')).toBe(true);
+  });
+
+  it('matches the parent level and any number of child levels with #', () => {
+    expect(topicMatchesFilter('a', 'a/#')).toBe(true);
+    expect(topicMatchesFilter('a/b', 'a/#')).toBe(true);
+    expect(topicMatchesFilter('a/b/c', 'a/#')).toBe(true);
+    expect(topicMatchesFilter('ab', 'a/#')).toBe(false);
+    expect(topicMatchesFilter('b/a', 'a/#')).toBe(false);
+    expect(topicMatchesFilter('a/b/c', '#')).toBe(true);
+    expect(topicMatchesFilter('a/b/c', 'a/+/#')).toBe(true);
+    expect(topicMatchesFilter('a/b', 'a/+/#')).toBe(true);
+  });
+
+  it('only accepts # as the last level', () => {
+    expect(topicMatchesFilter('a/b/c', 'a/#/c')).toBe(false);
+  });
+
+  it('keeps topics starting with $ out of leading wildcards', () => {
+    expect(topicMatchesFilter('$SYS/broker/uptime', '#')).toBe(false);
+    expect(topicMatchesFilter('$SYS/broker/uptime', '+/broker/uptime')).toBe(false);
+    expect(topicMatchesFilter('$SYS/broker/uptime', '$SYS/#')).toBe(true);
+    expect(topicMatchesFilter('$SYS/broker/uptime', '$SYS/+/uptime')).toBe(true);
+  });
+
+  it('ignores shared subscription prefixes', () => {
+    expect(topicMatchesFilter('jobs/1', '$share/workers/jobs/#')).toBe(true);
+    expect(topicMatchesFilter('jobs/1', '$share/workers/jobs/+')).toBe(true);
+    expect(topicMatchesFilter('other/1', '$share/workers/jobs/#')).toBe(false);
+    expect(topicMatchesFilter('jobs/1', '$queue/jobs/1')).toBe(true);
+  });
+});
+
+describe('stripSharedSubscription', () => {
+  it('removes $share/<group>/ and $queue/ prefixes', () => {
+    expect(stripSharedSubscription('$share/workers/jobs/#')).toBe('jobs/#');
+    expect(stripSharedSubscription('$queue/jobs/#')).toBe('jobs/#');
+  });
+
+  it('leaves other filters unchanged', () => {
+    expect(stripSharedSubscription('jobs/#')).toBe('jobs/#');
+    expect(stripSharedSubscription('$SYS/#')).toBe('$SYS/#');
+    expect(stripSharedSubscription('$share/+/jobs')).toBe('$share/+/jobs');
+  });
+});
+
+describe('hasWildcards', () => {
+  it('detects + and #', () => {
+    expect(hasWildcards('a/+/c')).toBe(true);
+    expect(hasWildcards('a/#')).toBe(true);
+    expect(hasWildcards('a/b/c')).toBe(false);
+  });
+});
+
+describe('getLiteralPrefix', () => {
+  it('returns the levels before the first wildcard', () => {
+    expect(getLiteralPrefix('plant/line1/+/temp')).toBe('plant/line1');
+    expect(getLiteralPrefix('plant/#')).toBe('plant');
+    expect(getLiteralPrefix('+/temp')).toBe('');
+    expect(getLiteralPrefix('plant/line1')).toBe('plant/line1');
+  });
+});
+
+describe('getPrefixUpperBound', () => {
+  it('increments the last character', () => {
+    expect(getPrefixUpperBound('sensors')).toBe('sensort');
+    expect(getPrefixUpperBound('a/b')).toBe('a/c');
+  });
+
+  it('bounds every topic starting with the prefix', () => {
+    const bound = getPrefixUpperBound('sensors') as string;
+    for (const topic of ['sensors', 'sensors/a', 'sensors/~', 'sensorsz']) {
+      expect(topic >= 'sensors' && topic < bound).toBe(true);
+    }
+    expect('sensort' < bound).toBe(false);
+  });
+
+  it('gives no bound when the last character is not ASCII', () => {
+    expect(getPrefixUpperBound('a\u007f')).toBeUndefined();
+    expect(getPrefixUpperBound('capteurs/é')).toBeUndefined();
+  });
+});
@@ -0,0 +1,75 @@
+// MQTT topic filter matching, shared by the main process and the renderer
+
+// Shared subscription prefixes: $share/<group>/<filter> (MQTT 5) and $queue/<filter> (EMQX)
+const SHARED_SUBSCRIPTION_PATTERN = /^\$share\/[^/+#]+\/|^\$queue\//;
+
+/**
+ * Remove a shared subscription prefix, leaving the topic filter messages are matched against
+ * @example stripSharedSubscription('$share/workers/jobs/#') => 'jobs/#'
+ */
+export function stripSharedSubscription(filter: string): string {
+  return filter.replace(SHARED_SUBSCRIPTION_PATTERN, '');
+}
+
+/**
+ * Check if a topic filter contains + or # wildcards
+ */
+export function hasWildcards(filter: string): boolean {
+  return filter.includes('+') || filter.includes('#');
+}
+
+/**
+ * Check if a topic matches a topic filter
+ * - `+` matches exactly one level (which may be empty)
+ * - `#` matches the parent level and any number of child levels
+ * - Filters starting with a wildcard don't match topics starting with `$` (e.g. $SYS)
+ * - Shared subscription prefixes are ignored
+ */
+export function topicMatchesFilter(topic: string, filter: string): boolean {
+  const filterParts = stripSharedSubscription(filter).split('/');
+  const topicParts = topic.split('/');
+
+  if (topic.startsWith('$') && (filterParts[0] === '+' || filterParts[0] === '#')) {
+    return false;
+  }
+
+  for (let i = 0; i < filterParts.length; i++) {
+    const filterPart = filterParts[i];
+
+    if (filterPart === '#') {
+      // Only valid as the last level
+      return i === filterParts.length - 1;
+    }
+    if (i >= topicParts.length) {
+      return false;
+    }
+    if (filterPart !== '+' && filterPart !== topicParts[i]) {
+      return false;
+    }
+  }
+
+  return topicParts.length === filterParts.length;
+}
+
+/**
+ * Get the levels of a topic filter before its first wildcard
+ * @example getLiteralPrefix('plant/line1/+/temp') => 'plant/line1'
+ */
+export function getLiteralPrefix(filter: string): string {
+  const levels = filter.split('/');
+  const wildcardIndex = levels.findIndex((level) => level === '+' || level === '#');
+  return levels.slice(0, wildcardIndex === -1 ? levels.length : wildcardIndex).join('/');
+}
+
+/**
+ * Get the smallest string greater than every string starting with the prefix
+ * @returns The bound, or undefined if the last character can't simply be incremented
+ */
+export function getPrefixUpperBound(prefix: string): string | undefined {
+  const lastCode = prefix.charCodeAt(prefix.length - 1);
+  // Keep to ASCII so the bound also holds for SQLite's UTF-8 byte ordering
+  if (lastCode >= 0x7f) {
+    return undefined;
+  }
+  return prefix.slice(0, -1) + String.fromCharCode(lastCode + 1);
+}
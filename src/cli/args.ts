@@ -0,0 +1,224 @@
+import type { ConnectionConfig, QoS } from '../../shared/types/models';
+
+export type CliCommand = 'capture' | 'export' | 'profiles' | 'help';
+
+export interface CliOptions {
+  command: CliCommand;
+  // Connection (saved profile or flags)
+  profile?: string;
+  host?: string;
+  port?: number;
+  protocol?: ConnectionConfig['protocol'];
+  protocolVersion?: 3 | 4 | 5;
+  username?: string;
+  password?: string;
+  clientId?: string;
+  insecure?: boolean;
+  // Capture
+  topics: string[];
+  qos: QoS;
+  duration?: number; // Seconds
+  count?: number;
+  // Storage and export
+  db?: string;
+  output?: string;
+  format: 'json' | 'csv';
+  since?: number;
+  until?: number;
+  limit?: number;
+  verbose?: boolean;
+}
+
+export const CLI_USAGE = `Usage: mqtt-voyager <command> [options]
+
+Commands:
+  capture     Connect, subscribe and record messages to the history database
+  export      Export recorded messages as JSON or CSV
+  profiles    List saved connection profiles
+  help        Show this help
+
+Connection (capture):
+  --profile <name|id>      Use a saved connection profile
+  --host <host>            Broker host (instead of --profile)
+  --port <port>            Broker port (default: 1883, 8883 for mqtts)
+  --protocol <protocol>    mqtt, mqtts, ws or wss (default: mqtt)
+  --mqtt-version <3|4|5>   MQTT protocol version (default: 5)
+  --username <username>
+  --password <password>
+  --client-id <id>
+  --insecure               Don't verify the broker's TLS certificate
+
+Capture:
+  --topic <pattern>        Topic to subscribe to; repeatable (default: the
+                           profile's default subscriptions, or #)
+  --qos <0|1|2>            Subscription QoS (default: 0)
+  --duration <seconds>     Stop after this many seconds
+  --count <n>              Stop after this many messages
+                           (without either, capture runs until Ctrl+C)
+  --output <file>          Export the captured messages when done
+  --format <json|csv>      Export format (default: json)
+  --verbose                Print each received topic
+
+Export:
+  --profile <name|id>      Only messages recorded for this profile
+  --topic <pattern>        Only messages on this topic (+ and # allowed; once)
+  --since <time>           ISO date or epoch milliseconds
+  --until <time>           ISO date or epoch milliseconds
+  --limit <n>              Most recent n messages
+  --output <file>          Write to a file instead of stdout
+  --format <json|csv>      Export format (default: json)
+
+Common:
+  --db <path>              SQLite database (default: the app's history database)
+
+On Linux machines without a display, add --ozone-platform=headless before the command.`;
+
+const COMMANDS: CliCommand[] = ['capture', 'export', 'profiles', 'help'];
+
+export class CliUsageError extends Error {}
+
+/**
+ * Get the command-line arguments if the app was started in CLI mode
+ * @returns The arguments from the command onwards, or null to start the GUI
+ */
+export function getCliArgs(argv: string[], isPackaged: boolean): string[] | null {
+  // Skip the executable (and the app path when running unpackaged) and any
+  // Chromium/Electron switches given before the command
+  const args = argv.slice(isPackaged ? 1 : 2);
+  const commandIndex = args.findIndex((arg) => !arg.startsWith('-'));
+
+  if (commandIndex === -1 || !COMMANDS.includes(args[commandIndex] as CliCommand)) {
+    return args.includes('--help') ? ['help'] : null;
+  }
+  return args.slice(commandIndex);
+}
+
+/**
+ * Parse CLI arguments (command first, then --name value / --name=value options)
+ */
+export function parseCliArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    command: args[0] as CliCommand,
+    topics: [],
+    qos: 0,
+    format: 'json',
+  };
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      throw new CliUsageError(`Unexpected argument: ${arg}`);
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    const value = (): string => {
+      const next = inlineValue ?? args[++i];
+      if (next === undefined) {
+        throw new CliUsageError(`Missing value for --${name}`);
+      }
+      return next;
+    };
+
+    switch (name) {
+      case 'profile':
+        options.profile = value();
+        break;
+      case 'host':
+        options.host = value();
+        break;
+      case 'port':
+        options.port = parseInteger(name, value());
+        break;
+      case 'protocol':
+        options.protocol = parseChoice(name, value(), ['mqtt', 'mqtts', 'ws', 'wss']);
+        break;
+      case 'mqtt-version':
+        options.protocolVersion = Number(parseChoice(name, value(), ['3', '4', '5'])) as 3 | 4 | 5;
+        break;
+      case 'username':
+        options.username = value();
+        break;
+      case 'password':
+        options.password = value();
+        break;
+      case 'client-id':
+        options.clientId = value();
+        break;
+      case 'insecure':
+        options.insecure = true;
+        break;
+      case 'topic':
+        options.topics.push(value());
+        break;
+      case 'qos':
+        options.qos = Number(parseChoice(name, value(), ['0', '1', '2'])) as QoS;
+        break;
+      case 'duration':
+        options.duration = parseInteger(name, value());
+        break;
+      case 'count':
+        options.count = parseInteger(name, value());
+        break;
+      case 'db':
+        options.db = value();
+        break;
+      case 'output':
+        options.output = value();
+        break;
+      case 'format':
+        options.format = parseChoice(name, value(), ['json', 'csv']);
+        break;
+      case 'since':
+        options.since = parseTime(name, value());
+        break;
+      case 'until':
+        options.until = parseTime(name, value());
+        break;
+      case 'limit':
+        options.limit = parseInteger(name, value());
+        break;
+      case 'verbose':
+        options.verbose = true;
+        break;
+      case 'help':
+        options.command = 'help';
+        break;
+      default:
+        throw new CliUsageError(`Unknown option: --${name}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Parse a positive integer option
+ */
+function parseInteger(name: string, value: string): number {
+  const num = Number(value);
+  if (!Number.isInteger(num) || num <= 0) {
+    throw new CliUsageError(`--${name} must be a positive integer`);
+  }
+  return num;
+}
+
+/**
+ * Parse an option that must be one of a fixed set of values
+ */
+function parseChoice<T extends string>(name: string, value: string, choices: T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new CliUsageError(`--${name} must be one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Parse an ISO date or epoch milliseconds
+ */
+function parseTime(name: string, value: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (isNaN(time)) {
+    throw new CliUsageError(`--${name} must be an ISO date or epoch milliseconds`);
+  }
+  return time;
+}
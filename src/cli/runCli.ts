@@ -0,0 +1,223 @@
+import { writeFileSync } from 'fs';
+import { MqttService } from '../services/mqtt/MqttService';
+import { MessageHistory } from '../services/storage/MessageHistory';
+import { ConnectionStore } from '../services/storage/ConnectionStore';
+import { ProtobufSchemaStore } from '../services/storage/ProtobufSchemaStore';
+import { MessageDecoder } from '../services/mqtt/MessageDecoder';
+import type { ConnectionConfig, MessageFilter, MqttMessage } from '../../shared/types/models';
+import { CLI_USAGE, CliOptions, CliUsageError, parseCliArgs } from './args';
+
+const DEFAULT_PORTS: Record<ConnectionConfig['protocol'], number> = {
+  mqtt: 1883,
+  mqtts: 8883,
+  ws: 80,
+  wss: 443,
+};
+
+/**
+ * Run a CLI command to completion
+ * Status goes to stderr so exports written to stdout can be piped.
+ * @returns The process exit code (0 success, 1 failure, 2 usage error)
+ */
+export async function runCli(args: string[]): Promise<number> {
+  try {
+    const options = parseCliArgs(args);
+
+    switch (options.command) {
+      case 'capture':
+        await capture(options);
+        break;
+      case 'export':
+        exportMessages(options);
+        break;
+      case 'profiles':
+        listProfiles();
+        break;
+      default:
+        console.log(CLI_USAGE);
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${CLI_USAGE}`);
+      return 2;
+    }
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
+
+/**
+ * Connect, subscribe and record messages until the duration or count is reached
+ */
+async function capture(options: CliOptions): Promise<void> {
+  const config = resolveConnection(options);
+  const topics = options.topics.length > 0
+    ? options.topics
+    : config.defaultSubscriptions?.map((sub) => sub.topic) ?? ['#'];
+
+  const history = new MessageHistory(options.db);
+  const service = new MqttService();
+  const startTime = Date.now();
+  let received = 0;
+  let stopped = false;
+
+  const finished = new Promise<string>((resolve) => {
+    const stop = (reason: string) => {
+      stopped = true;
+      resolve(reason);
+    };
+
+    service.on('message', (message: MqttMessage) => {
+      if (stopped) return;
+
+      history.addMessage(message);
+      received++;
+      if (options.verbose) {
+        console.error(`${message.topic} (${message.payload.length} bytes)`);
+      }
+      if (options.count && received >= options.count) {
+        stop(`reached ${options.count} messages`);
+      }
+    });
+
+    service.on('error', (error: string) => console.error(`MQTT error: ${error}`));
+
+    if (options.duration) {
+      setTimeout(() => stop(`${options.duration}s elapsed`), options.duration * 1000);
+    }
+    process.once('SIGINT', () => stop('interrupted'));
+    process.once('SIGTERM', () => stop('terminated'));
+  });
+
+  try {
+    console.error(`Connecting to ${config.protocol}://${config.host}:${config.port}...`);
+    await service.connect(config);
+
+    for (const topic of topics) {
+      await service.subscribe(topic, options.qos);
+    }
+    console.error(`Capturing ${topics.join(', ')} (QoS ${options.qos})`);
+
+    const reason = await finished;
+    console.error(`Captured ${received} messages (${reason})`);
+  } finally {
+    await service.disconnect(true);
+  }
+
+  try {
+    if (options.output) {
+      writeExport(history, options, { connectionId: config.id, startTime });
+    }
+  } finally {
+    history.close();
+  }
+}
+
+/**
+ * Export recorded messages to a file or stdout
+ */
+function exportMessages(options: CliOptions): void {
+  if (options.topics.length > 1) {
+    throw new CliUsageError('export takes at most one --topic');
+  }
+
+  const filter: MessageFilter = {
+    topic: options.topics[0],
+    startTime: options.since,
+    endTime: options.until,
+    limit: options.limit,
+  };
+
+  if (options.profile) {
+    filter.connectionId = findProfile(options.profile).id;
+  }
+
+  const history = new MessageHistory(options.db);
+  try {
+    writeExport(history, options, filter);
+  } finally {
+    history.close();
+  }
+}
+
+/**
+ * Print saved connection profiles
+ */
+function listProfiles(): void {
+  const connections = new ConnectionStore().getAllConnections();
+  if (connections.length === 0) {
+    console.log('No saved connection profiles');
+    return;
+  }
+
+  for (const connection of connections) {
+    console.log(
+      `${connection.id}\t${connection.name}\t${connection.protocol}://${connection.host}:${connection.port}`
+    );
+  }
+}
+
+/**
+ * Write messages matching a filter in the requested format
+ */
+function writeExport(history: MessageHistory, options: CliOptions, filter: MessageFilter): void {
+  const decoder = new MessageDecoder(
+    new ConnectionStore().getPayloadDecoderAssignments(),
+    new ProtobufSchemaStore().getRegistry()
+  );
+  const content = options.format === 'csv'
+    ? history.exportAsCSV(filter, decoder)
+    : history.exportAsJSON(filter, decoder);
+
+  if (options.output) {
+    writeFileSync(options.output, content, 'utf-8');
+    console.error(`Exported to ${options.output}`);
+  } else {
+    process.stdout.write(content + '\n');
+  }
+}
+
+/**
+ * Build the connection config from a saved profile or the connection flags
+ */
+function resolveConnection(options: CliOptions): ConnectionConfig {
+  if (options.profile) {
+    const profile = findProfile(options.profile);
+    // getConnection decrypts the stored password
+    return new ConnectionStore().getConnection(profile.id!)!;
+  }
+
+  if (!options.host) {
+    throw new CliUsageError('capture needs --profile or --host');
+  }
+
+  const protocol = options.protocol ?? 'mqtt';
+  return {
+    id: `cli_${Date.now()}`,
+    name: 'CLI capture',
+    host: options.host,
+    port: options.port ?? DEFAULT_PORTS[protocol],
+    protocol,
+    protocolVersion: options.protocolVersion,
+    username: options.username,
+    password: options.password,
+    clientId: options.clientId,
+    tls: options.insecure ? { rejectUnauthorized: false } : undefined,
+  };
+}
+
+/**
+ * Find a saved profile by ID or (case-insensitive) name
+ */
+function findProfile(profile: string): ConnectionConfig {
+  const connections = new ConnectionStore().getAllConnections();
+  const match =
+    connections.find((connection) => connection.id === profile) ??
+    connections.find((connection) => connection.name.toLowerCase() === profile.toLowerCase());
+
+  if (!match) {
+    throw new CliUsageError(`No saved connection profile named "${profile}" (see: mqtt-voyager profiles)`);
+  }
+  return match;
+}
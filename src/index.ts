@@ -1,15 +1,60 @@
-import { app, BrowserWindow, ipcMain, nativeImage, Tray } from 'electron';
+import { app, BrowserWindow, ipcMain, IpcMainInvokeEvent, nativeImage, Notification, Tray } from 'electron';
 import { IPC_CHANNELS } from '../shared/types/ipc.types';
-import { MqttService } from './services/mqtt/MqttService';
+import { ConnectionManager } from './services/mqtt/ConnectionManager';
 import { TopicTree } from './services/mqtt/TopicTree';
+import { decodePayloadText, toPayloadBuffer, toRendererMessage } from './services/mqtt/payload';
+import { MessageDecoder } from './services/mqtt/MessageDecoder';
+import { mergeRetainedMessages } from './services/mqtt/retainedMessages';
+import { createTopicSnapshot, diffTopicSnapshots } from './services/mqtt/topicTreeDiff';
+import { createSchemaLearner, inferSchema } from '../shared/utils/schemaInference';
+import type { SchemaLearner } from '../shared/utils/schemaInference';
+import { buildProtobufRoot, registerProtobufDecoders } from '../shared/utils/protobuf';
 import { MessageHistory } from './services/storage/MessageHistory';
 import { ConnectionStore } from './services/storage/ConnectionStore';
+import { RetentionStore } from './services/storage/RetentionStore';
+import { RetentionScheduler } from './services/storage/RetentionScheduler';
+import { ProtobufSchemaStore } from './services/storage/ProtobufSchemaStore';
+import { AutomationStore } from './services/storage/AutomationStore';
+import { AlertRuleStore } from './services/storage/AlertRuleStore';
+import { RequestCollectionStore } from './services/storage/RequestCollectionStore';
+import { PublishTemplateStore } from './services/storage/PublishTemplateStore';
+import { AlertEngine, RaisedAlert } from './services/alerts/AlertEngine';
+import { AutomationServer } from './services/automation/AutomationServer';
+import { RequestResponseTester } from './services/mqtt/RequestResponseTester';
+import { SysMonitor } from './services/sys/SysMonitor';
+import { PublishScheduler } from './services/scheduler/PublishScheduler';
+import { DeviceSimulator } from './services/simulator/DeviceSimulator';
+import { SimulatorFleetStore } from './services/storage/SimulatorFleetStore';
+import { getCliArgs } from './cli/args';
+import { runCli } from './cli/runCli';
+import { decodeSparkplugMessage, SPARKPLUG_NAMESPACE } from './services/sparkplug/sparkplugB';
+import { getReplayMessages } from './services/sparkplug/SparkplugExplorer';
 import type {
   ConnectionConfig,
   PublishOptions,
   QoS,
   MessageFilter,
   MqttMessage,
+  ConnectionStatus,
+  RetentionLimits,
+  RetentionResult,
+  RetentionSettings,
+  ProtobufSchemaFile,
+  ProtobufTopicMapping,
+  AutomationSettings,
+  AlertRule,
+  MqttRequest,
+  SavedRequest,
+  PublishTemplateSet,
+  PublishJob,
+  PublishJobConfig,
+  SimulatorFleet,
+  SimulatorRun,
+  RetainedClearResult,
+  StoredTopicSummary,
+  SysTopicUpdate,
+  TopicSnapshotSource,
+  InferredSchema,
 } from '../shared/types/models';
 
 // Webpack constants provided by electron-forge
@@ -21,14 +66,54 @@ if (require('electron-squirrel-startup')) {
   app.quit();
 }
 
+// Command-line mode (e.g. `mqtt-voyager capture ...`) runs without a window
+const cliArgs = getCliArgs(process.argv, app.isPackaged);
+if (cliArgs) {
+  app.disableHardwareAcceleration();
+}
+
 let mainWindow: BrowserWindow | null = null;
 
 // Service instances
-const mqttService = new MqttService();
-const topicTree = new TopicTree();
+const connectionManager = new ConnectionManager();
 const connectionStore = new ConnectionStore();
+const retentionStore = new RetentionStore();
+const protobufSchemaStore = new ProtobufSchemaStore();
+const automationStore = new AutomationStore();
+const alertRuleStore = new AlertRuleStore();
+const alertEngine = new AlertEngine();
+const requestCollectionStore = new RequestCollectionStore();
+const requestTester = new RequestResponseTester();
+const sysMonitor = new SysMonitor();
+const publishTemplateStore = new PublishTemplateStore();
+const simulatorFleetStore = new SimulatorFleetStore();
 let messageHistory: MessageHistory | null = null;
 
+// IPC handlers that the automation API may also call, keyed by channel
+type IpcHandler = (event: IpcMainInvokeEvent | null, ...args: unknown[]) => Promise<unknown>;
+const exposedHandlers = new Map<string, IpcHandler>();
+
+// Local HTTP/WebSocket API; forwards to the exposed IPC handlers
+const automationServer = new AutomationServer(
+  async (channel, ...args) => {
+    const handler = exposedHandlers.get(channel);
+    if (!handler) {
+      throw new Error(`No handler for ${channel}`);
+    }
+    return handler(null, ...args);
+  },
+  (id) => connectionStore.getConnection(id) ?? undefined
+);
+
+// Most recent stored Sparkplug B messages replayed into a session's explorer on
+// connect, after the latest birth certificates (which are replayed however old)
+const SPARKPLUG_REBUILD_LIMIT = 10000;
+// Most recent stored messages a topic's JSON schema is learned from
+const SCHEMA_SAMPLE_LIMIT = 1000;
+// Most recent stored messages per topic whose payload shapes a topic tree comparison compares
+const DIFF_SCHEMA_SAMPLE_LIMIT = 200;
+let retentionScheduler: RetentionScheduler | null = null;
+
 const trayIconPath = nativeImage.createFromPath('./images/voyager_icon.png');
 const appIconPath = nativeImage.createFromPath('./images/voyager_icon.png');
 
@@ -64,45 +149,234 @@ const createWindow = () => {
   });
 };
 
+// Publish a message and record it like a received one (history, topic tree, live view)
+const publishMessage = async (
+  topic: string,
+  payload: string | Uint8Array,
+  options: PublishOptions,
+  connectionId?: string
+) => {
+  const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+  // Binary payloads (e.g. replayed messages) arrive as Uint8Array and are sent as-is
+  const payloadBuffer = toPayloadBuffer(payload);
+  await connectionManager.requireService(targetConnectionId).publish(topic, payloadBuffer, options);
+
+  // Create a message object for the published message
+  //TODO: Consider whether published messages should be stored in history
+  const publishedMessage: MqttMessage = {
+    id: `pub-${Date.now()}-${Math.random()}`,
+    topic,
+    payload: payloadBuffer,
+    qos: (options.qos ?? 0) as QoS,
+    retained: options.retain ?? false,
+    timestamp: Date.now(),
+    connectionId: targetConnectionId,
+  };
+
+  // Decode Sparkplug B commands so they read like received messages
+  publishedMessage.sparkplug = connectionManager
+    .getSparkplugExplorer(targetConnectionId)
+    ?.decode(publishedMessage);
+
+  if(options.userProperties) {
+    publishedMessage.userProperties = options.userProperties;
+  }
+
+  if (options.properties) {
+    const { correlationData } = options.properties;
+    publishedMessage.properties = {
+      ...options.properties,
+      correlationData: correlationData !== undefined ? toPayloadBuffer(correlationData) : undefined,
+    };
+  }
+
+  // Save to message history
+  if (messageHistory) {
+    messageHistory.addMessage(publishedMessage);
+  }
+
+  // Update topic tree
+  connectionManager.getTopicTree(targetConnectionId)?.addMessage(publishedMessage);
+
+  // Send to renderer to display in live messages
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send(IPC_CHANNELS.MQTT_MESSAGE, toRendererMessage(publishedMessage));
+    mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED, targetConnectionId);
+  }
+};
+
+// Periodic publishing jobs; they keep running while the renderer reloads
+const publishScheduler = new PublishScheduler((connectionId, topic, payload, options) =>
+  publishMessage(topic, payload, options, connectionId)
+);
+
+/**
+ * List the retained messages observed on a session's topics
+ */
+const listRetainedMessages = (connectionId: string, topicFilter = '#') =>
+  mergeRetainedMessages(
+    messageHistory?.getRetainedMessages(connectionId, topicFilter) ?? [],
+    connectionManager.getTopicTree(connectionId)?.getLastMessages(topicFilter) ?? []
+  );
+
+/**
+ * Summarise a connection's stored topics to rebuild its topic tree, decoding
+ * Sparkplug B payloads with the session's known aliases when it is open
+ */
+const getStoredTopicSummaries = (
+  connectionId: string,
+  startTime?: number,
+  endTime?: number
+): StoredTopicSummary[] => {
+  const sparkplugExplorer = connectionManager.getSparkplugExplorer(connectionId);
+  return (messageHistory?.getTopicSummaries(connectionId, startTime, endTime) ?? []).map((summary) => ({
+    ...summary,
+    lastMessage: {
+      ...summary.lastMessage,
+      sparkplug: sparkplugExplorer
+        ? sparkplugExplorer.decode(summary.lastMessage)
+        : decodeSparkplugMessage(summary.lastMessage),
+    },
+  }));
+};
+
+// Learn the JSON schema of a topic (or topic filter) from its most recent stored messages
+const learnTopicSchema = (filter: MessageFilter & { topic: string }): InferredSchema => {
+  const messages = messageHistory?.searchMessages({ ...filter, limit: SCHEMA_SAMPLE_LIMIT }) ?? [];
+  return inferSchema(filter.topic, messages.map((message) => decodePayloadText(message.payload)));
+};
+
+// Learn the JSON schemas of all of a connection's topics in a time window, from
+// each topic's most recent stored messages
+const learnTopicSchemas = (connectionId: string, startTime?: number, endTime?: number): Map<string, InferredSchema> => {
+  const learners = new Map<string, SchemaLearner>();
+  messageHistory?.forEachRecentPayload(
+    connectionId,
+    DIFF_SCHEMA_SAMPLE_LIMIT,
+    (topic, payload) => {
+      const learner = learners.get(topic) ?? createSchemaLearner(topic);
+      learners.set(topic, learner);
+      learner.add(decodePayloadText(payload));
+    },
+    startTime,
+    endTime
+  );
+  return new Map(Array.from(learners, ([topic, learner]) => [topic, learner.toSchema()]));
+};
+
+// Simulated device fleets, for load tests and demos without hardware
+const deviceSimulator = new DeviceSimulator((connectionId, topic, payload, options) =>
+  publishMessage(topic, payload, options, connectionId)
+);
+
 // Initialize services
 const initializeServices = () => {
   // Initialize message history database
   messageHistory = new MessageHistory();
 
-  // Set up MQTT service event listeners
-  mqttService.on('message', (message) => {
+  // Enforce the retention policy on a schedule
+  retentionScheduler = new RetentionScheduler(messageHistory, retentionStore);
+  retentionScheduler.on('pruned', (result: RetentionResult) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(IPC_CHANNELS.RETENTION_PRUNED, result);
+    }
+  });
+  retentionScheduler.start();
+
+  // Protobuf message types can be assigned to topics as payload decoders
+  registerProtobufDecoders(buildProtobufRoot(protobufSchemaStore.getRegistry()).root);
+
+  // Evaluate alert rules; alerts are logged, notified and forwarded to the renderer
+  alertEngine.setRules(alertRuleStore.getRules());
+  alertEngine.setDecoderAssignments(connectionStore.getPayloadDecoderAssignments());
+  alertEngine.on('alert', (raised: RaisedAlert, rule: AlertRule) => {
+    if (!messageHistory) {
+      return;
+    }
+
+    const alert = messageHistory.addAlert(raised);
+    automationServer.broadcast('alert', alert);
+
+    if (rule.notify && Notification.isSupported()) {
+      new Notification({
+        title: `Alert: ${alert.ruleName}`,
+        body: `${alert.topic}\n${alert.message}`,
+      }).show();
+    }
+
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(IPC_CHANNELS.ALERT_TRIGGERED, alert);
+    }
+  });
+  alertEngine.start();
+
+  publishScheduler.on('changed', (jobs: PublishJob[]) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(IPC_CHANNELS.PUBLISH_JOBS_CHANGED, jobs);
+    }
+  });
+
+  sysMonitor.on('update', (update: SysTopicUpdate) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(IPC_CHANNELS.SYS_MONITOR_UPDATED, update);
+    }
+  });
+
+  deviceSimulator.on('changed', (runs: SimulatorRun[]) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(IPC_CHANNELS.SIMULATOR_RUNS_CHANGED, runs);
+    }
+  });
+
+  // Set up connection manager event listeners (topic trees are updated per session)
+  connectionManager.on('message', (message: MqttMessage) => {
     // Add message to history
     messageHistory?.addMessage(message);
+    alertEngine.handleMessage(message);
+    requestTester.handleMessage(message);
+    sysMonitor.handleMessage(message);
 
-    // Update topic tree
-    topicTree.addMessage(message);
+    // Payload stays binary, with a text preview when valid UTF-8
+    const rendererMessage = toRendererMessage(message);
+    automationServer.broadcast('message', rendererMessage);
 
     // Send message to renderer
-    // Convert Buffer payload to string for IPC transmission
     if (mainWindow && !mainWindow.isDestroyed()) {
-      const messageForRenderer = {
-        ...message,
-        payload: Buffer.isBuffer(message.payload)
-          ? message.payload.toString('utf-8')
-          : message.payload,
-      };
-      mainWindow.webContents.send(IPC_CHANNELS.MQTT_MESSAGE, messageForRenderer);
+      mainWindow.webContents.send(IPC_CHANNELS.MQTT_MESSAGE, rendererMessage);
       // Notify renderer that topic tree was updated
-      mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED);
+      mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED, message.connectionId);
+      if (message.sparkplug) {
+        mainWindow.webContents.send(IPC_CHANNELS.SPARKPLUG_UPDATED, message.connectionId);
+      }
     }
   });
 
-  mqttService.on('status', (status) => {
+  connectionManager.on('status', (connectionId: string, status: ConnectionStatus) => {
+    automationServer.broadcast('status', { connectionId, status });
+
     // Send status update to renderer
     if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send(IPC_CHANNELS.MQTT_STATUS, status);
+      mainWindow.webContents.send(IPC_CHANNELS.MQTT_STATUS, status, connectionId);
+      mainWindow.webContents.send(IPC_CHANNELS.SESSIONS_UPDATED, connectionManager.getSessions());
     }
   });
 
-  mqttService.on('error', (error) => {
+  connectionManager.on('error', (connectionId: string, error: string) => {
     // Send error to renderer
     if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send(IPC_CHANNELS.MQTT_ERROR, error);
+      mainWindow.webContents.send(IPC_CHANNELS.MQTT_ERROR, error, connectionId);
+    }
+  });
+
+  connectionManager.on('active-changed', (connectionId: string | null) => {
+    // Remember the focused session so it can be restored on next launch
+    connectionStore.setLastUsedConnection(connectionId ?? undefined);
+
+    // Notify renderer so views reload for the newly active session
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(IPC_CHANNELS.CONNECTION_CHANGED, connectionId);
+      mainWindow.webContents.send(IPC_CHANNELS.SESSIONS_UPDATED, connectionManager.getSessions());
+      mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED, connectionId);
     }
   });
 
@@ -111,37 +385,59 @@ const initializeServices = () => {
 
 // Register IPC handlers
 const registerIpcHandlers = () => {
+  // Register a handler that scripts can also reach through the automation API
+  const handleExposed = <Args extends unknown[]>(
+    channel: string,
+    handler: (event: IpcMainInvokeEvent | null, ...args: Args) => Promise<unknown>
+  ) => {
+    // Like ipcMain.handle, trusts callers to pass the arguments the handler declares
+    exposedHandlers.set(channel, handler as IpcHandler);
+    ipcMain.handle(channel, handler);
+  };
+
   // Test ping handler
   ipcMain.handle(IPC_CHANNELS.PING, async (_event, message: string) => {
     console.log('Received ping from renderer:', message);
     return `Pong! Received: ${message}`;
   });
 
-  // MQTT Connect
-  ipcMain.handle(IPC_CHANNELS.MQTT_CONNECT, async (_event, config: ConnectionConfig) => {
+  // MQTT Connect (opens a new session alongside any existing ones)
+  handleExposed(
+    IPC_CHANNELS.MQTT_CONNECT,
+    async (_event, config: ConnectionConfig, options?: { activate?: boolean }) => {
     try {
-      // Clear topic tree before connecting to new broker
-      // (mqttService.connect handles disconnecting any existing connection internally)
-      topicTree.clear();
-
-      await mqttService.connect(config);
-
-      // Save as last used connection if it has an ID
-      if (config.id) {
-        connectionStore.setLastUsedConnection(config.id);
-      }
-
-      // Notify renderer of connection change
-      if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send(IPC_CHANNELS.CONNECTION_CHANGED, config.id);
-        mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED);
+      // Reconnecting an already open profile replaces its client and rebuilds its topic tree
+      const connectionId = await connectionManager.connect(config, options?.activate !== false);
+      const service = connectionManager.requireService(connectionId);
+      const topicTree = connectionManager.getTopicTree(connectionId)!;
+
+      // Restore the Sparkplug B explorer from stored births and data, oldest first
+      if (messageHistory) {
+        const births = [
+          ...messageHistory.getLatestMessages(connectionId, `${SPARKPLUG_NAMESPACE}/+/NBIRTH/+`),
+          ...messageHistory.getLatestMessages(connectionId, `${SPARKPLUG_NAMESPACE}/+/DBIRTH/+/+`),
+        ];
+        const sparkplugMessages = messageHistory.searchMessages({
+          connectionId,
+          topic: `${SPARKPLUG_NAMESPACE}/#`,
+          limit: SPARKPLUG_REBUILD_LIMIT,
+        });
+        connectionManager
+          .getSparkplugExplorer(connectionId)
+          ?.rebuild(getReplayMessages(births, sparkplugMessages));
+
+        // Restore the topic tree from the latest stored message of each topic
+        topicTree.rebuild(getStoredTopicSummaries(connectionId));
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED, connectionId);
+        }
       }
 
       // Auto-subscribe to default subscriptions
       if (config.defaultSubscriptions && config.defaultSubscriptions.length > 0) {
         for (const sub of config.defaultSubscriptions) {
           try {
-            await mqttService.subscribe(sub.topic, sub.qos);
+            await service.subscribe(sub.topic, sub.qos);
             topicTree.markSubscribed(sub.topic, true);
             console.log(`Auto-subscribed to: ${sub.topic} (QoS ${sub.qos})`);
           } catch (error) {
@@ -150,27 +446,31 @@ const registerIpcHandlers = () => {
         }
       }
 
-      console.log('Connected to MQTT broker');
+      console.log(`Connected to MQTT broker (${connectionId})`);
+      return connectionId;
     } catch (error) {
       console.error('Failed to connect to MQTT broker:', error);
       throw error;
     }
-  });
+    }
+  );
 
-  // MQTT Disconnect
-  ipcMain.handle(IPC_CHANNELS.MQTT_DISCONNECT, async () => {
+  // MQTT Disconnect (defaults to the active session)
+  handleExposed(IPC_CHANNELS.MQTT_DISCONNECT, async (_event, connectionId?: string) => {
     try {
-      await mqttService.disconnect();
-
-      // Clear topic tree on disconnect
-      topicTree.clear();
-
-      connectionStore.setLastUsedConnection(undefined);
+      const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+      await connectionManager.disconnect(targetConnectionId);
+      // A closed session's topics aren't silent, just no longer watched
+      if (targetConnectionId) {
+        alertEngine.clearConnection(targetConnectionId);
+        requestTester.clearConnection(targetConnectionId);
+        sysMonitor.clearConnection(targetConnectionId);
+        publishScheduler.stopConnection(targetConnectionId, 'Disconnected');
+        deviceSimulator.stopConnection(targetConnectionId, 'Disconnected');
+      }
 
-      // Notify renderer of disconnection and topic tree update
       if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send(IPC_CHANNELS.CONNECTION_CHANGED, null);
-        mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED);
+        mainWindow.webContents.send(IPC_CHANNELS.SESSIONS_UPDATED, connectionManager.getSessions());
       }
 
       console.log('Disconnected from MQTT broker');
@@ -181,12 +481,20 @@ const registerIpcHandlers = () => {
   });
 
   // MQTT Subscribe
-  ipcMain.handle(
+  handleExposed(
     IPC_CHANNELS.MQTT_SUBSCRIBE,
-    async (_event, { topic, qos }: { topic: string; qos: QoS }) => {
+    async (
+      _event,
+      {
+        topic,
+        qos,
+        subscriptionIdentifier,
+        connectionId,
+      }: { topic: string; qos: QoS; subscriptionIdentifier?: number; connectionId?: string }
+    ) => {
       try {
-        await mqttService.subscribe(topic, qos);
-        topicTree.markSubscribed(topic, true);
+        await connectionManager.requireService(connectionId).subscribe(topic, qos, subscriptionIdentifier);
+        connectionManager.getTopicTree(connectionId)?.markSubscribed(topic, true);
         console.log(`Subscribed to topic: ${topic}`);
       } catch (error) {
         console.error(`Failed to subscribe to topic ${topic}:`, error);
@@ -196,54 +504,35 @@ const registerIpcHandlers = () => {
   );
 
   // MQTT Unsubscribe
-  ipcMain.handle(IPC_CHANNELS.MQTT_UNSUBSCRIBE, async (_event, topic: string) => {
-    try {
-      await mqttService.unsubscribe(topic);
-      topicTree.markSubscribed(topic, false);
-      console.log(`Unsubscribed from topic: ${topic}`);
-    } catch (error) {
-      console.error(`Failed to unsubscribe from topic ${topic}:`, error);
-      throw error;
+  handleExposed(
+    IPC_CHANNELS.MQTT_UNSUBSCRIBE,
+    async (_event, { topic, connectionId }: { topic: string; connectionId?: string }) => {
+      try {
+        await connectionManager.requireService(connectionId).unsubscribe(topic);
+        connectionManager.getTopicTree(connectionId)?.markSubscribed(topic, false);
+        console.log(`Unsubscribed from topic: ${topic}`);
+      } catch (error) {
+        console.error(`Failed to unsubscribe from topic ${topic}:`, error);
+        throw error;
+      }
     }
-  });
+  );
 
   // MQTT Publish
-  ipcMain.handle(
+  handleExposed(
     IPC_CHANNELS.MQTT_PUBLISH,
-    async (_event, { topic, payload, options }: { topic: string; payload: string; options: PublishOptions }) => {
+    async (
+      _event,
+      {
+        topic,
+        payload,
+        options,
+        connectionId,
+      }: { topic: string; payload: string | Uint8Array; options: PublishOptions; connectionId?: string }
+    ) => {
       try {
-        await mqttService.publish(topic, payload, options);
+        await publishMessage(topic, payload, options, connectionId);
         console.log(`Published message to topic: ${topic}`);
-
-        // Create a message object for the published message
-        //TODO: Consider whether published messages should be stored in history
-        const publishedMessage: MqttMessage = {
-          id: `pub-${Date.now()}-${Math.random()}`,
-          topic,
-          payload: Buffer.from(payload),
-          qos: (options.qos ?? 0) as QoS,
-          retained: options.retain ?? false,
-          timestamp: Date.now(),
-          connectionId: mqttService.getCurrentConnectionId(),
-        };
-
-        if(options.userProperties) {
-          publishedMessage.userProperties = options.userProperties;
-        }
-
-        // Save to message history
-        if (messageHistory) {
-          messageHistory.addMessage(publishedMessage);
-        }
-
-        // Update topic tree
-        topicTree.addMessage(publishedMessage);
-
-        // Send to renderer to display in live messages
-        if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send(IPC_CHANNELS.MQTT_MESSAGE, publishedMessage);
-          mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED);
-        }
       } catch (error) {
         console.error(`Failed to publish to topic ${topic}:`, error);
         throw error;
@@ -252,64 +541,71 @@ const registerIpcHandlers = () => {
   );
 
   // Get active subscriptions
-  ipcMain.handle(IPC_CHANNELS.MQTT_GET_SUBSCRIPTIONS, async () => {
-    return mqttService.getSubscriptions();
+  handleExposed(IPC_CHANNELS.MQTT_GET_SUBSCRIPTIONS, async (_event, connectionId?: string) => {
+    return connectionManager.getService(connectionId)?.getSubscriptions() ?? [];
+  });
+
+  // Get all open broker sessions
+  handleExposed(IPC_CHANNELS.MQTT_GET_SESSIONS, async () => {
+    return connectionManager.getSessions();
   });
 
   // Message Search
-  ipcMain.handle(IPC_CHANNELS.MESSAGE_SEARCH, async (_event, filter: MessageFilter) => {
+  handleExposed(IPC_CHANNELS.MESSAGE_SEARCH, async (_event, filter: MessageFilter) => {
 
     if (!messageHistory) {
       return [];
     }
 
-    // Auto-inject current connectionId if not provided
-    const currentConnectionId = mqttService.getCurrentConnectionId();
+    // Auto-inject active connectionId if not provided
     const filterWithConnection: MessageFilter = {
       ...filter,
-      connectionId: filter.connectionId || currentConnectionId,
+      connectionId: connectionManager.resolveConnectionId(filter.connectionId),
     };
 
     const messages = messageHistory.searchMessages(filterWithConnection);
-    // Convert Buffer payloads to strings for renderer
-    return messages.map(msg => ({
-      ...msg,
-      payload: Buffer.isBuffer(msg.payload)
-        ? msg.payload.toString('utf-8')
-        : msg.payload,
-    }));
+    // Sparkplug B payloads are decoded with the session's known aliases when it is open
+    const sparkplugExplorer = connectionManager.getSparkplugExplorer(filterWithConnection.connectionId);
+    // Payloads cross IPC as raw bytes, with a text preview when valid UTF-8
+    return messages.map((message) =>
+      toRendererMessage({
+        ...message,
+        sparkplug: sparkplugExplorer
+          ? sparkplugExplorer.decode(message)
+          : decodeSparkplugMessage(message),
+      })
+    );
   });
 
   // Clear messages
-  ipcMain.handle(IPC_CHANNELS.MESSAGE_CLEAR, async () => {
+  ipcMain.handle(IPC_CHANNELS.MESSAGE_CLEAR, async (_event, connectionId?: string) => {
     if (messageHistory) {
-      const currentConnectionId = mqttService.getCurrentConnectionId();
-      messageHistory.clearAll(currentConnectionId);
-      topicTree.clear();
+      const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+      messageHistory.clearAll(targetConnectionId);
+      connectionManager.getTopicTree(targetConnectionId)?.clear();
       if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED);
+        mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED, targetConnectionId);
       }
     }
   });
 
   // Get statistics
-  ipcMain.handle(IPC_CHANNELS.MESSAGE_GET_STATS, async () => {
+  handleExposed(IPC_CHANNELS.MESSAGE_GET_STATS, async (_event, connectionId?: string) => {
 
     if (!messageHistory) {
       return null;
     }
-    const currentConnectionId = mqttService.getCurrentConnectionId();
-    return messageHistory.getStatistics(currentConnectionId);
+    return messageHistory.getStatistics(connectionManager.resolveConnectionId(connectionId));
   });
 
-  // Reset statistics (clears current connection's messages)
-  ipcMain.handle(IPC_CHANNELS.MESSAGE_RESET_STATS, async () => {
+  // Reset statistics (clears the session's messages)
+  ipcMain.handle(IPC_CHANNELS.MESSAGE_RESET_STATS, async (_event, connectionId?: string) => {
     if (messageHistory) {
-      const currentConnectionId = mqttService.getCurrentConnectionId();
-      messageHistory.clearAll(currentConnectionId);
-      topicTree.clear();
+      const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+      messageHistory.clearAll(targetConnectionId);
+      connectionManager.getTopicTree(targetConnectionId)?.clear();
       if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED);
+        mainWindow.webContents.send(IPC_CHANNELS.TOPIC_TREE_UPDATED, targetConnectionId);
       }
     }
   });
@@ -322,23 +618,389 @@ const registerIpcHandlers = () => {
         throw new Error('Message history not initialized');
       }
 
+      // Exports carry payloads decoded the way the renderer shows them, with the
+      // Sparkplug B aliases of open sessions
+      const decoder = new MessageDecoder(
+        connectionStore.getPayloadDecoderAssignments(),
+        protobufSchemaStore.getRegistry(),
+        (message) => {
+          const sparkplugExplorer = message.connectionId
+            ? connectionManager.getSparkplugExplorer(message.connectionId)
+            : undefined;
+          return sparkplugExplorer ? sparkplugExplorer.decode(message) : decodeSparkplugMessage(message);
+        }
+      );
       if (format === 'json') {
-        return messageHistory.exportAsJSON(filter);
+        return messageHistory.exportAsJSON(filter, decoder);
       } else if (format === 'csv') {
-        return messageHistory.exportAsCSV(filter);
+        return messageHistory.exportAsCSV(filter, decoder);
       } else {
         throw new Error(`Unsupported export format: ${format}`);
       }
     }
   );
 
+  // ===== Retention =====
+
+  // Get retention settings, last run and database size
+  ipcMain.handle(IPC_CHANNELS.RETENTION_GET_STATUS, async () => {
+    if (!retentionScheduler) {
+      throw new Error('Message history not initialized');
+    }
+    return retentionScheduler.getStatus();
+  });
+
+  // Save retention settings and reschedule
+  ipcMain.handle(IPC_CHANNELS.RETENTION_SAVE_SETTINGS, async (_event, settings: RetentionSettings) => {
+    if (!retentionScheduler) {
+      throw new Error('Message history not initialized');
+    }
+    return retentionScheduler.updateSettings(settings);
+  });
+
+  // Preview how many messages would be pruned
+  ipcMain.handle(IPC_CHANNELS.RETENTION_PREVIEW, async (_event, limits?: RetentionLimits) => {
+    if (!retentionScheduler) {
+      throw new Error('Message history not initialized');
+    }
+    return retentionScheduler.preview(limits);
+  });
+
+  // Prune now
+  ipcMain.handle(IPC_CHANNELS.RETENTION_APPLY, async (_event, limits?: RetentionLimits) => {
+    if (!retentionScheduler) {
+      throw new Error('Message history not initialized');
+    }
+    try {
+      return retentionScheduler.apply(limits);
+    } catch (error) {
+      console.error('Failed to apply retention policy:', error);
+      throw error;
+    }
+  });
+
+  // ===== Protobuf Schemas =====
+
+  const notifyProtobufRegistryUpdated = () => {
+    const registry = protobufSchemaStore.getRegistry();
+    registerProtobufDecoders(buildProtobufRoot(registry).root);
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(IPC_CHANNELS.PROTOBUF_REGISTRY_UPDATED, registry);
+    }
+    return registry;
+  };
+
+  // Get registered schema files and topic mappings
+  ipcMain.handle(IPC_CHANNELS.PROTOBUF_GET_REGISTRY, async () => {
+    return protobufSchemaStore.getRegistry();
+  });
+
+  // Register a .proto file or descriptor set
+  ipcMain.handle(
+    IPC_CHANNELS.PROTOBUF_ADD_FILE,
+    async (_event, file: Omit<ProtobufSchemaFile, 'id' | 'addedAt'>) => {
+      try {
+        protobufSchemaStore.addFile(file);
+        console.log(`Registered protobuf schema: ${file.name}`);
+        return notifyProtobufRegistryUpdated();
+      } catch (error) {
+        console.error('Failed to register protobuf schema:', error);
+        throw error;
+      }
+    }
+  );
+
+  // Remove a schema file
+  ipcMain.handle(IPC_CHANNELS.PROTOBUF_REMOVE_FILE, async (_event, id: string) => {
+    protobufSchemaStore.removeFile(id);
+    return notifyProtobufRegistryUpdated();
+  });
+
+  // Replace topic pattern -> message type mappings
+  ipcMain.handle(
+    IPC_CHANNELS.PROTOBUF_SAVE_MAPPINGS,
+    async (_event, mappings: ProtobufTopicMapping[]) => {
+      protobufSchemaStore.saveMappings(mappings);
+      return notifyProtobufRegistryUpdated();
+    }
+  );
+
+  // ===== Automation API =====
+
+  // Get automation API settings and server state
+  ipcMain.handle(IPC_CHANNELS.AUTOMATION_GET_STATUS, async () => {
+    return automationServer.getStatus(automationStore.getSettings());
+  });
+
+  // Save settings and start, restart or stop the server accordingly
+  ipcMain.handle(IPC_CHANNELS.AUTOMATION_SAVE_SETTINGS, async (_event, settings: AutomationSettings) => {
+    automationStore.saveSettings(settings);
+    await automationServer.applySettings(settings);
+    return automationServer.getStatus(settings);
+  });
+
+  // Replace the access token (connected WebSocket clients are dropped)
+  ipcMain.handle(IPC_CHANNELS.AUTOMATION_REGENERATE_TOKEN, async () => {
+    const settings = automationStore.regenerateToken();
+    await automationServer.applySettings(settings);
+    return automationServer.getStatus(settings);
+  });
+
+  // ===== Alerts =====
+
+  // Get alert rules
+  ipcMain.handle(IPC_CHANNELS.ALERT_GET_RULES, async () => {
+    return alertRuleStore.getRules();
+  });
+
+  // Replace alert rules and start evaluating them
+  ipcMain.handle(IPC_CHANNELS.ALERT_SAVE_RULES, async (_event, rules: AlertRule[]) => {
+    const saved = alertRuleStore.saveRules(rules);
+    alertEngine.setRules(saved);
+    return saved;
+  });
+
+  // Get the most recent alerts
+  ipcMain.handle(IPC_CHANNELS.ALERT_GET_LOG, async (_event, limit?: number) => {
+    return messageHistory?.getAlerts(limit) ?? [];
+  });
+
+  // Clear the alert log
+  ipcMain.handle(IPC_CHANNELS.ALERT_CLEAR_LOG, async () => {
+    messageHistory?.clearAlerts();
+  });
+
+  // ===== Request/Response Tester =====
+
+  // Publish a request and wait for the reply matching its correlation data
+  ipcMain.handle(
+    IPC_CHANNELS.REQUEST_SEND,
+    async (_event, { request, connectionId }: { request: MqttRequest; connectionId?: string }) => {
+      const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+      const service = connectionManager.requireService(targetConnectionId);
+      const protocolVersion = connectionManager.getConfig(targetConnectionId)?.protocolVersion;
+      if (protocolVersion !== undefined && protocolVersion !== 5) {
+        throw new Error('Request/response needs an MQTT 5.0 connection');
+      }
+
+      try {
+        const result = await requestTester.send(service, targetConnectionId!, request);
+        return { ...result, response: result.response && toRendererMessage(result.response) };
+      } catch (error) {
+        console.error(`Failed to send request to ${request.topic}:`, error);
+        throw error;
+      }
+    }
+  );
+
+  // Get the saved requests of a connection
+  ipcMain.handle(IPC_CHANNELS.REQUEST_GET_COLLECTION, async (_event, connectionId?: string) => {
+    const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+    return targetConnectionId ? requestCollectionStore.getCollection(targetConnectionId) : [];
+  });
+
+  // Replace the saved requests of a connection
+  ipcMain.handle(
+    IPC_CHANNELS.REQUEST_SAVE_COLLECTION,
+    async (_event, { requests, connectionId }: { requests: SavedRequest[]; connectionId?: string }) => {
+      const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+      if (!targetConnectionId) {
+        throw new Error('Not connected to MQTT broker');
+      }
+      return requestCollectionStore.saveCollection(targetConnectionId, requests);
+    }
+  );
+
+  // ===== Publish Templates =====
+
+  // Get the publish templates and environment values of a connection
+  ipcMain.handle(IPC_CHANNELS.TEMPLATE_GET, async (_event, connectionId?: string) => {
+    const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+    return targetConnectionId
+      ? publishTemplateStore.getTemplateSet(targetConnectionId)
+      : { templates: [], environment: {} };
+  });
+
+  // Replace the publish templates and environment values of a connection
+  ipcMain.handle(
+    IPC_CHANNELS.TEMPLATE_SAVE,
+    async (_event, { templateSet, connectionId }: { templateSet: PublishTemplateSet; connectionId?: string }) => {
+      const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+      if (!targetConnectionId) {
+        throw new Error('Not connected to MQTT broker');
+      }
+      return publishTemplateStore.saveTemplateSet(targetConnectionId, templateSet);
+    }
+  );
+
+  // ===== Scheduled Publishing =====
+
+  // Start a periodic publishing job on a session
+  ipcMain.handle(IPC_CHANNELS.PUBLISH_JOB_START, async (_event, config: PublishJobConfig) => {
+    const targetConnectionId = connectionManager.resolveConnectionId(config.connectionId);
+    if (!targetConnectionId || !connectionManager.hasSession(targetConnectionId)) {
+      throw new Error('Not connected to MQTT broker');
+    }
+
+    const { environment } = publishTemplateStore.getTemplateSet(targetConnectionId);
+    const job = publishScheduler.start({ ...config, connectionId: targetConnectionId }, environment);
+    console.log(`Started publish job ${job.id} on ${job.topic}`);
+    return job;
+  });
+
+  // Stop a job
+  ipcMain.handle(IPC_CHANNELS.PUBLISH_JOB_STOP, async (_event, id: string) => {
+    publishScheduler.stop(id);
+  });
+
+  // Stop a job and remove it from the list
+  ipcMain.handle(IPC_CHANNELS.PUBLISH_JOB_REMOVE, async (_event, id: string) => {
+    publishScheduler.remove(id);
+  });
+
+  // Get all jobs with their status and sent counts
+  ipcMain.handle(IPC_CHANNELS.PUBLISH_JOB_LIST, async () => {
+    return publishScheduler.getJobs();
+  });
+
+  // ===== Device Simulator =====
+
+  // Get the saved fleets
+  ipcMain.handle(IPC_CHANNELS.SIMULATOR_GET_FLEETS, async () => {
+    return simulatorFleetStore.getFleets();
+  });
+
+  // Replace the saved fleets; deleted fleets stop running
+  ipcMain.handle(IPC_CHANNELS.SIMULATOR_SAVE_FLEETS, async (_event, fleets: SimulatorFleet[]) => {
+    const saved = simulatorFleetStore.saveFleets(fleets);
+    for (const run of deviceSimulator.getRuns()) {
+      if (!saved.some((fleet) => fleet.id === run.fleetId)) {
+        deviceSimulator.remove(run.fleetId);
+      }
+    }
+    return saved;
+  });
+
+  // Start a fleet on a session
+  ipcMain.handle(
+    IPC_CHANNELS.SIMULATOR_START,
+    async (_event, { fleetId, connectionId }: { fleetId: string; connectionId?: string }) => {
+      const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+      if (!targetConnectionId || !connectionManager.hasSession(targetConnectionId)) {
+        throw new Error('Not connected to MQTT broker');
+      }
+
+      const fleet = simulatorFleetStore.getFleets().find((candidate) => candidate.id === fleetId);
+      if (!fleet) {
+        throw new Error(`No simulator fleet ${fleetId}`);
+      }
+
+      const { environment } = publishTemplateStore.getTemplateSet(targetConnectionId);
+      const run = deviceSimulator.start(fleet, targetConnectionId, environment);
+      console.log(`Started simulator fleet ${fleet.name} (${fleet.deviceCount} devices)`);
+      return run;
+    }
+  );
+
+  // Stop a fleet
+  ipcMain.handle(IPC_CHANNELS.SIMULATOR_STOP, async (_event, fleetId: string) => {
+    deviceSimulator.stop(fleetId);
+  });
+
+  // Get the status and sent counts of started fleets
+  ipcMain.handle(IPC_CHANNELS.SIMULATOR_GET_RUNS, async () => {
+    return deviceSimulator.getRuns();
+  });
+
+  // ===== Retained Message Manager =====
+
+  // List the retained messages observed on the session's topics
+  ipcMain.handle(
+    IPC_CHANNELS.RETAINED_LIST,
+    async (_event, { topicFilter, connectionId }: { topicFilter?: string; connectionId?: string }) => {
+      const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+      if (!targetConnectionId) {
+        return [];
+      }
+      return listRetainedMessages(targetConnectionId, topicFilter || undefined).map(toRendererMessage);
+    }
+  );
+
+  // Clear the retained messages of matching topics by publishing empty retained payloads
+  ipcMain.handle(
+    IPC_CHANNELS.RETAINED_CLEAR,
+    async (
+      _event,
+      { topicFilter, dryRun, connectionId }: { topicFilter: string; dryRun: boolean; connectionId?: string }
+    ) => {
+      const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+      if (!targetConnectionId || !connectionManager.hasSession(targetConnectionId)) {
+        throw new Error('Not connected to MQTT broker');
+      }
+
+      const result: RetainedClearResult = {
+        dryRun,
+        topics: listRetainedMessages(targetConnectionId, topicFilter || undefined).map((message) => message.topic),
+        failed: [],
+      };
+      if (dryRun) {
+        return result;
+      }
+
+      for (const topic of result.topics) {
+        try {
+          // QoS 1 so the broker acknowledges every clear
+          await publishMessage(topic, '', { qos: 1, retain: true }, targetConnectionId);
+        } catch (error) {
+          result.failed.push({ topic, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      result.topics = result.topics.filter((topic) => !result.failed.some((failure) => failure.topic === topic));
+
+      console.log(`Cleared ${result.topics.length} retained messages matching ${topicFilter || '#'}`);
+      return result;
+    }
+  );
+
+  // ===== Broker $SYS Monitor =====
+
+  // Subscribe a session to $SYS/# and start collecting broker metrics
+  ipcMain.handle(IPC_CHANNELS.SYS_MONITOR_START, async (_event, connectionId?: string) => {
+    const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+    const service = connectionManager.requireService(targetConnectionId);
+    return sysMonitor.start(service, targetConnectionId!);
+  });
+
+  // Stop monitoring a session
+  ipcMain.handle(IPC_CHANNELS.SYS_MONITOR_STOP, async (_event, connectionId?: string) => {
+    const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+    if (targetConnectionId) {
+      await sysMonitor.stop(connectionManager.getService(targetConnectionId), targetConnectionId);
+    }
+  });
+
+  // Get the broker metrics collected for a session
+  ipcMain.handle(IPC_CHANNELS.SYS_MONITOR_GET, async (_event, connectionId?: string) => {
+    const targetConnectionId = connectionManager.resolveConnectionId(connectionId);
+    return (targetConnectionId && sysMonitor.getState(targetConnectionId)) || null;
+  });
+
   // ===== Connection Profile Management =====
 
+  // Profiles carry payload decoder assignments the renderer and alert rules decode with
+  const notifyConnectionProfilesUpdated = () => {
+    alertEngine.setDecoderAssignments(connectionStore.getPayloadDecoderAssignments());
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(IPC_CHANNELS.CONNECTION_PROFILES_UPDATED);
+    }
+  };
+
   // Save connection profile
   ipcMain.handle(IPC_CHANNELS.CONNECTION_SAVE, async (_event, connection: ConnectionConfig) => {
     try {
       connectionStore.saveConnection(connection);
       console.log(`Saved connection profile: ${connection.name}`);
+      notifyConnectionProfilesUpdated();
       return connection.id;
     } catch (error) {
       console.error('Failed to save connection:', error);
@@ -372,6 +1034,7 @@ const registerIpcHandlers = () => {
       const success = connectionStore.deleteConnection(id);
       if (success) {
         console.log(`Deleted connection profile: ${id}`);
+        notifyConnectionProfilesUpdated();
       }
       return success;
     } catch (error) {
@@ -386,6 +1049,7 @@ const registerIpcHandlers = () => {
       const success = connectionStore.updateConnection(id, updates);
       if (success) {
         console.log(`Updated connection profile: ${id}`);
+        notifyConnectionProfilesUpdated();
       }
       return success;
     } catch (error) {
@@ -408,9 +1072,19 @@ const registerIpcHandlers = () => {
     }
   });
 
-  // Get current connection ID
+  // Get active connection ID
   ipcMain.handle(IPC_CHANNELS.CONNECTION_GET_CURRENT, async () => {
-    return mqttService.getCurrentConnectionId() || null;
+    return connectionManager.getActiveConnectionId() || null;
+  });
+
+  // Switch the active session
+  ipcMain.handle(IPC_CHANNELS.CONNECTION_SET_ACTIVE, async (_event, connectionId: string) => {
+    try {
+      connectionManager.setActiveConnection(connectionId);
+    } catch (error) {
+      console.error('Failed to switch active connection:', error);
+      throw error;
+    }
   });
 
   // Export connections
@@ -428,6 +1102,7 @@ const registerIpcHandlers = () => {
     try {
       const count = connectionStore.importConnections(json);
       console.log(`Imported ${count} connection profiles`);
+      notifyConnectionProfilesUpdated();
       return count;
     } catch (error) {
       console.error('Failed to import connections:', error);
@@ -438,15 +1113,75 @@ const registerIpcHandlers = () => {
   // ===== Topic Tree =====
 
   // Get topic tree
-  ipcMain.handle(IPC_CHANNELS.TOPIC_TREE_GET, async () => {
+  handleExposed(IPC_CHANNELS.TOPIC_TREE_GET, async (_event, connectionId?: string) => {
     try {
-      return topicTree.toJSON();
+      return connectionManager.getTopicTree(connectionId)?.toJSON() ?? [];
     } catch (error) {
       console.error('Failed to get topic tree:', error);
       throw error;
     }
   });
 
+  // Build a connection's topic tree from stored history, without connecting
+  ipcMain.handle(IPC_CHANNELS.TOPIC_TREE_GET_STORED, async (_event, connectionId: string) => {
+    try {
+      const topicTree = new TopicTree();
+      topicTree.rebuild(getStoredTopicSummaries(connectionId));
+      return topicTree.toJSON();
+    } catch (error) {
+      console.error('Failed to get stored topic tree:', error);
+      throw error;
+    }
+  });
+
+  // Compare the stored topics of two connections or time windows
+  ipcMain.handle(
+    IPC_CHANNELS.TOPIC_TREE_DIFF,
+    async (_event, { before, after }: { before: TopicSnapshotSource; after: TopicSnapshotSource }) => {
+      try {
+        // Only counts, sizes and topics are compared, so Sparkplug B payloads stay undecoded
+        const toSnapshot = ({ connectionId, startTime, endTime }: TopicSnapshotSource) =>
+          createTopicSnapshot(
+            messageHistory?.getTopicSummaries(connectionId, startTime, endTime) ?? [],
+            learnTopicSchemas(connectionId, startTime, endTime),
+            startTime,
+            endTime
+          );
+        return diffTopicSnapshots(toSnapshot(before), toSnapshot(after));
+      } catch (error) {
+        console.error('Failed to compare topic trees:', error);
+        throw error;
+      }
+    }
+  );
+
+  // ===== JSON Schema Inference =====
+
+  // Learn the structure of a topic's JSON payloads from stored messages
+  ipcMain.handle(
+    IPC_CHANNELS.SCHEMA_INFER,
+    async (_event, { topic, connectionId }: { topic: string; connectionId?: string }) => {
+      try {
+        return learnTopicSchema({ connectionId: connectionManager.resolveConnectionId(connectionId), topic });
+      } catch (error) {
+        console.error(`Failed to infer schema of ${topic}:`, error);
+        throw error;
+      }
+    }
+  );
+
+  // ===== Sparkplug B =====
+
+  // Get the group / edge node / device / metric state of a session
+  ipcMain.handle(IPC_CHANNELS.SPARKPLUG_GET_STATE, async (_event, connectionId?: string) => {
+    try {
+      return connectionManager.getSparkplugExplorer(connectionId)?.toJSON() ?? [];
+    } catch (error) {
+      console.error('Failed to get Sparkplug state:', error);
+      throw error;
+    }
+  });
+
   // ===== Message Filtering =====
 
   // Relay filter topic event from TopicTreeViewer to MessageList
@@ -461,10 +1196,18 @@ const registerIpcHandlers = () => {
 
 // This method will be called when Electron has finished initialization
 app.whenReady().then(() => {
+  if (cliArgs) {
+    runCli(cliArgs).then((exitCode) => app.exit(exitCode));
+    return;
+  }
+
   initializeServices();
   registerIpcHandlers();
   createWindow();
 
+  // Start the automation API if it was left enabled
+  automationServer.applySettings(automationStore.getSettings());
+
   // On macOS, re-create window when dock icon is clicked and no windows are open
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -484,10 +1227,14 @@ app.on('window-all-closed', () => {
 app.on('before-quit', async () => {
   console.log('Cleaning up before quit...');
 
-  // Disconnect from MQTT
-  if (mqttService.isConnected()) {
-    await mqttService.disconnect();
-  }
+  retentionScheduler?.stop();
+  alertEngine.stop();
+  publishScheduler.stopAll();
+  deviceSimulator.stopAll();
+  await automationServer.stop();
+
+  // Disconnect every open session
+  await connectionManager.disconnectAll();
 
   if (messageHistory) {
     messageHistory.close();
@@ -2,11 +2,13 @@ import { Layout, message, ConfigProvider, theme as antdTheme } from 'antd';
 import { useState, useEffect } from 'react';
 import { theme as antdThemeHook } from 'antd';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
-import type { ConnectionConfig, ConnectionStatus } from '@shared/types/models';
+import type { ConnectionConfig, ConnectionStatus, SessionInfo } from '@shared/types/models';
 import { AppHeader } from './components/AppHeader';
 import { ConnectionSidebar } from './components/ConnectionSidebar';
 import { MainContent } from './components/MainContent';
 import { ConnectionModal } from './components/ConnectionModal';
+import { initProtobufRegistry } from './utils/protobufDecoder';
+import { initPayloadDecoderAssignments } from './utils/payload';
 
 const { Content } = Layout;
 
@@ -17,7 +19,7 @@ interface AppContentProps {
 
 function AppContent({ isDarkMode, setIsDarkMode }: AppContentProps) {
   const { token } = antdThemeHook.useToken();
-  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
   const [messageCount, setMessageCount] = useState<number>(0);
   const [selectedConnection, setSelectedConnection] = useState<ConnectionConfig | undefined>();
   const [isFormModalVisible, setIsFormModalVisible] = useState(false);
@@ -25,6 +27,16 @@ function AppContent({ isDarkMode, setIsDarkMode }: AppContentProps) {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const isDevelopment = process.env.NODE_ENV === 'development';
 
+  // Header and main content follow the active session
+  const activeSession = sessions.find((session) => session.active);
+  const connectionStatus: ConnectionStatus = activeSession?.status ?? 'disconnected';
+
+  // Load protobuf schemas and payload decoder assignments used for payload decoding
+  useEffect(() => {
+    initProtobufRegistry();
+    initPayloadDecoderAssignments();
+  }, []);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -58,14 +70,26 @@ function AppContent({ isDarkMode, setIsDarkMode }: AppContentProps) {
     // Listen for connection status updates
     const removeStatusListener = window.electronAPI.on(
       IPC_CHANNELS.MQTT_STATUS,
-      (status: ConnectionStatus) => {
+      (status: ConnectionStatus, connectionId: string) => {
         if (isDevelopment) {
-          console.log('Status update:', status);
+          console.log(`Status update (${connectionId}):`, status);
         }
-        setConnectionStatus(status);
       }
     );
 
+    // Listen for sessions being opened, closed, switched or changing status
+    const removeSessionsListener = window.electronAPI.on(
+      IPC_CHANNELS.SESSIONS_UPDATED,
+      (updatedSessions: SessionInfo[]) => {
+        setSessions(updatedSessions);
+      }
+    );
+
+    // Query open sessions on mount
+    window.electronAPI.invoke(IPC_CHANNELS.MQTT_GET_SESSIONS)
+      .then((openSessions) => setSessions(openSessions))
+      .catch(console.error);
+
     // Listen for incoming messages
     const removeMessageListener = window.electronAPI.on(IPC_CHANNELS.MQTT_MESSAGE, (msg: any) => {
       if (isDevelopment) {
@@ -75,13 +99,17 @@ function AppContent({ isDarkMode, setIsDarkMode }: AppContentProps) {
     });
 
     // Listen for errors
-    const removeErrorListener = window.electronAPI.on(IPC_CHANNELS.MQTT_ERROR, (error: string) => {
-      console.error('MQTT Error:', error);
-      message.error(`MQTT Error: ${error}`);
-    });
+    const removeErrorListener = window.electronAPI.on(
+      IPC_CHANNELS.MQTT_ERROR,
+      (error: string, connectionId: string) => {
+        console.error(`MQTT Error (${connectionId}):`, error);
+        message.error(`MQTT Error: ${error}`);
+      }
+    );
 
     return () => {
       removeStatusListener();
+      removeSessionsListener();
       removeMessageListener();
       removeErrorListener();
     };
@@ -120,6 +148,7 @@ function AppContent({ isDarkMode, setIsDarkMode }: AppContentProps) {
         isDarkMode={isDarkMode}
         onToggleDarkMode={() => setIsDarkMode(!isDarkMode)}
         connectionStatus={connectionStatus}
+        sessions={sessions}
         messageCount={messageCount}
         token={token}
       />
@@ -132,6 +161,7 @@ function AppContent({ isDarkMode, setIsDarkMode }: AppContentProps) {
           onEditConnection={handleEditConnection}
           onConnect={handleConnect}
           refreshTrigger={refreshTrigger}
+          sessions={sessions}
           token={token}
         />
 
@@ -0,0 +1,528 @@
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  Table,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Switch,
+  Modal,
+  Button,
+  Space,
+  Tag,
+  Tooltip,
+  Empty,
+  Popconfirm,
+  Typography,
+  Row,
+  Col,
+  message as antMessage,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  BellOutlined,
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  ClearOutlined,
+} from '@ant-design/icons';
+import type {
+  AlertCondition,
+  AlertEvent,
+  AlertRule,
+  ConnectionConfig,
+} from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { format } from 'date-fns';
+
+const { Text } = Typography;
+
+// Alerts kept in the log view; older ones stay in the database
+const ALERT_LOG_LIMIT = 500;
+
+const CONDITION_LABELS: Record<AlertCondition['type'], string> = {
+  threshold: 'Value out of range',
+  regex: 'Payload matches pattern',
+  absence: 'Topic goes silent',
+  rate: 'Message rate too high',
+};
+
+// Flat form values; converted to and from the AlertRule condition union
+interface RuleFormValues {
+  name: string;
+  enabled: boolean;
+  topicPattern: string;
+  connectionId?: string;
+  conditionType: AlertCondition['type'];
+  fieldPath?: string;
+  min?: number;
+  max?: number;
+  pattern?: string;
+  flags?: string;
+  seconds?: number;
+  maxPerSecond?: number;
+  windowSeconds?: number;
+  cooldownSeconds: number;
+  notify: boolean;
+}
+
+const DEFAULT_FORM_VALUES: Partial<RuleFormValues> = {
+  enabled: true,
+  conditionType: 'threshold',
+  seconds: 60,
+  maxPerSecond: 10,
+  windowSeconds: 10,
+  cooldownSeconds: 60,
+  notify: true,
+};
+
+/**
+ * Describe a rule's condition for the rules table
+ */
+function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'threshold': {
+      const field = condition.fieldPath ? `${condition.fieldPath} ` : 'Value ';
+      const range = [
+        condition.min !== undefined ? `< ${condition.min}` : null,
+        condition.max !== undefined ? `> ${condition.max}` : null,
+      ].filter(Boolean);
+      return `${field}${range.join(' or ')}`;
+    }
+    case 'regex':
+      return `/${condition.pattern}/${condition.flags ?? ''}`;
+    case 'absence':
+      return `No messages for ${condition.seconds}s`;
+    case 'rate':
+      return `> ${condition.maxPerSecond} msg/s over ${condition.windowSeconds}s`;
+  }
+}
+
+/**
+ * Build the condition from the form values
+ */
+function toCondition(values: RuleFormValues): AlertCondition {
+  switch (values.conditionType) {
+    case 'threshold':
+      return {
+        type: 'threshold',
+        fieldPath: values.fieldPath?.trim() || undefined,
+        min: values.min ?? undefined,
+        max: values.max ?? undefined,
+      };
+    case 'regex':
+      return { type: 'regex', pattern: values.pattern!, flags: values.flags?.trim() || undefined };
+    case 'absence':
+      return { type: 'absence', seconds: values.seconds! };
+    case 'rate':
+      return { type: 'rate', maxPerSecond: values.maxPerSecond!, windowSeconds: values.windowSeconds! };
+  }
+}
+
+export const AlertsPanel: React.FC = () => {
+  const [form] = Form.useForm<RuleFormValues>();
+  const conditionType = Form.useWatch('conditionType', form);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [alerts, setAlerts] = useState<AlertEvent[]>([]);
+  const [connections, setConnections] = useState<ConnectionConfig[]>([]);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+    loadAlerts();
+    loadConnections();
+
+    const removeListener = window.electronAPI.on(
+      IPC_CHANNELS.ALERT_TRIGGERED,
+      (alert: AlertEvent) => {
+        setAlerts((prev) => [alert, ...prev].slice(0, ALERT_LOG_LIMIT));
+      }
+    );
+
+    return () => removeListener();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setRules(await window.electronAPI.invoke(IPC_CHANNELS.ALERT_GET_RULES));
+    } catch (error) {
+      console.error('Failed to load alert rules:', error);
+    }
+  };
+
+  const loadAlerts = async () => {
+    try {
+      setAlerts(await window.electronAPI.invoke(IPC_CHANNELS.ALERT_GET_LOG, ALERT_LOG_LIMIT));
+    } catch (error) {
+      console.error('Failed to load alert log:', error);
+    }
+  };
+
+  const loadConnections = async () => {
+    try {
+      setConnections(await window.electronAPI.invoke(IPC_CHANNELS.CONNECTION_LIST));
+    } catch (error) {
+      console.error('Failed to load connections:', error);
+    }
+  };
+
+  const saveRules = async (nextRules: AlertRule[]) => {
+    try {
+      setRules(await window.electronAPI.invoke(IPC_CHANNELS.ALERT_SAVE_RULES, nextRules));
+      return true;
+    } catch (error) {
+      antMessage.error(`Failed to save alert rules: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  };
+
+  const openModal = (rule: AlertRule | null) => {
+    setEditingRule(rule);
+    form.resetFields();
+    if (rule) {
+      form.setFieldsValue({
+        ...rule,
+        ...rule.condition,
+        conditionType: rule.condition.type,
+      });
+    }
+    setIsModalVisible(true);
+  };
+
+  const handleSubmit = async () => {
+    const values = await form.validateFields();
+
+    if (values.conditionType === 'threshold' && values.min == null && values.max == null) {
+      antMessage.error('Set a minimum, a maximum or both');
+      return;
+    }
+    if (values.conditionType === 'regex') {
+      try {
+        new RegExp(values.pattern!, values.flags);
+      } catch (error) {
+        antMessage.error(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+    }
+
+    const rule: AlertRule = {
+      id: editingRule?.id ?? '',
+      name: values.name,
+      enabled: values.enabled,
+      topicPattern: values.topicPattern,
+      connectionId: values.connectionId || undefined,
+      condition: toCondition(values),
+      cooldownSeconds: values.cooldownSeconds ?? 0,
+      notify: values.notify,
+    };
+
+    const nextRules = editingRule
+      ? rules.map((existing) => (existing.id === editingRule.id ? rule : existing))
+      : [...rules, rule];
+
+    if (await saveRules(nextRules)) {
+      antMessage.success(editingRule ? 'Alert rule updated' : 'Alert rule added');
+      setIsModalVisible(false);
+    }
+  };
+
+  const handleToggle = (rule: AlertRule, enabled: boolean) => {
+    saveRules(rules.map((existing) => (existing.id === rule.id ? { ...rule, enabled } : existing)));
+  };
+
+  const handleDelete = (rule: AlertRule) => {
+    saveRules(rules.filter((existing) => existing.id !== rule.id));
+  };
+
+  const handleClearLog = async () => {
+    try {
+      await window.electronAPI.invoke(IPC_CHANNELS.ALERT_CLEAR_LOG);
+      setAlerts([]);
+    } catch (error) {
+      antMessage.error(`Failed to clear alert log: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const connectionName = (connectionId?: string) =>
+    connections.find((connection) => connection.id === connectionId)?.name ?? connectionId;
+
+  const ruleColumns: ColumnsType<AlertRule> = [
+    {
+      title: 'On',
+      dataIndex: 'enabled',
+      key: 'enabled',
+      width: 70,
+      render: (enabled: boolean, rule) => (
+        <Switch size="small" checked={enabled} onChange={(checked) => handleToggle(rule, checked)} />
+      ),
+    },
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+    },
+    {
+      title: 'Topic',
+      dataIndex: 'topicPattern',
+      key: 'topicPattern',
+      render: (topicPattern: string, rule) => (
+        <Space direction="vertical" size={0}>
+          <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{topicPattern}</span>
+          {rule.connectionId && (
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              {connectionName(rule.connectionId)}
+            </Text>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: 'Condition',
+      key: 'condition',
+      render: (_, rule) => (
+        <Space direction="vertical" size={0}>
+          <Tag>{CONDITION_LABELS[rule.condition.type]}</Tag>
+          <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+            {describeCondition(rule.condition)}
+          </span>
+        </Space>
+      ),
+    },
+    {
+      title: '',
+      key: 'actions',
+      width: 90,
+      render: (_, rule) => (
+        <Space size="small">
+          <Tooltip title="Edit">
+            <Button type="text" size="small" icon={<EditOutlined />} onClick={() => openModal(rule)} />
+          </Tooltip>
+          <Popconfirm
+            title="Delete this alert rule?"
+            onConfirm={() => handleDelete(rule)}
+            okText="Yes"
+            cancelText="No"
+          >
+            <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const alertColumns: ColumnsType<AlertEvent> = [
+    {
+      title: 'Time',
+      dataIndex: 'timestamp',
+      key: 'timestamp',
+      width: 180,
+      render: (timestamp: number) => format(new Date(timestamp), 'yyyy-MM-dd HH:mm:ss'),
+    },
+    {
+      title: 'Rule',
+      dataIndex: 'ruleName',
+      key: 'ruleName',
+      width: 180,
+    },
+    {
+      title: 'Topic',
+      dataIndex: 'topic',
+      key: 'topic',
+      ellipsis: true,
+      render: (topic: string, alert) => (
+        <Tooltip title={alert.connectionId ? connectionName(alert.connectionId) : undefined}>
+          <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{topic}</span>
+        </Tooltip>
+      ),
+    },
+    {
+      title: 'Alert',
+      dataIndex: 'message',
+      key: 'message',
+    },
+  ];
+
+  return (
+    <Row gutter={[16, 16]}>
+      <Col span={24}>
+        <Card
+          title={
+            <Space>
+              <BellOutlined />
+              Alert Rules
+            </Space>
+          }
+          extra={
+            <Button type="primary" size="small" icon={<PlusOutlined />} onClick={() => openModal(null)}>
+              Add Rule
+            </Button>
+          }
+        >
+          <Table
+            size="small"
+            rowKey="id"
+            columns={ruleColumns}
+            dataSource={rules}
+            pagination={false}
+            locale={{
+              emptyText: (
+                <Empty
+                  description="No alert rules. Add one to be notified when a value goes out of range or a topic goes silent."
+                  image={Empty.PRESENTED_IMAGE_SIMPLE}
+                />
+              ),
+            }}
+          />
+        </Card>
+      </Col>
+
+      <Col span={24}>
+        <Card
+          title={
+            <Space>
+              <BellOutlined />
+              Alert Log
+              <Tag>{alerts.length}</Tag>
+            </Space>
+          }
+          extra={
+            <Popconfirm
+              title="Clear the alert log?"
+              onConfirm={handleClearLog}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button size="small" icon={<ClearOutlined />} disabled={alerts.length === 0}>
+                Clear
+              </Button>
+            </Popconfirm>
+          }
+        >
+          <Table
+            size="small"
+            rowKey="id"
+            columns={alertColumns}
+            dataSource={alerts}
+            pagination={{ pageSize: 20, showSizeChanger: false }}
+          />
+        </Card>
+      </Col>
+
+      <Modal
+        title={editingRule ? 'Edit Alert Rule' : 'Add Alert Rule'}
+        open={isModalVisible}
+        onOk={handleSubmit}
+        onCancel={() => setIsModalVisible(false)}
+        okText="Save"
+        forceRender
+      >
+        <Form form={form} layout="vertical" initialValues={DEFAULT_FORM_VALUES}>
+          <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Enter a name' }]}>
+            <Input placeholder="Boiler temperature" />
+          </Form.Item>
+
+          <Form.Item
+            label="Topic Pattern"
+            name="topicPattern"
+            rules={[{ required: true, message: 'Enter a topic pattern' }]}
+          >
+            <Input placeholder="sensors/+/temperature" style={{ fontFamily: 'monospace' }} />
+          </Form.Item>
+
+          <Form.Item label="Connection" name="connectionId">
+            <Select
+              allowClear
+              placeholder="Any session"
+              options={connections.map((connection) => ({
+                label: connection.name,
+                value: connection.id,
+              }))}
+            />
+          </Form.Item>
+
+          <Form.Item label="Condition" name="conditionType">
+            <Select
+              options={Object.entries(CONDITION_LABELS).map(([value, label]) => ({ value, label }))}
+            />
+          </Form.Item>
+
+          {conditionType === 'threshold' && (
+            <>
+              <Form.Item
+                label="Field Path"
+                name="fieldPath"
+                tooltip="Dot path into decoded payloads such as JSON, MessagePack or CBOR (e.g. data.temperature), or a Sparkplug metric name. Leave empty for plain numeric payloads."
+              >
+                <Input placeholder="data.temperature" style={{ fontFamily: 'monospace' }} />
+              </Form.Item>
+              <Space>
+                <Form.Item label="Alert below" name="min">
+                  <InputNumber placeholder="No minimum" />
+                </Form.Item>
+                <Form.Item label="Alert above" name="max">
+                  <InputNumber placeholder="No maximum" />
+                </Form.Item>
+              </Space>
+            </>
+          )}
+
+          {conditionType === 'regex' && (
+            <Space align="start">
+              <Form.Item
+                label="Pattern"
+                name="pattern"
+                rules={[{ required: true, message: 'Enter a regular expression' }]}
+              >
+                <Input placeholder="error|fault" style={{ fontFamily: 'monospace', width: 300 }} />
+              </Form.Item>
+              <Form.Item label="Flags" name="flags">
+                <Input placeholder="i" style={{ width: 80 }} />
+              </Form.Item>
+            </Space>
+          )}
+
+          {conditionType === 'absence' && (
+            <Form.Item
+              label="Silent for (seconds)"
+              name="seconds"
+              tooltip="Raised once for each matching topic that stops publishing, until it publishes again"
+              rules={[{ required: true }]}
+            >
+              <InputNumber min={1} style={{ width: '100%' }} />
+            </Form.Item>
+          )}
+
+          {conditionType === 'rate' && (
+            <Space>
+              <Form.Item label="Max messages/second" name="maxPerSecond" rules={[{ required: true }]}>
+                <InputNumber min={0} />
+              </Form.Item>
+              <Form.Item label="Over (seconds)" name="windowSeconds" rules={[{ required: true }]}>
+                <InputNumber min={1} />
+              </Form.Item>
+            </Space>
+          )}
+
+          <Form.Item
+            label="Cooldown (seconds)"
+            name="cooldownSeconds"
+            tooltip="Minimum time between alerts from this rule for the same topic"
+          >
+            <InputNumber min={0} style={{ width: '100%' }} />
+          </Form.Item>
+
+          <Space size="large">
+            <Form.Item label="Enabled" name="enabled" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+            <Form.Item label="Desktop notification" name="notify" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Space>
+        </Form>
+      </Modal>
+    </Row>
+  );
+};
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Layout, Typography, Button, Space, Tag, Tooltip } from 'antd';
+import { Layout, Typography, Button, Space, Tag, Tooltip, Select, Badge } from 'antd';
 import {
   RocketOutlined,
   DisconnectOutlined,
@@ -7,7 +7,7 @@ import {
   BulbFilled,
   InfoCircleOutlined,
 } from '@ant-design/icons';
-import type { ConnectionStatus } from '@shared/types/models';
+import type { ConnectionStatus, SessionInfo } from '@shared/types/models';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
 import { AboutModal } from './AboutModal';
 
@@ -18,6 +18,7 @@ interface AppHeaderProps {
   isDarkMode: boolean;
   onToggleDarkMode: () => void;
   connectionStatus: ConnectionStatus;
+  sessions: SessionInfo[];
   messageCount: number;
   token: any;
 }
@@ -26,21 +27,33 @@ export const AppHeader: React.FC<AppHeaderProps> = ({
   isDarkMode,
   onToggleDarkMode,
   connectionStatus,
+  sessions,
   messageCount,
   token,
 }) => {
   const [isAboutModalVisible, setIsAboutModalVisible] = useState(false);
 
+  const activeSession = sessions.find((session) => session.active);
+
   const disconnectFromMQTT = async () => {
     try {
-      await window.electronAPI.invoke(IPC_CHANNELS.MQTT_DISCONNECT);
+      // Disconnects the active session only; other sessions stay open
+      await window.electronAPI.invoke(IPC_CHANNELS.MQTT_DISCONNECT, activeSession?.connectionId);
     } catch (error) {
       console.error('Failed to disconnect:', error);
     }
   };
 
-  const getStatusColor = () => {
-    switch (connectionStatus) {
+  const switchSession = async (connectionId: string) => {
+    try {
+      await window.electronAPI.invoke(IPC_CHANNELS.CONNECTION_SET_ACTIVE, connectionId);
+    } catch (error) {
+      console.error('Failed to switch session:', error);
+    }
+  };
+
+  const getStatusColor = (status: ConnectionStatus = connectionStatus) => {
+    switch (status) {
       case 'connected':
         return 'success';
       case 'connecting':
@@ -86,6 +99,25 @@ export const AppHeader: React.FC<AppHeaderProps> = ({
               onClick={onToggleDarkMode}
             />
           </Tooltip>
+          {sessions.length > 1 && (
+            <Tooltip title="Active session">
+              <Select
+                size="small"
+                value={activeSession?.connectionId}
+                onChange={switchSession}
+                style={{ minWidth: 200 }}
+                options={sessions.map((session) => ({
+                  value: session.connectionId,
+                  label: (
+                    <Space size="small">
+                      <Badge status={getStatusColor(session.status)} />
+                      {session.name}
+                    </Space>
+                  ),
+                }))}
+              />
+            </Tooltip>
+          )}
           <Tag color={getStatusColor()}>{connectionStatus.toUpperCase()}</Tag>
           {messageCount > 0 && <Tag color="blue">Messages: {messageCount}</Tag>}
           {connectionStatus !== 'disconnected' && (
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  Form,
+  InputNumber,
+  Input,
+  Button,
+  Space,
+  Switch,
+  Tag,
+  Alert,
+  Typography,
+  Popconfirm,
+  message as antMessage,
+} from 'antd';
+import {
+  ApiOutlined,
+  SaveOutlined,
+  CopyOutlined,
+  ReloadOutlined,
+} from '@ant-design/icons';
+import type { AutomationSettings as AutomationSettingsValues, AutomationStatus } from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+
+const { Text, Paragraph } = Typography;
+
+export const AutomationSettings: React.FC = () => {
+  const [form] = Form.useForm();
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<AutomationStatus | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const applyStatus = (next: AutomationStatus) => {
+    setStatus(next);
+    form.setFieldsValue({ enabled: next.settings.enabled, port: next.settings.port });
+  };
+
+  const loadStatus = async () => {
+    try {
+      applyStatus(await window.electronAPI.invoke(IPC_CHANNELS.AUTOMATION_GET_STATUS));
+    } catch (error) {
+      console.error('Failed to load automation settings:', error);
+    }
+  };
+
+  const handleSave = async (values: Pick<AutomationSettingsValues, 'enabled' | 'port'>) => {
+    if (!status) return;
+
+    setLoading(true);
+    try {
+      const next: AutomationStatus = await window.electronAPI.invoke(
+        IPC_CHANNELS.AUTOMATION_SAVE_SETTINGS,
+        { ...status.settings, ...values }
+      );
+      applyStatus(next);
+      if (next.error) {
+        antMessage.error(`Automation API failed to start: ${next.error}`);
+      } else {
+        antMessage.success(next.running ? 'Automation API started' : 'Automation API stopped');
+      }
+    } catch (error) {
+      antMessage.error(`Failed to save: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegenerateToken = async () => {
+    setLoading(true);
+    try {
+      applyStatus(await window.electronAPI.invoke(IPC_CHANNELS.AUTOMATION_REGENERATE_TOKEN));
+      antMessage.success('Access token regenerated');
+    } catch (error) {
+      antMessage.error(`Failed to regenerate token: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    antMessage.success(`${label} copied to clipboard`);
+  };
+
+  const baseUrl = `http://127.0.0.1:${status?.settings.port ?? 9901}`;
+
+  return (
+    <Card
+      title={
+        <Space>
+          <ApiOutlined />
+          Automation API
+        </Space>
+      }
+      extra={
+        status && (
+          <Tag color={status.running ? 'green' : status.error ? 'red' : 'default'}>
+            {status.running ? `Running · ${status.clientCount} WebSocket clients` : status.error ? 'Error' : 'Stopped'}
+          </Tag>
+        )
+      }
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Alert
+          message="Drive Voyager from scripts"
+          description="A local HTTP and WebSocket server (127.0.0.1 only) for connecting, subscribing, publishing, searching history and reading the topic tree. Every request must include the access token."
+          type="info"
+          showIcon
+        />
+
+        {status?.error && <Alert type="error" showIcon message={status.error} />}
+
+        <Form
+          form={form}
+          layout="vertical"
+          onFinish={handleSave}
+          initialValues={{ enabled: false, port: 9901 }}
+        >
+          <Form.Item label="Enable Automation API" name="enabled" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+
+          <Form.Item label="Port" name="port">
+            <InputNumber min={1024} max={65535} style={{ width: '100%' }} />
+          </Form.Item>
+
+          <Form.Item label="Access Token">
+            <Space.Compact style={{ width: '100%' }}>
+              <Input.Password value={status?.settings.token} readOnly />
+              <Button
+                icon={<CopyOutlined />}
+                onClick={() => status && handleCopy(status.settings.token, 'Token')}
+              />
+              <Popconfirm
+                title="Regenerate the token? Scripts using the old one will stop working."
+                onConfirm={handleRegenerateToken}
+                okText="Yes"
+                cancelText="No"
+              >
+                <Button icon={<ReloadOutlined />} loading={loading} />
+              </Popconfirm>
+            </Space.Compact>
+          </Form.Item>
+
+          <Form.Item>
+            <Button type="primary" htmlType="submit" icon={<SaveOutlined />} loading={loading}>
+              Save
+            </Button>
+          </Form.Item>
+        </Form>
+
+        <div>
+          <Text strong>Example</Text>
+          <Paragraph
+            code
+            copyable
+            style={{ fontSize: '12px', marginTop: '8px', whiteSpace: 'pre-wrap' }}
+          >
+            {`curl -H "Authorization: Bearer <token>" ${baseUrl}/api/topic-tree`}
+          </Paragraph>
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            Endpoints: GET /api/sessions, /api/subscriptions, /api/messages, /api/topic-tree, /api/stats ·
+            POST /api/connect, /api/disconnect, /api/subscribe, /api/unsubscribe, /api/publish,
+            /api/messages/search · WebSocket {baseUrl.replace('http', 'ws')}/api/ws?token=&lt;token&gt; streams
+            live messages and accepts {'{ id, method, params }'} requests.
+          </Text>
+        </div>
+      </Space>
+    </Card>
+  );
+};
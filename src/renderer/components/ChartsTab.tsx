@@ -8,6 +8,7 @@ import { extractValue } from '../utils/valueExtractor';
 import type { ChartDataPoint, ChartMetricConfig, TimeRangePreset } from '../types/charts';
 import type { MqttMessage } from '@shared/types/models';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { topicMatchesFilter } from '@shared/utils/topicMatch';
 import dayjs, { Dayjs } from 'dayjs';
 
 export const ChartsTab: React.FC = () => {
@@ -46,11 +47,12 @@ export const ChartsTab: React.FC = () => {
       (message: MqttMessage) => {
         metrics.forEach((metric) => {
           if (!metric.enabled) return;
-          if (!topicMatches(message.topic, metric.topic)) return;
+          if (!topicMatchesFilter(message.topic, metric.topic)) return;
 
           const result = extractValue(message.payload, {
             jsonFieldHints: metric.fieldHints,
             topicHint: message.topic,
+            connectionId: message.connectionId,
           });
 
           if (result.value !== null) {
@@ -100,10 +102,12 @@ export const ChartsTab: React.FC = () => {
         messages.forEach((msg: MqttMessage) => {
           metrics.forEach((metric) => {
             if (!metric.enabled) return;
-            if (!topicMatches(msg.topic, metric.topic)) return;
+            if (!topicMatchesFilter(msg.topic, metric.topic)) return;
 
             const result = extractValue(msg.payload, {
               jsonFieldHints: metric.fieldHints,
+              topicHint: msg.topic,
+              connectionId: msg.connectionId,
             });
 
             if (result.value !== null) {
@@ -241,11 +245,3 @@ function extractTopicPaths(tree: any[]): string[] {
   traverse(tree);
   return [...new Set(paths)].sort();
 }
-
-/**
- * Check if message topic matches filter topic
- * TODO: Add MQTT wildcard support (+, #)
- */
-function topicMatches(messageTopic: string, filterTopic: string): boolean {
-  return messageTopic === filterTopic;
-}
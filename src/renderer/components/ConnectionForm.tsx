@@ -19,13 +19,16 @@ import {
   PlusOutlined,
   MinusCircleOutlined,
   BellOutlined,
+  FileProtectOutlined,
+  CodeOutlined,
 } from '@ant-design/icons';
 import type { ConnectionConfig, QoS } from '@shared/types/models';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { getPayloadDecoders, isBuiltInPayloadDecoder } from '@shared/utils/payloadDecoders';
 
 const { Panel } = Collapse;
 const { TextArea } = Input;
-const { Option } = Select;
+const { Option, OptGroup } = Select;
 
 interface ConnectionFormProps {
   connection?: ConnectionConfig;
@@ -44,12 +47,19 @@ export const ConnectionForm: React.FC<ConnectionFormProps> = ({
   const [loading, setLoading] = useState(false);
   const [protocol, setProtocol] = useState<string>(connection?.protocol || 'mqtt');
 
+  // Registered decoders (e.g. protobuf message types) are listed after the built-in ones
+  const payloadDecoders = getPayloadDecoders();
+  const builtInDecoders = payloadDecoders.filter((decoder) => isBuiltInPayloadDecoder(decoder.id));
+  const registeredDecoders = payloadDecoders.filter((decoder) => !isBuiltInPayloadDecoder(decoder.id));
+
   useEffect(() => {
     if (connection) {
-      // Ensure defaultSubscriptions is always an array
+      // Ensure defaultSubscriptions, payloadSchemas and payloadDecoders are always arrays
       const formValues = {
         ...connection,
         defaultSubscriptions: connection.defaultSubscriptions || [],
+        payloadSchemas: connection.payloadSchemas || [],
+        payloadDecoders: connection.payloadDecoders || [],
       };
 
       // Reset form first to clear any previous state, especially for Form.List
@@ -131,7 +141,7 @@ export const ConnectionForm: React.FC<ConnectionFormProps> = ({
         delete config.tls;
       }
 
-      // Connect to the broker (main process handles disconnecting existing connection)
+      // Connect to the broker (opens a new session, or reopens this profile's session)
       await window.electronAPI.invoke(IPC_CHANNELS.MQTT_CONNECT, config);
       message.success(`Connected to ${values.host}`);
 
@@ -176,15 +186,19 @@ export const ConnectionForm: React.FC<ConnectionFormProps> = ({
         delete config.tls;
       }
 
-      // Connect for testing
-      await window.electronAPI.invoke(IPC_CHANNELS.MQTT_CONNECT, config);
+      // Connect for testing in a separate session, leaving the active one untouched
+      const testConnectionId = await window.electronAPI.invoke(
+        IPC_CHANNELS.MQTT_CONNECT,
+        config,
+        { activate: false }
+      );
       message.success('Connection test successful!');
 
       // Wait a moment to ensure connection is established
       await new Promise((resolve) => setTimeout(resolve, 500));
 
       // Disconnect after test
-      await window.electronAPI.invoke(IPC_CHANNELS.MQTT_DISCONNECT);
+      await window.electronAPI.invoke(IPC_CHANNELS.MQTT_DISCONNECT, testConnectionId);
     } catch (error: any) {
       message.error(`Connection test failed: ${error.message || 'Unknown error'}`);
     } finally {
@@ -230,6 +244,8 @@ export const ConnectionForm: React.FC<ConnectionFormProps> = ({
         reconnectPeriod: 1000,
         connectTimeout: 30000,
         defaultSubscriptions: [],
+        payloadSchemas: [],
+        payloadDecoders: [],
       }}
     >
       {/* Basic Settings */}
@@ -399,6 +415,127 @@ export const ConnectionForm: React.FC<ConnectionFormProps> = ({
           </Form.List>
         </Panel>
 
+        {/* Payload Schemas */}
+        <Panel header={<><FileProtectOutlined /> Payload Schemas</>} key="schemas" forceRender={true}>
+          <Form.List name="payloadSchemas">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map(({ key, name, ...restField }) => (
+                  <Space key={key} style={{ display: 'flex', marginBottom: 8 }} align="start">
+                    <Form.Item
+                      {...restField}
+                      name={[name, 'topicPattern']}
+                      rules={[{ required: true, message: 'Topic pattern required' }]}
+                      style={{ width: 200, marginBottom: 0 }}
+                    >
+                      <Input placeholder="orders/+/created" />
+                    </Form.Item>
+                    <Form.Item
+                      {...restField}
+                      name={[name, 'schema']}
+                      rules={[
+                        { required: true, message: 'JSON Schema required' },
+                        {
+                          validator: async (_, value?: string) => {
+                            if (!value) {
+                              return;
+                            }
+                            let schema: unknown;
+                            try {
+                              schema = JSON.parse(value);
+                            } catch (error) {
+                              throw new Error(`Invalid JSON: ${(error as SyntaxError).message}`);
+                            }
+                            if (typeof schema !== 'boolean' && (typeof schema !== 'object' || schema === null || Array.isArray(schema))) {
+                              throw new Error('A JSON Schema must be an object or a boolean');
+                            }
+                          },
+                        },
+                      ]}
+                      style={{ flex: 1, marginBottom: 0 }}
+                    >
+                      <TextArea
+                        rows={4}
+                        placeholder='{ "type": "object", "required": ["orderId"] }'
+                        style={{ fontFamily: 'monospace', fontSize: '12px' }}
+                      />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(name)} />
+                  </Space>
+                ))}
+                <Form.Item
+                  extra="Incoming messages are validated against the schema of the first matching pattern"
+                >
+                  <Button
+                    type="dashed"
+                    onClick={() => add()}
+                    block
+                    icon={<PlusOutlined />}
+                  >
+                    Add Schema
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+        </Panel>
+
+        {/* Payload Decoders */}
+        <Panel header={<><CodeOutlined /> Payload Decoders</>} key="decoders" forceRender={true}>
+          <Form.List name="payloadDecoders">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map(({ key, name, ...restField }) => (
+                  <Space key={key} style={{ display: 'flex', marginBottom: 8 }} align="baseline">
+                    <Form.Item
+                      {...restField}
+                      name={[name, 'topicPattern']}
+                      rules={[{ required: true, message: 'Topic pattern required' }]}
+                      style={{ flex: 1, marginBottom: 0 }}
+                    >
+                      <Input placeholder="telemetry/#" />
+                    </Form.Item>
+                    <Form.Item
+                      {...restField}
+                      name={[name, 'decoder']}
+                      rules={[{ required: true, message: 'Decoder required' }]}
+                      style={{ marginBottom: 0 }}
+                    >
+                      <Select style={{ width: 220 }} placeholder="Decoder" showSearch optionFilterProp="children">
+                        <OptGroup label="Built-in">
+                          {builtInDecoders.map((decoder) => (
+                            <Option key={decoder.id} value={decoder.id}>{decoder.name}</Option>
+                          ))}
+                        </OptGroup>
+                        {registeredDecoders.length > 0 && (
+                          <OptGroup label="Registered">
+                            {registeredDecoders.map((decoder) => (
+                              <Option key={decoder.id} value={decoder.id}>{decoder.name}</Option>
+                            ))}
+                          </OptGroup>
+                        )}
+                      </Select>
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(name)} />
+                  </Space>
+                ))}
+                <Form.Item
+                  extra="Payloads on other topics are decoded by auto-detection; the first matching pattern wins"
+                >
+                  <Button
+                    type="dashed"
+                    onClick={() => add()}
+                    block
+                    icon={<PlusOutlined />}
+                  >
+                    Add Decoder
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+        </Panel>
+
         {/* TLS/SSL Settings */}
         {(protocol === 'mqtts' || protocol === 'wss') && (
           <Panel header={<><SafetyOutlined /> TLS/SSL Settings</>} key="tls" forceRender={true}>
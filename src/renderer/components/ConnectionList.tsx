@@ -16,20 +16,24 @@ import {
   DeleteOutlined,
   LinkOutlined,
   SafetyOutlined,
+  DisconnectOutlined,
+  SwapOutlined,
 } from '@ant-design/icons';
-import type { ConnectionConfig } from '@shared/types/models';
+import type { ConnectionConfig, SessionInfo } from '@shared/types/models';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
 
 interface ConnectionListProps {
   onEdit?: (connection: ConnectionConfig) => void;
   onConnect?: (connection: ConnectionConfig) => void;
   refreshTrigger?: number;
+  sessions?: SessionInfo[];
 }
 
 export const ConnectionList: React.FC<ConnectionListProps> = ({
   onEdit,
   onConnect,
   refreshTrigger,
+  sessions = [],
 }) => {
   const [connections, setConnections] = useState<ConnectionConfig[]>([]);
   const [loading, setLoading] = useState(false);
@@ -87,6 +91,25 @@ export const ConnectionList: React.FC<ConnectionListProps> = ({
     }
   };
 
+  const handleSwitch = async (connectionId: string) => {
+    try {
+      await window.electronAPI.invoke(IPC_CHANNELS.CONNECTION_SET_ACTIVE, connectionId);
+    } catch (error) {
+      message.error(`Failed to switch session: ${error instanceof Error ? error.message : String(error)}`);
+      console.error('Switch error:', error);
+    }
+  };
+
+  const handleDisconnect = async (connectionId: string, name: string) => {
+    try {
+      await window.electronAPI.invoke(IPC_CHANNELS.MQTT_DISCONNECT, connectionId);
+      message.success(`Disconnected from ${name}`);
+    } catch (error) {
+      message.error(`Failed to disconnect: ${error instanceof Error ? error.message : String(error)}`);
+      console.error('Disconnect error:', error);
+    }
+  };
+
   const handleEdit = async (connectionId: string) => {
     try {
       // Get full connection details (including password)
@@ -124,6 +147,20 @@ export const ConnectionList: React.FC<ConnectionListProps> = ({
     }
   };
 
+  const getSessionColor = (session: SessionInfo): string => {
+    switch (session.status) {
+      case 'connected':
+        return 'success';
+      case 'connecting':
+      case 'reconnecting':
+        return 'processing';
+      case 'error':
+        return 'error';
+      default:
+        return 'default';
+    }
+  };
+
   const getProtocolIcon = (protocol: string) => {
     if (protocol === 'mqtts' || protocol === 'wss') {
       return <SafetyOutlined />;
@@ -154,69 +191,100 @@ export const ConnectionList: React.FC<ConnectionListProps> = ({
         <List
           loading={loading}
           dataSource={connections}
-          renderItem={(conn) => (
-            <List.Item key={conn.id} style={{ padding: '12px 0' }}>
-              <div style={{ display: 'flex', width: '100%', alignItems: 'flex-start', gap: '12px' }}>
-                <ApiOutlined style={{ fontSize: '20px', color: '#1890ff', marginTop: '4px' }} />
-                <div style={{ flex: 1, minWidth: 0 }}>
-                  <div style={{ marginBottom: '4px' }}>
-                    <div style={{ fontWeight: 500, marginBottom: '4px', wordBreak: 'break-word' }}>
-                      {conn.name}
-                    </div>
-                    <Space size="small" wrap>
-                      <Tag color={getProtocolColor(conn.protocol)} icon={getProtocolIcon(conn.protocol)}>
-                        {conn.protocol.toUpperCase()}
-                      </Tag>
-                      {conn.username && (
-                        <Tag icon={<SafetyOutlined />} color="orange">
-                          Auth
+          renderItem={(conn) => {
+            const session = sessions.find((s) => s.connectionId === conn.id);
+            return (
+              <List.Item key={conn.id} style={{ padding: '12px 0' }}>
+                <div style={{ display: 'flex', width: '100%', alignItems: 'flex-start', gap: '12px' }}>
+                  <ApiOutlined style={{ fontSize: '20px', color: '#1890ff', marginTop: '4px' }} />
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div style={{ marginBottom: '4px' }}>
+                      <div style={{ fontWeight: 500, marginBottom: '4px', wordBreak: 'break-word' }}>
+                        {conn.name}
+                      </div>
+                      <Space size="small" wrap>
+                        <Tag color={getProtocolColor(conn.protocol)} icon={getProtocolIcon(conn.protocol)}>
+                          {conn.protocol.toUpperCase()}
                         </Tag>
+                        {conn.username && (
+                          <Tag icon={<SafetyOutlined />} color="orange">
+                            Auth
+                          </Tag>
+                        )}
+                        {session && (
+                          <Tag color={getSessionColor(session)}>
+                            {session.active ? 'ACTIVE' : session.status.toUpperCase()}
+                          </Tag>
+                        )}
+                      </Space>
+                    </div>
+                    <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
+                      {`${conn.host}:${conn.port}`}
+                    </div>
+                    {conn.clientId && (
+                      <div style={{ fontSize: '11px', color: '#999', marginTop: '2px' }}>
+                        Client ID: {conn.clientId}
+                      </div>
+                    )}
+                    <Space size="small" style={{ marginTop: '8px' }}>
+                      {session ? (
+                        <>
+                          <Tooltip title="Make this the active session">
+                            <Button
+                              size="small"
+                              type="primary"
+                              icon={<SwapOutlined />}
+                              disabled={session.active}
+                              onClick={() => handleSwitch(conn.id!)}
+                            >
+                              Switch
+                            </Button>
+                          </Tooltip>
+                          <Tooltip title="Disconnect">
+                            <Button
+                              size="small"
+                              icon={<DisconnectOutlined />}
+                              onClick={() => handleDisconnect(conn.id!, conn.name)}
+                            />
+                          </Tooltip>
+                        </>
+                      ) : (
+                        <Tooltip title="Connect">
+                          <Button
+                            size="small"
+                            type="primary"
+                            icon={<LinkOutlined />}
+                            onClick={() => handleConnect(conn.id!)}
+                          >
+                            Connect
+                          </Button>
+                        </Tooltip>
                       )}
+                      <Tooltip title="Edit">
+                        <Button
+                          size="small"
+                          icon={<EditOutlined />}
+                          onClick={() => handleEdit(conn.id!)}
+                        />
+                      </Tooltip>
+                      <Popconfirm
+                        title={`Delete "${conn.name}"?`}
+                        description="This action cannot be undone"
+                        onConfirm={() => handleDelete(conn.id!, conn.name)}
+                        okText="Delete"
+                        cancelText="Cancel"
+                        okButtonProps={{ danger: true }}
+                      >
+                        <Tooltip title="Delete">
+                          <Button size="small" danger icon={<DeleteOutlined />} />
+                        </Tooltip>
+                      </Popconfirm>
                     </Space>
                   </div>
-                  <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
-                    {`${conn.host}:${conn.port}`}
-                  </div>
-                  {conn.clientId && (
-                    <div style={{ fontSize: '11px', color: '#999', marginTop: '2px' }}>
-                      Client ID: {conn.clientId}
-                    </div>
-                  )}
-                  <Space size="small" style={{ marginTop: '8px' }}>
-                    <Tooltip title="Connect">
-                      <Button
-                        size="small"
-                        type="primary"
-                        icon={<LinkOutlined />}
-                        onClick={() => handleConnect(conn.id!)}
-                      >
-                        Connect
-                      </Button>
-                    </Tooltip>
-                    <Tooltip title="Edit">
-                      <Button
-                        size="small"
-                        icon={<EditOutlined />}
-                        onClick={() => handleEdit(conn.id!)}
-                      />
-                    </Tooltip>
-                    <Popconfirm
-                      title={`Delete "${conn.name}"?`}
-                      description="This action cannot be undone"
-                      onConfirm={() => handleDelete(conn.id!, conn.name)}
-                      okText="Delete"
-                      cancelText="Cancel"
-                      okButtonProps={{ danger: true }}
-                    >
-                      <Tooltip title="Delete">
-                        <Button size="small" danger icon={<DeleteOutlined />} />
-                      </Tooltip>
-                    </Popconfirm>
-                  </Space>
                 </div>
-              </div>
-            </List.Item>
-          )}
+              </List.Item>
+            );
+          }}
         />
       )}
     </Card>
@@ -1,7 +1,7 @@
 import { Layout, Button, Space } from 'antd';
 import { PlusOutlined } from '@ant-design/icons';
 import { ConnectionList } from './ConnectionList';
-import type { ConnectionConfig } from '@shared/types/models';
+import type { ConnectionConfig, SessionInfo } from '@shared/types/models';
 
 const { Sider } = Layout;
 
@@ -12,6 +12,7 @@ interface ConnectionSidebarProps {
   onEditConnection: (connection: ConnectionConfig) => void;
   onConnect: () => void;
   refreshTrigger: number;
+  sessions: SessionInfo[];
   token: any;
 }
 
@@ -22,6 +23,7 @@ export const ConnectionSidebar: React.FC<ConnectionSidebarProps> = ({
   onEditConnection,
   onConnect,
   refreshTrigger,
+  sessions,
   token,
 }) => {
   return (
@@ -47,6 +49,7 @@ export const ConnectionSidebar: React.FC<ConnectionSidebarProps> = ({
 
             <ConnectionList
               refreshTrigger={refreshTrigger}
+              sessions={sessions}
               onEdit={onEditConnection}
               onConnect={onConnect}
             />
@@ -6,6 +6,11 @@ import {
   BarChartOutlined,
   LineChartOutlined,
   ToolOutlined,
+  ClusterOutlined,
+  BellOutlined,
+  SwapOutlined,
+  ExperimentOutlined,
+  CloudServerOutlined,
 } from '@ant-design/icons';
 import type { ConnectionStatus } from '@shared/types/models';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
@@ -17,6 +22,15 @@ import { Statistics } from './Statistics';
 import { ChartsTab } from './ChartsTab';
 import { MessageReplay } from './MessageReplay';
 import { RetentionPolicy } from './RetentionPolicy';
+import { RetainedMessages } from './RetainedMessages';
+import { ProtobufSchemaManager } from './ProtobufSchemaManager';
+import { SparkplugExplorer } from './SparkplugExplorer';
+import { AutomationSettings } from './AutomationSettings';
+import { AlertsPanel } from './AlertsPanel';
+import { RequestResponsePanel } from './RequestResponsePanel';
+import { SimulatorPanel } from './SimulatorPanel';
+import { SysDashboard } from './SysDashboard';
+import { TopicComparison } from './TopicComparison';
 
 const { Content } = Layout;
 const { Text } = Typography;
@@ -105,6 +119,9 @@ export const MainContent: React.FC<MainContentProps> = ({
                       <Col span={24}>
                         <Statistics />
                       </Col>
+                      <Col span={24}>
+                        <TopicComparison />
+                      </Col>
                     </Row>
                   ),
                 },
@@ -124,6 +141,62 @@ export const MainContent: React.FC<MainContentProps> = ({
                     </Row>
                   ),
                 },
+                {
+                  key: 'broker',
+                  label: (
+                    <span>
+                      <CloudServerOutlined />
+                      Broker
+                    </span>
+                  ),
+                  children: <SysDashboard />,
+                },
+                {
+                  key: 'sparkplug',
+                  label: (
+                    <span>
+                      <ClusterOutlined />
+                      Sparkplug
+                    </span>
+                  ),
+                  children: (
+                    <Row gutter={[16, 16]}>
+                      <Col span={24}>
+                        <SparkplugExplorer />
+                      </Col>
+                    </Row>
+                  ),
+                },
+                {
+                  key: 'requests',
+                  label: (
+                    <span>
+                      <SwapOutlined />
+                      Request/Response
+                    </span>
+                  ),
+                  children: <RequestResponsePanel />,
+                },
+                {
+                  key: 'simulator',
+                  label: (
+                    <span>
+                      <ExperimentOutlined />
+                      Simulator
+                    </span>
+                  ),
+                  children: <SimulatorPanel />,
+                },
+                {
+                  key: 'alerts',
+                  label: (
+                    <span>
+                      <BellOutlined />
+                      Alerts
+                    </span>
+                  ),
+                  children: <AlertsPanel />,
+                },
                 {
                   key: 'tools',
                   label: (
@@ -137,9 +210,18 @@ export const MainContent: React.FC<MainContentProps> = ({
                       <Col span={24}>
                         <MessageReplay />
                       </Col>
+                      <Col span={24}>
+                        <ProtobufSchemaManager />
+                      </Col>
+                      <Col span={24}>
+                        <RetainedMessages />
+                      </Col>
                       <Col span={24}>
                         <RetentionPolicy />
                       </Col>
+                      <Col span={24}>
+                        <AutomationSettings />
+                      </Col>
                     </Row>
                   ),
                 },
@@ -1,11 +1,22 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Descriptions, Tag, Button, Space, message as antMessage, Tabs, theme } from 'antd';
 import { CopyOutlined } from '@ant-design/icons';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import type { MqttMessage } from '@shared/types/models';
+import type { InferredSchema, MqttMessage } from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { checkAgainstSchema } from '@shared/utils/schemaInference';
 import { format } from 'date-fns';
-import { decodeMsgpack, isMsgpack } from '../utils/msgpackDecoder';
+import { decodeProtobufForTopic } from '../utils/protobufDecoder';
+import {
+  decodeMessagePayload,
+  getPayloadBytes,
+  getPayloadText,
+  isTextPayload,
+  toHex,
+} from '../utils/payload';
+import { PayloadTree } from './PayloadTree';
+import { SchemaView } from './SchemaView';
 
 interface MessageDetailProps {
   message: MqttMessage;
@@ -14,86 +25,50 @@ interface MessageDetailProps {
 export const MessageDetail: React.FC<MessageDetailProps> = ({ message }) => {
   const { token } = theme.useToken();
   const [activeTab, setActiveTab] = useState('formatted');
+  const [schema, setSchema] = useState<InferredSchema | null>(null);
 
-  const getPayloadString = (): string => {
-    // Payloads are always strings in renderer (converted before IPC)
-    return typeof message.payload === 'string' ? message.payload : String(message.payload);
-  };
+  // Learn the topic's shape from its stored messages to flag deviations
+  useEffect(() => {
+    let cancelled = false;
+    setSchema(null);
+    window.electronAPI
+      .invoke(IPC_CHANNELS.SCHEMA_INFER, { topic: message.topic, connectionId: message.connectionId })
+      .then((learned: InferredSchema) => {
+        if (!cancelled) {
+          setSchema(learned);
+        }
+      })
+      .catch((error: unknown) => console.error('Failed to infer schema:', error));
 
-  const detectPayloadType = (): 'json' | 'xml' | 'msgpack' | 'text' | 'binary' => {
-    // Check MessagePack first (if payload is not a string, it's binary)
-    if (typeof message.payload !== 'string') {
-      // Convert to Uint8Array if needed
-      const binaryPayload = message.payload instanceof Uint8Array
-        ? message.payload
-        : new Uint8Array(message.payload);
-
-      if (isMsgpack(binaryPayload)) {
-        return 'msgpack';
-      }
-    }
+    return () => {
+      cancelled = true;
+    };
+  }, [message.topic, message.connectionId]);
 
-    const payload = getPayloadString();
-
-    try {
-      JSON.parse(payload);
-      return 'json';
-    } catch {}
-
-    if (payload.trim().startsWith('<') && payload.trim().endsWith('>')) {
-      return 'xml';
-    }
+  const payloadBytes = getPayloadBytes(message.payload);
+  const protobufResult = decodeProtobufForTopic(message.topic, payloadBytes);
 
-    // Check if it's binary (contains non-printable characters)
-    const hasNonPrintable = /[\x00-\x08\x0B\x0C\x0E-\x1F]/.test(payload);
-    if (hasNonPrintable) {
-      return 'binary';
-    }
-
-    return 'text';
+  const getPayloadString = (): string => {
+    return getPayloadText(message);
   };
 
-  const formatPayload = (): string => {
-    const type = detectPayloadType();
-
-    if (type === 'msgpack' && typeof message.payload !== 'string') {
-      // Convert to Uint8Array if needed
-      const binaryPayload = message.payload instanceof Uint8Array
-        ? message.payload
-        : new Uint8Array(message.payload);
-
-      const result = decodeMsgpack(binaryPayload);
-      if (result.success && result.formatted) {
-        return result.formatted;
-      }
-      return '[MessagePack decode failed]';
-    }
-
-    const payload = getPayloadString();
+  // Sparkplug B payloads are decoded by the main process, and a protobuf schema
+  // mapped to the topic takes precedence over the payload decoders
+  const decoded = message.sparkplug || protobufResult?.success ? null : decodeMessagePayload(message);
+  const payloadType = message.sparkplug ? 'sparkplug' : protobufResult?.success ? 'protobuf' : decoded!.format;
 
-    if (type === 'json') {
-      try {
-        return JSON.stringify(JSON.parse(payload), null, 2);
-      } catch {
-        return payload;
-      }
+  const formatPayload = (): string => {
+    if (message.sparkplug) {
+      return JSON.stringify(message.sparkplug, null, 2);
     }
-
-    return payload;
-  };
-
-  const stringToHex = (str: string): string => {
-    const hex = [];
-    for (let i = 0; i < str.length; i++) {
-      const charCode = str.charCodeAt(i);
-      hex.push(charCode.toString(16).padStart(2, '0'));
+    if (protobufResult?.success && protobufResult.formatted) {
+      return protobufResult.formatted;
     }
-    return hex.join(' ');
+    return decoded!.text;
   };
 
   const getPayloadAsHex = (): string => {
-    const payload = getPayloadString();
-    return stringToHex(payload);
+    return toHex(payloadBytes);
   };
 
   const handleCopy = (text: string, label: string) => {
@@ -101,8 +76,19 @@ export const MessageDetail: React.FC<MessageDetailProps> = ({ message }) => {
     antMessage.success(`${label} copied to clipboard`);
   };
 
-  const payloadType = detectPayloadType();
   const formattedPayload = formatPayload();
+  const schemaDeviations = schema?.root
+    ? checkAgainstSchema(schema, isTextPayload(message) ? getPayloadString() : undefined)
+    : [];
+  const properties = message.properties;
+  const responseTopic = properties?.responseTopic;
+
+  // Correlation data is binary; show it as text when it is valid UTF-8
+  const correlationData = properties?.correlationData !== undefined
+    ? isTextPayload({ payload: properties.correlationData })
+      ? getPayloadText({ payload: properties.correlationData })
+      : toHex(getPayloadBytes(properties.correlationData))
+    : undefined;
 
   return (
     <Space direction="vertical" style={{ width: '100%' }} size="large">
@@ -136,11 +122,116 @@ export const MessageDetail: React.FC<MessageDetailProps> = ({ message }) => {
           <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{message.id}</span>
         </Descriptions.Item>
         <Descriptions.Item label="Payload Type">
-          <Tag>{payloadType.toUpperCase()}</Tag>
+          <Space>
+            <Tag>{payloadType.toUpperCase()}</Tag>
+            {message.sparkplug && <Tag color="purple">{message.sparkplug.messageType}</Tag>}
+            {decoded && decoded.decoders.length > 0 && (
+              <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+                {decoded.decoders.join(' → ')}
+              </span>
+            )}
+            {decoded?.error && <Tag color="red">Decoder failed: {decoded.error}</Tag>}
+            {payloadType === 'protobuf' && protobufResult && (
+              <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+                {protobufResult.typeName}
+              </span>
+            )}
+            {protobufResult && !protobufResult.success && (
+              <Tag color="red">Protobuf decode failed: {protobufResult.error}</Tag>
+            )}
+          </Space>
         </Descriptions.Item>
         <Descriptions.Item label="Payload Size">
-          {new TextEncoder().encode(getPayloadString()).length} bytes
+          {payloadBytes.length} bytes
         </Descriptions.Item>
+        {schema?.root && (
+          <Descriptions.Item label="Schema">
+            {schemaDeviations.length === 0 ? (
+              <Tag color="green">Matches the learned shape</Tag>
+            ) : (
+              <Space direction="vertical" size={4}>
+                <Tag color="orange">Deviates from the learned shape</Tag>
+                {schemaDeviations.map((deviation) => (
+                  <span key={`${deviation.path}-${deviation.message}`} style={{ fontSize: '12px' }}>
+                    <span style={{ fontFamily: 'monospace' }}>{deviation.path}</span>: {deviation.message}
+                  </span>
+                ))}
+              </Space>
+            )}
+          </Descriptions.Item>
+        )}
+        {message.validation && (
+          <Descriptions.Item label="Validation">
+            <Space direction="vertical" size={4}>
+              <Space>
+                <Tag color={message.validation.valid ? 'green' : 'red'}>
+                  {message.validation.valid ? 'Valid' : 'Invalid'}
+                </Tag>
+                <span style={{ fontSize: '12px' }}>
+                  JSON Schema for <span style={{ fontFamily: 'monospace' }}>{message.validation.topicPattern}</span>
+                </span>
+              </Space>
+              {message.validation.errors.map((error) => (
+                <span key={error} style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+                  {error}
+                </span>
+              ))}
+            </Space>
+          </Descriptions.Item>
+        )}
+        {properties?.contentType !== undefined && (
+          <Descriptions.Item label="Content Type">
+            <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{properties.contentType}</span>
+          </Descriptions.Item>
+        )}
+        {properties?.payloadFormatIndicator !== undefined && (
+          <Descriptions.Item label="Payload Format">
+            <Tag>{properties.payloadFormatIndicator ? 'UTF-8' : 'Unspecified bytes'}</Tag>
+          </Descriptions.Item>
+        )}
+        {properties?.messageExpiryInterval !== undefined && (
+          <Descriptions.Item label="Message Expiry">
+            {properties.messageExpiryInterval} s
+          </Descriptions.Item>
+        )}
+        {responseTopic !== undefined && (
+          <Descriptions.Item label="Response Topic">
+            <Space>
+              {responseTopic}
+              <Button
+                type="text"
+                size="small"
+                icon={<CopyOutlined />}
+                onClick={() => handleCopy(responseTopic, 'Response topic')}
+              />
+            </Space>
+          </Descriptions.Item>
+        )}
+        {correlationData !== undefined && (
+          <Descriptions.Item label="Correlation Data">
+            <Space>
+              <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{correlationData}</span>
+              <Button
+                type="text"
+                size="small"
+                icon={<CopyOutlined />}
+                onClick={() => handleCopy(correlationData, 'Correlation data')}
+              />
+            </Space>
+          </Descriptions.Item>
+        )}
+        {properties?.topicAlias !== undefined && (
+          <Descriptions.Item label="Topic Alias">{properties.topicAlias}</Descriptions.Item>
+        )}
+        {properties?.subscriptionIdentifiers && properties.subscriptionIdentifiers.length > 0 && (
+          <Descriptions.Item label="Subscription IDs">
+            <Space>
+              {properties.subscriptionIdentifiers.map((id) => (
+                <Tag key={id}>{id}</Tag>
+              ))}
+            </Space>
+          </Descriptions.Item>
+        )}
         {message.userProperties && Object.keys(message.userProperties).length > 0 && (
           <Descriptions.Item label="User Properties">
             <div style={{
@@ -195,7 +286,7 @@ export const MessageDetail: React.FC<MessageDetailProps> = ({ message }) => {
               children: (
                 <SyntaxHighlighter
                   language={
-                    payloadType === 'json' || payloadType === 'msgpack'
+                    payloadType === 'json' || payloadType === 'protobuf' || payloadType === 'sparkplug'
                       ? 'json'
                       : payloadType === 'xml'
                       ? 'xml'
@@ -258,6 +349,24 @@ export const MessageDetail: React.FC<MessageDetailProps> = ({ message }) => {
                 </div>
               ),
             },
+            ...(decoded?.format === 'json'
+              ? [
+                  {
+                    key: 'tree',
+                    label: 'Tree',
+                    children: <PayloadTree value={decoded.value} />,
+                  },
+                ]
+              : []),
+            ...(schema?.root
+              ? [
+                  {
+                    key: 'schema',
+                    label: 'Schema',
+                    children: <SchemaView schema={schema} />,
+                  },
+                ]
+              : []),
           ]}
         />
       </div>
@@ -20,6 +20,7 @@ import {
   message as antMessage,
   Dropdown,
   Modal,
+  InputNumber,
 } from 'antd';
 import {
   MessageOutlined,
@@ -35,6 +36,7 @@ import {
 import type { MqttMessage, MessageFilter } from '@shared/types/models';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
 import { MessageDetail } from './MessageDetail';
+import { getPayloadPreview } from '../utils/payload';
 import { format } from 'date-fns';
 import dayjs, { Dayjs } from 'dayjs';
 import type { MenuProps } from 'antd';
@@ -72,6 +74,11 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
   const [filterLimit, setFilterLimit] = useState(200);
   const [userPropertyKey, setUserPropertyKey] = useState('');
   const [userPropertyValue, setUserPropertyValue] = useState('');
+  const [contentTypeFilter, setContentTypeFilter] = useState('');
+  const [responseTopicFilter, setResponseTopicFilter] = useState('');
+  const [correlationDataFilter, setCorrelationDataFilter] = useState('');
+  const [subscriptionIdFilter, setSubscriptionIdFilter] = useState<number | undefined>(undefined);
+  const [invalidOnly, setInvalidOnly] = useState(false);
 
   // Filter presets
   const [filterPresets, setFilterPresets] = useState<FilterPreset[]>([]);
@@ -80,7 +87,8 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
 
   // Check if filters are active
   const hasActiveFilters =
-    topicFilter || payloadSearch || qosFilter !== undefined || retainedFilter !== undefined || dateRange || userPropertyKey || userPropertyValue;
+    topicFilter || payloadSearch || qosFilter !== undefined || retainedFilter !== undefined || dateRange || userPropertyKey || userPropertyValue ||
+    contentTypeFilter || responseTopicFilter || correlationDataFilter || subscriptionIdFilter !== undefined || invalidOnly;
 
   // Build filter function
   const buildFilter = useCallback((): MessageFilter => {
@@ -117,8 +125,42 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
       filter.userPropertyValue = userPropertyValue;
     }
 
+    if (contentTypeFilter) {
+      filter.contentType = contentTypeFilter;
+    }
+
+    if (responseTopicFilter) {
+      filter.responseTopic = responseTopicFilter;
+    }
+
+    if (correlationDataFilter) {
+      filter.correlationData = correlationDataFilter;
+    }
+
+    if (subscriptionIdFilter !== undefined) {
+      filter.subscriptionIdentifier = subscriptionIdFilter;
+    }
+
+    if (invalidOnly) {
+      filter.invalidOnly = true;
+    }
+
     return filter;
-  }, [topicFilter, payloadSearch, qosFilter, retainedFilter, dateRange, filterLimit, userPropertyKey, userPropertyValue]);
+  }, [
+    topicFilter,
+    payloadSearch,
+    qosFilter,
+    retainedFilter,
+    dateRange,
+    filterLimit,
+    userPropertyKey,
+    userPropertyValue,
+    contentTypeFilter,
+    responseTopicFilter,
+    correlationDataFilter,
+    subscriptionIdFilter,
+    invalidOnly,
+  ]);
 
   // Load messages from database
   const loadMessages = useCallback(async () => {
@@ -219,6 +261,11 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
     setFilterLimit(200);
     setUserPropertyKey('');
     setUserPropertyValue('');
+    setContentTypeFilter('');
+    setResponseTopicFilter('');
+    setCorrelationDataFilter('');
+    setSubscriptionIdFilter(undefined);
+    setInvalidOnly(false);
     // Messages will automatically reload via useEffect
   };
 
@@ -285,6 +332,11 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
     setFilterLimit(filter.limit || 200);
     setUserPropertyKey(filter.userPropertyKey || '');
     setUserPropertyValue(filter.userPropertyValue || '');
+    setContentTypeFilter(filter.contentType || '');
+    setResponseTopicFilter(filter.responseTopic || '');
+    setCorrelationDataFilter(filter.correlationData || '');
+    setSubscriptionIdFilter(filter.subscriptionIdentifier);
+    setInvalidOnly(filter.invalidOnly ?? false);
 
     if (filter.startTime && filter.endTime) {
       setDateRange([dayjs(filter.startTime), dayjs(filter.endTime)]);
@@ -305,12 +357,9 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
     setIsDetailVisible(true);
   };
 
-  const formatPayload = (payload: Buffer | string, maxLength = 80): string => {
-    const str = payload.toString();
-    if (str.length > maxLength) {
-      return str.substring(0, maxLength) + '...';
-    }
-    return str;
+  const formatPayload = (message: MqttMessage, maxLength = 80): string => {
+    // Binary payloads are previewed as hex (or decoded JSON when a schema is mapped)
+    return getPayloadPreview(message, maxLength);
   };
 
   const getQoSColor = (qos: number): string => {
@@ -360,6 +409,14 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
                 Auto-refresh
               </Checkbox>
             </Tooltip>
+            <Tooltip title="Only messages that failed payload schema validation">
+              <Checkbox
+                checked={invalidOnly}
+                onChange={(e) => setInvalidOnly(e.target.checked)}
+              >
+                Invalid only
+              </Checkbox>
+            </Tooltip>
             <Tooltip title="Refresh Messages">
               <Button
                 type="text"
@@ -445,6 +502,45 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
                   </Col>
                 </Row>
 
+                <Row gutter={[16, 16]}>
+                  <Col span={6}>
+                    <label>Content Type</label>
+                    <Input
+                      placeholder="application/json"
+                      value={contentTypeFilter}
+                      onChange={(e) => setContentTypeFilter(e.target.value)}
+                    />
+                  </Col>
+                  <Col span={6}>
+                    <label>Response Topic</label>
+                    <Input
+                      placeholder="replies/#"
+                      value={responseTopicFilter}
+                      onChange={(e) => setResponseTopicFilter(e.target.value)}
+                    />
+                  </Col>
+                  <Col span={6}>
+                    <label>Correlation Data (text or hex)</label>
+                    <Input
+                      placeholder="request-42"
+                      value={correlationDataFilter}
+                      onChange={(e) => setCorrelationDataFilter(e.target.value)}
+                    />
+                  </Col>
+                  <Col span={6}>
+                    <label>Subscription ID</label>
+                    <InputNumber
+                      min={1}
+                      max={268435455}
+                      precision={0}
+                      value={subscriptionIdFilter}
+                      onChange={(value) => setSubscriptionIdFilter(typeof value === 'number' ? value : undefined)}
+                      style={{ width: '100%' }}
+                      placeholder="Any"
+                    />
+                  </Col>
+                </Row>
+
                 <Row gutter={[16, 16]}>
                   <Col span={8}>
                     <label>QoS Level</label>
@@ -578,6 +674,11 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
                         <span>{message.topic}</span>
                         <Tag color={getQoSColor(message.qos)}>QoS {message.qos}</Tag>
                         {message.retained && <Tag color="orange">Retained</Tag>}
+                        {message.validation && !message.validation.valid && (
+                          <Tooltip title={message.validation.errors.map((error) => <div key={error}>{error}</div>)}>
+                            <Tag color="red">Invalid</Tag>
+                          </Tooltip>
+                        )}
                         {message.userProperties && Object.keys(message.userProperties).length > 0 && (
                           <Tag color="purple">
                             {Object.keys(message.userProperties).length} {Object.keys(message.userProperties).length === 1 ? 'property' : 'properties'}
@@ -597,7 +698,7 @@ export const MessageList: React.FC<MessageListProps> = ({ maxMessages = 200 }) =
                             whiteSpace: 'pre-wrap',
                           }}
                         >
-                          {formatPayload(message.payload)}
+                          {formatPayload(message)}
                         </span>
                       </Space>
                     }
@@ -1,7 +1,8 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Form,
   Input,
+  InputNumber,
   Select,
   Switch,
   Button,
@@ -9,72 +10,250 @@ import {
   Space,
   message as antMessage,
   Collapse,
+  Modal,
+  Popconfirm,
+  Typography,
+  Upload,
 } from 'antd';
-import { SendOutlined, ClearOutlined, PlusOutlined, MinusCircleOutlined } from '@ant-design/icons';
+import {
+  SendOutlined,
+  ClearOutlined,
+  PlusOutlined,
+  MinusCircleOutlined,
+  SaveOutlined,
+  DeleteOutlined,
+  SettingOutlined,
+  FieldTimeOutlined,
+  UploadOutlined,
+} from '@ant-design/icons';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
-import type { QoS } from '@shared/types/models';
+import type {
+  PublishJobConfig,
+  PublishOptions,
+  PublishPayloadType,
+  PublishTemplate,
+  PublishTemplateSet,
+  QoS,
+} from '@shared/types/models';
+import { renderTemplate } from '@shared/utils/templateVariables';
+import { encodePublishPayload } from '../utils/payloadEncoder';
+import { PublishJobs } from './PublishJobs';
 
 const { TextArea } = Input;
 const { Option } = Select;
 const { Panel } = Collapse;
+const { Text } = Typography;
+
+const TEMPLATE_VARIABLES_HELP =
+  'Variables: {{timestamp}} {{isoDate}} {{uuid}} {{randomInt 0 100}} {{randomFloat 0 1 2}} {{counter}} {{env.NAME}}';
+
+// Publish counters of messages sent without a template
+const AD_HOC_COUNTER_KEY = '';
+
+// Largest payload an MQTT packet can carry
+const MAX_FILE_PAYLOAD_BYTES = 256 * 1024 * 1024;
+
+const PAYLOAD_PLACEHOLDERS: Record<Exclude<PublishPayloadType, 'file'>, string> = {
+  text: 'Enter your message here...',
+  json: '{\n  "key": "value"\n}',
+  hex: 'de ad be ef',
+  base64: '3q2+7w==',
+  msgpack: '{\n  "key": "value"\n}',
+  cbor: '{\n  "key": "value"\n}',
+};
+
+interface PublishFormValues {
+  topic: string;
+  payload?: string;
+  qos: QoS;
+  retain: boolean;
+  properties?: PublishOptions['properties'];
+  clearAfterPublish?: boolean;
+  schedule?: {
+    type?: 'interval' | 'cron';
+    intervalMs?: number;
+    expression?: string;
+    durationSeconds?: number;
+  };
+}
 
 export const MessagePublisher: React.FC = () => {
   const [form] = Form.useForm();
   const [loading, setLoading] = useState(false);
-  const [payloadType, setPayloadType] = useState<'text' | 'json'>('text');
+  const [isStartingJob, setIsStartingJob] = useState(false);
+  const scheduleType = Form.useWatch(['schedule', 'type'], form);
+  const [payloadType, setPayloadType] = useState<PublishPayloadType>('text');
+  const [payloadFile, setPayloadFile] = useState<{ name: string; bytes: Uint8Array } | null>(null);
   const [userProperties, setUserProperties] = useState<Array<{key: string, value: string}>>([]);
+  const [templateSet, setTemplateSet] = useState<PublishTemplateSet>({ templates: [], environment: {} });
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [isSaveTemplateVisible, setIsSaveTemplateVisible] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [isEnvironmentVisible, setIsEnvironmentVisible] = useState(false);
+  const [environmentRows, setEnvironmentRows] = useState<Array<{key: string, value: string}>>([]);
+  // {{counter}} values, per template
+  const counters = useRef<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    loadTemplates();
+
+    // Templates belong to a connection profile
+    const removeListener = window.electronAPI.on(IPC_CHANNELS.CONNECTION_CHANGED, () => {
+      setSelectedTemplateId(null);
+      counters.current.clear();
+      loadTemplates();
+    });
+
+    return () => removeListener();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setTemplateSet(await window.electronAPI.invoke(IPC_CHANNELS.TEMPLATE_GET));
+    } catch (error) {
+      console.error('Failed to load publish templates:', error);
+    }
+  };
 
-  const handlePublish = async (values: any) => {
+  const saveTemplateSet = async (nextSet: PublishTemplateSet) => {
+    try {
+      const saved: PublishTemplateSet = await window.electronAPI.invoke(IPC_CHANNELS.TEMPLATE_SAVE, {
+        templateSet: nextSet,
+      });
+      setTemplateSet(saved);
+      return saved;
+    } catch (error: any) {
+      antMessage.error(`Failed to save templates: ${error.message}`);
+      return null;
+    }
+  };
+
+  // User properties with a key, with their values rendered when a render function is given
+  const buildUserProperties = (render: (text: string) => string = (text) => text) => {
+    const userPropsObject: Record<string, string> = {};
+    userProperties.forEach(prop => {
+      if (prop.key.trim()) {
+        userPropsObject[prop.key] = render(prop.value);
+      }
+    });
+    return Object.keys(userPropsObject).length > 0 ? userPropsObject : undefined;
+  };
+
+  const handlePublish = async (values: PublishFormValues) => {
     setLoading(true);
 
     try {
-      let payload = values.payload;
+      // Substitute template variables just before publishing
+      const counterKey = selectedTemplateId ?? AD_HOC_COUNTER_KEY;
+      const counter = (counters.current.get(counterKey) ?? 0) + 1;
+      const render = (text: string) =>
+        renderTemplate(text, { counter, environment: templateSet.environment });
+
+      const topic = render(values.topic);
 
-      // Validate and format JSON if needed
-      if (payloadType === 'json') {
+      // Binary payload types cross IPC as bytes and are published unchanged
+      let payload: string | Uint8Array;
+      if (payloadType === 'file') {
+        if (!payloadFile) {
+          antMessage.error('Choose a file to publish');
+          setLoading(false);
+          return;
+        }
+        payload = payloadFile.bytes;
+      } else {
         try {
-          // Validate JSON
-          JSON.parse(payload);
+          payload = encodePublishPayload(render(values.payload ?? ''), payloadType);
         } catch (error) {
-          antMessage.error('Invalid JSON payload');
+          antMessage.error(error instanceof Error ? error.message : String(error));
           setLoading(false);
           return;
         }
       }
 
-      // Build user properties object
-      const userPropsObject: Record<string, string> = {};
-      userProperties.forEach(prop => {
-        if (prop.key.trim()) {
-          userPropsObject[prop.key] = prop.value;
+      // Only send the MQTT 5.0 properties that were filled in
+      const properties: NonNullable<PublishOptions['properties']> = {};
+      Object.entries(values.properties ?? {}).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '' && value !== false) {
+          (properties as Record<string, unknown>)[key] = value;
         }
       });
 
       await window.electronAPI.invoke(IPC_CHANNELS.MQTT_PUBLISH, {
-        topic: values.topic,
+        topic,
         payload,
         options: {
           qos: values.qos,
           retain: values.retain,
-          userProperties: Object.keys(userPropsObject).length > 0 ? userPropsObject : undefined,
+          userProperties: buildUserProperties(render),
+          properties: Object.keys(properties).length > 0 ? properties : undefined,
         },
       });
 
-      antMessage.success(`Message published to ${values.topic}`);
+      counters.current.set(counterKey, counter);
+      antMessage.success(`Message published to ${topic}`);
 
       // Optionally clear payload after publishing
       if (values.clearAfterPublish) {
         form.setFieldValue('payload', '');
+        setPayloadFile(null);
         setUserProperties([]);
       }
-    } catch (error: any) {
-      antMessage.error(`Failed to publish: ${error.message || 'Unknown error'}`);
+    } catch (error) {
+      antMessage.error(`Failed to publish: ${error instanceof Error ? error.message : String(error)}`);
       console.error('Publish error:', error);
     } finally {
       setLoading(false);
     }
   };
 
+  // Start a main process job that publishes the message on a schedule (variables are rendered per message)
+  const handleStartJob = async () => {
+    let values: PublishFormValues;
+    try {
+      values = await form.validateFields();
+    } catch {
+      return;
+    }
+
+    // Jobs render and publish their payload as text in the main process
+    if (payloadType !== 'text' && payloadType !== 'json') {
+      antMessage.error('Scheduled jobs publish text or JSON payloads');
+      return;
+    }
+    if (payloadType === 'json') {
+      try {
+        JSON.parse(renderTemplate(values.payload, { counter: 1, environment: templateSet.environment }));
+      } catch {
+        antMessage.error('Invalid JSON payload');
+        return;
+      }
+    }
+
+    const scheduleValues = values.schedule ?? {};
+    const config: PublishJobConfig = {
+      name: templateSet.templates.find((template) => template.id === selectedTemplateId)?.name,
+      topic: values.topic,
+      payload: values.payload,
+      qos: values.qos,
+      retain: values.retain,
+      userProperties: buildUserProperties(),
+      schedule: scheduleValues.type === 'cron'
+        ? { type: 'cron', expression: scheduleValues.expression ?? '' }
+        : { type: 'interval', intervalMs: scheduleValues.intervalMs },
+      durationMs: scheduleValues.durationSeconds ? scheduleValues.durationSeconds * 1000 : undefined,
+    };
+
+    setIsStartingJob(true);
+    try {
+      await window.electronAPI.invoke(IPC_CHANNELS.PUBLISH_JOB_START, config);
+      antMessage.success(`Started publishing to ${values.topic}`);
+    } catch (error) {
+      antMessage.error(`Failed to start job: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsStartingJob(false);
+    }
+  };
+
   const handleFormatJSON = () => {
     const payload = form.getFieldValue('payload');
     try {
@@ -86,24 +265,152 @@ export const MessagePublisher: React.FC = () => {
     }
   };
 
+  const handleChooseFile = (file: File) => {
+    if (file.size > MAX_FILE_PAYLOAD_BYTES) {
+      antMessage.error(`${file.name} is larger than the MQTT maximum of 256 MB`);
+      return false;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setPayloadFile({ name: file.name, bytes: new Uint8Array(reader.result as ArrayBuffer) });
+    };
+    reader.onerror = () => antMessage.error(`Failed to read ${file.name}`);
+    reader.readAsArrayBuffer(file);
+    return false; // Read in the renderer, not uploaded
+  };
+
   const handleClear = () => {
     form.resetFields();
+    setPayloadFile(null);
     setUserProperties([]);
+    setSelectedTemplateId(null);
+  };
+
+  const handleSelectTemplate = (templateId?: string) => {
+    const template = templateSet.templates.find((candidate) => candidate.id === templateId);
+    setSelectedTemplateId(template?.id ?? null);
+    if (!template) {
+      return;
+    }
+
+    form.setFieldsValue({
+      topic: template.topic,
+      payload: template.payload,
+      qos: template.qos,
+      retain: template.retain,
+    });
+    setPayloadType(template.payloadType);
+    setUserProperties(
+      Object.entries(template.userProperties ?? {}).map(([key, value]) => ({ key, value }))
+    );
+  };
+
+  const openSaveTemplate = () => {
+    if (!form.getFieldValue('topic')) {
+      antMessage.error('Enter a topic before saving a template');
+      return;
+    }
+    if (payloadType === 'file') {
+      antMessage.error('File payloads cannot be saved as templates');
+      return;
+    }
+    const selected = templateSet.templates.find((template) => template.id === selectedTemplateId);
+    setTemplateName(selected?.name ?? '');
+    setIsSaveTemplateVisible(true);
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) {
+      antMessage.error('Enter a template name');
+      return;
+    }
+    if (payloadType === 'file') {
+      return;
+    }
+
+    // Saving under an existing name replaces that template
+    const existing = templateSet.templates.find((template) => template.name === name);
+    const template: PublishTemplate = {
+      id: existing?.id ?? '',
+      name,
+      topic: form.getFieldValue('topic'),
+      payload: form.getFieldValue('payload') ?? '',
+      payloadType,
+      qos: form.getFieldValue('qos'),
+      retain: form.getFieldValue('retain') ?? false,
+      userProperties: buildUserProperties(),
+    };
+
+    const saved = await saveTemplateSet({
+      ...templateSet,
+      templates: existing
+        ? templateSet.templates.map((candidate) => (candidate.id === existing.id ? template : candidate))
+        : [...templateSet.templates, template],
+    });
+
+    if (saved) {
+      setSelectedTemplateId(saved.templates.find((candidate) => candidate.name === name)?.id ?? null);
+      setIsSaveTemplateVisible(false);
+      antMessage.success(existing ? `Template "${name}" updated` : `Template "${name}" saved`);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    const saved = await saveTemplateSet({
+      ...templateSet,
+      templates: templateSet.templates.filter((template) => template.id !== selectedTemplateId),
+    });
+    if (saved) {
+      setSelectedTemplateId(null);
+    }
+  };
+
+  const openEnvironment = () => {
+    setEnvironmentRows(
+      Object.entries(templateSet.environment).map(([key, value]) => ({ key, value }))
+    );
+    setIsEnvironmentVisible(true);
+  };
+
+  const handleSaveEnvironment = async () => {
+    const environment: Record<string, string> = {};
+    environmentRows.forEach(row => {
+      if (row.key.trim()) {
+        environment[row.key.trim()] = row.value;
+      }
+    });
+
+    if (await saveTemplateSet({ ...templateSet, environment })) {
+      setIsEnvironmentVisible(false);
+      antMessage.success('Environment saved');
+    }
   };
 
   const generateSamplePayload = () => {
-    const samples = {
-      text: 'Hello from MQTT Voyager!',
-      json: JSON.stringify(
-        {
-          timestamp: new Date().toISOString(),
-          message: 'Hello from MQTT Voyager!',
-          value: 42,
-          status: 'online',
-        },
-        null,
-        2
-      ),
+    if (payloadType === 'file') {
+      return;
+    }
+
+    // Samples use template variables, so every publish sends fresh values
+    const json = [
+      '{',
+      '  "timestamp": "{{isoDate}}",',
+      '  "messageId": "{{uuid}}",',
+      '  "message": "Hello from MQTT Voyager!",',
+      '  "sequence": {{counter}},',
+      '  "value": {{randomInt 0 100}},',
+      '  "status": "online"',
+      '}',
+    ].join('\n');
+    const samples: Record<Exclude<PublishPayloadType, 'file'>, string> = {
+      text: 'Hello from MQTT Voyager! #{{counter}}',
+      json,
+      hex: '4d 51 54 54 00 01 02 03 fe ff',
+      base64: 'SGVsbG8gZnJvbSBNUVRUIFZveWFnZXIh',
+      msgpack: json,
+      cbor: json,
     };
 
     form.setFieldValue('payload', samples[payloadType]);
@@ -146,8 +453,40 @@ export const MessagePublisher: React.FC = () => {
                   qos: 0,
                   retain: false,
                   clearAfterPublish: false,
+                  schedule: { type: 'interval', intervalMs: 1000 },
                 }}
               >
+                <Form.Item label="Template">
+                  <Space wrap>
+                    <Select
+                      value={selectedTemplateId ?? undefined}
+                      onChange={handleSelectTemplate}
+                      allowClear
+                      placeholder="No template"
+                      style={{ width: 220 }}
+                      options={templateSet.templates.map((template) => ({
+                        label: template.name,
+                        value: template.id,
+                      }))}
+                    />
+                    <Button size="small" icon={<SaveOutlined />} onClick={openSaveTemplate}>
+                      Save as Template
+                    </Button>
+                    <Popconfirm
+                      title="Delete this template?"
+                      onConfirm={handleDeleteTemplate}
+                      okText="Yes"
+                      cancelText="No"
+                      disabled={!selectedTemplateId}
+                    >
+                      <Button size="small" danger icon={<DeleteOutlined />} disabled={!selectedTemplateId} />
+                    </Popconfirm>
+                    <Button size="small" icon={<SettingOutlined />} onClick={openEnvironment}>
+                      Environment
+                    </Button>
+                  </Space>
+                </Form.Item>
+
                 <Form.Item
                   label="Topic"
                   name="topic"
@@ -165,33 +504,58 @@ export const MessagePublisher: React.FC = () => {
                     >
                       <Option value="text">Text</Option>
                       <Option value="json">JSON</Option>
+                      <Option value="hex">Hex</Option>
+                      <Option value="base64">Base64</Option>
+                      <Option value="msgpack">MessagePack</Option>
+                      <Option value="cbor">CBOR</Option>
+                      <Option value="file">File</Option>
                     </Select>
-                    {payloadType === 'json' && (
+                    {(payloadType === 'json' || payloadType === 'msgpack' || payloadType === 'cbor') && (
                       <Button size="small" onClick={handleFormatJSON}>
                         Format JSON
                       </Button>
                     )}
-                    <Button size="small" onClick={generateSamplePayload}>
-                      Generate Sample
-                    </Button>
+                    {payloadType !== 'file' && (
+                      <Button size="small" onClick={generateSamplePayload}>
+                        Generate Sample
+                      </Button>
+                    )}
                   </Space>
                 </Form.Item>
 
-                <Form.Item
-                  label="Payload"
-                  name="payload"
-                  rules={[{ required: true, message: 'Please enter a payload' }]}
-                >
-                  <TextArea
-                    rows={8}
-                    placeholder={
-                      payloadType === 'json'
-                        ? '{\n  "key": "value"\n}'
-                        : 'Enter your message here...'
+                {payloadType === 'file' ? (
+                  <Form.Item label="File" extra="The file's bytes are published unchanged">
+                    <Space>
+                      <Upload beforeUpload={handleChooseFile} showUploadList={false}>
+                        <Button icon={<UploadOutlined />}>Choose File</Button>
+                      </Upload>
+                      {payloadFile && (
+                        <Text type="secondary">
+                          {payloadFile.name} ({payloadFile.bytes.byteLength} bytes)
+                        </Text>
+                      )}
+                    </Space>
+                  </Form.Item>
+                ) : (
+                  <Form.Item
+                    label="Payload"
+                    name="payload"
+                    rules={[{ required: true, message: 'Please enter a payload' }]}
+                    extra={
+                      payloadType === 'msgpack'
+                        ? `Enter a JSON value to encode as MessagePack. ${TEMPLATE_VARIABLES_HELP}`
+                        : payloadType === 'cbor'
+                        ? `Enter a JSON value to encode as CBOR. ${TEMPLATE_VARIABLES_HELP}`
+                        : TEMPLATE_VARIABLES_HELP
                     }
-                    style={{ fontFamily: 'monospace' }}
-                  />
-                </Form.Item>
+                  >
+                    <TextArea
+                      rows={8}
+                      placeholder={PAYLOAD_PLACEHOLDERS[payloadType]}
+                      style={{ fontFamily: 'monospace' }}
+                    />
+                  </Form.Item>
+                )}
 
                 <Form.Item label="User Properties (MQTT 5.0)">
                   <Space direction="vertical" style={{ width: '100%' }}>
@@ -238,6 +602,103 @@ export const MessagePublisher: React.FC = () => {
                   </Space>
                 </Form.Item>
 
+                <Collapse
+                  size="small"
+                  style={{ marginBottom: 24 }}
+                  items={[
+                    {
+                      key: 'properties',
+                      label: 'Message Properties (MQTT 5.0)',
+                      forceRender: true,
+                      children: (
+                        <>
+                          <Space wrap>
+                            <Form.Item label="Content Type" name={['properties', 'contentType']}>
+                              <Input placeholder="application/json" style={{ width: 200 }} />
+                            </Form.Item>
+                            <Form.Item
+                              label="Message Expiry (seconds)"
+                              name={['properties', 'messageExpiryInterval']}
+                            >
+                              <InputNumber min={1} placeholder="Never" style={{ width: 160 }} />
+                            </Form.Item>
+                            <Form.Item
+                              label="Topic Alias"
+                              name={['properties', 'topicAlias']}
+                              tooltip="Must not exceed the broker's Topic Alias Maximum"
+                            >
+                              <InputNumber min={1} max={65535} style={{ width: 120 }} />
+                            </Form.Item>
+                            <Form.Item
+                              label="Payload is UTF-8"
+                              name={['properties', 'payloadFormatIndicator']}
+                              valuePropName="checked"
+                            >
+                              <Switch />
+                            </Form.Item>
+                          </Space>
+                          <Form.Item label="Response Topic" name={['properties', 'responseTopic']}>
+                            <Input placeholder="replies/my-client" />
+                          </Form.Item>
+                          <Form.Item
+                            label="Correlation Data"
+                            name={['properties', 'correlationData']}
+                            style={{ marginBottom: 0 }}
+                          >
+                            <Input placeholder="request-42" style={{ fontFamily: 'monospace' }} />
+                          </Form.Item>
+                        </>
+                      ),
+                    },
+                    {
+                      key: 'schedule',
+                      label: 'Scheduled Publishing',
+                      forceRender: true,
+                      children: (
+                        <Space wrap align="end">
+                          <Form.Item label="Repeat" name={['schedule', 'type']} style={{ marginBottom: 0 }}>
+                            <Select
+                              style={{ width: 140 }}
+                              options={[
+                                { label: 'Every N ms', value: 'interval' },
+                                { label: 'Cron', value: 'cron' },
+                              ]}
+                            />
+                          </Form.Item>
+                          {scheduleType === 'cron' ? (
+                            <Form.Item
+                              label="Cron Expression"
+                              name={['schedule', 'expression']}
+                              tooltip="[second] minute hour day-of-month month day-of-week, e.g. */10 * * * * * for every 10 seconds"
+                              style={{ marginBottom: 0 }}
+                            >
+                              <Input placeholder="*/5 * * * *" style={{ width: 180, fontFamily: 'monospace' }} />
+                            </Form.Item>
+                          ) : (
+                            <Form.Item
+                              label="Interval (ms)"
+                              name={['schedule', 'intervalMs']}
+                              style={{ marginBottom: 0 }}
+                            >
+                              <InputNumber min={10} step={100} style={{ width: 140 }} />
+                            </Form.Item>
+                          )}
+                          <Form.Item
+                            label="Duration (seconds)"
+                            name={['schedule', 'durationSeconds']}
+                            style={{ marginBottom: 0 }}
+                          >
+                            <InputNumber min={1} placeholder="Until stopped" style={{ width: 140 }} />
+                          </Form.Item>
+                          <Button icon={<FieldTimeOutlined />} loading={isStartingJob} onClick={handleStartJob}>
+                            Start Job
+                          </Button>
+                        </Space>
+                      ),
+                    },
+                  ]}
+                />
+
                 <Space style={{ width: '100%', justifyContent: 'space-between' }}>
                   <Space>
                     <Form.Item label="QoS" name="qos" style={{ marginBottom: 0 }}>
@@ -279,11 +740,85 @@ export const MessagePublisher: React.FC = () => {
                     Publish Message
                   </Button>
                 </Form.Item>
+
+                <PublishJobs />
               </Form>
             ),
           },
         ]}
       />
+
+      <Modal
+        title="Save as Template"
+        open={isSaveTemplateVisible}
+        onOk={handleSaveTemplate}
+        onCancel={() => setIsSaveTemplateVisible(false)}
+        okText="Save"
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Input
+            placeholder="Template name"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            onPressEnter={handleSaveTemplate}
+          />
+          <Text type="secondary">
+            Saving under an existing name replaces that template. Templates are kept per connection.
+          </Text>
+        </Space>
+      </Modal>
+
+      <Modal
+        title="Environment"
+        open={isEnvironmentVisible}
+        onOk={handleSaveEnvironment}
+        onCancel={() => setIsEnvironmentVisible(false)}
+        okText="Save"
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Text type="secondary">
+            Values of this connection, referenced in topics, payloads and user properties as {'{{env.NAME}}'}.
+          </Text>
+          {environmentRows.map((row, index) => (
+            <Space key={index} style={{ width: '100%' }}>
+              <Input
+                placeholder="Name"
+                value={row.key}
+                onChange={(e) => {
+                  const newRows = [...environmentRows];
+                  newRows[index].key = e.target.value;
+                  setEnvironmentRows(newRows);
+                }}
+                style={{ width: 180 }}
+              />
+              <Input
+                placeholder="Value"
+                value={row.value}
+                onChange={(e) => {
+                  const newRows = [...environmentRows];
+                  newRows[index].value = e.target.value;
+                  setEnvironmentRows(newRows);
+                }}
+                style={{ width: 220 }}
+              />
+              <Button
+                type="text"
+                danger
+                icon={<MinusCircleOutlined />}
+                onClick={() => setEnvironmentRows(environmentRows.filter((_, i) => i !== index))}
+              />
+            </Space>
+          ))}
+          <Button
+            type="dashed"
+            icon={<PlusOutlined />}
+            onClick={() => setEnvironmentRows([...environmentRows, { key: '', value: '' }])}
+            block
+          >
+            Add Value
+          </Button>
+        </Space>
+      </Modal>
     </Card>
   );
 };
@@ -27,6 +27,8 @@ import {
 } from '@ant-design/icons';
 import type { MqttMessage, MessageFilter } from '@shared/types/models';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { getPayloadBuffer } from '../utils/payload';
+import { Buffer } from 'buffer';
 
 const { Option } = Select;
 const { Panel } = Collapse;
@@ -81,19 +83,10 @@ export const MessageReplay: React.FC = () => {
 
   const publishMessage = async (message: MqttMessage) => {
     try {
-      // Ensure payload is a string
-      let payload = message.payload;
-      if (typeof payload === 'object' && payload !== null) {
-        // If it's an object (including Buffer-like objects), stringify it
-        payload = JSON.stringify(payload);
-      } else if (typeof payload !== 'string') {
-        // Convert to string if it's not already
-        payload = String(payload);
-      }
-
+      // Payloads are republished byte-for-byte (binary payloads cross IPC as Uint8Array)
       await window.electronAPI.invoke(IPC_CHANNELS.MQTT_PUBLISH, {
         topic: message.topic,
-        payload: payload,
+        payload: message.payload,
         options: {
           qos: message.qos,
           retain: message.retained,
@@ -245,12 +238,17 @@ export const MessageReplay: React.FC = () => {
       return;
     }
 
+    // Payloads are stored as base64 so binary data survives the JSON round trip
     const recording = {
-      version: '1.0',
+      version: '1.1',
       recordedAt: new Date().toISOString(),
       messageCount: recordedMessages.length,
       duration: recordedMessages[recordedMessages.length - 1]?.relativeTime || 0,
-      messages: recordedMessages,
+      messages: recordedMessages.map(({ payloadText: _payloadText, ...msg }) => ({
+        ...msg,
+        payload: getPayloadBuffer(msg.payload).toString('base64'),
+        payloadEncoding: 'base64',
+      })),
     };
 
     const blob = new Blob([JSON.stringify(recording, null, 2)], {
@@ -279,12 +277,13 @@ export const MessageReplay: React.FC = () => {
 
         // Preserve relativeTime from recording for accurate playback
         const loadedMessages: RecordedMessage[] = recording.messages.map((msg: any) => {
-          // Handle Buffer payload from JSON (converts {type: 'Buffer', data: [array]} to string)
           let payload = msg.payload;
-          if (payload && typeof payload === 'object' && payload.type === 'Buffer' && Array.isArray(payload.data)) {
-            // Convert Buffer data array to string using TextDecoder
-            const uint8Array = new Uint8Array(payload.data);
-            payload = new TextDecoder('utf-8').decode(uint8Array);
+          if (msg.payloadEncoding === 'base64' && typeof payload === 'string') {
+            // Version 1.1 recordings store raw bytes as base64
+            payload = new Uint8Array(Buffer.from(payload, 'base64'));
+          } else if (payload && typeof payload === 'object' && payload.type === 'Buffer' && Array.isArray(payload.data)) {
+            // Handle Buffer payload from JSON ({type: 'Buffer', data: [array]})
+            payload = new Uint8Array(payload.data);
           } else if (typeof payload === 'object') {
             // Stringify other objects
             payload = JSON.stringify(payload);
@@ -0,0 +1,99 @@
+import { Tree, Tag, Tooltip } from 'antd';
+import type { DataNode } from 'antd/es/tree';
+import { bytesToHex } from '@shared/utils/bytes';
+import { CborTag } from '@shared/utils/cbor';
+
+// Byte strings longer than this are shown truncated
+const MAX_BYTES_SHOWN = 32;
+
+interface PayloadTreeProps {
+  value: unknown;
+}
+
+const monospace: React.CSSProperties = { fontFamily: 'monospace', fontSize: '12px' };
+
+function formatScalar(value: unknown): string {
+  if (value instanceof Uint8Array) {
+    const hex = bytesToHex(value.subarray(0, MAX_BYTES_SHOWN));
+    return `h'${hex}${value.length > MAX_BYTES_SHOWN ? ' …' : ''}' (${value.length} bytes)`;
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null && !(value instanceof Uint8Array);
+}
+
+/**
+ * Tree node for a value; CBOR tagged items show their tag number and meaning
+ * next to their content
+ */
+function toTreeNode(label: string, value: unknown, key: string): DataNode {
+  const tags: CborTag[] = [];
+  let content = value;
+  while (content instanceof CborTag) {
+    tags.push(content);
+    content = content.value;
+  }
+
+  const annotations = tags.map((tagged, index) => (
+    <Tooltip key={index} title={`CBOR tag ${tagged.tag}`}>
+      <Tag color="purple" style={{ marginLeft: 8 }}>
+        {tagged.tag}: {tagged.description}
+      </Tag>
+    </Tooltip>
+  ));
+  // Epoch times are easier to read as dates
+  const epoch = tags.some((tagged) => tagged.tag === 1) && typeof content === 'number'
+    ? new Date(content * 1000)
+    : undefined;
+
+  if (!isContainer(content)) {
+    return {
+      key,
+      isLeaf: true,
+      title: (
+        <span style={monospace}>
+          {label}: <strong>{formatScalar(content)}</strong>
+          {epoch && !isNaN(epoch.getTime()) && <span style={{ opacity: 0.65 }}> ({epoch.toISOString()})</span>}
+          {annotations}
+        </span>
+      ),
+    };
+  }
+
+  const entries: [string, unknown][] = Array.isArray(content)
+    ? content.map((item, index) => [`[${index}]`, item])
+    : Object.entries(content);
+  return {
+    key,
+    title: (
+      <span style={monospace}>
+        {label}
+        <span style={{ opacity: 0.65 }}>
+          {Array.isArray(content) ? ` [${entries.length}]` : ` {${entries.length}}`}
+        </span>
+        {annotations}
+      </span>
+    ),
+    children: entries.map(([childLabel, child]) => toTreeNode(childLabel, child, `${key}/${childLabel}`)),
+  };
+}
+
+/**
+ * Decoded payload (JSON, MessagePack, CBOR, ...) as an expandable tree
+ */
+export const PayloadTree: React.FC<PayloadTreeProps> = ({ value }) => {
+  const root = toTreeNode('$', value, '$');
+
+  return (
+    <div style={{ maxHeight: '400px', overflow: 'auto' }}>
+      <Tree
+        treeData={[root]}
+        defaultExpandAll
+        selectable={false}
+        showLine
+      />
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  Button,
+  Space,
+  Upload,
+  List,
+  Input,
+  Select,
+  Tag,
+  Alert,
+  Divider,
+  Typography,
+  Popconfirm,
+  message as antMessage,
+} from 'antd';
+import {
+  FileTextOutlined,
+  UploadOutlined,
+  DeleteOutlined,
+  PlusOutlined,
+  SaveOutlined,
+} from '@ant-design/icons';
+import { Buffer } from 'buffer';
+import type { ProtobufRegistry, ProtobufSchemaFile, ProtobufTopicMapping } from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { format } from 'date-fns';
+import { parseSchemaFile } from '@shared/utils/protobuf';
+import {
+  setProtobufRegistry,
+  getProtobufSchemaErrors,
+  getProtobufMessageTypes,
+} from '../utils/protobufDecoder';
+
+const { Text } = Typography;
+
+export const ProtobufSchemaManager: React.FC = () => {
+  const [files, setFiles] = useState<ProtobufSchemaFile[]>([]);
+  const [mappings, setMappings] = useState<ProtobufTopicMapping[]>([]);
+  const [messageTypes, setMessageTypes] = useState<string[]>([]);
+  const [schemaErrors, setSchemaErrors] = useState<Record<string, string>>({});
+  const [mappingsDirty, setMappingsDirty] = useState(false);
+
+  useEffect(() => {
+    loadRegistry();
+
+    const removeListener = window.electronAPI.on(
+      IPC_CHANNELS.PROTOBUF_REGISTRY_UPDATED,
+      (registry: ProtobufRegistry) => applyRegistry(registry, false)
+    );
+
+    return () => removeListener();
+  }, []);
+
+  const applyRegistry = (registry: ProtobufRegistry, resetMappings = true) => {
+    setProtobufRegistry(registry);
+    setFiles(registry.files);
+    setMessageTypes(getProtobufMessageTypes());
+    setSchemaErrors({ ...getProtobufSchemaErrors() });
+    if (resetMappings) {
+      setMappings(registry.mappings);
+      setMappingsDirty(false);
+    }
+  };
+
+  const loadRegistry = async () => {
+    try {
+      const registry = await window.electronAPI.invoke(IPC_CHANNELS.PROTOBUF_GET_REGISTRY);
+      applyRegistry(registry);
+    } catch (error) {
+      console.error('Failed to load protobuf schemas:', error);
+    }
+  };
+
+  const handleUpload = (file: File) => {
+    const isProto = file.name.toLowerCase().endsWith('.proto');
+    const reader = new FileReader();
+
+    reader.onload = async (e) => {
+      try {
+        // .proto files are stored as source, descriptor sets as base64
+        const content = isProto
+          ? (e.target?.result as string)
+          : Buffer.from(e.target?.result as ArrayBuffer).toString('base64');
+        const schemaFormat = isProto ? 'proto' : 'descriptor-set';
+
+        // Validate before storing so broken files are rejected up front
+        const types = getProtobufMessageTypes(parseSchemaFile(schemaFormat, content));
+
+        const registry = await window.electronAPI.invoke(IPC_CHANNELS.PROTOBUF_ADD_FILE, {
+          name: file.name,
+          format: schemaFormat,
+          content,
+        });
+        applyRegistry(registry, false);
+        antMessage.success(`Loaded ${file.name} (${types.length} message types)`);
+      } catch (error) {
+        antMessage.error(`Failed to load ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+
+    if (isProto) {
+      reader.readAsText(file);
+    } else {
+      reader.readAsArrayBuffer(file);
+    }
+
+    return false; // Prevent automatic upload
+  };
+
+  const handleRemoveFile = async (file: ProtobufSchemaFile) => {
+    try {
+      const registry = await window.electronAPI.invoke(IPC_CHANNELS.PROTOBUF_REMOVE_FILE, file.id);
+      applyRegistry(registry, false);
+      antMessage.success(`Removed ${file.name}`);
+    } catch (error) {
+      antMessage.error(`Failed to remove schema: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const updateMapping = (index: number, changes: Partial<ProtobufTopicMapping>) => {
+    setMappings((prev) =>
+      prev.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping))
+    );
+    setMappingsDirty(true);
+  };
+
+  const addMapping = () => {
+    setMappings((prev) => [...prev, { topicPattern: '', messageType: messageTypes[0] ?? '' }]);
+    setMappingsDirty(true);
+  };
+
+  const removeMapping = (index: number) => {
+    setMappings((prev) => prev.filter((_, i) => i !== index));
+    setMappingsDirty(true);
+  };
+
+  const saveMappings = async () => {
+    const validMappings = mappings
+      .map((mapping) => ({ ...mapping, topicPattern: mapping.topicPattern.trim() }))
+      .filter((mapping) => mapping.topicPattern && mapping.messageType);
+
+    try {
+      const registry = await window.electronAPI.invoke(
+        IPC_CHANNELS.PROTOBUF_SAVE_MAPPINGS,
+        validMappings
+      );
+      applyRegistry(registry);
+      antMessage.success('Protobuf mappings saved');
+    } catch (error) {
+      antMessage.error(`Failed to save mappings: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <Card
+      title={
+        <Space>
+          <FileTextOutlined />
+          Protobuf Schemas
+        </Space>
+      }
+      extra={
+        <Upload accept=".proto,.desc,.pb,.protoset" beforeUpload={handleUpload} showUploadList={false}>
+          <Button icon={<UploadOutlined />}>Add Schema</Button>
+        </Upload>
+      }
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Alert
+          type="info"
+          showIcon
+          message="Decode binary payloads with your .proto files"
+          description="Upload .proto sources or compiled descriptor sets (protoc --descriptor_set_out), then map topic patterns to message types. Matching messages are decoded in the message list, message details, topic tree and charts."
+        />
+
+        {schemaErrors.resolve && (
+          <Alert type="error" showIcon message="Unresolved types" description={schemaErrors.resolve} />
+        )}
+
+        <List
+          size="small"
+          dataSource={files}
+          locale={{ emptyText: 'No schemas loaded' }}
+          renderItem={(file) => (
+            <List.Item
+              actions={[
+                <Popconfirm
+                  key="remove"
+                  title={`Remove ${file.name}?`}
+                  onConfirm={() => handleRemoveFile(file)}
+                  okText="Remove"
+                  cancelText="Cancel"
+                >
+                  <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+                </Popconfirm>,
+              ]}
+            >
+              <Space direction="vertical" size={0}>
+                <Space>
+                  <Text strong>{file.name}</Text>
+                  <Tag>{file.format === 'proto' ? '.proto' : 'Descriptor set'}</Tag>
+                  {schemaErrors[file.id] && <Tag color="red">Error</Tag>}
+                </Space>
+                <Text type="secondary" style={{ fontSize: '12px' }}>
+                  {schemaErrors[file.id] ?? `Added ${format(new Date(file.addedAt), 'yyyy-MM-dd HH:mm')}`}
+                </Text>
+              </Space>
+            </List.Item>
+          )}
+        />
+
+        <Divider plain>Topic Mappings</Divider>
+
+        {mappings.map((mapping, index) => (
+          <Space key={index} style={{ width: '100%' }}>
+            <Input
+              placeholder="sensors/+/telemetry"
+              value={mapping.topicPattern}
+              onChange={(e) => updateMapping(index, { topicPattern: e.target.value })}
+              style={{ width: 240 }}
+            />
+            <Select
+              showSearch
+              placeholder="Message type"
+              value={mapping.messageType || undefined}
+              onChange={(value) => updateMapping(index, { messageType: value })}
+              options={messageTypes.map((type) => ({ label: type, value: type }))}
+              status={mapping.messageType && !messageTypes.includes(mapping.messageType) ? 'error' : undefined}
+              style={{ width: 280 }}
+            />
+            <Button type="text" danger icon={<DeleteOutlined />} onClick={() => removeMapping(index)} />
+          </Space>
+        ))}
+
+        <Space>
+          <Button icon={<PlusOutlined />} onClick={addMapping} disabled={messageTypes.length === 0}>
+            Add Mapping
+          </Button>
+          <Button type="primary" icon={<SaveOutlined />} onClick={saveMappings} disabled={!mappingsDirty}>
+            Save Mappings
+          </Button>
+        </Space>
+      </Space>
+    </Card>
+  );
+};
@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { Table, Tag, Button, Space, Tooltip, Typography, message as antMessage } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { StopOutlined, DeleteOutlined } from '@ant-design/icons';
+import type { PublishJob, PublishJobStatus } from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { format } from 'date-fns';
+
+const { Text } = Typography;
+
+// How often sent counts are refreshed while a job is running
+const REFRESH_INTERVAL_MS = 1000;
+
+const STATUS_COLORS: Record<PublishJobStatus, string> = {
+  running: 'processing',
+  stopped: 'default',
+  completed: 'success',
+};
+
+/**
+ * Describe a job's schedule for the jobs table
+ */
+function describeSchedule(job: PublishJob): string {
+  const every = job.schedule.type === 'interval'
+    ? `Every ${job.schedule.intervalMs} ms`
+    : `Cron ${job.schedule.expression}`;
+  return job.durationMs !== undefined ? `${every} for ${job.durationMs / 1000} s` : every;
+}
+
+/**
+ * Live status and sent counts of the main process publish jobs
+ */
+export const PublishJobs: React.FC = () => {
+  const [jobs, setJobs] = useState<PublishJob[]>([]);
+  const hasRunningJobs = jobs.some((job) => job.status === 'running');
+
+  useEffect(() => {
+    loadJobs();
+
+    const removeListener = window.electronAPI.on(
+      IPC_CHANNELS.PUBLISH_JOBS_CHANGED,
+      (nextJobs: PublishJob[]) => setJobs(nextJobs)
+    );
+
+    return () => removeListener();
+  }, []);
+
+  // Sent counts change without an event, so poll while jobs run
+  useEffect(() => {
+    if (!hasRunningJobs) {
+      return;
+    }
+    const timer = setInterval(loadJobs, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasRunningJobs]);
+
+  const loadJobs = async () => {
+    try {
+      setJobs(await window.electronAPI.invoke(IPC_CHANNELS.PUBLISH_JOB_LIST));
+    } catch (error) {
+      console.error('Failed to load publish jobs:', error);
+    }
+  };
+
+  const handleStop = async (job: PublishJob) => {
+    try {
+      await window.electronAPI.invoke(IPC_CHANNELS.PUBLISH_JOB_STOP, job.id);
+    } catch (error) {
+      antMessage.error(`Failed to stop job: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleRemove = async (job: PublishJob) => {
+    try {
+      await window.electronAPI.invoke(IPC_CHANNELS.PUBLISH_JOB_REMOVE, job.id);
+    } catch (error) {
+      antMessage.error(`Failed to remove job: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const columns: ColumnsType<PublishJob> = [
+    {
+      title: 'Job',
+      key: 'job',
+      render: (_, job) => (
+        <Space direction="vertical" size={0}>
+          <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{job.name || job.topic}</span>
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            {describeSchedule(job)}
+          </Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 110,
+      render: (status: PublishJobStatus, job) => (
+        <Tooltip
+          title={
+            job.status === 'running' && job.nextRunAt
+              ? `Next: ${format(new Date(job.nextRunAt), 'HH:mm:ss')}`
+              : job.endedAt
+                ? `Ended ${format(new Date(job.endedAt), 'HH:mm:ss')}`
+                : undefined
+          }
+        >
+          <Tag color={STATUS_COLORS[status]}>{status}</Tag>
+        </Tooltip>
+      ),
+    },
+    {
+      title: 'Sent',
+      dataIndex: 'sentCount',
+      key: 'sentCount',
+      width: 110,
+      render: (sentCount: number, job) => (
+        <Space size="small">
+          <span>{sentCount}</span>
+          {job.errorCount > 0 && (
+            <Tooltip title={job.lastError}>
+              <Tag color="red">{job.errorCount} failed</Tag>
+            </Tooltip>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: '',
+      key: 'actions',
+      width: 50,
+      render: (_, job) =>
+        job.status === 'running' ? (
+          <Tooltip title="Stop">
+            <Button type="text" size="small" danger icon={<StopOutlined />} onClick={() => handleStop(job)} />
+          </Tooltip>
+        ) : (
+          <Tooltip title="Remove">
+            <Button type="text" size="small" icon={<DeleteOutlined />} onClick={() => handleRemove(job)} />
+          </Tooltip>
+        ),
+    },
+  ];
+
+  return (
+    <Table
+      size="small"
+      rowKey="id"
+      columns={columns}
+      dataSource={jobs}
+      pagination={false}
+      style={{ marginTop: 16 }}
+    />
+  );
+};
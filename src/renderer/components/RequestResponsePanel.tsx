@@ -0,0 +1,423 @@
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  Table,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Button,
+  Space,
+  Tag,
+  Tooltip,
+  Empty,
+  Popconfirm,
+  Typography,
+  Row,
+  Col,
+  Descriptions,
+  message as antMessage,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  SwapOutlined,
+  SendOutlined,
+  SaveOutlined,
+  DeleteOutlined,
+  FolderOpenOutlined,
+  HistoryOutlined,
+} from '@ant-design/icons';
+import type { MqttRequest, MqttRequestResult, SavedRequest } from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { MessageDetail } from './MessageDetail';
+import { format } from 'date-fns';
+
+const { TextArea } = Input;
+const { Text } = Typography;
+
+// Results kept in the recent requests table
+const RESULT_HISTORY_LIMIT = 50;
+
+interface RequestFormValues extends MqttRequest {
+  name?: string;
+}
+
+interface SentRequest {
+  key: string;
+  topic: string;
+  result?: MqttRequestResult;
+  error?: string;
+  sentAt: number;
+}
+
+const DEFAULT_FORM_VALUES: Partial<RequestFormValues> = {
+  qos: 1,
+  payload: '{}',
+  contentType: 'application/json',
+  timeoutMs: 10000,
+};
+
+export const RequestResponsePanel: React.FC = () => {
+  const [form] = Form.useForm<RequestFormValues>();
+  const [collection, setCollection] = useState<SavedRequest[]>([]);
+  const [sentRequests, setSentRequests] = useState<SentRequest[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [loadedRequestId, setLoadedRequestId] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    loadCollection();
+
+    // Collections belong to a connection profile
+    const removeListener = window.electronAPI.on(IPC_CHANNELS.CONNECTION_CHANGED, () => {
+      setLoadedRequestId(null);
+      loadCollection();
+    });
+
+    return () => removeListener();
+  }, []);
+
+  const loadCollection = async () => {
+    try {
+      setCollection(await window.electronAPI.invoke(IPC_CHANNELS.REQUEST_GET_COLLECTION));
+    } catch (error) {
+      console.error('Failed to load saved requests:', error);
+    }
+  };
+
+  const saveCollection = async (requests: SavedRequest[]) => {
+    try {
+      const saved: SavedRequest[] = await window.electronAPI.invoke(IPC_CHANNELS.REQUEST_SAVE_COLLECTION, {
+        requests,
+      });
+      setCollection(saved);
+      return saved;
+    } catch (error) {
+      antMessage.error(`Failed to save requests: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  };
+
+  const getRequest = (values: RequestFormValues): MqttRequest => ({
+    topic: values.topic,
+    payload: values.payload ?? '',
+    qos: values.qos,
+    responseTopic: values.responseTopic?.trim() || undefined,
+    contentType: values.contentType?.trim() || undefined,
+    timeoutMs: values.timeoutMs ?? undefined,
+  });
+
+  const handleSend = async () => {
+    const values = await form.validateFields();
+    const key = `${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    const sent: SentRequest = { key, topic: values.topic, sentAt: Date.now() };
+
+    setIsSending(true);
+    try {
+      sent.result = await window.electronAPI.invoke(IPC_CHANNELS.REQUEST_SEND, {
+        request: getRequest(values),
+      });
+      if (sent.result?.status === 'timeout') {
+        antMessage.warning('No reply before the timeout');
+      }
+    } catch (error) {
+      sent.error = error instanceof Error ? error.message : String(error);
+      antMessage.error(`Request failed: ${sent.error}`);
+    } finally {
+      setIsSending(false);
+    }
+
+    setSentRequests((prev) => [sent, ...prev].slice(0, RESULT_HISTORY_LIMIT));
+    setSelectedKey(key);
+  };
+
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    const name = values.name?.trim();
+    if (!name) {
+      antMessage.error('Enter a name to save the request');
+      return;
+    }
+
+    const request: SavedRequest = { ...getRequest(values), id: loadedRequestId ?? '', name };
+    const isUpdate = collection.some((existing) => existing.id === loadedRequestId);
+    const saved = await saveCollection(
+      isUpdate
+        ? collection.map((existing) => (existing.id === loadedRequestId ? request : existing))
+        : [...collection, request]
+    );
+
+    if (saved) {
+      setLoadedRequestId(isUpdate ? loadedRequestId : saved[saved.length - 1].id);
+      antMessage.success(isUpdate ? 'Request updated' : 'Request saved');
+    }
+  };
+
+  const handleLoad = (request: SavedRequest) => {
+    form.resetFields();
+    form.setFieldsValue(request);
+    setLoadedRequestId(request.id);
+  };
+
+  const handleDelete = (request: SavedRequest) => {
+    if (request.id === loadedRequestId) {
+      setLoadedRequestId(null);
+    }
+    saveCollection(collection.filter((existing) => existing.id !== request.id));
+  };
+
+  const handleNew = () => {
+    form.resetFields();
+    setLoadedRequestId(null);
+  };
+
+  const selected = sentRequests.find((sent) => sent.key === selectedKey);
+
+  const collectionColumns: ColumnsType<SavedRequest> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, request) => (
+        <Space direction="vertical" size={0}>
+          <Text strong={request.id === loadedRequestId}>{name}</Text>
+          <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{request.topic}</span>
+        </Space>
+      ),
+    },
+    {
+      title: '',
+      key: 'actions',
+      width: 90,
+      render: (_, request) => (
+        <Space size="small">
+          <Tooltip title="Load">
+            <Button type="text" size="small" icon={<FolderOpenOutlined />} onClick={() => handleLoad(request)} />
+          </Tooltip>
+          <Popconfirm
+            title="Delete this saved request?"
+            onConfirm={() => handleDelete(request)}
+            okText="Yes"
+            cancelText="No"
+          >
+            <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const historyColumns: ColumnsType<SentRequest> = [
+    {
+      title: 'Time',
+      dataIndex: 'sentAt',
+      key: 'sentAt',
+      width: 100,
+      render: (sentAt: number) => format(new Date(sentAt), 'HH:mm:ss'),
+    },
+    {
+      title: 'Topic',
+      dataIndex: 'topic',
+      key: 'topic',
+      ellipsis: true,
+      render: (topic: string) => <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{topic}</span>,
+    },
+    {
+      title: 'Result',
+      key: 'result',
+      width: 160,
+      render: (_, sent) => {
+        if (sent.error) {
+          return <Tag color="red">Error</Tag>;
+        }
+        if (sent.result?.status === 'timeout') {
+          return <Tag color="orange">Timeout</Tag>;
+        }
+        return (
+          <Space size="small">
+            <Tag color="green">Reply</Tag>
+            <span>{sent.result?.latencyMs} ms</span>
+          </Space>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Row gutter={[16, 16]}>
+      <Col span={10}>
+        <Row gutter={[16, 16]}>
+          <Col span={24}>
+            <Card
+              title={
+                <Space>
+                  <SwapOutlined />
+                  Request
+                </Space>
+              }
+              extra={
+                <Button size="small" onClick={handleNew}>
+                  New
+                </Button>
+              }
+            >
+              <Form form={form} layout="vertical" initialValues={DEFAULT_FORM_VALUES}>
+                <Form.Item label="Name" name="name" tooltip="Needed to save the request to this connection's collection">
+                  <Input placeholder="Get device config" />
+                </Form.Item>
+
+                <Form.Item
+                  label="Request Topic"
+                  name="topic"
+                  rules={[{ required: true, message: 'Enter a topic' }]}
+                >
+                  <Input placeholder="devices/42/config/get" style={{ fontFamily: 'monospace' }} />
+                </Form.Item>
+
+                <Form.Item
+                  label="Response Topic"
+                  name="responseTopic"
+                  tooltip="Subscribed before the request is sent. Leave empty to use a generated topic."
+                >
+                  <Input placeholder="Generated" style={{ fontFamily: 'monospace' }} />
+                </Form.Item>
+
+                <Form.Item label="Payload" name="payload">
+                  <TextArea rows={6} style={{ fontFamily: 'monospace' }} />
+                </Form.Item>
+
+                <Space wrap>
+                  <Form.Item label="QoS" name="qos">
+                    <Select
+                      style={{ width: 100 }}
+                      options={[0, 1, 2].map((qos) => ({ label: `QoS ${qos}`, value: qos }))}
+                    />
+                  </Form.Item>
+                  <Form.Item label="Content Type" name="contentType">
+                    <Input placeholder="application/json" style={{ width: 180 }} />
+                  </Form.Item>
+                  <Form.Item label="Timeout (ms)" name="timeoutMs">
+                    <InputNumber min={100} step={1000} style={{ width: 120 }} />
+                  </Form.Item>
+                </Space>
+
+                <Space>
+                  <Button type="primary" icon={<SendOutlined />} loading={isSending} onClick={handleSend}>
+                    Send Request
+                  </Button>
+                  <Button icon={<SaveOutlined />} onClick={handleSave}>
+                    {loadedRequestId ? 'Update' : 'Save'}
+                  </Button>
+                </Space>
+              </Form>
+            </Card>
+          </Col>
+
+          <Col span={24}>
+            <Card
+              title={
+                <Space>
+                  <FolderOpenOutlined />
+                  Saved Requests
+                  <Tag>{collection.length}</Tag>
+                </Space>
+              }
+            >
+              <Table
+                size="small"
+                rowKey="id"
+                columns={collectionColumns}
+                dataSource={collection}
+                pagination={false}
+                locale={{
+                  emptyText: (
+                    <Empty
+                      description="No saved requests for this connection"
+                      image={Empty.PRESENTED_IMAGE_SIMPLE}
+                    />
+                  ),
+                }}
+              />
+            </Card>
+          </Col>
+        </Row>
+      </Col>
+
+      <Col span={14}>
+        <Row gutter={[16, 16]}>
+          <Col span={24}>
+            <Card
+              title={
+                <Space>
+                  <SwapOutlined />
+                  Response
+                </Space>
+              }
+            >
+              {!selected ? (
+                <Empty
+                  description="Send a request to see its reply and round-trip time"
+                  image={Empty.PRESENTED_IMAGE_SIMPLE}
+                />
+              ) : selected.error ? (
+                <Text type="danger">{selected.error}</Text>
+              ) : (
+                selected.result && (
+                  <Space direction="vertical" style={{ width: '100%' }} size="middle">
+                    <Descriptions column={1} bordered size="small">
+                      <Descriptions.Item label="Status">
+                        {selected.result.status === 'success' ? (
+                          <Tag color="green">Reply received</Tag>
+                        ) : (
+                          <Tag color="orange">Timed out</Tag>
+                        )}
+                      </Descriptions.Item>
+                      {selected.result.latencyMs !== undefined && (
+                        <Descriptions.Item label="Round Trip">{selected.result.latencyMs} ms</Descriptions.Item>
+                      )}
+                      <Descriptions.Item label="Correlation ID">
+                        <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+                          {selected.result.correlationId}
+                        </span>
+                      </Descriptions.Item>
+                      <Descriptions.Item label="Response Topic">
+                        <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+                          {selected.result.responseTopic}
+                        </span>
+                      </Descriptions.Item>
+                    </Descriptions>
+                    {selected.result.response && <MessageDetail message={selected.result.response} />}
+                  </Space>
+                )
+              )}
+            </Card>
+          </Col>
+
+          <Col span={24}>
+            <Card
+              title={
+                <Space>
+                  <HistoryOutlined />
+                  Recent Requests
+                </Space>
+              }
+            >
+              <Table
+                size="small"
+                rowKey="key"
+                columns={historyColumns}
+                dataSource={sentRequests}
+                pagination={{ pageSize: 10, showSizeChanger: false }}
+                onRow={(sent) => ({
+                  onClick: () => setSelectedKey(sent.key),
+                  style: { cursor: 'pointer' },
+                })}
+                rowClassName={(sent) => (sent.key === selectedKey ? 'ant-table-row-selected' : '')}
+              />
+            </Card>
+          </Col>
+        </Row>
+      </Col>
+    </Row>
+  );
+};
@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  Table,
+  Input,
+  Button,
+  Space,
+  Tag,
+  Tooltip,
+  Empty,
+  Popconfirm,
+  Alert,
+  Typography,
+  message as antMessage,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  PushpinOutlined,
+  ReloadOutlined,
+  EyeOutlined,
+  DeleteOutlined,
+} from '@ant-design/icons';
+import type { MqttMessage, RetainedClearResult } from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { hasWildcards } from '@shared/utils/topicMatch';
+import { getPayloadBytes, getPayloadPreview } from '../utils/payload';
+import { format } from 'date-fns';
+
+const { Text } = Typography;
+
+// Topics shown in the dry run listing before it is cut short
+const DRY_RUN_LIST_LIMIT = 50;
+
+/**
+ * Turn the subtree field into a topic filter: a plain topic selects itself and
+ * everything below it, filters with wildcards are used as they are
+ */
+function toSubtreeFilter(subtree: string): string {
+  const trimmed = subtree.trim().replace(/\/+$/, '');
+  if (!trimmed) {
+    return '#';
+  }
+  return hasWildcards(trimmed) ? trimmed : `${trimmed}/#`;
+}
+
+/**
+ * Retained messages observed on the active session's topics, with bulk clearing
+ * (publishing empty retained payloads) over a subtree
+ */
+export const RetainedMessages: React.FC = () => {
+  const [messages, setMessages] = useState<MqttMessage[]>([]);
+  const [subtree, setSubtree] = useState('');
+  const [dryRun, setDryRun] = useState<RetainedClearResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const topicFilter = toSubtreeFilter(subtree);
+
+  useEffect(() => {
+    setDryRun(null);
+    loadMessages(topicFilter);
+
+    // Retained messages are listed for the active session
+    const removeListener = window.electronAPI.on(IPC_CHANNELS.CONNECTION_CHANGED, () => {
+      setDryRun(null);
+      loadMessages(topicFilter);
+    });
+
+    return () => removeListener();
+  }, [topicFilter]);
+
+  const loadMessages = async (filter: string) => {
+    try {
+      setMessages(await window.electronAPI.invoke(IPC_CHANNELS.RETAINED_LIST, { topicFilter: filter }));
+    } catch (error) {
+      console.error('Failed to load retained messages:', error);
+    }
+  };
+
+  const handleDryRun = async () => {
+    setLoading(true);
+    try {
+      setDryRun(await window.electronAPI.invoke(IPC_CHANNELS.RETAINED_CLEAR, { topicFilter, dryRun: true }));
+    } catch (error) {
+      antMessage.error(`Dry run failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearRetained = async (filter: string) => {
+    setLoading(true);
+    try {
+      const result: RetainedClearResult = await window.electronAPI.invoke(IPC_CHANNELS.RETAINED_CLEAR, {
+        topicFilter: filter,
+        dryRun: false,
+      });
+      if (result.failed.length > 0) {
+        antMessage.warning(
+          `Cleared ${result.topics.length} retained messages; ${result.failed.length} failed (${result.failed[0].error})`
+        );
+      } else {
+        antMessage.success(`Cleared ${result.topics.length} retained messages`);
+      }
+      setDryRun(null);
+      await loadMessages(topicFilter);
+    } catch (error) {
+      antMessage.error(`Failed to clear retained messages: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const columns: ColumnsType<MqttMessage> = [
+    {
+      title: 'Topic',
+      dataIndex: 'topic',
+      key: 'topic',
+      render: (topic: string) => (
+        <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{topic}</span>
+      ),
+    },
+    {
+      title: 'Payload',
+      key: 'payload',
+      ellipsis: true,
+      render: (_, message) => (
+        <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{getPayloadPreview(message)}</span>
+      ),
+    },
+    {
+      title: 'Size',
+      key: 'size',
+      width: 90,
+      render: (_, message) => `${getPayloadBytes(message.payload).byteLength} B`,
+    },
+    {
+      title: 'QoS',
+      dataIndex: 'qos',
+      key: 'qos',
+      width: 60,
+    },
+    {
+      title: 'Seen',
+      dataIndex: 'timestamp',
+      key: 'timestamp',
+      width: 170,
+      render: (timestamp: number) => format(new Date(timestamp), 'yyyy-MM-dd HH:mm:ss'),
+    },
+    {
+      title: '',
+      key: 'actions',
+      width: 50,
+      render: (_, message) => (
+        <Popconfirm
+          title="Clear this retained message?"
+          description="Publishes an empty retained payload to the topic"
+          onConfirm={() => clearRetained(message.topic)}
+          okText="Yes"
+          cancelText="No"
+        >
+          <Tooltip title="Clear">
+            <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+          </Tooltip>
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <PushpinOutlined />
+          Retained Messages
+          <Tag>{messages.length}</Tag>
+        </Space>
+      }
+      extra={
+        <Button size="small" icon={<ReloadOutlined />} onClick={() => loadMessages(topicFilter)}>
+          Refresh
+        </Button>
+      }
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Space wrap>
+          <Input
+            placeholder="Subtree, e.g. factory/line1 (all topics when empty)"
+            value={subtree}
+            onChange={(e) => setSubtree(e.target.value)}
+            allowClear
+            style={{ width: 360, fontFamily: 'monospace' }}
+          />
+          <Text type="secondary" style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+            {topicFilter}
+          </Text>
+        </Space>
+
+        {dryRun && (
+          <Alert
+            type={dryRun.topics.length > 0 ? 'warning' : 'success'}
+            showIcon
+            closable
+            onClose={() => setDryRun(null)}
+            message={`${dryRun.topics.length} retained messages would be cleared`}
+            description={
+              dryRun.topics.length > 0 && (
+                <div style={{ fontFamily: 'monospace', fontSize: '12px', maxHeight: 200, overflowY: 'auto' }}>
+                  {dryRun.topics.slice(0, DRY_RUN_LIST_LIMIT).map((topic) => (
+                    <div key={topic}>{topic}</div>
+                  ))}
+                  {dryRun.topics.length > DRY_RUN_LIST_LIMIT && (
+                    <Text type="secondary">and {dryRun.topics.length - DRY_RUN_LIST_LIMIT} more</Text>
+                  )}
+                </div>
+              )
+            }
+          />
+        )}
+
+        <Space>
+          <Button icon={<EyeOutlined />} onClick={handleDryRun} loading={loading}>
+            Dry Run
+          </Button>
+          <Popconfirm
+            title={`Clear every retained message matching ${topicFilter}?`}
+            description="Publishes an empty retained payload to each topic. This cannot be undone."
+            onConfirm={() => clearRetained(topicFilter)}
+            okText="Yes, clear"
+            cancelText="Cancel"
+            okButtonProps={{ danger: true }}
+            disabled={messages.length === 0}
+          >
+            <Button danger icon={<DeleteOutlined />} loading={loading} disabled={messages.length === 0}>
+              Clear Retained
+            </Button>
+          </Popconfirm>
+        </Space>
+
+        <Table
+          size="small"
+          rowKey="topic"
+          columns={columns}
+          dataSource={messages}
+          pagination={{ pageSize: 20, showSizeChanger: false }}
+          locale={{
+            emptyText: (
+              <Empty
+                description="No retained messages seen. Subscribe to topics to receive their retained messages."
+                image={Empty.PRESENTED_IMAGE_SIMPLE}
+              />
+            ),
+          }}
+        />
+      </Space>
+    </Card>
+  );
+};
@@ -20,36 +20,47 @@ import {
   SaveOutlined,
   DatabaseOutlined,
   ClockCircleOutlined,
+  EyeOutlined,
 } from '@ant-design/icons';
+import type { RetentionLimits, RetentionResult, RetentionSettings } from '@shared/types/models';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { format } from 'date-fns';
 
 const { Option } = Select;
 
-interface RetentionSettings {
-  enabled: boolean;
-  maxMessages: number;
-  maxAgeDays: number;
-}
-
 export const RetentionPolicy: React.FC = () => {
   const [form] = Form.useForm();
   const [loading, setLoading] = useState(false);
   const [totalMessages, setTotalMessages] = useState(0);
+  const [databaseSize, setDatabaseSize] = useState(0);
+  const [lastRun, setLastRun] = useState<RetentionResult | undefined>();
+  const [preview, setPreview] = useState<RetentionResult | null>(null);
 
   useEffect(() => {
     loadSettings();
     loadStats();
-  }, []);
 
-  const loadSettings = () => {
-    const saved = localStorage.getItem('retentionSettings');
-    if (saved) {
-      try {
-        const settings = JSON.parse(saved) as RetentionSettings;
-        form.setFieldsValue(settings);
-      } catch (error) {
-        console.error('Failed to load retention settings:', error);
+    // Refresh when the scheduled job prunes messages
+    const removeListener = window.electronAPI.on(
+      IPC_CHANNELS.RETENTION_PRUNED,
+      (result: RetentionResult) => {
+        setLastRun(result);
+        loadSettings();
+        loadStats();
       }
+    );
+
+    return () => removeListener();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const status = await window.electronAPI.invoke(IPC_CHANNELS.RETENTION_GET_STATUS);
+      form.setFieldsValue(status.settings);
+      setLastRun(status.lastRun);
+      setDatabaseSize(status.databaseSize);
+    } catch (error) {
+      console.error('Failed to load retention settings:', error);
     }
   };
 
@@ -65,60 +76,62 @@ export const RetentionPolicy: React.FC = () => {
   };
 
   const handleSave = async (values: RetentionSettings) => {
+    setLoading(true);
     try {
-      localStorage.setItem('retentionSettings', JSON.stringify(values));
+      // Saving reschedules the job, which runs immediately when enabled
+      const status = await window.electronAPI.invoke(IPC_CHANNELS.RETENTION_SAVE_SETTINGS, values);
+      setLastRun(status.lastRun);
+      setDatabaseSize(status.databaseSize);
+      setPreview(null);
       antMessage.success('Retention policy saved');
-
-      // Apply retention policy immediately if enabled
-      if (values.enabled) {
-        await applyRetentionPolicy(values);
-      }
+      await loadStats();
     } catch (error: any) {
       antMessage.error(`Failed to save: ${error.message}`);
+    } finally {
+      setLoading(false);
     }
   };
 
-  const applyRetentionPolicy = async (settings: RetentionSettings) => {
+  const getFormLimits = (): RetentionLimits => {
+    const values = form.getFieldsValue() as RetentionSettings;
+    return {
+      maxAgeDays: values.maxAgeDays,
+      maxMessages: values.maxMessages,
+      maxStorageMB: values.maxStorageMB,
+    };
+  };
+
+  const handlePreview = async () => {
     setLoading(true);
     try {
-      let cleaned = 0;
-
-      // Clean by age
-      if (settings.maxAgeDays > 0) {
-        const cutoffTime = Date.now() - settings.maxAgeDays * 24 * 60 * 60 * 1000;
-        // Note: This would require a new IPC handler to clear messages older than timestamp
-        // For now, we'll just clear all if total exceeds max
-      }
-
-      // Clean by count (keep only the most recent maxMessages)
-      const stats = await window.electronAPI.invoke(IPC_CHANNELS.MESSAGE_GET_STATS);
-      if (stats && stats.totalMessages > settings.maxMessages) {
-        cleaned = stats.totalMessages - settings.maxMessages;
-        antMessage.info(`Retention policy would clean ${cleaned} messages (not implemented yet)`);
-      }
-
-      await loadStats();
+      const result = await window.electronAPI.invoke(IPC_CHANNELS.RETENTION_PREVIEW, getFormLimits());
+      setPreview(result);
     } catch (error: any) {
-      antMessage.error(`Failed to apply policy: ${error.message}`);
+      antMessage.error(`Failed to preview: ${error.message}`);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleClearOldMessages = async (days: number) => {
+  const applyLimits = async (limits: RetentionLimits) => {
     setLoading(true);
     try {
-      const cutoffTime = Date.now() - days * 24 * 60 * 60 * 1000;
-      // This would require a new IPC handler
-      antMessage.info(`Clear messages older than ${days} days (not implemented yet)`);
+      const result: RetentionResult = await window.electronAPI.invoke(IPC_CHANNELS.RETENTION_APPLY, limits);
+      antMessage.success(`Deleted ${result.totalDeleted} messages`);
+      setPreview(null);
+      await loadSettings();
       await loadStats();
     } catch (error: any) {
-      antMessage.error(`Failed to clear: ${error.message}`);
+      antMessage.error(`Failed to apply policy: ${error.message}`);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleClearOldMessages = async (days: number) => {
+    await applyLimits({ maxAgeDays: days });
+  };
+
   const handleClearAll = async () => {
     setLoading(true);
     try {
@@ -132,6 +145,12 @@ export const RetentionPolicy: React.FC = () => {
     }
   };
 
+  const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
   return (
     <Card
       title={
@@ -144,20 +163,35 @@ export const RetentionPolicy: React.FC = () => {
       <Space direction="vertical" style={{ width: '100%' }} size="middle">
         <Alert
           message="Message Retention"
-          description="Configure automatic cleanup of old messages to prevent database growth. Settings are saved locally and applied when enabled."
+          description="Configure automatic cleanup of old messages to prevent database growth. The policy runs in the background on a schedule; message count and storage limits apply to each connection separately."
           type="info"
           showIcon
         />
 
         {/* Current Stats */}
         <Row gutter={16}>
-          <Col span={12}>
+          <Col span={8}>
             <Statistic
               title="Total Messages"
               value={totalMessages}
               prefix={<DatabaseOutlined />}
             />
           </Col>
+          <Col span={8}>
+            <Statistic title="Database Size" value={formatBytes(databaseSize)} />
+          </Col>
+          <Col span={8}>
+            <Statistic
+              title="Last Cleanup"
+              value={lastRun ? `${lastRun.totalDeleted} deleted` : 'Never'}
+              prefix={<ClockCircleOutlined />}
+            />
+            {lastRun && (
+              <span style={{ fontSize: '12px', color: '#999' }}>
+                {format(new Date(lastRun.timestamp), 'yyyy-MM-dd HH:mm:ss')}
+              </span>
+            )}
+          </Col>
         </Row>
 
         <Divider />
@@ -169,8 +203,10 @@ export const RetentionPolicy: React.FC = () => {
           onFinish={handleSave}
           initialValues={{
             enabled: false,
+            intervalMinutes: 60,
             maxMessages: 10000,
             maxAgeDays: 7,
+            compactAfterPrune: true,
           }}
         >
           <Form.Item label="Enable Automatic Retention" name="enabled" valuePropName="checked">
@@ -180,7 +216,7 @@ export const RetentionPolicy: React.FC = () => {
           <Form.Item
             label="Maximum Messages"
             name="maxMessages"
-            help="Automatically delete oldest messages when this limit is exceeded"
+            help="Per connection: automatically delete oldest messages when this limit is exceeded"
           >
             <InputNumber
               min={100}
@@ -199,10 +235,63 @@ export const RetentionPolicy: React.FC = () => {
             <InputNumber min={1} max={365} style={{ width: '100%' }} />
           </Form.Item>
 
+          <Form.Item
+            label="Maximum Storage (MB)"
+            name="maxStorageMB"
+            help="Per connection: delete oldest messages once their payloads exceed this size (leave empty for no limit)"
+          >
+            <InputNumber min={1} max={100000} style={{ width: '100%' }} />
+          </Form.Item>
+
+          <Form.Item label="Run Every (Minutes)" name="intervalMinutes">
+            <Select>
+              <Option value={5}>5 minutes</Option>
+              <Option value={15}>15 minutes</Option>
+              <Option value={60}>1 hour</Option>
+              <Option value={360}>6 hours</Option>
+              <Option value={1440}>24 hours</Option>
+            </Select>
+          </Form.Item>
+
+          <Form.Item
+            label="Compact Database After Cleanup"
+            name="compactAfterPrune"
+            valuePropName="checked"
+            help="Reclaims disk space (VACUUM) and rebuilds the search index"
+          >
+            <Switch />
+          </Form.Item>
+
+          {preview && (
+            <Form.Item>
+              <Alert
+                type={preview.totalDeleted > 0 ? 'warning' : 'success'}
+                showIcon
+                message={`${preview.totalDeleted} messages would be deleted`}
+                description={`By age: ${preview.deletedByAge} · By count: ${preview.deletedByCount} · By storage: ${preview.deletedBySize}`}
+              />
+            </Form.Item>
+          )}
+
           <Form.Item>
-            <Button type="primary" htmlType="submit" icon={<SaveOutlined />} loading={loading}>
-              Save Policy
-            </Button>
+            <Space>
+              <Button type="primary" htmlType="submit" icon={<SaveOutlined />} loading={loading}>
+                Save Policy
+              </Button>
+              <Button icon={<EyeOutlined />} onClick={handlePreview} loading={loading}>
+                Preview
+              </Button>
+              <Popconfirm
+                title="Delete messages exceeding these limits now?"
+                onConfirm={() => applyLimits(getFormLimits())}
+                okText="Yes"
+                cancelText="No"
+              >
+                <Button icon={<DeleteOutlined />} loading={loading}>
+                  Apply Now
+                </Button>
+              </Popconfirm>
+            </Space>
           </Form.Item>
         </Form>
 
@@ -0,0 +1,128 @@
+import { Table, Tag, Button, Space, Empty, Typography, message as antMessage } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { DownloadOutlined } from '@ant-design/icons';
+import type { InferredSchema, InferredSchemaNode } from '@shared/types/models';
+import { describeTypes, listSchemaFields, toJsonSchema } from '@shared/utils/schemaInference';
+import type { SchemaField } from '@shared/utils/schemaInference';
+
+const { Text } = Typography;
+
+interface SchemaViewProps {
+  schema: InferredSchema;
+}
+
+function formatRange(node: InferredSchemaNode): string {
+  if (node.minimum !== undefined) {
+    return node.minimum === node.maximum ? `${node.minimum}` : `${node.minimum} … ${node.maximum}`;
+  }
+  if (node.minLength !== undefined) {
+    return node.minLength === node.maxLength
+      ? `${node.minLength} chars`
+      : `${node.minLength} … ${node.maxLength} chars`;
+  }
+  return '';
+}
+
+/**
+ * Fields, types, ranges and value sets learned from a topic's JSON payloads,
+ * with export as a JSON Schema document
+ */
+export const SchemaView: React.FC<SchemaViewProps> = ({ schema }) => {
+  const fields = listSchemaFields(schema);
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(toJsonSchema(schema), null, 2)], {
+      type: 'application/schema+json',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${schema.topic.replace(/[^\w.-]+/g, '_')}.schema.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    antMessage.success('JSON Schema exported');
+  };
+
+  const columns: ColumnsType<SchemaField> = [
+    {
+      title: 'Field',
+      dataIndex: 'path',
+      key: 'path',
+      render: (path: string) => <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{path}</span>,
+    },
+    {
+      title: 'Type',
+      key: 'type',
+      width: 160,
+      render: (_, { node }) => <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{describeTypes(node.types)}</span>,
+    },
+    {
+      title: 'Presence',
+      key: 'required',
+      width: 100,
+      render: (_, { path, required }) =>
+        path === '$' ? null : <Tag color={required ? 'blue' : 'default'}>{required ? 'required' : 'optional'}</Tag>,
+    },
+    {
+      title: 'Range',
+      key: 'range',
+      width: 160,
+      render: (_, { node }) => formatRange(node),
+    },
+    {
+      title: 'Values',
+      key: 'values',
+      render: (_, { node }) =>
+        node.values && (
+          <Space size={[0, 4]} wrap>
+            {node.values.map((value) => (
+              <Tag key={String(value)} style={{ fontFamily: 'monospace' }}>
+                {JSON.stringify(value)}
+              </Tag>
+            ))}
+          </Space>
+        ),
+    },
+    {
+      title: 'Seen',
+      key: 'count',
+      width: 80,
+      render: (_, { node }) => node.count,
+    },
+  ];
+
+  if (!schema.root) {
+    return (
+      <Empty
+        description={
+          schema.sampleSize === 0
+            ? 'No stored messages to learn from'
+            : `None of the ${schema.sampleSize} stored messages is JSON`
+        }
+        image={Empty.PRESENTED_IMAGE_SIMPLE}
+      />
+    );
+  }
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Text type="secondary">
+          Learned from {schema.jsonCount} JSON messages
+          {schema.jsonCount < schema.sampleSize && ` (${schema.sampleSize - schema.jsonCount} others were not JSON)`}
+        </Text>
+        <Button size="small" icon={<DownloadOutlined />} onClick={handleExport}>
+          Export JSON Schema
+        </Button>
+      </div>
+      <Table
+        size="small"
+        rowKey="path"
+        columns={columns}
+        dataSource={fields}
+        pagination={fields.length > 50 ? { pageSize: 50, showSizeChanger: false } : false}
+      />
+    </Space>
+  );
+};
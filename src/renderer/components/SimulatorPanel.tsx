@@ -0,0 +1,567 @@
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  Table,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Switch,
+  Modal,
+  Button,
+  Space,
+  Tag,
+  Tooltip,
+  Empty,
+  Popconfirm,
+  Typography,
+  Upload,
+  message as antMessage,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  ExperimentOutlined,
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  PlayCircleOutlined,
+  StopOutlined,
+  UploadOutlined,
+} from '@ant-design/icons';
+import type { QoS, SimulatorFleet, SimulatorGenerator, SimulatorRun } from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { format } from 'date-fns';
+
+const { TextArea } = Input;
+const { Text } = Typography;
+
+// How often sent counts are refreshed while a fleet is running
+const REFRESH_INTERVAL_MS = 1000;
+
+const GENERATOR_LABELS: Record<SimulatorGenerator['type'], string> = {
+  sine: 'Sine wave',
+  randomWalk: 'Random walk',
+  step: 'Step sequence',
+  csv: 'CSV replay',
+};
+
+// Flat form values; converted to and from the SimulatorFleet generator union
+interface FleetFormValues {
+  name: string;
+  topicPattern: string;
+  deviceCount: number;
+  intervalMs: number;
+  payloadTemplate: string;
+  decimals: number;
+  qos: QoS;
+  retain: boolean;
+  generatorType: SimulatorGenerator['type'];
+  min?: number;
+  max?: number;
+  periodSeconds?: number;
+  start?: number;
+  step?: number;
+  values?: string;
+  holdSeconds?: number;
+  csv?: string;
+  column?: string;
+  loop?: boolean;
+}
+
+const DEFAULT_FORM_VALUES: Partial<FleetFormValues> = {
+  topicPattern: 'sim/device{{n}}/temperature',
+  deviceCount: 10,
+  intervalMs: 1000,
+  payloadTemplate: '{"device": {{n}}, "value": {{value}}, "ts": {{timestamp}}}',
+  decimals: 2,
+  qos: 0,
+  retain: false,
+  generatorType: 'sine',
+  min: 0,
+  max: 100,
+  periodSeconds: 60,
+  start: 20,
+  step: 0.5,
+  values: '0, 50, 100',
+  holdSeconds: 10,
+  loop: true,
+};
+
+/**
+ * Describe a fleet's generator for the fleets table
+ */
+function describeGenerator(generator: SimulatorGenerator): string {
+  switch (generator.type) {
+    case 'sine':
+      return `${generator.min} to ${generator.max} every ${generator.periodSeconds}s`;
+    case 'randomWalk': {
+      const range = generator.min !== undefined || generator.max !== undefined
+        ? ` within ${generator.min ?? '-∞'} to ${generator.max ?? '∞'}`
+        : '';
+      return `From ${generator.start}, ±${generator.step}${range}`;
+    }
+    case 'step':
+      return `${generator.values.join(', ')}, ${generator.holdSeconds}s each`;
+    case 'csv':
+      return `Column ${generator.column}${generator.loop ? ', looped' : ''}`;
+  }
+}
+
+/**
+ * Build the generator from the form values
+ */
+function toGenerator(values: FleetFormValues): SimulatorGenerator {
+  switch (values.generatorType) {
+    case 'sine':
+      return { type: 'sine', min: values.min!, max: values.max!, periodSeconds: values.periodSeconds! };
+    case 'randomWalk':
+      return {
+        type: 'randomWalk',
+        start: values.start!,
+        step: values.step!,
+        min: values.min ?? undefined,
+        max: values.max ?? undefined,
+      };
+    case 'step':
+      return {
+        type: 'step',
+        values: values.values!.split(',').map((value) => Number(value.trim())),
+        holdSeconds: values.holdSeconds!,
+      };
+    case 'csv':
+      return { type: 'csv', csv: values.csv!, column: values.column!, loop: values.loop ?? false };
+  }
+}
+
+/**
+ * Get the column names from the header row of CSV text
+ */
+function getCsvColumns(csv: string): string[] {
+  const header = csv.split(/\r?\n/, 1)[0] ?? '';
+  return header
+    .split(',')
+    .map((name) => name.trim().replace(/^"(.*)"$/, '$1'))
+    .filter(Boolean);
+}
+
+export const SimulatorPanel: React.FC = () => {
+  const [form] = Form.useForm<FleetFormValues>();
+  const generatorType = Form.useWatch('generatorType', form);
+  const csv = Form.useWatch('csv', form);
+  const [fleets, setFleets] = useState<SimulatorFleet[]>([]);
+  const [runs, setRuns] = useState<SimulatorRun[]>([]);
+  const [editingFleet, setEditingFleet] = useState<SimulatorFleet | null>(null);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const hasRunningFleets = runs.some((run) => run.running);
+
+  useEffect(() => {
+    loadFleets();
+    loadRuns();
+
+    const removeListener = window.electronAPI.on(
+      IPC_CHANNELS.SIMULATOR_RUNS_CHANGED,
+      (nextRuns: SimulatorRun[]) => setRuns(nextRuns)
+    );
+
+    return () => removeListener();
+  }, []);
+
+  // Sent counts change without an event, so poll while fleets run
+  useEffect(() => {
+    if (!hasRunningFleets) {
+      return;
+    }
+    const timer = setInterval(loadRuns, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasRunningFleets]);
+
+  const loadFleets = async () => {
+    try {
+      setFleets(await window.electronAPI.invoke(IPC_CHANNELS.SIMULATOR_GET_FLEETS));
+    } catch (error) {
+      console.error('Failed to load simulator fleets:', error);
+    }
+  };
+
+  const loadRuns = async () => {
+    try {
+      setRuns(await window.electronAPI.invoke(IPC_CHANNELS.SIMULATOR_GET_RUNS));
+    } catch (error) {
+      console.error('Failed to load simulator runs:', error);
+    }
+  };
+
+  const saveFleets = async (nextFleets: SimulatorFleet[]) => {
+    try {
+      setFleets(await window.electronAPI.invoke(IPC_CHANNELS.SIMULATOR_SAVE_FLEETS, nextFleets));
+      return true;
+    } catch (error) {
+      antMessage.error(`Failed to save fleets: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  };
+
+  const openModal = (fleet: SimulatorFleet | null) => {
+    setEditingFleet(fleet);
+    form.resetFields();
+    if (fleet) {
+      const { generator } = fleet;
+      form.setFieldsValue({
+        ...fleet,
+        ...generator,
+        values: generator.type === 'step' ? generator.values.join(', ') : undefined,
+        generatorType: generator.type,
+      });
+    }
+    setIsModalVisible(true);
+  };
+
+  const handleLoadCsv = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result);
+      form.setFieldsValue({ csv: text, column: getCsvColumns(text)[0] });
+    };
+    reader.onerror = () => antMessage.error(`Failed to read ${file.name}`);
+    reader.readAsText(file);
+    return false; // Read in the renderer, not uploaded
+  };
+
+  const handleSubmit = async () => {
+    const values = await form.validateFields();
+
+    if (values.generatorType === 'step') {
+      const stepValues = values.values!.split(',').map((value) => value.trim());
+      if (stepValues.some((value) => value === '' || isNaN(Number(value)))) {
+        antMessage.error('Step values must be numbers separated by commas');
+        return;
+      }
+    }
+    if ((values.generatorType === 'sine' || values.generatorType === 'randomWalk') &&
+        values.min != null && values.max != null && values.min > values.max) {
+      antMessage.error('Minimum must not be above maximum');
+      return;
+    }
+
+    const fleet: SimulatorFleet = {
+      id: editingFleet?.id ?? '',
+      name: values.name,
+      topicPattern: values.topicPattern,
+      deviceCount: values.deviceCount,
+      intervalMs: values.intervalMs,
+      payloadTemplate: values.payloadTemplate ?? '',
+      decimals: values.decimals ?? 2,
+      generator: toGenerator(values),
+      qos: values.qos,
+      retain: values.retain,
+    };
+
+    const nextFleets = editingFleet
+      ? fleets.map((existing) => (existing.id === editingFleet.id ? fleet : existing))
+      : [...fleets, fleet];
+
+    if (await saveFleets(nextFleets)) {
+      antMessage.success(editingFleet ? 'Fleet updated' : 'Fleet added');
+      setIsModalVisible(false);
+    }
+  };
+
+  const handleDelete = (fleet: SimulatorFleet) => {
+    saveFleets(fleets.filter((existing) => existing.id !== fleet.id));
+  };
+
+  const handleStart = async (fleet: SimulatorFleet) => {
+    try {
+      await window.electronAPI.invoke(IPC_CHANNELS.SIMULATOR_START, { fleetId: fleet.id });
+      antMessage.success(`Started ${fleet.deviceCount} simulated devices`);
+    } catch (error) {
+      antMessage.error(`Failed to start fleet: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleStop = async (fleet: SimulatorFleet) => {
+    try {
+      await window.electronAPI.invoke(IPC_CHANNELS.SIMULATOR_STOP, fleet.id);
+    } catch (error) {
+      antMessage.error(`Failed to stop fleet: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const getRun = (fleet: SimulatorFleet) => runs.find((run) => run.fleetId === fleet.id);
+
+  const columns: ColumnsType<SimulatorFleet> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+    },
+    {
+      title: 'Topic',
+      dataIndex: 'topicPattern',
+      key: 'topicPattern',
+      render: (topicPattern: string, fleet) => (
+        <Space direction="vertical" size={0}>
+          <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{topicPattern}</span>
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            {fleet.deviceCount} devices every {fleet.intervalMs} ms
+          </Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Generator',
+      key: 'generator',
+      render: (_, fleet) => (
+        <Space direction="vertical" size={0}>
+          <Tag>{GENERATOR_LABELS[fleet.generator.type]}</Tag>
+          <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+            {describeGenerator(fleet.generator)}
+          </span>
+        </Space>
+      ),
+    },
+    {
+      title: 'Status',
+      key: 'status',
+      width: 110,
+      render: (_, fleet) => {
+        const run = getRun(fleet);
+        if (!run) {
+          return <Tag>idle</Tag>;
+        }
+        return (
+          <Tooltip
+            title={run.endedAt
+              ? `Ended ${format(new Date(run.endedAt), 'HH:mm:ss')}`
+              : `Started ${format(new Date(run.startedAt), 'HH:mm:ss')}`}
+          >
+            <Tag color={run.running ? 'processing' : 'default'}>{run.running ? 'running' : 'stopped'}</Tag>
+          </Tooltip>
+        );
+      },
+    },
+    {
+      title: 'Sent',
+      key: 'sent',
+      width: 120,
+      render: (_, fleet) => {
+        const run = getRun(fleet);
+        return run ? (
+          <Space size="small">
+            <span>{run.sentCount}</span>
+            {run.errorCount > 0 && (
+              <Tooltip title={run.lastError}>
+                <Tag color="red">{run.errorCount} failed</Tag>
+              </Tooltip>
+            )}
+          </Space>
+        ) : null;
+      },
+    },
+    {
+      title: '',
+      key: 'actions',
+      width: 120,
+      render: (_, fleet) => (
+        <Space size="small">
+          {getRun(fleet)?.running ? (
+            <Tooltip title="Stop">
+              <Button type="text" size="small" danger icon={<StopOutlined />} onClick={() => handleStop(fleet)} />
+            </Tooltip>
+          ) : (
+            <Tooltip title="Start on the active connection">
+              <Button type="text" size="small" icon={<PlayCircleOutlined />} onClick={() => handleStart(fleet)} />
+            </Tooltip>
+          )}
+          <Tooltip title="Edit">
+            <Button type="text" size="small" icon={<EditOutlined />} onClick={() => openModal(fleet)} />
+          </Tooltip>
+          <Popconfirm
+            title="Delete this fleet?"
+            onConfirm={() => handleDelete(fleet)}
+            okText="Yes"
+            cancelText="No"
+          >
+            <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <Card
+        title={
+          <Space>
+            <ExperimentOutlined />
+            Device Simulator
+          </Space>
+        }
+        extra={
+          <Button type="primary" size="small" icon={<PlusOutlined />} onClick={() => openModal(null)}>
+            Add Fleet
+          </Button>
+        }
+      >
+        <Table
+          size="small"
+          rowKey="id"
+          columns={columns}
+          dataSource={fleets}
+          pagination={false}
+          locale={{
+            emptyText: (
+              <Empty
+                description="No simulated fleets. Add one to publish generated values from many devices."
+                image={Empty.PRESENTED_IMAGE_SIMPLE}
+              />
+            ),
+          }}
+        />
+      </Card>
+
+      <Modal
+        title={editingFleet ? 'Edit Fleet' : 'Add Fleet'}
+        open={isModalVisible}
+        onOk={handleSubmit}
+        onCancel={() => setIsModalVisible(false)}
+        okText="Save"
+        width={640}
+        forceRender
+      >
+        <Form form={form} layout="vertical" initialValues={DEFAULT_FORM_VALUES}>
+          <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Enter a name' }]}>
+            <Input placeholder="Temperature sensors" />
+          </Form.Item>
+
+          <Form.Item
+            label="Topic Pattern"
+            name="topicPattern"
+            tooltip="{{n}} is replaced by the device number (1 to the device count)"
+            rules={[{ required: true, message: 'Enter a topic pattern' }]}
+          >
+            <Input placeholder="factory/line{{n}}/temperature" style={{ fontFamily: 'monospace' }} />
+          </Form.Item>
+
+          <Space>
+            <Form.Item label="Devices" name="deviceCount" rules={[{ required: true }]}>
+              <InputNumber min={1} max={10000} precision={0} />
+            </Form.Item>
+            <Form.Item label="Interval (ms)" name="intervalMs" rules={[{ required: true }]}>
+              <InputNumber min={10} step={100} />
+            </Form.Item>
+            <Form.Item label="QoS" name="qos">
+              <Select
+                style={{ width: 80 }}
+                options={[0, 1, 2].map((qos) => ({ label: qos, value: qos }))}
+              />
+            </Form.Item>
+            <Form.Item label="Retain" name="retain" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Space>
+
+          <Form.Item
+            label="Payload Template"
+            name="payloadTemplate"
+            tooltip="{{value}} is the generated value and {{n}} the device number; publish template variables such as {{timestamp}} and {{counter}} also work"
+          >
+            <TextArea rows={3} style={{ fontFamily: 'monospace' }} />
+          </Form.Item>
+
+          <Space align="start">
+            <Form.Item label="Generator" name="generatorType">
+              <Select
+                style={{ width: 180 }}
+                options={Object.entries(GENERATOR_LABELS).map(([value, label]) => ({ value, label }))}
+              />
+            </Form.Item>
+            <Form.Item label="Decimals" name="decimals" tooltip="Generated numbers are rounded to this many decimals">
+              <InputNumber min={0} max={10} precision={0} />
+            </Form.Item>
+          </Space>
+
+          {generatorType === 'sine' && (
+            <Space>
+              <Form.Item label="Minimum" name="min" rules={[{ required: true }]}>
+                <InputNumber />
+              </Form.Item>
+              <Form.Item label="Maximum" name="max" rules={[{ required: true }]}>
+                <InputNumber />
+              </Form.Item>
+              <Form.Item
+                label="Period (seconds)"
+                name="periodSeconds"
+                tooltip="Devices are spread evenly over the period"
+                rules={[{ required: true }]}
+              >
+                <InputNumber min={1} />
+              </Form.Item>
+            </Space>
+          )}
+
+          {generatorType === 'randomWalk' && (
+            <Space>
+              <Form.Item label="Start" name="start" rules={[{ required: true }]}>
+                <InputNumber />
+              </Form.Item>
+              <Form.Item label="Max step" name="step" rules={[{ required: true }]}>
+                <InputNumber min={0} />
+              </Form.Item>
+              <Form.Item label="Minimum" name="min">
+                <InputNumber placeholder="None" />
+              </Form.Item>
+              <Form.Item label="Maximum" name="max">
+                <InputNumber placeholder="None" />
+              </Form.Item>
+            </Space>
+          )}
+
+          {generatorType === 'step' && (
+            <Space align="start">
+              <Form.Item
+                label="Values"
+                name="values"
+                rules={[{ required: true, message: 'Enter values separated by commas' }]}
+              >
+                <Input placeholder="0, 50, 100" style={{ fontFamily: 'monospace', width: 300 }} />
+              </Form.Item>
+              <Form.Item label="Hold (seconds)" name="holdSeconds" rules={[{ required: true }]}>
+                <InputNumber min={1} />
+              </Form.Item>
+            </Space>
+          )}
+
+          {generatorType === 'csv' && (
+            <>
+              <Form.Item
+                label="CSV"
+                name="csv"
+                tooltip="The first row names the columns; every device replays the column row by row"
+                rules={[{ required: true, message: 'Load or paste CSV data' }]}
+              >
+                <TextArea rows={4} style={{ fontFamily: 'monospace' }} placeholder="time,temperature" />
+              </Form.Item>
+              <Space align="start">
+                <Upload accept=".csv,text/csv" beforeUpload={handleLoadCsv} showUploadList={false}>
+                  <Button icon={<UploadOutlined />}>Load File</Button>
+                </Upload>
+                <Form.Item name="column" rules={[{ required: true, message: 'Select a column' }]}>
+                  <Select
+                    placeholder="Column"
+                    style={{ width: 180 }}
+                    options={getCsvColumns(csv ?? '').map((column) => ({ label: column, value: column }))}
+                  />
+                </Form.Item>
+                <Form.Item name="loop" valuePropName="checked">
+                  <Switch checkedChildren="Loop" unCheckedChildren="Once" />
+                </Form.Item>
+              </Space>
+            </>
+          )}
+        </Form>
+      </Modal>
+    </>
+  );
+};
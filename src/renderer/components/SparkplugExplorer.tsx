@@ -0,0 +1,245 @@
+import { useState, useEffect } from 'react';
+import { Card, Tree, Table, Space, Tag, Badge, Button, Empty, Tooltip, Typography, Row, Col } from 'antd';
+import type { DataNode } from 'antd/es/tree';
+import type { ColumnsType } from 'antd/es/table';
+import { ClusterOutlined, ReloadOutlined } from '@ant-design/icons';
+import type {
+  SparkplugGroupState,
+  SparkplugMetricState,
+  SparkplugValue,
+} from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { format, formatDistanceToNow } from 'date-fns';
+
+const { Text } = Typography;
+
+interface SelectedEntity {
+  title: string;
+  online: boolean;
+  lastBirth?: number;
+  lastDeath?: number;
+  metrics: SparkplugMetricState[];
+}
+
+/**
+ * Format a metric value for the metrics table
+ */
+function formatValue(value: SparkplugValue): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export const SparkplugExplorer: React.FC = () => {
+  const [groups, setGroups] = useState<SparkplugGroupState[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadState();
+
+    // Reload on new Sparkplug traffic and when switching sessions
+    const removeUpdateListener = window.electronAPI.on(IPC_CHANNELS.SPARKPLUG_UPDATED, () => {
+      loadState();
+    });
+    const removeConnectionListener = window.electronAPI.on(IPC_CHANNELS.CONNECTION_CHANGED, () => {
+      setSelectedKey(null);
+      loadState();
+    });
+
+    return () => {
+      removeUpdateListener();
+      removeConnectionListener();
+    };
+  }, []);
+
+  const loadState = async () => {
+    setLoading(true);
+    try {
+      const state = await window.electronAPI.invoke(IPC_CHANNELS.SPARKPLUG_GET_STATE);
+      setGroups(state);
+    } catch (error) {
+      console.error('Failed to load Sparkplug state:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const statusBadge = (online: boolean) => (
+    <Badge status={online ? 'success' : 'error'} />
+  );
+
+  const treeData: DataNode[] = groups.map((group) => ({
+    key: group.groupId,
+    title: <Text strong>{group.groupId}</Text>,
+    selectable: false,
+    children: group.edgeNodes.map((node) => {
+      const nodeKey = `${group.groupId}/${node.edgeNodeId}`;
+      return {
+        key: nodeKey,
+        title: (
+          <Space size="small">
+            {statusBadge(node.online)}
+            {node.edgeNodeId}
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              {node.metrics.length} metrics
+            </Text>
+          </Space>
+        ),
+        children: node.devices.map((device) => ({
+          key: `${nodeKey}/${device.deviceId}`,
+          title: (
+            <Space size="small">
+              {statusBadge(device.online)}
+              {device.deviceId}
+              <Text type="secondary" style={{ fontSize: '12px' }}>
+                {device.metrics.length} metrics
+              </Text>
+            </Space>
+          ),
+          isLeaf: true,
+        })),
+      };
+    }),
+  }));
+
+  const findSelected = (): SelectedEntity | null => {
+    if (!selectedKey) {
+      return null;
+    }
+
+    const [groupId, edgeNodeId, deviceId] = selectedKey.split('/');
+    const node = groups
+      .find((group) => group.groupId === groupId)
+      ?.edgeNodes.find((entry) => entry.edgeNodeId === edgeNodeId);
+    if (!node) {
+      return null;
+    }
+
+    if (!deviceId) {
+      return { title: `${groupId} / ${edgeNodeId}`, ...node };
+    }
+
+    const device = node.devices.find((entry) => entry.deviceId === deviceId);
+    return device ? { title: `${groupId} / ${edgeNodeId} / ${deviceId}`, ...device } : null;
+  };
+
+  const selected = findSelected();
+
+  const columns: ColumnsType<SparkplugMetricState> = [
+    {
+      title: 'Metric',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string) => <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{name}</span>,
+    },
+    {
+      title: 'Alias',
+      dataIndex: 'alias',
+      key: 'alias',
+      width: 80,
+    },
+    {
+      title: 'Type',
+      dataIndex: 'datatype',
+      key: 'datatype',
+      width: 110,
+      render: (datatype: string) => <Tag>{datatype}</Tag>,
+    },
+    {
+      title: 'Value',
+      dataIndex: 'value',
+      key: 'value',
+      ellipsis: true,
+      render: (value: SparkplugValue) => (
+        <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{formatValue(value)}</span>
+      ),
+    },
+    {
+      title: 'Updated',
+      dataIndex: 'updatedAt',
+      key: 'updatedAt',
+      width: 160,
+      render: (updatedAt: number) => (
+        <Tooltip title={format(new Date(updatedAt), 'yyyy-MM-dd HH:mm:ss.SSS')}>
+          {formatDistanceToNow(new Date(updatedAt), { addSuffix: true })}
+        </Tooltip>
+      ),
+    },
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <ClusterOutlined />
+          Sparkplug B Explorer
+        </Space>
+      }
+      extra={
+        <Tooltip title="Refresh">
+          <Button type="text" size="small" icon={<ReloadOutlined />} onClick={loadState} loading={loading} />
+        </Tooltip>
+      }
+    >
+      {groups.length === 0 ? (
+        <Empty
+          description="No Sparkplug B traffic yet. Subscribe to spBv1.0/# to discover edge nodes and devices."
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          style={{ padding: '40px 0' }}
+        />
+      ) : (
+        <Row gutter={[16, 16]}>
+          <Col span={8}>
+            <Tree
+              showLine
+              defaultExpandAll
+              treeData={treeData}
+              selectedKeys={selectedKey ? [selectedKey] : []}
+              onSelect={(keys) => setSelectedKey(keys.length > 0 ? String(keys[0]) : null)}
+            />
+          </Col>
+          <Col span={16}>
+            {selected ? (
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Space wrap>
+                  <Text strong>{selected.title}</Text>
+                  <Tag color={selected.online ? 'green' : 'red'}>
+                    {selected.online ? 'Online' : 'Offline'}
+                  </Tag>
+                  {selected.lastBirth && (
+                    <Text type="secondary" style={{ fontSize: '12px' }}>
+                      Birth {format(new Date(selected.lastBirth), 'yyyy-MM-dd HH:mm:ss')}
+                    </Text>
+                  )}
+                  {selected.lastDeath && (
+                    <Text type="secondary" style={{ fontSize: '12px' }}>
+                      Death {format(new Date(selected.lastDeath), 'yyyy-MM-dd HH:mm:ss')}
+                    </Text>
+                  )}
+                </Space>
+                <Table
+                  size="small"
+                  rowKey="name"
+                  columns={columns}
+                  dataSource={selected.metrics}
+                  pagination={false}
+                  scroll={{ y: 480 }}
+                />
+              </Space>
+            ) : (
+              <Empty
+                description="Select an edge node or device to see its metrics"
+                image={Empty.PRESENTED_IMAGE_SIMPLE}
+              />
+            )}
+          </Col>
+        </Row>
+      )}
+    </Card>
+  );
+};
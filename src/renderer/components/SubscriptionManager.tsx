@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import {
   Card,
   Input,
+  InputNumber,
   Button,
   Space,
   Collapse,
@@ -19,6 +20,7 @@ import { IPC_CHANNELS } from '@shared/types/ipc.types';
 
 export const SubscriptionManager: React.FC = () => {
   const [quickSubscribeTopic, setQuickSubscribeTopic] = useState('');
+  const [subscriptionIdentifier, setSubscriptionIdentifier] = useState<number | null>(null);
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
 
   useEffect(() => {
@@ -60,6 +62,7 @@ export const SubscriptionManager: React.FC = () => {
       await window.electronAPI.invoke(IPC_CHANNELS.MQTT_SUBSCRIBE, {
         topic: quickSubscribeTopic,
         qos: 0,
+        subscriptionIdentifier: subscriptionIdentifier ?? undefined,
       });
       antMessage.success(`Subscribed to ${quickSubscribeTopic}`);
       setQuickSubscribeTopic('');
@@ -71,7 +74,7 @@ export const SubscriptionManager: React.FC = () => {
 
   const handleUnsubscribe = async (topic: string) => {
     try {
-      await window.electronAPI.invoke(IPC_CHANNELS.MQTT_UNSUBSCRIBE, topic);
+      await window.electronAPI.invoke(IPC_CHANNELS.MQTT_UNSUBSCRIBE, { topic });
       antMessage.success(`Unsubscribed from ${topic}`);
       await loadSubscriptions();
     } catch (error: any) {
@@ -98,6 +101,15 @@ export const SubscriptionManager: React.FC = () => {
             onChange={(e) => setQuickSubscribeTopic(e.target.value)}
             onPressEnter={handleQuickSubscribe}
           />
+          <InputNumber
+            placeholder="Sub ID"
+            title="MQTT 5.0 subscription identifier, reported on matching messages"
+            min={1}
+            max={268435455}
+            value={subscriptionIdentifier}
+            onChange={(value) => setSubscriptionIdentifier(typeof value === 'number' ? value : null)}
+            style={{ width: 100 }}
+          />
           <Button type="primary" icon={<PlusOutlined />} onClick={handleQuickSubscribe}>
             Subscribe
           </Button>
@@ -132,6 +144,9 @@ export const SubscriptionManager: React.FC = () => {
                       >
                         <Space>
                           <Tag color="green">QoS {sub.qos}</Tag>
+                          {sub.subscriptionIdentifier && (
+                            <Tag color="blue">ID {sub.subscriptionIdentifier}</Tag>
+                          )}
                           <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>
                             {sub.topic}
                           </span>
@@ -0,0 +1,295 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Card,
+  Table,
+  Switch,
+  Space,
+  Empty,
+  Statistic,
+  Collapse,
+  Typography,
+  Row,
+  Col,
+  message as antMessage,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  CloudServerOutlined,
+  TeamOutlined,
+  ApartmentOutlined,
+  ArrowDownOutlined,
+  ArrowUpOutlined,
+  FieldTimeOutlined,
+} from '@ant-design/icons';
+import type { SysMetricKey, SysMonitorState, SysTopicUpdate } from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { RealTimeLineChart } from './charts/RealTimeLineChart';
+import type { ChartDataPoint, ChartMetricConfig } from '../types/charts';
+import { format } from 'date-fns';
+
+const { Text } = Typography;
+
+// Points kept per metric, matching the main process
+const MAX_POINTS_PER_METRIC = 720;
+
+const METRIC_LABELS: Record<SysMetricKey, string> = {
+  clientsConnected: 'Clients connected',
+  subscriptions: 'Subscriptions',
+  messagesReceived: 'Messages received',
+  messagesSent: 'Messages sent',
+  messagesReceivedLoad: 'Received/min',
+  messagesSentLoad: 'Sent/min',
+  bytesReceivedLoad: 'Bytes received/min',
+  bytesSentLoad: 'Bytes sent/min',
+  uptimeSeconds: 'Uptime',
+};
+
+const METRIC_COLORS: Partial<Record<SysMetricKey, string>> = {
+  clientsConnected: '#1890ff',
+  subscriptions: '#722ed1',
+  messagesReceived: '#52c41a',
+  messagesSent: '#fa8c16',
+  messagesReceivedLoad: '#52c41a',
+  messagesSentLoad: '#fa8c16',
+  bytesReceivedLoad: '#13c2c2',
+  bytesSentLoad: '#eb2f96',
+};
+
+// Metrics charted together; a chart is shown once one of its metrics has data
+const CHARTS: Array<{ title: string; metrics: SysMetricKey[] }> = [
+  { title: 'Clients', metrics: ['clientsConnected', 'subscriptions'] },
+  { title: 'Message Load (1 minute average)', metrics: ['messagesReceivedLoad', 'messagesSentLoad'] },
+  { title: 'Byte Load (1 minute average)', metrics: ['bytesReceivedLoad', 'bytesSentLoad'] },
+  { title: 'Messages Since Broker Start', metrics: ['messagesReceived', 'messagesSent'] },
+];
+
+/**
+ * Format an uptime as "3d 4h 12m"
+ */
+function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  }
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${Math.floor(seconds % 60)}s`;
+}
+
+/**
+ * Apply a $SYS message to the monitor state
+ */
+function applyUpdate(state: SysMonitorState, update: SysTopicUpdate): SysMonitorState {
+  const next: SysMonitorState = {
+    ...state,
+    broker: update.broker ?? state.broker,
+    topics: { ...state.topics, [update.topic]: { value: update.value, timestamp: update.timestamp } },
+  };
+
+  if (update.metric && update.metricValue !== undefined) {
+    const points = [...(state.metrics[update.metric] ?? []), { timestamp: update.timestamp, value: update.metricValue }];
+    next.metrics = { ...state.metrics, [update.metric]: points.slice(-MAX_POINTS_PER_METRIC) };
+  }
+  return next;
+}
+
+/**
+ * Broker metrics from $SYS topics (Mosquitto, EMQX and HiveMQ with its $SYS extension)
+ */
+export const SysDashboard: React.FC = () => {
+  const [state, setState] = useState<SysMonitorState | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadState();
+
+    const removeUpdateListener = window.electronAPI.on(
+      IPC_CHANNELS.SYS_MONITOR_UPDATED,
+      (update: SysTopicUpdate) => {
+        setState((prev) => (prev && prev.connectionId === update.connectionId ? applyUpdate(prev, update) : prev));
+      }
+    );
+    // Each session is monitored separately
+    const removeConnectionListener = window.electronAPI.on(IPC_CHANNELS.CONNECTION_CHANGED, loadState);
+
+    return () => {
+      removeUpdateListener();
+      removeConnectionListener();
+    };
+  }, []);
+
+  const loadState = async () => {
+    try {
+      setState(await window.electronAPI.invoke(IPC_CHANNELS.SYS_MONITOR_GET));
+    } catch (error) {
+      console.error('Failed to load broker metrics:', error);
+    }
+  };
+
+  const handleToggle = async (enabled: boolean) => {
+    setLoading(true);
+    try {
+      if (enabled) {
+        setState(await window.electronAPI.invoke(IPC_CHANNELS.SYS_MONITOR_START));
+      } else {
+        await window.electronAPI.invoke(IPC_CHANNELS.SYS_MONITOR_STOP);
+        setState(null);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      antMessage.error(`Failed to ${enabled ? 'start' : 'stop'} broker monitoring: ${reason}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const dataPoints = useMemo(() => {
+    const points = new Map<string, ChartDataPoint[]>();
+    Object.entries(state?.metrics ?? {}).forEach(([metric, metricPoints]) => {
+      points.set(
+        metric,
+        metricPoints.map((point) => ({
+          ...point,
+          topic: metric,
+          messageId: `${metric}-${point.timestamp}`,
+        }))
+      );
+    });
+    return points;
+  }, [state?.metrics]);
+
+  const latest = (metric: SysMetricKey) => {
+    const points = state?.metrics[metric];
+    return points?.[points.length - 1]?.value;
+  };
+
+  const topicRows = Object.entries(state?.topics ?? {})
+    .map(([topic, { value, timestamp }]) => ({ topic, value, timestamp }))
+    .sort((a, b) => a.topic.localeCompare(b.topic));
+
+  const topicColumns: ColumnsType<(typeof topicRows)[number]> = [
+    {
+      title: 'Topic',
+      dataIndex: 'topic',
+      key: 'topic',
+      render: (topic: string) => <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{topic}</span>,
+    },
+    {
+      title: 'Value',
+      dataIndex: 'value',
+      key: 'value',
+      ellipsis: true,
+      render: (value: string) => <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{value}</span>,
+    },
+    {
+      title: 'Updated',
+      dataIndex: 'timestamp',
+      key: 'timestamp',
+      width: 100,
+      render: (timestamp: number) => format(new Date(timestamp), 'HH:mm:ss'),
+    },
+  ];
+
+  const statistics: Array<{ metric: SysMetricKey; icon: React.ReactNode; color: string }> = [
+    { metric: 'clientsConnected', icon: <TeamOutlined />, color: '#1890ff' },
+    { metric: 'subscriptions', icon: <ApartmentOutlined />, color: '#722ed1' },
+    { metric: 'messagesReceived', icon: <ArrowDownOutlined />, color: '#3f8600' },
+    { metric: 'messagesSent', icon: <ArrowUpOutlined />, color: '#fa8c16' },
+  ];
+
+  const uptime = latest('uptimeSeconds');
+
+  return (
+    <Row gutter={[16, 16]}>
+      <Col span={24}>
+        <Card
+          title={
+            <Space>
+              <CloudServerOutlined />
+              Broker Monitor
+              {state?.broker && <Text type="secondary">{state.broker}</Text>}
+            </Space>
+          }
+          extra={
+            <Space>
+              <Text type="secondary">Subscribe to $SYS/#</Text>
+              <Switch checked={state !== null} loading={loading} onChange={handleToggle} />
+            </Space>
+          }
+        >
+          {state === null ? (
+            <Empty
+              description="Turn on monitoring to chart the metrics your broker publishes under $SYS (Mosquitto, EMQX, or HiveMQ with the $SYS extension)."
+              image={Empty.PRESENTED_IMAGE_SIMPLE}
+            />
+          ) : topicRows.length === 0 ? (
+            <Empty
+              description="Waiting for $SYS messages. Some brokers only publish them when enabled, or to privileged clients."
+              image={Empty.PRESENTED_IMAGE_SIMPLE}
+            />
+          ) : (
+            <Row gutter={16}>
+              {statistics.map(({ metric, icon, color }) => (
+                <Col span={5} key={metric}>
+                  <Statistic
+                    title={METRIC_LABELS[metric]}
+                    value={latest(metric) ?? '-'}
+                    prefix={icon}
+                    valueStyle={{ color }}
+                  />
+                </Col>
+              ))}
+              <Col span={4}>
+                <Statistic
+                  title={METRIC_LABELS.uptimeSeconds}
+                  value={uptime !== undefined ? formatUptime(uptime) : '-'}
+                  prefix={<FieldTimeOutlined />}
+                />
+              </Col>
+            </Row>
+          )}
+        </Card>
+      </Col>
+
+      {state !== null &&
+        CHARTS.filter((chart) => chart.metrics.some((metric) => dataPoints.has(metric))).map((chart) => {
+          const metrics: ChartMetricConfig[] = chart.metrics.map((metric) => ({
+            topic: metric,
+            enabled: true,
+            color: METRIC_COLORS[metric] ?? '#1890ff',
+            label: METRIC_LABELS[metric],
+          }));
+          return (
+            <Col span={12} key={chart.title}>
+              <Card size="small" title={chart.title}>
+                <RealTimeLineChart dataPoints={dataPoints} metrics={metrics} aggregationWindow={0} />
+              </Card>
+            </Col>
+          );
+        })}
+
+      {state !== null && topicRows.length > 0 && (
+        <Col span={24}>
+          <Collapse
+            size="small"
+            items={[
+              {
+                key: 'topics',
+                label: `All $SYS Topics (${topicRows.length})`,
+                children: (
+                  <Table
+                    size="small"
+                    rowKey="topic"
+                    columns={topicColumns}
+                    dataSource={topicRows}
+                    pagination={{ pageSize: 50, showSizeChanger: false }}
+                  />
+                ),
+              },
+            ]}
+          />
+        </Col>
+      )}
+    </Row>
+  );
+};
@@ -0,0 +1,272 @@
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  Table,
+  Select,
+  DatePicker,
+  Button,
+  Space,
+  Tag,
+  Empty,
+  Checkbox,
+  Typography,
+  Row,
+  Col,
+  message as antMessage,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { DiffOutlined, SwapOutlined } from '@ant-design/icons';
+import type { Dayjs } from 'dayjs';
+import type {
+  ConnectionConfig,
+  SessionInfo,
+  TopicDiffEntry,
+  TopicDiffStatus,
+  TopicSnapshotSource,
+  TopicSnapshotStats,
+  TopicTreeDiff,
+} from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+
+const { RangePicker } = DatePicker;
+const { Text } = Typography;
+
+interface SnapshotForm {
+  connectionId?: string;
+  range: [Dayjs | null, Dayjs | null] | null; // All stored messages when empty
+}
+
+const STATUS_COLORS: Record<TopicDiffStatus, string> = {
+  added: 'green',
+  removed: 'red',
+  changed: 'orange',
+  unchanged: 'default',
+};
+
+const STATUSES: TopicDiffStatus[] = ['added', 'removed', 'changed', 'unchanged'];
+
+function toSnapshotSource(form: SnapshotForm): TopicSnapshotSource {
+  return {
+    connectionId: form.connectionId!,
+    startTime: form.range?.[0]?.valueOf(),
+    endTime: form.range?.[1]?.valueOf(),
+  };
+}
+
+function formatRate(stats?: TopicSnapshotStats): string {
+  if (!stats) {
+    return '-';
+  }
+  return stats.messagesPerMinute >= 10
+    ? `${Math.round(stats.messagesPerMinute)}/min`
+    : `${stats.messagesPerMinute.toFixed(2)}/min`;
+}
+
+/**
+ * Compare the stored topics of two connections, or of one connection at two
+ * time windows: topics that appeared or vanished and changes in rate or payload shape
+ */
+export const TopicComparison: React.FC = () => {
+  const [connections, setConnections] = useState<ConnectionConfig[]>([]);
+  const [before, setBefore] = useState<SnapshotForm>({ range: null });
+  const [after, setAfter] = useState<SnapshotForm>({ range: null });
+  const [diff, setDiff] = useState<TopicTreeDiff | null>(null);
+  const [visibleStatuses, setVisibleStatuses] = useState<TopicDiffStatus[]>(['added', 'removed', 'changed']);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadConnections();
+  }, []);
+
+  const loadConnections = async () => {
+    try {
+      const [profiles, sessions]: [ConnectionConfig[], SessionInfo[]] = await Promise.all([
+        window.electronAPI.invoke(IPC_CHANNELS.CONNECTION_LIST),
+        window.electronAPI.invoke(IPC_CHANNELS.MQTT_GET_SESSIONS),
+      ]);
+      setConnections(profiles);
+
+      // Start from the active session on both sides
+      const defaultId =
+        sessions.find((session) => session.active && profiles.some((profile) => profile.id === session.connectionId))
+          ?.connectionId ?? profiles[0]?.id;
+      setBefore((form) => ({ ...form, connectionId: form.connectionId ?? defaultId }));
+      setAfter((form) => ({ ...form, connectionId: form.connectionId ?? defaultId }));
+    } catch (error) {
+      console.error('Failed to load connections:', error);
+    }
+  };
+
+  const handleCompare = async () => {
+    setLoading(true);
+    try {
+      setDiff(
+        await window.electronAPI.invoke(IPC_CHANNELS.TOPIC_TREE_DIFF, {
+          before: toSnapshotSource(before),
+          after: toSnapshotSource(after),
+        })
+      );
+    } catch (error) {
+      antMessage.error(`Failed to compare topic trees: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSwap = () => {
+    setBefore(after);
+    setAfter(before);
+    setDiff(null);
+  };
+
+  const columns: ColumnsType<TopicDiffEntry> = [
+    {
+      title: 'Topic',
+      dataIndex: 'topic',
+      key: 'topic',
+      render: (topic: string) => <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{topic}</span>,
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 110,
+      render: (status: TopicDiffStatus) => <Tag color={STATUS_COLORS[status]}>{status}</Tag>,
+    },
+    {
+      title: 'Rate',
+      key: 'rate',
+      width: 220,
+      render: (_, entry) => (
+        <Space size="small">
+          <span>
+            {formatRate(entry.before)} → {formatRate(entry.after)}
+          </span>
+          {entry.rateChange !== undefined && Math.abs(entry.rateChange) >= 0.005 && (
+            <Text type={entry.rateChange > 0 ? 'warning' : 'secondary'} style={{ fontSize: '12px' }}>
+              {entry.rateChange > 0 ? '+' : ''}
+              {Math.round(entry.rateChange * 100)}%
+            </Text>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: 'Avg Size',
+      key: 'size',
+      width: 140,
+      render: (_, entry) =>
+        `${entry.before ? Math.round(entry.before.avgPayloadBytes) : '-'} → ${
+          entry.after ? Math.round(entry.after.avgPayloadBytes) : '-'
+        } B`,
+    },
+    {
+      title: 'Payload Shape Changes',
+      key: 'shape',
+      render: (_, entry) => (
+        <div style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+          {entry.shapeChanges.map((change) => (
+            <div key={change.path}>
+              {change.path}:{' '}
+              {change.before === undefined ? (
+                <Text type="success">added {change.after}</Text>
+              ) : change.after === undefined ? (
+                <Text type="danger">removed {change.before}</Text>
+              ) : (
+                `${change.before} → ${change.after}`
+              )}
+            </div>
+          ))}
+        </div>
+      ),
+    },
+  ];
+
+  const renderSnapshotForm = (label: string, form: SnapshotForm, setForm: (form: SnapshotForm) => void) => (
+    <Card size="small" title={label}>
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Select
+          placeholder="Connection"
+          value={form.connectionId}
+          onChange={(connectionId) => setForm({ ...form, connectionId })}
+          style={{ width: '100%' }}
+          options={connections.map((connection) => ({ value: connection.id!, label: connection.name }))}
+        />
+        <RangePicker
+          showTime
+          value={form.range}
+          onChange={(range) => setForm({ ...form, range })}
+          style={{ width: '100%' }}
+          format="YYYY-MM-DD HH:mm:ss"
+          allowEmpty={[true, true]}
+        />
+      </Space>
+    </Card>
+  );
+
+  const entries = diff?.entries.filter((entry) => visibleStatuses.includes(entry.status)) ?? [];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <DiffOutlined />
+          Topic Tree Comparison
+        </Space>
+      }
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Row gutter={16} align="middle">
+          <Col flex="1">{renderSnapshotForm('Before', before, setBefore)}</Col>
+          <Col>
+            <Button icon={<SwapOutlined />} onClick={handleSwap} title="Swap sides" />
+          </Col>
+          <Col flex="1">{renderSnapshotForm('After', after, setAfter)}</Col>
+        </Row>
+
+        <Space>
+          <Button
+            type="primary"
+            icon={<DiffOutlined />}
+            onClick={handleCompare}
+            loading={loading}
+            disabled={!before.connectionId || !after.connectionId}
+          >
+            Compare
+          </Button>
+          <Text type="secondary">
+            Leave a time range empty to use every stored message. Payload shapes are the field types and
+            optional fields inferred from each side's messages.
+          </Text>
+        </Space>
+
+        {diff && (
+          <>
+            <Checkbox.Group
+              value={visibleStatuses}
+              onChange={(values) => setVisibleStatuses(values as TopicDiffStatus[])}
+              options={STATUSES.map((status) => ({
+                value: status,
+                label: (
+                  <Tag color={STATUS_COLORS[status]}>
+                    {status} ({diff.counts[status]})
+                  </Tag>
+                ),
+              }))}
+            />
+            <Table
+              size="small"
+              rowKey="topic"
+              columns={columns}
+              dataSource={entries}
+              pagination={{ pageSize: 50, showSizeChanger: false }}
+              locale={{
+                emptyText: <Empty description="No differences" image={Empty.PRESENTED_IMAGE_SIMPLE} />,
+              }}
+            />
+          </>
+        )}
+      </Space>
+    </Card>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   Tree,
   Input,
@@ -12,6 +12,9 @@ import {
   Empty,
   Spin,
   Divider,
+  Select,
+  Tag,
+  Modal,
 } from 'antd';
 import type { DataNode } from 'antd/es/tree';
 import type { MenuProps } from 'antd';
@@ -25,9 +28,14 @@ import {
   MinusOutlined,
   FilterOutlined,
   ApiOutlined,
+  HistoryOutlined,
+  ProfileOutlined,
 } from '@ant-design/icons';
+import type { ConnectionConfig, InferredSchema, TopicStats } from '@shared/types/models';
 import { IPC_CHANNELS } from '@shared/types/ipc.types';
-import { formatDistanceToNow } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
+import { getPayloadPreview } from '../utils/payload';
+import { SchemaView } from './SchemaView';
 
 const { Search } = Input;
 
@@ -37,17 +45,92 @@ interface TopicNodeData {
   messageCount: number;
   subscribed: boolean;
   lastMessage?: any;
+  stats: TopicStats;
+  subtreeStats: TopicStats; // Including every topic below this one
   children: TopicNodeData[];
 }
 
+type TopicSort = 'received' | 'rate' | 'size';
+
+// Rates decay while a topic is quiet, so the tree is reloaded even without new messages
+const STATS_REFRESH_INTERVAL_MS = 5000;
+
+/**
+ * Order sibling topics by their subtree's message rate or average payload size
+ */
+function sortNodes(nodes: TopicNodeData[], sortBy: TopicSort): TopicNodeData[] {
+  if (sortBy === 'received') {
+    return nodes;
+  }
+  const value = (node: TopicNodeData) =>
+    sortBy === 'rate' ? node.subtreeStats.messagesPerSecond : node.subtreeStats.avgPayloadBytes ?? 0;
+  return [...nodes].sort((a, b) => value(b) - value(a));
+}
+
+function formatRate(messagesPerSecond: number): string {
+  if (messagesPerSecond >= 10) {
+    return `${Math.round(messagesPerSecond)} msg/s`;
+  }
+  if (messagesPerSecond >= 0.1) {
+    return `${messagesPerSecond.toFixed(1)} msg/s`;
+  }
+  return `${(messagesPerSecond * 60).toFixed(1)} msg/min`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${Math.round(bytes)} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Tooltip text describing a topic's statistics
+ */
+function describeStats(node: TopicNodeData): React.ReactNode {
+  const rows = (label: string, stats: TopicStats) => [
+    `${label}: ${stats.messageCount} messages, ${formatRate(stats.messagesPerSecond)}`,
+    stats.avgPayloadBytes !== undefined &&
+      `Payload: min ${formatSize(stats.minPayloadBytes ?? 0)} / avg ${formatSize(stats.avgPayloadBytes)} / max ${formatSize(stats.maxPayloadBytes ?? 0)}`,
+    stats.firstSeen !== undefined &&
+      `Seen: ${format(new Date(stats.firstSeen), 'yyyy-MM-dd HH:mm:ss')} - ${format(new Date(stats.lastSeen ?? stats.firstSeen), 'HH:mm:ss')}`,
+  ];
+  const lines = node.children.length > 0
+    ? [
+        ...(node.stats.messageCount > 0 ? rows('Topic', node.stats) : []),
+        ...rows('Including subtopics', node.subtreeStats),
+      ]
+    : rows('Topic', node.stats);
+
+  return lines.filter(Boolean).map((line, index) => <div key={index}>{line}</div>);
+}
+
 export const TopicTreeViewer: React.FC = () => {
-  const [treeData, setTreeData] = useState<DataNode[]>([]);
+  const [topicTree, setTopicTree] = useState<TopicNodeData[]>([]);
+  const [sortBy, setSortBy] = useState<TopicSort>('received');
+  const [connections, setConnections] = useState<ConnectionConfig[]>([]);
+  // Saved connection whose stored history is shown instead of the active session
+  const [offlineConnectionId, setOfflineConnectionId] = useState<string | null>(null);
+  const [schema, setSchema] = useState<InferredSchema | null>(null);
   const [loading, setLoading] = useState(false);
   const [searchValue, setSearchValue] = useState('');
   const [expandedKeys, setExpandedKeys] = useState<React.Key[]>([]);
   const [autoExpandParent, setAutoExpandParent] = useState(true);
 
   useEffect(() => {
+    loadConnections();
+  }, []);
+
+  useEffect(() => {
+    if (offlineConnectionId) {
+      // Stored history doesn't change while browsing it offline
+      loadStoredTopicTree(offlineConnectionId);
+      return;
+    }
+
     loadTopicTree();
 
     // Listen for topic tree updates
@@ -64,24 +147,44 @@ export const TopicTreeViewer: React.FC = () => {
       }
     );
 
+    const refreshInterval = setInterval(loadTopicTree, STATS_REFRESH_INTERVAL_MS);
+
     return () => {
       removeTreeListener();
       removeConnectionListener();
+      clearInterval(refreshInterval);
     };
-  }, []);
+  }, [offlineConnectionId]);
 
   const loadTopicTree = async () => {
     try {
-      const topicTree = await window.electronAPI.invoke(IPC_CHANNELS.TOPIC_TREE_GET);
-      const converted = convertToTreeData(topicTree);
-      setTreeData(converted);
+      setTopicTree(await window.electronAPI.invoke(IPC_CHANNELS.TOPIC_TREE_GET));
     } catch (error) {
       console.error('Failed to load topic tree:', error);
     }
   };
 
+  const loadStoredTopicTree = async (connectionId: string) => {
+    setLoading(true);
+    try {
+      setTopicTree(await window.electronAPI.invoke(IPC_CHANNELS.TOPIC_TREE_GET_STORED, connectionId));
+    } catch (error: any) {
+      antMessage.error(`Failed to load stored topic tree: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadConnections = async () => {
+    try {
+      setConnections(await window.electronAPI.invoke(IPC_CHANNELS.CONNECTION_LIST));
+    } catch (error) {
+      console.error('Failed to load connections:', error);
+    }
+  };
+
   const convertToTreeData = (nodes: TopicNodeData[]): DataNode[] => {
-    return nodes.map((node) => {
+    return sortNodes(nodes, sortBy).map((node) => {
       const hasChildren = node.children && node.children.length > 0;
       const hasMessages = node.messageCount > 0;
 
@@ -89,11 +192,7 @@ export const TopicTreeViewer: React.FC = () => {
       let lastMessagePreview = '';
       let lastMessageTime = '';
       if (node.lastMessage) {
-        const payload =
-          typeof node.lastMessage.payload === 'string'
-            ? node.lastMessage.payload
-            : node.lastMessage.payload.toString();
-        lastMessagePreview = payload.length > 50 ? payload.substring(0, 50) + '...' : payload;
+        lastMessagePreview = getPayloadPreview(node.lastMessage, 50);
 
         // Format timestamp
         if (node.lastMessage.timestamp) {
@@ -126,6 +225,15 @@ export const TopicTreeViewer: React.FC = () => {
                     <ApiOutlined style={{ color: '#52c41a', fontSize: '12px' }} />
                   </Tooltip>
                 )}
+                {node.subtreeStats.messageCount > 0 && (
+                  <Tooltip title={describeStats(node)}>
+                    <span style={{ fontSize: '10px', color: '#8c8c8c', whiteSpace: 'nowrap' }}>
+                      {formatRate(node.subtreeStats.messagesPerSecond)}
+                      {node.subtreeStats.avgPayloadBytes !== undefined &&
+                        ` · ${formatSize(node.subtreeStats.avgPayloadBytes)}`}
+                    </span>
+                  </Tooltip>
+                )}
                 {lastMessageTime && (
                     <div
                       style={{
@@ -170,6 +278,13 @@ export const TopicTreeViewer: React.FC = () => {
 
   const getContextMenuItems = (node: TopicNodeData): MenuProps['items'] => {
     const items: MenuProps['items'] = [];
+    const schemaItems: MenuProps['items'] =
+      node.messageCount > 0 ? [{ key: 'view-schema', label: 'View Inferred Schema', icon: <ProfileOutlined /> }] : [];
+
+    // Stored history can only be browsed; subscribing needs the session
+    if (offlineConnectionId) {
+      return [...schemaItems, { key: 'copy-topic', label: 'Copy Topic Path' }];
+    }
 
     if (node.subscribed) {
       items.push({
@@ -209,6 +324,7 @@ export const TopicTreeViewer: React.FC = () => {
         label: 'Filter Messages to Topic',
         icon: <FilterOutlined />,
       },
+      ...schemaItems,
       {
         key: 'copy-topic',
         label: 'Copy Topic Path',
@@ -238,7 +354,7 @@ export const TopicTreeViewer: React.FC = () => {
           break;
 
         case 'unsubscribe':
-          await window.electronAPI.invoke(IPC_CHANNELS.MQTT_UNSUBSCRIBE, node.fullPath);
+          await window.electronAPI.invoke(IPC_CHANNELS.MQTT_UNSUBSCRIBE, { topic: node.fullPath });
           antMessage.success(`Unsubscribed from ${node.fullPath}`);
           await loadTopicTree();
           break;
@@ -264,6 +380,15 @@ export const TopicTreeViewer: React.FC = () => {
           antMessage.success(`Filtering messages to topic: ${node.fullPath}`);
           break;
 
+        case 'view-schema':
+          setSchema(
+            await window.electronAPI.invoke(IPC_CHANNELS.SCHEMA_INFER, {
+              topic: node.fullPath,
+              connectionId: offlineConnectionId ?? undefined,
+            })
+          );
+          break;
+
         case 'copy-topic':
           navigator.clipboard.writeText(node.fullPath);
           antMessage.success('Topic path copied to clipboard');
@@ -271,16 +396,13 @@ export const TopicTreeViewer: React.FC = () => {
 
         case 'view-last-message':
           if (node.lastMessage) {
-            const payload =
-              typeof node.lastMessage.payload === 'string'
-                ? node.lastMessage.payload
-                : node.lastMessage.payload.toString();
+            const payload = getPayloadPreview(node.lastMessage, 200);
 
             antMessage.info(
               <div>
                 <strong>{node.fullPath}</strong>
                 <pre style={{ marginTop: '8px', fontSize: '12px' }}>
-                  {payload.length > 200 ? payload.substring(0, 200) + '...' : payload}
+                  {payload}
                 </pre>
               </div>,
               5
@@ -288,8 +410,8 @@ export const TopicTreeViewer: React.FC = () => {
           }
           break;
       }
-    } catch (error: any) {
-      antMessage.error(`Failed: ${error.message || 'Unknown error'}`);
+    } catch (error) {
+      antMessage.error(`Failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
 
@@ -319,13 +441,13 @@ export const TopicTreeViewer: React.FC = () => {
       });
     };
 
-    window.electronAPI.invoke(IPC_CHANNELS.TOPIC_TREE_GET).then((topicTree) => {
-      findMatchingKeys(topicTree);
-      setExpandedKeys([...new Set(keys)]);
-      setAutoExpandParent(true);
-    });
+    findMatchingKeys(topicTree);
+    setExpandedKeys([...new Set(keys)]);
+    setAutoExpandParent(true);
   };
 
+  const treeData = useMemo(() => convertToTreeData(topicTree), [topicTree, sortBy, offlineConnectionId]);
+
   const handleExpand = (newExpandedKeys: React.Key[]) => {
     setExpandedKeys(newExpandedKeys);
     setAutoExpandParent(false);
@@ -357,10 +479,25 @@ export const TopicTreeViewer: React.FC = () => {
         <Space>
           <FolderOutlined />
           Topic Tree
+          {offlineConnectionId && <Tag icon={<HistoryOutlined />}>Stored history</Tag>}
         </Space>
       }
       extra={
         <Space>
+          <Select
+            size="small"
+            value={offlineConnectionId ?? ''}
+            onChange={(value) => setOfflineConnectionId(value || null)}
+            onOpenChange={(open) => open && loadConnections()}
+            style={{ width: 200 }}
+            options={[
+              { value: '', label: 'Active session' },
+              ...connections.map((connection) => ({
+                value: connection.id!,
+                label: `${connection.name} (offline)`,
+              })),
+            ]}
+          />
           <Tooltip title="Expand All">
             <Button
               type="text"
@@ -382,7 +519,7 @@ export const TopicTreeViewer: React.FC = () => {
               type="text"
               size="small"
               icon={<ReloadOutlined />}
-              onClick={loadTopicTree}
+              onClick={() => (offlineConnectionId ? loadStoredTopicTree(offlineConnectionId) : loadTopicTree())}
               loading={loading}
             />
           </Tooltip>
@@ -392,12 +529,24 @@ export const TopicTreeViewer: React.FC = () => {
     >
       <Space direction="vertical" style={{ width: '100%' }} size="middle">
         {/* Search Topics */}
-        <Search
-          placeholder="Search topics..."
-          prefix={<SearchOutlined />}
-          onChange={(e) => handleSearch(e.target.value)}
-          allowClear
-        />
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <Search
+            placeholder="Search topics..."
+            prefix={<SearchOutlined />}
+            onChange={(e) => handleSearch(e.target.value)}
+            allowClear
+          />
+          <Select
+            value={sortBy}
+            onChange={setSortBy}
+            style={{ width: 150, flexShrink: 0 }}
+            options={[
+              { value: 'received', label: 'First received' },
+              { value: 'rate', label: 'Highest rate' },
+              { value: 'size', label: 'Largest payloads' },
+            ]}
+          />
+        </div>
 
         {treeData.length === 0 ? (
           <Empty
@@ -406,7 +555,9 @@ export const TopicTreeViewer: React.FC = () => {
             style={{ padding: '40px 0' }}
           >
             <p style={{ color: '#999', fontSize: '12px' }}>
-              Subscribe to topics to see them appear here
+              {offlineConnectionId
+                ? 'No messages are stored for this connection'
+                : 'Subscribe to topics to see them appear here'}
             </p>
           </Empty>
         ) : (
@@ -422,6 +573,16 @@ export const TopicTreeViewer: React.FC = () => {
           </div>
         )}
       </Space>
+
+      <Modal
+        title={<span style={{ fontFamily: 'monospace' }}>{schema?.topic}</span>}
+        open={schema !== null}
+        onCancel={() => setSchema(null)}
+        footer={null}
+        width={900}
+      >
+        {schema && <SchemaView schema={schema} />}
+      </Modal>
     </Card>
   );
 };
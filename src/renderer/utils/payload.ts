@@ -0,0 +1,165 @@
+import { Buffer } from 'buffer';
+import type {
+  ConnectionConfig,
+  MqttMessage,
+  PayloadDecoderAssignment,
+  SparkplugMessageInfo,
+} from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import { bytesToHex } from '@shared/utils/bytes';
+import { decodePayloadBytes, findAssignedDecoder, stringifyDecodedValue } from '@shared/utils/payloadDecoders';
+import type { DecodedPayload } from '@shared/utils/payloadDecoders';
+import { decodeProtobufForTopic } from './protobufDecoder';
+
+type Payload = MqttMessage['payload'];
+
+// Payload decoder assignments of each saved connection profile, by connection ID
+let decoderAssignments: Record<string, PayloadDecoderAssignment[]> = {};
+let removeProfilesListener: (() => void) | null = null;
+
+// Decoded payloads by payload, so lists don't decode on every render
+// (replaced whenever the assignments change)
+let decodedCache = new WeakMap<object, DecodedPayload>();
+
+/**
+ * Get the raw bytes of a payload
+ * Payloads arrive over IPC as Uint8Array; strings only come from older recordings
+ */
+export function getPayloadBytes(payload: Payload): Uint8Array {
+  if (typeof payload === 'string') {
+    return new TextEncoder().encode(payload);
+  }
+  return payload;
+}
+
+/**
+ * Get a payload as a Buffer (for the binary readers in the `buffer` polyfill)
+ */
+export function getPayloadBuffer(payload: Payload): Buffer {
+  if (typeof payload === 'string') {
+    return Buffer.from(payload, 'utf-8');
+  }
+  return Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength);
+}
+
+/**
+ * Get the text of a message payload
+ * Uses the pre-decoded preview from the main process when available, otherwise
+ * decodes leniently (invalid UTF-8 sequences become U+FFFD)
+ */
+export function getPayloadText(message: Pick<MqttMessage, 'payload' | 'payloadText'>): string {
+  if (message.payloadText !== undefined) {
+    return message.payloadText;
+  }
+  if (typeof message.payload === 'string') {
+    return message.payload;
+  }
+  return new TextDecoder('utf-8').decode(message.payload);
+}
+
+/**
+ * Check if a message payload is valid UTF-8 text
+ */
+export function isTextPayload(message: Pick<MqttMessage, 'payload' | 'payloadText'>): boolean {
+  if (message.payloadText !== undefined || typeof message.payload === 'string') {
+    return true;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(message.payload);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format payload bytes as space-separated hex
+ */
+export function toHex(bytes: Uint8Array): string {
+  return bytesToHex(bytes);
+}
+
+/**
+ * Load the payload decoder assignments of the saved connection profiles and
+ * keep them in sync
+ */
+export async function initPayloadDecoderAssignments(): Promise<void> {
+  if (!removeProfilesListener) {
+    removeProfilesListener = window.electronAPI.on(IPC_CHANNELS.CONNECTION_PROFILES_UPDATED, () => {
+      initPayloadDecoderAssignments();
+    });
+  }
+
+  try {
+    const profiles: ConnectionConfig[] = await window.electronAPI.invoke(IPC_CHANNELS.CONNECTION_LIST);
+    decoderAssignments = Object.fromEntries(
+      profiles.filter((profile) => profile.id).map((profile) => [profile.id!, profile.payloadDecoders ?? []])
+    );
+    decodedCache = new WeakMap();
+  } catch (error) {
+    console.error('Failed to load payload decoder assignments:', error);
+  }
+}
+
+/**
+ * Decode a message payload with the decoder its connection profile assigns to
+ * the topic, or by auto-detection
+ */
+export function decodeMessagePayload(
+  message: Pick<MqttMessage, 'topic' | 'payload' | 'connectionId'>
+): DecodedPayload {
+  const cacheKey = typeof message.payload === 'string' ? undefined : message.payload;
+  const cached = cacheKey && decodedCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const assignments = message.connectionId ? decoderAssignments[message.connectionId] : undefined;
+  const decoded = decodePayloadBytes(
+    getPayloadBytes(message.payload),
+    findAssignedDecoder(message.topic, assignments)
+  );
+  if (cacheKey) {
+    decodedCache.set(cacheKey, decoded);
+  }
+  return decoded;
+}
+
+/**
+ * Single-line payload preview for lists and the topic tree
+ * Sparkplug B payloads are summarised as name=value pairs, Protobuf payloads
+ * with a mapped schema and other structured payloads as compact JSON, and
+ * payloads no decoder understands as hex.
+ */
+export function getPayloadPreview(
+  message: Pick<MqttMessage, 'topic' | 'payload' | 'sparkplug' | 'connectionId'>,
+  maxLength = 80
+): string {
+  const protobufResult = decodeProtobufForTopic(message.topic, getPayloadBytes(message.payload));
+
+  let preview: string;
+  if (message.sparkplug) {
+    preview = formatSparkplugSummary(message.sparkplug);
+  } else if (protobufResult?.success) {
+    preview = JSON.stringify(protobufResult.data);
+  } else {
+    const decoded = decodeMessagePayload(message);
+    preview = decoded.format === 'json' ? stringifyDecodedValue(decoded.value) : decoded.text;
+  }
+
+  return preview.length > maxLength ? preview.substring(0, maxLength) + '...' : preview;
+}
+
+/**
+ * Summarise a Sparkplug B payload as "NDATA temp=21.5, rpm=1200"
+ */
+export function formatSparkplugSummary(sparkplug: SparkplugMessageInfo): string {
+  const metrics = sparkplug.metrics.map((metric) => {
+    const name = metric.name ?? `#${metric.alias}`;
+    const value = typeof metric.value === 'object' && metric.value !== null
+      ? metric.datatype
+      : String(metric.value);
+    return `${name}=${value}`;
+  });
+  return `${sparkplug.messageType} ${metrics.join(', ')}`.trim();
+}
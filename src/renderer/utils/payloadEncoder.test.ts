@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { decode as msgpackDecode } from '@msgpack/msgpack';
+import { decodeCbor } from '@shared/utils/cbor';
+import { encodePublishPayload } from './payloadEncoder';
+
+describe('encodePublishPayload', () => {
+  it('sends text and JSON as strings', () => {
+    expect(encodePublishPayload('hello', 'text')).toBe('hello');
+    expect(encodePublishPayload('{"a":1}', 'json')).toBe('{"a":1}');
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => encodePublishPayload('{a:1}', 'json')).toThrow('Invalid JSON payload');
+    expect(() => encodePublishPayload('{a:1}', 'msgpack')).toThrow('entered as JSON');
+    expect(() => encodePublishPayload('{a:1}', 'cbor')).toThrow('entered as JSON');
+  });
+
+  it('encodes hex and base64 as bytes', () => {
+    expect(() => encodePublishPayload('xyz', 'hex')).toThrow('may only contain 0-9 and a-f');
+    expect(encodePublishPayload('de ad be ef', 'hex')).toEqual(new Uint8Array([0xde, 0xad, 0xbe, 0xef]));
+    expect(encodePublishPayload('3q2+7w==', 'base64')).toEqual(new Uint8Array([0xde, 0xad, 0xbe, 0xef]));
+  });
+
+  it('encodes JSON as MessagePack and CBOR', () => {
+    const value = { id: 'a', values: [1, 2.5, -3], ok: true };
+    expect(msgpackDecode(encodePublishPayload(JSON.stringify(value), 'msgpack') as Uint8Array)).toEqual(value);
+    expect(decodeCbor(encodePublishPayload(JSON.stringify(value), 'cbor') as Uint8Array)).toEqual(value);
+  });
+});
@@ -0,0 +1,48 @@
+import { encode as msgpackEncode } from '@msgpack/msgpack';
+import type { PublishPayloadType } from '@shared/types/models';
+import { parseBase64, parseHex } from '@shared/utils/bytes';
+import { encodeCbor } from '@shared/utils/cbor';
+
+/**
+ * Encode the publisher's payload text for the given payload type
+ * Text and JSON are sent as strings; hex, base64, MessagePack and CBOR as raw bytes.
+ * @throws Error describing why the text is not valid for the type
+ */
+export function encodePublishPayload(
+  text: string,
+  payloadType: Exclude<PublishPayloadType, 'file'>
+): string | Uint8Array {
+  switch (payloadType) {
+    case 'text':
+      return text;
+    case 'json':
+      try {
+        JSON.parse(text);
+      } catch {
+        throw new Error('Invalid JSON payload');
+      }
+      return text;
+    case 'hex':
+      return parseHex(text);
+    case 'base64':
+      return parseBase64(text);
+    case 'msgpack': {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        throw new Error('MessagePack payloads are entered as JSON');
+      }
+      return msgpackEncode(value);
+    }
+    case 'cbor': {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        throw new Error('CBOR payloads are entered as JSON');
+      }
+      return encodeCbor(value);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import * as protobuf from 'protobufjs';
+import type { ProtobufRegistry, ProtobufTopicMapping } from '@shared/types/models';
+import { IPC_CHANNELS } from '@shared/types/ipc.types';
+import {
+  buildProtobufRoot,
+  decodeProtobufMessage,
+  findProtobufType as findMappedType,
+  listProtobufMessageTypes,
+  registerProtobufDecoders,
+} from '@shared/utils/protobuf';
+import type { ProtobufDecodeResult } from '@shared/utils/protobuf';
+
+// Registry state shared by every decoder call (loaded once, refreshed on updates)
+let root: protobuf.Root | null = null;
+let mappings: ProtobufTopicMapping[] = [];
+let schemaErrors: Record<string, string> = {};
+let removeUpdateListener: (() => void) | null = null;
+
+/**
+ * Build the decoder state from a registry
+ * Files that fail to parse are skipped and reported in getProtobufSchemaErrors()
+ */
+export function setProtobufRegistry(registry: ProtobufRegistry): void {
+  const built = buildProtobufRoot(registry);
+  root = built.root;
+  mappings = registry.mappings;
+  schemaErrors = built.errors;
+  registerProtobufDecoders(root);
+}
+
+/**
+ * Load the registry from the main process and keep it in sync
+ */
+export async function initProtobufRegistry(): Promise<void> {
+  if (!removeUpdateListener) {
+    removeUpdateListener = window.electronAPI.on(
+      IPC_CHANNELS.PROTOBUF_REGISTRY_UPDATED,
+      (registry: ProtobufRegistry) => setProtobufRegistry(registry)
+    );
+  }
+
+  try {
+    const registry = await window.electronAPI.invoke(IPC_CHANNELS.PROTOBUF_GET_REGISTRY);
+    setProtobufRegistry(registry);
+  } catch (error) {
+    console.error('Failed to load protobuf schemas:', error);
+  }
+}
+
+/**
+ * Get parse errors keyed by schema file ID
+ */
+export function getProtobufSchemaErrors(): Record<string, string> {
+  return schemaErrors;
+}
+
+/**
+ * List the fully-qualified message types of a root (defaults to the loaded registry)
+ */
+export function getProtobufMessageTypes(source: protobuf.Root | null = root): string[] {
+  return source ? listProtobufMessageTypes(source) : [];
+}
+
+/**
+ * Get the message type mapped to a topic (first matching mapping wins)
+ */
+export function findProtobufType(topic: string): string | undefined {
+  return findMappedType(mappings, topic);
+}
+
+/**
+ * Decode a payload as the given message type
+ */
+export function decodeProtobuf(payload: Uint8Array, typeName: string): ProtobufDecodeResult {
+  return decodeProtobufMessage(root, payload, typeName);
+}
+
+/**
+ * Decode a payload using the message type mapped to its topic
+ * Returns null when no mapping applies to the topic
+ */
+export function decodeProtobufForTopic(
+  topic: string,
+  payload: Uint8Array
+): ProtobufDecodeResult | null {
+  const typeName = findProtobufType(topic);
+  return typeName ? decodeProtobuf(payload, typeName) : null;
+}
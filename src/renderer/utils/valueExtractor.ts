@@ -1,26 +1,50 @@
-import { decode as msgpackDecode } from '@msgpack/msgpack';
-import { Buffer } from 'buffer';
+import { CborTag } from '@shared/utils/cbor';
+import { decodeMessagePayload, getPayloadBuffer } from './payload';
+import { decodeProtobufForTopic } from './protobufDecoder';
 
 export interface ValueExtractionResult {
   value: number | null;
   error?: string;
-  format: 'raw' | 'json' | 'msgpack' | 'binary' | 'unknown';
+  // 'raw', 'protobuf', 'binary' or 'unknown', or the payload decoders applied (e.g. 'gzip+json')
+  format: string;
   fieldPath?: string;
 }
 
 export interface ValueExtractorOptions {
   jsonFieldHints?: string[];
+  /** Message topic; also selects the protobuf schema and payload decoder mapped to it */
   topicHint?: string;
+  /** Connection the message came from; selects its profile's payload decoder assignments */
+  connectionId?: string;
 }
 
 /**
  * Extract numeric value from MQTT message payload
- * Tries multiple strategies: raw number → JSON fields → binary float
+ * Tries multiple strategies: protobuf schema → raw number → fields of the decoded
+ * payload (JSON, MessagePack, CBOR, ...) → binary float
  */
 export function extractValue(
-  payload: Buffer | string,
+  rawPayload: Buffer | Uint8Array | string,
   options?: ValueExtractorOptions
 ): ValueExtractionResult {
+  // Work on the real bytes so the payload decoders and binary float paths see them intact
+  const isBinary = typeof rawPayload !== 'string';
+  const payload = getPayloadBuffer(rawPayload);
+
+  // 0. Decode with the protobuf schema mapped to the topic, if any
+  if (isBinary && options?.topicHint) {
+    const protobufResult = decodeProtobufForTopic(options.topicHint, payload);
+    if (protobufResult?.success) {
+      return (
+        extractFromDecoded(protobufResult.data, 'protobuf', options) ?? {
+          value: null,
+          format: 'protobuf',
+          error: `No numeric field found in ${protobufResult.typeName}`,
+        }
+      );
+    }
+  }
+
   // 1. Try raw number parsing
   const str = payload.toString();
   const num = parseFloat(str.trim());
@@ -28,127 +52,21 @@ export function extractValue(
     return { value: num, format: 'raw' };
   }
 
-  // 2. Try JSON extraction
-  try {
-    const obj = JSON.parse(str);
-
-    // Try user-provided hints first
-    if (options?.jsonFieldHints) {
-      for (const hint of options.jsonFieldHints) {
-        if (!hint) continue;
-        const val = getNestedValue(obj, hint);
-        if (typeof val === 'number') {
-          return { value: val, format: 'json', fieldPath: hint };
-        }
-        // Try parsing string numbers
-        if (typeof val === 'string') {
-          const parsed = parseFloat(val);
-          if (!isNaN(parsed)) {
-            return { value: parsed, format: 'json', fieldPath: hint };
-          }
-        }
-      }
-    }
-
-    // Try common field names
-    const commonFields = ['value', 'data', 'reading', 'measurement', 'sensor_value', 'val'];
-    for (const field of commonFields) {
-      if (typeof obj[field] === 'number') {
-        return { value: obj[field], format: 'json', fieldPath: field };
-      }
-      // Try parsing string numbers
-      if (typeof obj[field] === 'string') {
-        const parsed = parseFloat(obj[field]);
-        if (!isNaN(parsed)) {
-          return { value: parsed, format: 'json', fieldPath: field };
-        }
-      }
-    }
-
-    // Try topic-based hint (last segment of topic path)
-    if (options?.topicHint) {
-      const lastSegment = options.topicHint.split('/').pop();
-      if (lastSegment) {
-        if (typeof obj[lastSegment] === 'number') {
-          return { value: obj[lastSegment], format: 'json', fieldPath: lastSegment };
-        }
-        // Try parsing string numbers
-        if (typeof obj[lastSegment] === 'string') {
-          const parsed = parseFloat(obj[lastSegment]);
-          if (!isNaN(parsed)) {
-            return { value: parsed, format: 'json', fieldPath: lastSegment };
-          }
-        }
-      }
-    }
-
-    // Try nested common paths
-    const nestedPaths = ['data.value', 'payload.value', 'payload.data', 'sensor.value'];
-    for (const path of nestedPaths) {
-      const val = getNestedValue(obj, path);
-      if (typeof val === 'number') {
-        return { value: val, format: 'json', fieldPath: path };
-      }
-    }
-  } catch {
-    // JSON parsing failed, continue to msgpack
-  }
-
-  // 3. Try MessagePack decoding
-  if (Buffer.isBuffer(payload)) {
-    try {
-      const decoded = msgpackDecode(payload) as any;
-
-      // If decoded value is directly a number
-      if (typeof decoded === 'number') {
-        return { value: decoded, format: 'msgpack' };
-      }
-
-      // If decoded is an object, try to extract numeric fields
-      if (typeof decoded === 'object' && decoded !== null) {
-        // Try user-provided hints first
-        if (options?.jsonFieldHints) {
-          for (const hint of options.jsonFieldHints) {
-            if (!hint) continue;
-            const val = getNestedValue(decoded, hint);
-            if (typeof val === 'number') {
-              return { value: val, format: 'msgpack', fieldPath: hint };
-            }
-          }
-        }
-
-        // Try common field names
-        const commonFields = ['value', 'data', 'reading', 'measurement', 'sensor_value', 'val'];
-        for (const field of commonFields) {
-          if (typeof decoded[field] === 'number') {
-            return { value: decoded[field], format: 'msgpack', fieldPath: field };
-          }
-        }
-
-        // Try topic-based hint
-        if (options?.topicHint) {
-          const lastSegment = options.topicHint.split('/').pop();
-          if (lastSegment && typeof decoded[lastSegment] === 'number') {
-            return { value: decoded[lastSegment], format: 'msgpack', fieldPath: lastSegment };
-          }
-        }
-
-        // Try nested common paths
-        const nestedPaths = ['data.value', 'payload.value', 'payload.data', 'sensor.value'];
-        for (const path of nestedPaths) {
-          const val = getNestedValue(decoded, path);
-          if (typeof val === 'number') {
-            return { value: val, format: 'msgpack', fieldPath: path };
-          }
-        }
-      }
-    } catch {
-      // MessagePack decoding failed, continue to binary
+  // 2. Decode the payload and look for a numeric field
+  const decoded = decodeMessagePayload({
+    topic: options?.topicHint ?? '',
+    payload: rawPayload,
+    connectionId: options?.connectionId,
+  });
+  if (decoded.format === 'json') {
+    const result = extractFromDecoded(decoded.value, decoded.decoders.join('+'), options);
+    if (result) {
+      return result;
     }
   }
 
-  // 4. Try binary float extraction
-  if (Buffer.isBuffer(payload)) {
+  // 3. Try binary float extraction
+  if (isBinary) {
     // Try 4-byte float (IEEE 754 single precision)
     if (payload.length === 4) {
       try {
@@ -192,7 +110,7 @@ export function extractValue(
     }
   }
 
-  // 5. Failed to extract
+  // 4. Failed to extract
   return {
     value: null,
     format: 'unknown',
@@ -200,10 +118,102 @@ export function extractValue(
   };
 }
 
+/**
+ * Unwrap a CBOR tagged item (e.g. an epoch timestamp or a bignum) to its content
+ */
+function untag(val: unknown): unknown {
+  return val instanceof CborTag ? untag(val.value) : val;
+}
+
+/**
+ * Read a field as a number, parsing numeric strings
+ */
+function toNumber(field: unknown): number | null {
+  const val = untag(field);
+  if (typeof val === 'number') {
+    return val;
+  }
+  if (typeof val === 'string') {
+    const parsed = parseFloat(val);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Extract a numeric field from a decoded payload (JSON, MessagePack, CBOR, protobuf, ...)
+ */
+function extractFromDecoded(
+  payload: unknown,
+  format: string,
+  options?: ValueExtractorOptions
+): ValueExtractionResult | null {
+  const decoded = untag(payload);
+
+  // If decoded value is directly a number
+  if (typeof decoded === 'number') {
+    return { value: decoded, format };
+  }
+
+  if (typeof decoded !== 'object' || decoded === null) {
+    return null;
+  }
+
+  // Try user-provided hints first
+  if (options?.jsonFieldHints) {
+    for (const hint of options.jsonFieldHints) {
+      if (!hint) continue;
+      const val = toNumber(getNestedValue(decoded, hint));
+      if (val !== null) {
+        return { value: val, format, fieldPath: hint };
+      }
+    }
+  }
+
+  // Try common field names
+  const commonFields = ['value', 'data', 'reading', 'measurement', 'sensor_value', 'val'];
+  for (const field of commonFields) {
+    const val = toNumber(getNestedValue(decoded, field));
+    if (val !== null) {
+      return { value: val, format, fieldPath: field };
+    }
+  }
+
+  // Try topic-based hint (last segment of topic path)
+  if (options?.topicHint) {
+    const lastSegment = options.topicHint.split('/').pop();
+    const val = lastSegment ? toNumber(getField(decoded, lastSegment)) : null;
+    if (val !== null) {
+      return { value: val, format, fieldPath: lastSegment };
+    }
+  }
+
+  // Try nested common paths
+  const nestedPaths = ['data.value', 'payload.value', 'payload.data', 'sensor.value'];
+  for (const path of nestedPaths) {
+    const val = untag(getNestedValue(decoded, path));
+    if (typeof val === 'number') {
+      return { value: val, format, fieldPath: path };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Get nested value from object using dot notation path
  * @example getNestedValue({a: {b: 5}}, 'a.b') => 5
  */
-function getNestedValue(obj: any, path: string): any {
-  return path.split('.').reduce((curr, prop) => curr?.[prop], obj);
+function getNestedValue(value: unknown, path: string): unknown {
+  return path.split('.').reduce((current, key) => getField(current, key), value);
+}
+
+/**
+ * Get an object's own field, looking through CBOR tags
+ */
+function getField(value: unknown, key: string): unknown {
+  const container = untag(value);
+  return typeof container === 'object' && container !== null && Object.prototype.hasOwnProperty.call(container, key)
+    ? (container as Record<string, unknown>)[key]
+    : undefined;
 }
@@ -0,0 +1,190 @@
+import zlib from 'zlib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AlertCondition, AlertRule, MqttMessage } from '../../../shared/types/models';
+import { encodeCbor } from '../../../shared/utils/cbor';
+import { AlertEngine } from './AlertEngine';
+import type { RaisedAlert } from './AlertEngine';
+
+function rule(condition: AlertCondition, overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 'rule-1',
+    name: 'Rule',
+    enabled: true,
+    topicPattern: 'sensors/#',
+    condition,
+    cooldownSeconds: 0,
+    notify: false,
+    ...overrides,
+  };
+}
+
+function message(payload: string | Uint8Array, topic = 'sensors/temp'): MqttMessage {
+  return {
+    id: 'msg',
+    topic,
+    payload: Buffer.from(payload),
+    qos: 0,
+    retained: false,
+    timestamp: Date.now(),
+    connectionId: 'conn-1',
+  };
+}
+
+describe('AlertEngine', () => {
+  let engine: AlertEngine;
+  let alerts: RaisedAlert[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2030, 0, 1));
+    engine = new AlertEngine();
+    alerts = [];
+    engine.on('alert', (alert: RaisedAlert) => alerts.push(alert));
+  });
+
+  afterEach(() => {
+    engine.stop();
+    vi.useRealTimers();
+  });
+
+  describe('threshold rules', () => {
+    it('compares plain numbers and JSON fields with the limits', () => {
+      engine.setRules([rule({ type: 'threshold', min: 0, max: 30 })]);
+      ['12', '31', '-5', 'not a number'].forEach((payload) => engine.handleMessage(message(payload)));
+
+      engine.setRules([rule({ type: 'threshold', fieldPath: 'data.readings.1', max: 30 }, { id: 'rule-2' })]);
+      engine.handleMessage(message('{"data":{"readings":[40,35]}}'));
+
+      expect(alerts.map((alert) => [alert.message, alert.value])).toEqual([
+        ['31 is above 30', 31],
+        ['-5 is below 0', -5],
+        ['data.readings.1 35 is above 30', 35],
+      ]);
+    });
+
+    it('reads values from payloads any decoder understands', () => {
+      engine.setRules([rule({ type: 'threshold', fieldPath: 't', max: 30 })]);
+      engine.handleMessage(message(zlib.gzipSync('{"t":31}')));
+      engine.handleMessage(message(encodeCbor({ t: 32 })));
+
+      expect(alerts.map((alert) => alert.value)).toEqual([31, 32]);
+    });
+
+    it('decodes payloads with the decoder assigned to the topic', () => {
+      engine.setRules([rule({ type: 'threshold', fieldPath: 't', max: 30 })]);
+      const payload = Buffer.from('{"t":33}').toString('base64');
+
+      engine.handleMessage(message(payload));
+      expect(alerts).toEqual([]);
+
+      engine.setDecoderAssignments({ 'conn-1': [{ topicPattern: 'sensors/+', decoder: 'base64' }] });
+      engine.handleMessage(message(payload));
+      expect(alerts.map((alert) => alert.value)).toEqual([33]);
+    });
+
+    it('only follows own fields of the payload', () => {
+      engine.setRules([rule({ type: 'threshold', fieldPath: 'length', max: 0 })]);
+      engine.handleMessage(message('"abc"'));
+      engine.handleMessage(message('{"length":1}'));
+
+      expect(alerts.map((alert) => alert.value)).toEqual([1]);
+    });
+
+    it('waits for the cooldown before alerting on a topic again', () => {
+      engine.setRules([rule({ type: 'threshold', max: 30 }, { cooldownSeconds: 10 })]);
+      engine.handleMessage(message('31'));
+      engine.handleMessage(message('32'));
+      engine.handleMessage(message('33', 'sensors/other'));
+      vi.advanceTimersByTime(10_000);
+      engine.handleMessage(message('34'));
+
+      expect(alerts.map((alert) => [alert.topic, alert.value])).toEqual([
+        ['sensors/temp', 31],
+        ['sensors/other', 33],
+        ['sensors/temp', 34],
+      ]);
+    });
+  });
+
+  it('raises regex alerts on matching payload text', () => {
+    engine.setRules([rule({ type: 'regex', pattern: 'error|fault', flags: 'gi' })]);
+    ['ok', 'FAULT 12', 'Error', 'fine'].forEach((payload) => engine.handleMessage(message(payload)));
+
+    expect(alerts).toHaveLength(2);
+  });
+
+  describe('rate rules', () => {
+    it('alerts when more messages arrive in the window than the limit allows', () => {
+      engine.setRules([rule({ type: 'rate', maxPerSecond: 1, windowSeconds: 5 })]);
+      for (let i = 0; i < 6; i++) {
+        engine.handleMessage(message('x', `sensors/${i}`));
+      }
+
+      expect(alerts).toEqual([
+        expect.objectContaining({ topic: 'sensors/#', message: '1.2 msg/s over the last 5s (limit 1/s)', value: 1.2 }),
+      ]);
+    });
+
+    it('forgets arrivals that left the window', () => {
+      engine.setRules([rule({ type: 'rate', maxPerSecond: 1, windowSeconds: 5 })]);
+      for (let i = 0; i < 100; i++) {
+        engine.handleMessage(message('x'));
+        vi.advanceTimersByTime(1000);
+      }
+      expect(alerts).toEqual([]);
+
+      for (let i = 0; i < 5; i++) {
+        engine.handleMessage(message('x'));
+      }
+      // Those of the last 4 seconds are still counted, so the second message goes over the limit
+      expect(alerts.map((alert) => alert.value)).toEqual([1.2, 1.4, 1.6, 1.8]);
+    });
+
+    it('counts each connection separately', () => {
+      engine.setRules([rule({ type: 'rate', maxPerSecond: 1, windowSeconds: 2 })]);
+      for (let i = 0; i < 2; i++) {
+        engine.handleMessage(message('x'));
+        engine.handleMessage({ ...message('x'), connectionId: 'conn-2' });
+      }
+      expect(alerts).toEqual([]);
+    });
+  });
+
+  describe('absence rules', () => {
+    it('reports topics that went silent once, until they publish again', () => {
+      engine.setRules([rule({ type: 'absence', seconds: 5 })]);
+      engine.start();
+      engine.handleMessage(message('x'));
+
+      vi.advanceTimersByTime(4000);
+      expect(alerts).toEqual([]);
+      vi.advanceTimersByTime(10_000);
+      expect(alerts.map((alert) => [alert.topic, alert.message])).toEqual([['sensors/temp', 'No messages for 5s']]);
+
+      engine.handleMessage(message('x'));
+      vi.advanceTimersByTime(6000);
+      expect(alerts).toHaveLength(2);
+    });
+
+    it('forgets the topics of a closed connection', () => {
+      engine.setRules([rule({ type: 'absence', seconds: 5 })]);
+      engine.start();
+      engine.handleMessage(message('x'));
+      engine.clearConnection('conn-1');
+
+      vi.advanceTimersByTime(10_000);
+      expect(alerts).toEqual([]);
+    });
+  });
+
+  it('keeps the state of unchanged rules when the rules are replaced', () => {
+    const rateRule = rule({ type: 'rate', maxPerSecond: 1, windowSeconds: 2 });
+    engine.setRules([rateRule]);
+    engine.handleMessage(message('x'));
+    engine.handleMessage(message('x'));
+    engine.setRules([{ ...rateRule }, rule({ type: 'regex', pattern: 'y' }, { id: 'rule-2' })]);
+    engine.handleMessage(message('x'));
+
+    expect(alerts.map((alert) => alert.conditionType)).toEqual(['rate']);
+  });
+});
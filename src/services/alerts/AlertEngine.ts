@@ -0,0 +1,358 @@
+import { EventEmitter } from 'events';
+import { decodePayloadText, toPayloadBuffer } from '../mqtt/payload';
+import { decodePayloadBytes, findAssignedDecoder } from '../../../shared/utils/payloadDecoders';
+import { topicMatchesFilter } from '../../../shared/utils/topicMatch';
+import type { AlertEvent, AlertRule, MqttMessage, PayloadDecoderAssignment } from '../../../shared/types/models';
+
+// How often topics watched by absence rules are checked for silence
+const ABSENCE_CHECK_INTERVAL_MS = 1000;
+
+// Alert as raised by the engine, before it is logged and given an ID
+export type RaisedAlert = Omit<AlertEvent, 'id'>;
+
+/**
+ * Arrival times within a sliding window, oldest first
+ * Times that left the window are dropped from the front by moving a start
+ * index; the array is compacted once most of it has been dropped.
+ */
+class ArrivalWindow {
+  private times: number[] = [];
+  private start = 0;
+
+  /**
+   * Record an arrival and drop those at or before the window start
+   * @returns The number of arrivals in the window
+   */
+  add(time: number, windowStart: number): number {
+    while (this.start < this.times.length && this.times[this.start] <= windowStart) {
+      this.start++;
+    }
+    if (this.start > this.times.length / 2) {
+      this.times.splice(0, this.start);
+      this.start = 0;
+    }
+    this.times.push(time);
+    return this.times.length - this.start;
+  }
+}
+
+interface TopicSeen {
+  topic: string;
+  connectionId?: string;
+  timestamp: number;
+}
+
+interface RuleState {
+  // Serialized rule, so unchanged rules keep their state when the rules are saved
+  signature: string;
+  regex?: RegExp;
+  // Last alert per connection and topic, for the cooldown
+  lastRaised: Map<string, number>;
+  // Absence rules: last message per connection and topic, and those already reported silent
+  lastSeen: Map<string, TopicSeen>;
+  silent: Set<string>;
+  // Rate rules: recent arrival times per connection
+  arrivals: Map<string, ArrivalWindow>;
+}
+
+/**
+ * Evaluates alert rules against incoming messages and watches the topics of
+ * absence rules for silence. Emits 'alert' with the RaisedAlert and its rule.
+ */
+export class AlertEngine extends EventEmitter {
+  private rules: AlertRule[] = [];
+  private states: Map<string, RuleState> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private decoderAssignments: Record<string, PayloadDecoderAssignment[]> = {};
+
+  /**
+   * Replace the rules being evaluated
+   * Rules that are unchanged keep tracking what they have seen so far.
+   */
+  setRules(rules: AlertRule[]): void {
+    const states = new Map<string, RuleState>();
+
+    for (const rule of rules) {
+      const signature = JSON.stringify(rule);
+      const existing = this.states.get(rule.id);
+      states.set(
+        rule.id,
+        existing?.signature === signature ? existing : this.createState(rule, signature)
+      );
+    }
+
+    this.rules = rules;
+    this.states = states;
+  }
+
+  /**
+   * Set the payload decoders each connection profile assigns to topics, by
+   * connection ID; threshold rules read values from payloads decoded with them
+   */
+  setDecoderAssignments(assignments: Record<string, PayloadDecoderAssignment[]>): void {
+    this.decoderAssignments = assignments;
+  }
+
+  /**
+   * Start checking absence rules
+   */
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => this.checkAbsence(), ABSENCE_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop checking absence rules
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate every enabled rule whose topic pattern matches the message
+   */
+  handleMessage(message: MqttMessage): void {
+    for (const rule of this.rules) {
+      if (!rule.enabled || (rule.connectionId && rule.connectionId !== message.connectionId)) {
+        continue;
+      }
+      if (!topicMatchesFilter(message.topic, rule.topicPattern)) {
+        continue;
+      }
+
+      const state = this.states.get(rule.id);
+      if (state) {
+        this.evaluate(rule, state, message);
+      }
+    }
+  }
+
+  /**
+   * Forget what was seen on a connection (e.g. when its session is closed),
+   * so closing it doesn't report its topics as silent
+   */
+  clearConnection(connectionId: string): void {
+    for (const state of this.states.values()) {
+      for (const [key, seen] of state.lastSeen) {
+        if (seen.connectionId === connectionId) {
+          state.lastSeen.delete(key);
+          state.silent.delete(key);
+        }
+      }
+      state.arrivals.delete(connectionId);
+    }
+  }
+
+  /**
+   * Check one rule's condition against a matching message
+   */
+  private evaluate(rule: AlertRule, state: RuleState, message: MqttMessage): void {
+    const condition = rule.condition;
+    const key = `${message.connectionId ?? ''}|${message.topic}`;
+    const now = Date.now();
+
+    switch (condition.type) {
+      case 'threshold': {
+        const assignments = message.connectionId ? this.decoderAssignments[message.connectionId] : undefined;
+        const value = extractAlertValue(message, condition.fieldPath, findAssignedDecoder(message.topic, assignments));
+        if (value === null) {
+          return;
+        }
+
+        const field = condition.fieldPath ? `${condition.fieldPath} ` : '';
+        if (condition.min !== undefined && value < condition.min) {
+          this.raise(rule, state, key, message, `${field}${value} is below ${condition.min}`, value);
+        } else if (condition.max !== undefined && value > condition.max) {
+          this.raise(rule, state, key, message, `${field}${value} is above ${condition.max}`, value);
+        }
+        break;
+      }
+
+      case 'regex': {
+        const text = decodePayloadText(message.payload);
+        if (state.regex && text !== undefined && state.regex.test(text)) {
+          this.raise(rule, state, key, message, `Payload matches ${state.regex}`);
+        }
+        break;
+      }
+
+      case 'absence':
+        state.lastSeen.set(key, {
+          topic: message.topic,
+          connectionId: message.connectionId,
+          timestamp: now,
+        });
+        state.silent.delete(key);
+        break;
+
+      case 'rate': {
+        // The rate is measured across all topics matching the pattern
+        const connectionKey = message.connectionId ?? '';
+        const windowStart = now - condition.windowSeconds * 1000;
+        const arrivals = state.arrivals.get(connectionKey) ?? new ArrivalWindow();
+        state.arrivals.set(connectionKey, arrivals);
+
+        const rate = arrivals.add(now, windowStart) / condition.windowSeconds;
+        if (rate > condition.maxPerSecond) {
+          this.raise(
+            rule,
+            state,
+            `${connectionKey}|${rule.topicPattern}`,
+            { ...message, topic: rule.topicPattern },
+            `${rate.toFixed(1)} msg/s over the last ${condition.windowSeconds}s (limit ${condition.maxPerSecond}/s)`,
+            rate
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Raise an alert unless the rule already raised one for this key within its cooldown
+   */
+  private raise(
+    rule: AlertRule,
+    state: RuleState,
+    key: string,
+    message: Pick<MqttMessage, 'topic' | 'connectionId'>,
+    text: string,
+    value?: number
+  ): void {
+    const now = Date.now();
+    const last = state.lastRaised.get(key);
+    if (last !== undefined && now - last < rule.cooldownSeconds * 1000) {
+      return;
+    }
+    state.lastRaised.set(key, now);
+
+    this.emitAlert(rule, {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      conditionType: rule.condition.type,
+      topic: message.topic,
+      connectionId: message.connectionId,
+      message: text,
+      value,
+      timestamp: now,
+    });
+  }
+
+  /**
+   * Report topics of absence rules that have gone silent (once until they publish again)
+   */
+  private checkAbsence(): void {
+    const now = Date.now();
+
+    for (const rule of this.rules) {
+      const condition = rule.condition;
+      const state = this.states.get(rule.id);
+      if (!rule.enabled || condition.type !== 'absence' || !state) {
+        continue;
+      }
+
+      for (const [key, seen] of state.lastSeen) {
+        if (state.silent.has(key) || now - seen.timestamp < condition.seconds * 1000) {
+          continue;
+        }
+
+        state.silent.add(key);
+        this.emitAlert(rule, {
+          ruleId: rule.id,
+          ruleName: rule.name,
+          conditionType: condition.type,
+          topic: seen.topic,
+          connectionId: seen.connectionId,
+          message: `No messages for ${condition.seconds}s`,
+          timestamp: now,
+        });
+      }
+    }
+  }
+
+  /**
+   * Emit an alert; listener errors are logged so they don't break message handling
+   */
+  private emitAlert(rule: AlertRule, alert: RaisedAlert): void {
+    try {
+      this.emit('alert', alert, rule);
+    } catch (error) {
+      console.error('Failed to handle alert:', error);
+    }
+  }
+
+  /**
+   * Create the tracking state for a rule
+   */
+  private createState(rule: AlertRule, signature: string): RuleState {
+    const state: RuleState = {
+      signature,
+      lastRaised: new Map(),
+      lastSeen: new Map(),
+      silent: new Set(),
+      arrivals: new Map(),
+    };
+
+    if (rule.condition.type === 'regex') {
+      try {
+        // Global/sticky flags would make test() stateful between messages
+        state.regex = new RegExp(rule.condition.pattern, rule.condition.flags?.replace(/[gy]/g, ''));
+      } catch (error) {
+        console.error(`Invalid pattern in alert rule "${rule.name}":`, error);
+      }
+    }
+
+    return state;
+  }
+}
+
+/**
+ * Extract the numeric value a threshold rule compares
+ * Sparkplug B metrics are looked up by name; other payloads are decoded like
+ * everywhere else (with the decoder assigned to the topic, or by
+ * auto-detection) and read as a number, or with a dot-notation field path.
+ */
+function extractAlertValue(message: MqttMessage, fieldPath?: string, decoderId?: string): number | null {
+  if (message.sparkplug) {
+    const metrics = message.sparkplug.metrics;
+    const metric = fieldPath
+      ? metrics.find((entry) => entry.name === fieldPath)
+      : metrics.length === 1 ? metrics[0] : undefined;
+    return toNumber(metric?.value);
+  }
+
+  const decoded = decodePayloadBytes(toPayloadBuffer(message.payload), decoderId);
+  const value = decoded.format === 'json' ? decoded.value : decoded.text;
+  return toNumber(fieldPath ? getNestedValue(value, fieldPath) : value);
+}
+
+/**
+ * Convert a number or numeric string to a finite number
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const num = Number(value);
+    return isFinite(num) ? num : null;
+  }
+  return null;
+}
+
+/**
+ * Get a nested value by dot-notation path, e.g. "readings.0.value"
+ * Only own properties count, so a path like "constructor" finds nothing.
+ */
+function getNestedValue(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) =>
+      typeof current === 'object' && current !== null && Object.prototype.hasOwnProperty.call(current, key)
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value
+  );
+}
@@ -0,0 +1,437 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { IPC_CHANNELS } from '../../../shared/types/ipc.types';
+import type {
+  AutomationSettings,
+  AutomationStatus,
+  ConnectionConfig,
+  MessageFilter,
+  PublishOptions,
+} from '../../../shared/types/models';
+
+// Calls the IPC handler registered for a channel
+export type IpcInvoker = (channel: string, ...args: unknown[]) => Promise<unknown>;
+
+interface Operation {
+  // Map request parameters to the IPC channel and its arguments. A method, so
+  // each operation can declare the parameters it reads
+  toIpc(params: object): [string, ...unknown[]];
+}
+
+interface Route {
+  method: 'GET' | 'POST';
+  path: string;
+  operation: string;
+}
+
+const HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Numeric MessageFilter fields, parsed from GET query strings
+const NUMERIC_FILTER_FIELDS = ['startTime', 'endTime', 'qos', 'limit', 'offset'];
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Local HTTP + WebSocket API for driving the app from scripts.
+ * Every operation is forwarded to the same IPC handler the renderer uses.
+ * The server only binds to 127.0.0.1 and every request needs the access token.
+ *
+ * HTTP:      GET /api/sessions, POST /api/connect, ... (see routes)
+ * WebSocket: ws://127.0.0.1:<port>/api/ws?token=<token>
+ *            -> { "id": 1, "method": "publish", "params": { ... } }
+ *            <- { "id": 1, "result": ... } or { "id": 1, "error": "..." }
+ *            <- { "event": "message", "data": { ... } } for live traffic
+ */
+export class AutomationServer {
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private settings: AutomationSettings | null = null;
+  private lastError: string | undefined;
+  private invoke: IpcInvoker;
+  private getConnectionProfile: (id: string) => ConnectionConfig | undefined;
+
+  private readonly operations: Record<string, Operation> = {
+    getSessions: {
+      toIpc: () => [IPC_CHANNELS.MQTT_GET_SESSIONS],
+    },
+    connect: {
+      toIpc: (params: { profileId?: string; config?: ConnectionConfig; activate?: boolean }) => {
+        const config = params.profileId
+          ? this.getConnectionProfile(params.profileId)
+          : params.config;
+        if (!config) {
+          throw new HttpError(
+            params.profileId ? 404 : 400,
+            params.profileId ? `Connection profile not found: ${params.profileId}` : 'Missing profileId or config'
+          );
+        }
+        return [IPC_CHANNELS.MQTT_CONNECT, config, { activate: params.activate }];
+      },
+    },
+    disconnect: {
+      toIpc: (params: { connectionId?: string }) => [IPC_CHANNELS.MQTT_DISCONNECT, params.connectionId],
+    },
+    getSubscriptions: {
+      toIpc: (params: { connectionId?: string }) => [
+        IPC_CHANNELS.MQTT_GET_SUBSCRIPTIONS,
+        params.connectionId,
+      ],
+    },
+    subscribe: {
+      toIpc: (params: {
+        topic: string;
+        qos?: number;
+        subscriptionIdentifier?: number;
+        connectionId?: string;
+      }) => {
+        requireTopic(params);
+        return [
+          IPC_CHANNELS.MQTT_SUBSCRIBE,
+          {
+            topic: params.topic,
+            qos: params.qos ?? 0,
+            subscriptionIdentifier: params.subscriptionIdentifier,
+            connectionId: params.connectionId,
+          },
+        ];
+      },
+    },
+    unsubscribe: {
+      toIpc: (params: { topic: string; connectionId?: string }) => {
+        requireTopic(params);
+        return [
+          IPC_CHANNELS.MQTT_UNSUBSCRIBE,
+          { topic: params.topic, connectionId: params.connectionId },
+        ];
+      },
+    },
+    publish: {
+      toIpc: (params: {
+        topic: string;
+        payload?: string;
+        encoding?: 'utf-8' | 'base64';
+        options?: PublishOptions;
+        connectionId?: string;
+      }) => {
+        requireTopic(params);
+        // Binary payloads are sent base64-encoded
+        const payload =
+          params.encoding === 'base64'
+            ? new Uint8Array(Buffer.from(params.payload ?? '', 'base64'))
+            : params.payload ?? '';
+        return [
+          IPC_CHANNELS.MQTT_PUBLISH,
+          { topic: params.topic, payload, options: params.options ?? {}, connectionId: params.connectionId },
+        ];
+      },
+    },
+    searchMessages: {
+      toIpc: (params: MessageFilter) => [IPC_CHANNELS.MESSAGE_SEARCH, params],
+    },
+    getTopicTree: {
+      toIpc: (params: { connectionId?: string }) => [IPC_CHANNELS.TOPIC_TREE_GET, params.connectionId],
+    },
+    getStats: {
+      toIpc: (params: { connectionId?: string }) => [IPC_CHANNELS.MESSAGE_GET_STATS, params.connectionId],
+    },
+  };
+
+  private readonly routes: Route[] = [
+    { method: 'GET', path: '/api/sessions', operation: 'getSessions' },
+    { method: 'POST', path: '/api/connect', operation: 'connect' },
+    { method: 'POST', path: '/api/disconnect', operation: 'disconnect' },
+    { method: 'GET', path: '/api/subscriptions', operation: 'getSubscriptions' },
+    { method: 'POST', path: '/api/subscribe', operation: 'subscribe' },
+    { method: 'POST', path: '/api/unsubscribe', operation: 'unsubscribe' },
+    { method: 'POST', path: '/api/publish', operation: 'publish' },
+    { method: 'GET', path: '/api/messages', operation: 'searchMessages' },
+    { method: 'POST', path: '/api/messages/search', operation: 'searchMessages' },
+    { method: 'GET', path: '/api/topic-tree', operation: 'getTopicTree' },
+    { method: 'GET', path: '/api/stats', operation: 'getStats' },
+  ];
+
+  constructor(invoke: IpcInvoker, getConnectionProfile: (id: string) => ConnectionConfig | undefined) {
+    this.invoke = invoke;
+    this.getConnectionProfile = getConnectionProfile;
+  }
+
+  /**
+   * Start (or restart) the server with the given settings; stops it when disabled
+   */
+  async applySettings(settings: AutomationSettings): Promise<void> {
+    await this.stop();
+    this.settings = settings;
+    this.lastError = undefined;
+
+    if (!settings.enabled) {
+      return;
+    }
+
+    try {
+      await this.start(settings.port);
+      console.log(`Automation API listening on http://${HOST}:${settings.port}`);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error('Failed to start automation API:', error);
+    }
+  }
+
+  /**
+   * Stop the server and close every WebSocket client
+   */
+  async stop(): Promise<void> {
+    this.wss?.clients.forEach((client) => client.terminate());
+    this.wss?.close();
+    this.wss = null;
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      // Drop keep-alive connections so close() doesn't wait on idle clients
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Get the current settings and whether the server is listening
+   */
+  getStatus(settings: AutomationSettings): AutomationStatus {
+    const running = this.server?.listening ?? false;
+    return {
+      settings,
+      running,
+      url: running ? `http://${HOST}:${settings.port}` : undefined,
+      clientCount: this.wss?.clients.size ?? 0,
+      error: this.lastError,
+    };
+  }
+
+  /**
+   * Push an event to every connected WebSocket client
+   */
+  broadcast(event: string, data: unknown): void {
+    if (!this.wss || this.wss.clients.size === 0) {
+      return;
+    }
+
+    const frame = serialize({ event, data });
+    this.wss.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(frame);
+      }
+    });
+  }
+
+  /**
+   * Listen on 127.0.0.1 and accept WebSocket upgrades on /api/ws
+   */
+  private start(port: number): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('Automation API request failed:', error);
+      });
+    });
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url ?? '/', `http://${HOST}`);
+      if (url.pathname !== '/api/ws' || !this.isAuthorized(req, url)) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => this.handleSocket(ws));
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, HOST, () => {
+        server.removeListener('error', reject);
+        this.server = server;
+        this.wss = wss;
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Handle a REST request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url ?? '/', `http://${HOST}`);
+
+      if (!this.isAuthorized(req, url)) {
+        throw new HttpError(401, 'Unauthorized');
+      }
+
+      const route = this.routes.find((r) => r.path === url.pathname && r.method === req.method);
+      if (!route) {
+        throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+      }
+
+      const params = req.method === 'GET' ? parseQuery(url) : await readJsonBody(req);
+      const result = await this.execute(route.operation, params);
+      sendJson(res, 200, { result: result ?? null });
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Handle requests arriving over a WebSocket connection
+   */
+  private handleSocket(ws: WebSocket): void {
+    ws.on('message', async (data: RawData) => {
+      let id: unknown = null;
+      try {
+        const request = JSON.parse(data.toString());
+        id = request.id ?? null;
+        const result = await this.execute(request.method, request.params ?? {});
+        ws.send(serialize({ id, result: result ?? null }));
+      } catch (error) {
+        ws.send(serialize({ id, error: error instanceof Error ? error.message : String(error) }));
+      }
+    });
+  }
+
+  /**
+   * Run a named operation through its IPC handler
+   */
+  private async execute(operationName: string, params: object): Promise<unknown> {
+    const operation = this.operations[operationName];
+    if (!operation) {
+      throw new HttpError(404, `Unknown method: ${operationName}`);
+    }
+
+    const [channel, ...args] = operation.toIpc(params ?? {});
+    return this.invoke(channel, ...args);
+  }
+
+  /**
+   * Check the bearer token (or ?token= for clients that can't set headers)
+   */
+  private isAuthorized(req: IncomingMessage, url: URL): boolean {
+    if (!this.settings) {
+      return false;
+    }
+
+    const header = req.headers.authorization;
+    const provided = header?.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : url.searchParams.get('token');
+    if (!provided) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.settings.token);
+    const actual = Buffer.from(provided);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
+
+/**
+ * Reject requests that need a topic but don't have one
+ */
+function requireTopic(params: { topic?: string }): void {
+  if (!params.topic) {
+    throw new HttpError(400, 'Missing topic');
+  }
+}
+
+/**
+ * Read query string parameters as a flat object (numbers and booleans parsed)
+ */
+function parseQuery(url: URL): Record<string, string | number | boolean> {
+  const params: Record<string, string | number | boolean> = {};
+  url.searchParams.forEach((value, key) => {
+    if (key === 'token') {
+      return;
+    }
+    if (NUMERIC_FILTER_FIELDS.includes(key)) {
+      params[key] = Number(value);
+    } else if (value === 'true' || value === 'false') {
+      params[key] = value === 'true';
+    } else {
+      params[key] = value;
+    }
+  });
+  return params;
+}
+
+/**
+ * Read and parse a JSON request body, which must hold an object
+ */
+function readJsonBody(req: IncomingMessage): Promise<object> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf-8');
+      if (!body) {
+        resolve({});
+        return;
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+        return;
+      }
+      if (typeof parsed === 'object' && parsed !== null) {
+        resolve(parsed);
+      } else {
+        reject(new HttpError(400, 'JSON body must be an object'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Serialize a response, encoding binary payloads as base64 strings
+ */
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    // Buffer.toJSON() has already run by the time the replacer sees it
+    if (val && val.type === 'Buffer' && Array.isArray(val.data)) {
+      return Buffer.from(val.data).toString('base64');
+    }
+    if (val instanceof Uint8Array) {
+      return Buffer.from(val).toString('base64');
+    }
+    return val;
+  });
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(serialize(body));
+}
@@ -0,0 +1,254 @@
+import { EventEmitter } from 'events';
+import { MqttService } from './MqttService';
+import { TopicTree } from './TopicTree';
+import { SparkplugExplorer } from '../sparkplug/SparkplugExplorer';
+import { PayloadValidator } from '../validation/PayloadValidator';
+import type {
+  ConnectionConfig,
+  ConnectionStatus,
+  SessionInfo,
+} from '../../../shared/types/models';
+
+interface Session {
+  config: ConnectionConfig;
+  service: MqttService;
+  topicTree: TopicTree;
+  sparkplug: SparkplugExplorer;
+  validator: PayloadValidator;
+  connectedAt?: number;
+}
+
+/**
+ * Keeps several MqttService clients alive at once, keyed by connection ID.
+ * Each session owns its own subscriptions, topic tree, Sparkplug B
+ * explorer and payload validator. One session is "active" at a time; it is the default target
+ * for IPC calls that don't name a connection explicitly.
+ */
+export class ConnectionManager extends EventEmitter {
+  private sessions: Map<string, Session> = new Map();
+  private activeConnectionId: string | null = null;
+
+  /**
+   * Open (or reopen) a session for the given connection profile
+   * @param activate - If false, the session is opened without becoming the active one
+   * @returns The connection ID the session is keyed by
+   */
+  async connect(config: ConnectionConfig, activate = true): Promise<string> {
+    // Unsaved profiles (e.g. "Test Connection") still need a stable key
+    const connectionId = config.id || this.generateTemporaryId();
+    const sessionConfig: ConnectionConfig = { ...config, id: connectionId };
+
+    let session = this.sessions.get(connectionId);
+    if (session) {
+      // Reconnecting an open session starts from an empty tree (rebuilt from history by the caller)
+      session.config = sessionConfig;
+      session.validator = new PayloadValidator(sessionConfig.payloadSchemas);
+      session.topicTree.clear();
+      session.sparkplug.clear();
+    } else {
+      session = this.createSession(sessionConfig);
+      this.sessions.set(connectionId, session);
+    }
+
+    try {
+      await session.service.connect(sessionConfig);
+    } catch (error) {
+      await this.closeSession(connectionId);
+      throw error;
+    }
+
+    if (activate) {
+      // Always announce, even when reconnecting the already active session,
+      // so views reload its topic tree
+      this.activeConnectionId = connectionId;
+      this.emit('active-changed', connectionId);
+    }
+
+    return connectionId;
+  }
+
+  /**
+   * Close a session (defaults to the active one)
+   */
+  async disconnect(connectionId?: string): Promise<void> {
+    const id = connectionId ?? this.activeConnectionId;
+    if (!id || !this.sessions.has(id)) {
+      return;
+    }
+
+    await this.closeSession(id);
+
+    if (this.activeConnectionId === id) {
+      // Fall back to any other open session
+      const next = this.sessions.keys().next();
+      this.setActiveConnection(next.done ? null : next.value);
+    }
+  }
+
+  /**
+   * Close every open session
+   */
+  async disconnectAll(): Promise<void> {
+    const ids = Array.from(this.sessions.keys());
+    await Promise.all(ids.map((id) => this.closeSession(id)));
+    this.setActiveConnection(null);
+  }
+
+  /**
+   * Change which session is the default target for IPC calls
+   */
+  setActiveConnection(connectionId: string | null): void {
+    if (connectionId !== null && !this.sessions.has(connectionId)) {
+      throw new Error(`No open session for connection ${connectionId}`);
+    }
+
+    if (this.activeConnectionId === connectionId) {
+      return;
+    }
+
+    this.activeConnectionId = connectionId;
+    this.emit('active-changed', connectionId);
+  }
+
+  /**
+   * Get the active connection ID
+   */
+  getActiveConnectionId(): string | undefined {
+    return this.activeConnectionId ?? undefined;
+  }
+
+  /**
+   * Resolve an optional connection ID to a concrete one, falling back to the active session
+   */
+  resolveConnectionId(connectionId?: string): string | undefined {
+    return connectionId || this.getActiveConnectionId();
+  }
+
+  /**
+   * Get the MQTT client for a session (defaults to the active one)
+   */
+  getService(connectionId?: string): MqttService | undefined {
+    const id = this.resolveConnectionId(connectionId);
+    return id ? this.sessions.get(id)?.service : undefined;
+  }
+
+  /**
+   * Get the MQTT client for a session, throwing if it is not open
+   */
+  requireService(connectionId?: string): MqttService {
+    const service = this.getService(connectionId);
+    if (!service) {
+      throw new Error('Not connected to MQTT broker');
+    }
+    return service;
+  }
+
+  /**
+   * Get the topic tree for a session (defaults to the active one)
+   */
+  getTopicTree(connectionId?: string): TopicTree | undefined {
+    const id = this.resolveConnectionId(connectionId);
+    return id ? this.sessions.get(id)?.topicTree : undefined;
+  }
+
+  /**
+   * Get the Sparkplug B explorer for a session (defaults to the active one)
+   */
+  getSparkplugExplorer(connectionId?: string): SparkplugExplorer | undefined {
+    const id = this.resolveConnectionId(connectionId);
+    return id ? this.sessions.get(id)?.sparkplug : undefined;
+  }
+
+  /**
+   * Get the connection profile a session was opened with
+   */
+  getConfig(connectionId?: string): ConnectionConfig | undefined {
+    const id = this.resolveConnectionId(connectionId);
+    return id ? this.sessions.get(id)?.config : undefined;
+  }
+
+  /**
+   * Check if a session is open for the given connection
+   */
+  hasSession(connectionId: string): boolean {
+    return this.sessions.has(connectionId);
+  }
+
+  /**
+   * Get a summary of every open session
+   */
+  getSessions(): SessionInfo[] {
+    return Array.from(this.sessions.entries()).map(([connectionId, session]) => ({
+      connectionId,
+      name: session.config.name,
+      host: session.config.host,
+      port: session.config.port,
+      protocol: session.config.protocol,
+      status: session.service.getStatus(),
+      connectedAt: session.connectedAt,
+      active: connectionId === this.activeConnectionId,
+    }));
+  }
+
+  /**
+   * Create a session and forward its client events, tagged with the connection ID
+   */
+  private createSession(config: ConnectionConfig): Session {
+    const connectionId = config.id!;
+    const service = new MqttService();
+    const session: Session = {
+      config,
+      service,
+      topicTree: new TopicTree(),
+      sparkplug: new SparkplugExplorer(),
+      validator: new PayloadValidator(config.payloadSchemas),
+    };
+
+    service.on('message', (message) => {
+      // Sparkplug B payloads are decoded here so aliases resolve against this session's births
+      message.sparkplug = session.sparkplug.handleMessage(message);
+      message.validation = session.validator.validate(message);
+      session.topicTree.addMessage(message);
+      this.emit('message', message);
+    });
+
+    service.on('status', (status: ConnectionStatus) => {
+      if (status === 'connected') {
+        session.connectedAt = Date.now();
+      } else if (status === 'disconnected') {
+        session.connectedAt = undefined;
+      }
+      this.emit('status', connectionId, status);
+    });
+
+    service.on('error', (error: string) => {
+      this.emit('error', connectionId, error);
+    });
+
+    return session;
+  }
+
+  /**
+   * Disconnect a session's client and forget it
+   */
+  private async closeSession(connectionId: string): Promise<void> {
+    const session = this.sessions.get(connectionId);
+    if (!session) {
+      return;
+    }
+
+    try {
+      await session.service.disconnect(true);
+    } finally {
+      session.service.removeAllListeners();
+      this.sessions.delete(connectionId);
+    }
+  }
+
+  /**
+   * Generate an ID for a session opened from an unsaved profile
+   */
+  private generateTemporaryId(): string {
+    return `temp_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
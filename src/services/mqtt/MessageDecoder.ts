@@ -0,0 +1,84 @@
+import type * as protobuf from 'protobufjs';
+import type {
+  MqttMessage,
+  PayloadDecoderAssignment,
+  ProtobufRegistry,
+  ProtobufTopicMapping,
+  SparkplugMessageInfo,
+} from '../../../shared/types/models';
+import {
+  decodePayloadBytes,
+  findAssignedDecoder,
+  stringifyDecodedValue,
+} from '../../../shared/utils/payloadDecoders';
+import type { DecodedPayload } from '../../../shared/utils/payloadDecoders';
+import {
+  buildProtobufRoot,
+  decodeProtobufMessage,
+  findProtobufType,
+  registerProtobufDecoders,
+} from '../../../shared/utils/protobuf';
+import { decodeSparkplugMessage } from '../sparkplug/sparkplugB';
+import { toPayloadBuffer } from './payload';
+
+/**
+ * Decodes stored messages the way the renderer shows them, for exports:
+ * Sparkplug B payloads first, then the protobuf type mapped to the topic, then
+ * the payload decoder assigned to the topic in the connection profile (or
+ * auto-detection)
+ */
+export class MessageDecoder {
+  private protobufRoot: protobuf.Root | null = null;
+  private protobufMappings: ProtobufTopicMapping[] = [];
+
+  /**
+   * @param decoderAssignments - Payload decoder assignments by connection ID
+   * @param protobufRegistry - Protobuf schemas and the topics mapped to their types
+   * @param decodeSparkplug - Sparkplug B decoding, e.g. with an open session's metric aliases
+   */
+  constructor(
+    private readonly decoderAssignments: Record<string, PayloadDecoderAssignment[]> = {},
+    protobufRegistry?: ProtobufRegistry,
+    private readonly decodeSparkplug: (message: MqttMessage) => SparkplugMessageInfo | undefined = (message) =>
+      decodeSparkplugMessage(message)
+  ) {
+    if (protobufRegistry) {
+      this.protobufRoot = buildProtobufRoot(protobufRegistry).root;
+      this.protobufMappings = protobufRegistry.mappings;
+      // Message types assigned to topics as payload decoders
+      registerProtobufDecoders(this.protobufRoot);
+    }
+  }
+
+  /**
+   * Decode a message's payload
+   * A protobuf type that fails to decode the payload is reported in the result's
+   * error, and the payload is decoded by the payload decoders instead.
+   */
+  decode(message: MqttMessage): DecodedPayload {
+    const sparkplug = message.sparkplug ?? this.decodeSparkplug(message);
+    if (sparkplug) {
+      return {
+        decoders: ['sparkplug'],
+        format: 'json',
+        value: sparkplug,
+        text: stringifyDecodedValue(sparkplug, 2),
+      };
+    }
+
+    const bytes = toPayloadBuffer(message.payload);
+    let protobufError: string | undefined;
+    const typeName = findProtobufType(this.protobufMappings, message.topic);
+    if (typeName) {
+      const result = decodeProtobufMessage(this.protobufRoot, bytes, typeName);
+      if (result.success) {
+        return { decoders: ['protobuf'], format: 'json', value: result.data, text: result.formatted ?? '' };
+      }
+      protobufError = `Protobuf ${typeName}: ${result.error}`;
+    }
+
+    const assignments = message.connectionId ? this.decoderAssignments[message.connectionId] : undefined;
+    const decoded = decodePayloadBytes(bytes, findAssignedDecoder(message.topic, assignments));
+    return protobufError ? { ...decoded, error: decoded.error ?? protobufError } : decoded;
+  }
+}
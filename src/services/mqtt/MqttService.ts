@@ -1,8 +1,10 @@
 import * as mqtt from 'mqtt';
 import { EventEmitter } from 'events';
+import { toPayloadBuffer } from './payload';
 import type {
   ConnectionConfig,
   ConnectionStatus,
+  MessageProperties,
   MqttMessage,
   PublishOptions,
   QoS,
@@ -13,7 +15,7 @@ export class MqttService extends EventEmitter {
   private client: mqtt.MqttClient | null = null;
   private config: ConnectionConfig | null = null;
   private status: ConnectionStatus = 'disconnected';
-  private subscriptions: Map<string, QoS> = new Map();
+  private subscriptions: Map<string, Subscription> = new Map();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10;
   private isManualDisconnect = false;
@@ -165,6 +167,7 @@ export class MqttService extends EventEmitter {
             timestamp: Date.now(),
             connectionId: this.config?.id,
             userProperties: packet.properties?.userProperties,
+            properties: this.getMessageProperties(packet),
           };
 
           this.emit('message', message);
@@ -253,15 +256,17 @@ export class MqttService extends EventEmitter {
 
   /**
    * Subscribe to a topic
+   * @param subscriptionIdentifier - MQTT 5.0 identifier the broker attaches to matching messages
    */
-  async subscribe(topic: string, qos: QoS = 0): Promise<void> {
+  async subscribe(topic: string, qos: QoS = 0, subscriptionIdentifier?: number): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.client || !this.client.connected) {
         reject(new Error('Not connected to MQTT broker'));
         return;
       }
 
-      this.client.subscribe(topic, { qos }, (error) => {
+      const subscription: Subscription = { topic, qos, subscriptionIdentifier };
+      this.client.subscribe(topic, this.getSubscribeOptions(subscription), (error) => {
         if (error) {
           console.error(`Failed to subscribe to ${topic}:`, error);
           reject(error);
@@ -269,7 +274,7 @@ export class MqttService extends EventEmitter {
         }
 
         this.log(`Subscribed to topic: ${topic} (QoS ${qos})`);
-        this.subscriptions.set(topic, qos);
+        this.subscriptions.set(topic, subscription);
         resolve();
       });
     });
@@ -309,13 +314,11 @@ export class MqttService extends EventEmitter {
         return;
       }
 
-      // Build publish options with user properties for MQTT 5.0
+      // Build publish options with MQTT 5.0 properties
       const publishOptions: mqtt.IClientPublishOptions = {
         qos: options.qos,
         retain: options.retain,
-        properties: options.userProperties ? {
-          userProperties: options.userProperties,
-        } : undefined,
+        properties: this.getPublishProperties(options),
       };
 
       this.client.publish(topic, payload, publishOptions, (error) => {
@@ -342,10 +345,7 @@ export class MqttService extends EventEmitter {
    * Get all active subscriptions
    */
   getSubscriptions(): Subscription[] {
-    return Array.from(this.subscriptions.entries()).map(([topic, qos]) => ({
-      topic,
-      qos,
-    }));
+    return Array.from(this.subscriptions.values());
   }
 
   /**
@@ -370,15 +370,16 @@ export class MqttService extends EventEmitter {
       return;
     }
 
-    const topics = Array.from(this.subscriptions.entries());
-    if (topics.length === 0) {
+    const subscriptions = Array.from(this.subscriptions.values());
+    if (subscriptions.length === 0) {
       return;
     }
 
-    this.log(`Resubscribing to ${topics.length} topics...`);
+    this.log(`Resubscribing to ${subscriptions.length} topics...`);
 
-    for (const [topic, qos] of topics) {
-      this.client.subscribe(topic, { qos }, (error) => {
+    for (const subscription of subscriptions) {
+      const topic = subscription.topic;
+      this.client.subscribe(topic, this.getSubscribeOptions(subscription), (error) => {
         if (error) {
           console.error(`Failed to resubscribe to ${topic}:`, error);
         } else {
@@ -387,4 +388,65 @@ export class MqttService extends EventEmitter {
       });
     }
   }
+
+  /**
+   * Build the subscribe options for a subscription
+   */
+  private getSubscribeOptions(subscription: Subscription): mqtt.IClientSubscribeOptions {
+    return {
+      qos: subscription.qos,
+      properties: subscription.subscriptionIdentifier
+        ? { subscriptionIdentifier: subscription.subscriptionIdentifier }
+        : undefined,
+    };
+  }
+
+  /**
+   * Build the MQTT 5.0 properties of an outgoing message
+   */
+  private getPublishProperties(options: PublishOptions): mqtt.IClientPublishOptions['properties'] {
+    const { correlationData, ...properties } = options.properties ?? {};
+    const publishProperties: NonNullable<mqtt.IClientPublishOptions['properties']> = {
+      ...properties,
+      userProperties: options.userProperties,
+      correlationData: correlationData !== undefined ? toPayloadBuffer(correlationData) : undefined,
+    };
+
+    // Leave out unset properties so MQTT 3.1.1 publishes carry none
+    for (const key of Object.keys(publishProperties) as Array<keyof typeof publishProperties>) {
+      if (publishProperties[key] === undefined) {
+        delete publishProperties[key];
+      }
+    }
+    return Object.keys(publishProperties).length > 0 ? publishProperties : undefined;
+  }
+
+  /**
+   * Copy the MQTT 5.0 properties of a received message (user properties are kept separately)
+   */
+  private getMessageProperties(packet: mqtt.IPublishPacket): MessageProperties | undefined {
+    const properties = packet.properties;
+    if (!properties) {
+      return undefined;
+    }
+
+    const subscriptionIdentifier = properties.subscriptionIdentifier;
+    const messageProperties: MessageProperties = {
+      contentType: properties.contentType,
+      payloadFormatIndicator: properties.payloadFormatIndicator,
+      messageExpiryInterval: properties.messageExpiryInterval,
+      responseTopic: properties.responseTopic,
+      correlationData: properties.correlationData,
+      topicAlias: properties.topicAlias,
+      subscriptionIdentifiers:
+        subscriptionIdentifier === undefined
+          ? undefined
+          : Array.isArray(subscriptionIdentifier)
+            ? subscriptionIdentifier
+            : [subscriptionIdentifier],
+    };
+
+    const hasProperties = Object.values(messageProperties).some((value) => value !== undefined);
+    return hasProperties ? messageProperties : undefined;
+  }
 }
@@ -0,0 +1,186 @@
+import { randomUUID } from 'crypto';
+import { toPayloadBuffer } from './payload';
+import { hasWildcards } from '../../../shared/utils/topicMatch';
+import type { MqttService } from './MqttService';
+import type { MqttMessage, MqttRequest, MqttRequestResult } from '../../../shared/types/models';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Response topics generated for requests that don't name one
+const RESPONSE_TOPIC_PREFIX = 'mqtt-voyager/responses';
+
+interface ResponseSubscription {
+  waiting: number; // Requests waiting on the topic
+  ready: Promise<void>; // Resolves once the broker has acknowledged the subscription
+}
+
+interface PendingRequest {
+  connectionId: string;
+  responseTopic: string;
+  resolve: (response: MqttMessage | undefined) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Sends MQTT 5.0 requests and matches their replies by correlation data.
+ * A response topic the session isn't subscribed to is subscribed for as
+ * long as requests are waiting on it.
+ */
+export class RequestResponseTester {
+  // Requests waiting for a reply, keyed by correlation ID
+  private pending: Map<string, PendingRequest> = new Map();
+  // Response topics subscribed by the tester, keyed by connection ID and topic
+  private subscriptions: Map<string, ResponseSubscription> = new Map();
+
+  /**
+   * Publish a request and wait for its reply (or the timeout)
+   */
+  async send(service: MqttService, connectionId: string, request: MqttRequest): Promise<MqttRequestResult> {
+    const correlationId = randomUUID();
+    const responseTopic = request.responseTopic || `${RESPONSE_TOPIC_PREFIX}/${correlationId}`;
+    if (hasWildcards(responseTopic)) {
+      throw new Error('Response topic must not contain wildcards');
+    }
+
+    const ownsSubscription = await this.acquireSubscription(service, connectionId, responseTopic, request);
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      // Registered before publishing, as the reply may arrive before the publish completes
+      const reply = new Promise<MqttMessage | undefined>((resolve, reject) => {
+        this.pending.set(correlationId, { connectionId, responseTopic, resolve, reject });
+        timer = setTimeout(() => resolve(undefined), request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      });
+
+      const sentAt = Date.now();
+      await service.publish(request.topic, Buffer.from(request.payload, 'utf-8'), {
+        qos: request.qos,
+        retain: false,
+        properties: {
+          contentType: request.contentType || undefined,
+          responseTopic,
+          correlationData: Buffer.from(correlationId, 'utf-8'),
+        },
+      });
+
+      const response = await reply;
+      return {
+        status: response ? 'success' : 'timeout',
+        correlationId,
+        responseTopic,
+        sentAt,
+        latencyMs: response ? response.timestamp - sentAt : undefined,
+        response,
+      };
+    } finally {
+      clearTimeout(timer);
+      this.pending.delete(correlationId);
+      if (ownsSubscription) {
+        await this.releaseSubscription(service, connectionId, responseTopic);
+      }
+    }
+  }
+
+  /**
+   * Hand a received message to the request waiting for it
+   * @returns Whether the message was the reply to a pending request
+   */
+  handleMessage(message: MqttMessage): boolean {
+    const correlationData = message.properties?.correlationData;
+    if (correlationData === undefined || this.pending.size === 0) {
+      return false;
+    }
+
+    const correlationId = toPayloadBuffer(correlationData).toString('utf-8');
+    const pending = this.pending.get(correlationId);
+    // The request itself carries the same correlation data, so the topic must match too
+    if (!pending || pending.connectionId !== message.connectionId || pending.responseTopic !== message.topic) {
+      return false;
+    }
+
+    this.pending.delete(correlationId);
+    pending.resolve(message);
+    return true;
+  }
+
+  /**
+   * Fail the requests of a session that was closed
+   */
+  clearConnection(connectionId: string): void {
+    for (const [correlationId, pending] of this.pending) {
+      if (pending.connectionId === connectionId) {
+        this.pending.delete(correlationId);
+        pending.reject(new Error('Disconnected before a reply was received'));
+      }
+    }
+
+    for (const key of this.subscriptions.keys()) {
+      if (key.startsWith(`${connectionId}\n`)) {
+        this.subscriptions.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to a response topic unless the session already is
+   * @returns Whether the tester holds the subscription
+   */
+  private async acquireSubscription(
+    service: MqttService,
+    connectionId: string,
+    responseTopic: string,
+    request: MqttRequest
+  ): Promise<boolean> {
+    const key = `${connectionId}\n${responseTopic}`;
+    const existing = this.subscriptions.get(key);
+    if (existing) {
+      existing.waiting++;
+      try {
+        await existing.ready;
+        return true;
+      } catch (error) {
+        existing.waiting--;
+        throw error;
+      }
+    }
+
+    if (service.getSubscriptions().some((subscription) => subscription.topic === responseTopic)) {
+      return false;
+    }
+
+    const subscription: ResponseSubscription = {
+      waiting: 1,
+      ready: service.subscribe(responseTopic, request.qos),
+    };
+    this.subscriptions.set(key, subscription);
+    try {
+      await subscription.ready;
+      return true;
+    } catch (error) {
+      this.subscriptions.delete(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Unsubscribe from a response topic once no request is waiting on it
+   */
+  private async releaseSubscription(service: MqttService, connectionId: string, responseTopic: string): Promise<void> {
+    const key = `${connectionId}\n${responseTopic}`;
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      return; // Session was closed
+    }
+
+    if (--subscription.waiting > 0) {
+      return;
+    }
+
+    this.subscriptions.delete(key);
+    try {
+      await service.unsubscribe(responseTopic);
+    } catch (error) {
+      console.error(`Failed to unsubscribe from response topic ${responseTopic}:`, error);
+    }
+  }
+}
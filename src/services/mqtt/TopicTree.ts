@@ -1,4 +1,39 @@
-import type { MqttMessage, TopicNode } from '../../../shared/types/models';
+import type { MqttMessage, StoredTopicSummary, TopicNode, TopicStats } from '../../../shared/types/models';
+import { decodePayloadText, toPayloadBuffer } from './payload';
+import { topicMatchesFilter } from '../../../shared/utils/topicMatch';
+
+// Time constant of the decaying message rate; a steady rate is reached after about a minute
+const RATE_TIME_CONSTANT_MS = 60_000;
+
+/**
+ * Get a node's message rate decayed to a point in time
+ */
+function decayedRate(node: TopicNode, now: number): number {
+  if (node.lastSeen === undefined) {
+    return 0;
+  }
+  return node.rate * Math.exp(-Math.max(0, now - node.lastSeen) / RATE_TIME_CONSTANT_MS);
+}
+
+/**
+ * Combine the statistics of a topic and its subtrees
+ */
+function combineStats(stats: TopicStats[]): TopicStats {
+  const seen = stats.filter((entry) => entry.messageCount > 0);
+  const messageCount = seen.reduce((sum, entry) => sum + entry.messageCount, 0);
+  const totalPayloadBytes = seen.reduce((sum, entry) => sum + entry.totalPayloadBytes, 0);
+
+  return {
+    messageCount,
+    messagesPerSecond: seen.reduce((sum, entry) => sum + entry.messagesPerSecond, 0),
+    firstSeen: seen.length > 0 ? Math.min(...seen.map((entry) => entry.firstSeen ?? Infinity)) : undefined,
+    lastSeen: seen.length > 0 ? Math.max(...seen.map((entry) => entry.lastSeen ?? 0)) : undefined,
+    minPayloadBytes: seen.length > 0 ? Math.min(...seen.map((entry) => entry.minPayloadBytes ?? Infinity)) : undefined,
+    avgPayloadBytes: messageCount > 0 ? totalPayloadBytes / messageCount : undefined,
+    maxPayloadBytes: seen.length > 0 ? Math.max(...seen.map((entry) => entry.maxPayloadBytes ?? 0)) : undefined,
+    totalPayloadBytes,
+  };
+}
 
 export class TopicTree {
   private root: Map<string, TopicNode> = new Map();
@@ -7,34 +42,35 @@ export class TopicTree {
    * Add or update a message in the topic tree
    */
   addMessage(message: MqttMessage): void {
-    const parts = message.topic.split('/');
-    let currentLevel = this.root;
-    let fullPath = '';
+    const node = this.getOrCreateNode(message.topic);
+    const size = toPayloadBuffer(message.payload).length;
 
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i];
-      fullPath = fullPath ? `${fullPath}/${part}` : part;
-
-      let node = currentLevel.get(part);
-
-      if (!node) {
-        node = {
-          name: part,
-          fullPath,
-          children: new Map(),
-          messageCount: 0,
-          subscribed: false,
-        };
-        currentLevel.set(part, node);
-      }
+    node.rate = decayedRate(node, message.timestamp) + 1000 / RATE_TIME_CONSTANT_MS;
+    node.messageCount++;
+    node.firstSeen = Math.min(node.firstSeen ?? message.timestamp, message.timestamp);
+    node.lastSeen = Math.max(node.lastSeen ?? message.timestamp, message.timestamp);
+    node.minPayloadBytes = Math.min(node.minPayloadBytes ?? size, size);
+    node.maxPayloadBytes = Math.max(node.maxPayloadBytes ?? size, size);
+    node.totalPayloadBytes += size;
+    node.lastMessage = message;
+  }
 
-      // Update message count and last message for the final node
-      if (i === parts.length - 1) {
-        node.messageCount++;
-        node.lastMessage = message;
-      }
+  /**
+   * Replace the tree with the topics of stored history
+   * Restored topics start with no message rate; their traffic is not recent.
+   */
+  rebuild(summaries: StoredTopicSummary[]): void {
+    this.clear();
 
-      currentLevel = node.children;
+    for (const summary of summaries) {
+      const node = this.getOrCreateNode(summary.lastMessage.topic);
+      node.messageCount = summary.messageCount;
+      node.firstSeen = summary.firstSeen;
+      node.lastSeen = summary.lastMessage.timestamp;
+      node.minPayloadBytes = summary.minPayloadBytes;
+      node.maxPayloadBytes = summary.maxPayloadBytes;
+      node.totalPayloadBytes = summary.totalPayloadBytes;
+      node.lastMessage = summary.lastMessage;
     }
   }
 
@@ -81,42 +117,37 @@ export class TopicTree {
   }
 
   /**
-   * Get all topics matching a pattern (supports + and # wildcards)
+   * Get all topics in the tree matching a topic filter (supports + and # wildcards)
    */
-  getMatchingTopics(pattern: string): string[] {
+  getMatchingTopics(filter: string): string[] {
     const topics: string[] = [];
-    const patternParts = pattern.split('/');
-
-    const traverse = (node: TopicNode, depth: number): void => {
-      const patternPart = patternParts[depth];
-
-      // Exact match or single-level wildcard (+)
-      if (patternPart === node.name || patternPart === '+') {
-        if (depth === patternParts.length - 1) {
-          // We've reached the end of the pattern
-          topics.push(node.fullPath);
-        } else {
-          // Continue traversing children
-          node.children.forEach((child) => traverse(child, depth + 1));
-        }
-      }
 
-      // Multi-level wildcard (#) matches everything from this point
-      if (patternPart === '#') {
+    const traverse = (node: TopicNode): void => {
+      if (topicMatchesFilter(node.fullPath, filter)) {
         topics.push(node.fullPath);
-        node.children.forEach((child) => traverseAll(child));
       }
+      node.children.forEach((child) => traverse(child));
     };
 
-    const traverseAll = (node: TopicNode): void => {
-      topics.push(node.fullPath);
-      node.children.forEach((child) => traverseAll(child));
-    };
+    this.root.forEach((node) => traverse(node));
+    return topics;
+  }
 
-    // Start traversal from root
-    this.root.forEach((node) => traverse(node, 0));
+  /**
+   * Get the last message of every topic matching a topic filter
+   */
+  getLastMessages(filter = '#'): MqttMessage[] {
+    const messages: MqttMessage[] = [];
 
-    return topics;
+    const traverse = (node: TopicNode): void => {
+      if (node.lastMessage && topicMatchesFilter(node.fullPath, filter)) {
+        messages.push(node.lastMessage);
+      }
+      node.children.forEach((child) => traverse(child));
+    };
+
+    this.root.forEach((node) => traverse(node));
+    return messages;
   }
 
   /**
@@ -160,9 +191,25 @@ export class TopicTree {
 
   /**
    * Export tree structure for serialization
+   * Each node carries its own statistics and those of its whole subtree.
    */
   toJSON(): any {
+    const now = Date.now();
+
     const convertNode = (node: TopicNode): any => {
+      const children = Array.from(node.children.values()).map(convertNode);
+      const stats: TopicStats = {
+        messageCount: node.messageCount,
+        messagesPerSecond: decayedRate(node, now),
+        firstSeen: node.firstSeen,
+        lastSeen: node.lastSeen,
+        minPayloadBytes: node.minPayloadBytes,
+        avgPayloadBytes: node.messageCount > 0 ? node.totalPayloadBytes / node.messageCount : undefined,
+        maxPayloadBytes: node.maxPayloadBytes,
+        totalPayloadBytes: node.totalPayloadBytes,
+      };
+      const subtreeStats = combineStats([stats, ...children.map((child) => child.subtreeStats)]);
+
       return {
         name: node.name,
         fullPath: node.fullPath,
@@ -171,16 +218,53 @@ export class TopicTree {
         lastMessage: node.lastMessage
           ? {
               topic: node.lastMessage.topic,
-              payload: node.lastMessage.payload.toString(),
+              payload: node.lastMessage.payload,
+              payloadText: decodePayloadText(node.lastMessage.payload),
+              sparkplug: node.lastMessage.sparkplug,
               qos: node.lastMessage.qos,
               retained: node.lastMessage.retained,
               timestamp: node.lastMessage.timestamp,
+              connectionId: node.lastMessage.connectionId, // Selects the profile's payload decoders
             }
           : undefined,
-        children: Array.from(node.children.values()).map(convertNode),
+        stats,
+        subtreeStats,
+        children,
       };
     };
 
     return Array.from(this.root.values()).map(convertNode);
   }
+
+  /**
+   * Find the node of a topic, creating it and its parents if needed
+   */
+  private getOrCreateNode(topic: string): TopicNode {
+    const parts = topic.split('/');
+    let currentLevel = this.root;
+    let fullPath = '';
+    let node: TopicNode | undefined;
+
+    for (const part of parts) {
+      fullPath = fullPath ? `${fullPath}/${part}` : part;
+      node = currentLevel.get(part);
+
+      if (!node) {
+        node = {
+          name: part,
+          fullPath,
+          children: new Map(),
+          messageCount: 0,
+          subscribed: false,
+          rate: 0,
+          totalPayloadBytes: 0,
+        };
+        currentLevel.set(part, node);
+      }
+
+      currentLevel = node.children;
+    }
+
+    return node!;
+  }
 }
@@ -0,0 +1,44 @@
+import type { MqttMessage } from '../../../shared/types/models';
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Get a payload as a Buffer without copying when it already is one
+ */
+export function toPayloadBuffer(payload: MqttMessage['payload']): Buffer {
+  if (Buffer.isBuffer(payload)) {
+    return payload;
+  }
+  if (typeof payload === 'string') {
+    return Buffer.from(payload, 'utf-8');
+  }
+  return Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength);
+}
+
+/**
+ * Decode a payload as UTF-8 text
+ * @returns The text, or undefined if the payload is not valid UTF-8
+ */
+export function decodePayloadText(payload: MqttMessage['payload']): string | undefined {
+  if (typeof payload === 'string') {
+    return payload;
+  }
+  try {
+    return utf8Decoder.decode(payload);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Prepare a message for IPC: the payload crosses as raw bytes (Uint8Array in
+ * the renderer) alongside a text preview when the bytes are valid UTF-8
+ */
+export function toRendererMessage(message: MqttMessage): MqttMessage {
+  const payload = toPayloadBuffer(message.payload);
+  return {
+    ...message,
+    payload,
+    payloadText: decodePayloadText(payload),
+  };
+}
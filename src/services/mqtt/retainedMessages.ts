@@ -0,0 +1,26 @@
+import type { MqttMessage } from '../../../shared/types/models';
+
+/**
+ * Combine the retained messages stored in history with the topic tree's last
+ * messages, which also cover messages received while history was cleared
+ * A newer empty message on a topic means its retained message was cleared.
+ * @returns The current retained message of each topic, sorted by topic
+ */
+export function mergeRetainedMessages(stored: MqttMessage[], lastMessages: MqttMessage[]): MqttMessage[] {
+  const retained = new Map(stored.map((message) => [message.topic, message]));
+
+  for (const message of lastMessages) {
+    const known = retained.get(message.topic);
+    if (known && known.timestamp >= message.timestamp) {
+      continue;
+    }
+
+    if (message.payload.length === 0) {
+      retained.delete(message.topic);
+    } else if (message.retained) {
+      retained.set(message.topic, message);
+    }
+  }
+
+  return Array.from(retained.values()).sort((a, b) => a.topic.localeCompare(b.topic));
+}
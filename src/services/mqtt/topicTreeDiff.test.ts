@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { InferredSchema, StoredTopicSummary } from '../../../shared/types/models';
+import { inferSchema } from '../../../shared/utils/schemaInference';
+import { createTopicSnapshot, diffTopicSnapshots } from './topicTreeDiff';
+import type { TopicSnapshot } from './topicTreeDiff';
+
+const MINUTE = 60_000;
+
+function summary(topic: string, messageCount: number, firstSeen = 0, lastSeen = 10 * MINUTE): StoredTopicSummary {
+  return {
+    lastMessage: {
+      id: `${topic}-${lastSeen}`,
+      topic,
+      payload: Buffer.from('{}'),
+      qos: 0,
+      retained: false,
+      timestamp: lastSeen,
+      connectionId: 'conn-1',
+    },
+    messageCount,
+    firstSeen,
+    minPayloadBytes: 10,
+    maxPayloadBytes: 30,
+    totalPayloadBytes: messageCount * 20,
+  };
+}
+
+// A 10-minute snapshot of the given topics, with the payloads each topic's schema is learned from
+function snapshot(topics: Record<string, { count: number; payloads?: string[] }>): TopicSnapshot {
+  const schemas = new Map<string, InferredSchema>(
+    Object.entries(topics).map(([topic, { payloads = ['{"v":1}'] }]) => [topic, inferSchema(topic, payloads)])
+  );
+  return createTopicSnapshot(
+    Object.entries(topics).map(([topic, { count }]) => summary(topic, count)),
+    schemas
+  );
+}
+
+describe('createTopicSnapshot', () => {
+  it('spans the messages or the given time window, at least a minute', () => {
+    expect(createTopicSnapshot([summary('a', 1, 2 * MINUTE, 5 * MINUTE)], new Map()).spanMs).toBe(3 * MINUTE);
+    expect(createTopicSnapshot([summary('a', 1)], new Map(), 0, 20 * MINUTE).spanMs).toBe(20 * MINUTE);
+    expect(createTopicSnapshot([summary('a', 1, 1000, 2000)], new Map()).spanMs).toBe(MINUTE);
+    expect(createTopicSnapshot([], new Map()).spanMs).toBe(MINUTE);
+  });
+});
+
+describe('diffTopicSnapshots', () => {
+  it('finds added, removed, changed and unchanged topics', () => {
+    const diff = diffTopicSnapshots(
+      snapshot({ gone: { count: 10 }, steady: { count: 100 }, busier: { count: 100 } }),
+      snapshot({ steady: { count: 110 }, busier: { count: 200 }, new: { count: 5 } })
+    );
+
+    expect(diff.entries.map(({ topic, status }) => [topic, status])).toEqual([
+      ['busier', 'changed'],
+      ['gone', 'removed'],
+      ['new', 'added'],
+      ['steady', 'unchanged'],
+    ]);
+    expect(diff.counts).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 1 });
+    expect(diff.entries[0]).toMatchObject({
+      before: { messageCount: 100, messagesPerMinute: 10, avgPayloadBytes: 20 },
+      after: { messageCount: 200, messagesPerMinute: 20 },
+      rateChange: 1,
+    });
+  });
+
+  it('reports payload fields whose types changed', () => {
+    const diff = diffTopicSnapshots(
+      snapshot({ t: { count: 10, payloads: ['{"v":1,"unit":"C"}', '{"v":2.5,"unit":"C"}'] } }),
+      snapshot({ t: { count: 10, payloads: ['{"v":"1"}', '{"v":"2","ok":true}'] } })
+    );
+
+    expect(diff.entries[0]).toMatchObject({
+      status: 'changed',
+      shapeChanges: [
+        { path: '$.ok', after: 'boolean (optional)' },
+        { path: '$.unit', before: 'string' },
+        { path: '$.v', before: 'number', after: 'string' },
+      ],
+    });
+  });
+
+  it('counts whole and fractional numbers as the same type', () => {
+    const diff = diffTopicSnapshots(
+      snapshot({ t: { count: 10, payloads: ['{"v":1}'] } }),
+      snapshot({ t: { count: 10, payloads: ['{"v":1.5}'] } })
+    );
+    expect(diff.entries[0]).toMatchObject({ status: 'unchanged', shapeChanges: [] });
+  });
+
+  it('compares topics without a learned schema as having no messages', () => {
+    const before = snapshot({ t: { count: 10, payloads: ['binary'] } });
+    const after = { ...snapshot({ t: { count: 10 } }), schemas: new Map() };
+
+    expect(diffTopicSnapshots(before, after).entries[0].shapeChanges).toEqual([
+      { path: '$', before: 'not JSON', after: 'no messages' },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import type {
+  InferredSchema,
+  PayloadShapeChange,
+  StoredTopicSummary,
+  TopicDiffEntry,
+  TopicDiffStatus,
+  TopicSnapshotStats,
+  TopicTreeDiff,
+} from '../../../shared/types/models';
+import { listSchemaFields } from '../../../shared/utils/schemaInference';
+
+// Relative change in message rate from which a topic counts as changed
+const RATE_CHANGE_THRESHOLD = 0.5;
+
+// Shortest time span rates are computed over, so a single message isn't a burst
+const MIN_SNAPSHOT_SPAN_MS = 60_000;
+
+/**
+ * The topics of one side of a comparison, with the time span they cover
+ */
+export interface TopicSnapshot {
+  summaries: StoredTopicSummary[];
+  spanMs: number;
+  schemas: Map<string, InferredSchema>; // By topic, learned from the topic's messages in the snapshot
+}
+
+/**
+ * Create a snapshot from stored topic summaries
+ * @param schemas - The schemas of the topics' messages in the snapshot, by topic
+ * @param startTime - Start of the time window, when limited (defaults to the first message)
+ * @param endTime - End of the time window, when limited (defaults to the last message)
+ */
+export function createTopicSnapshot(
+  summaries: StoredTopicSummary[],
+  schemas: Map<string, InferredSchema>,
+  startTime?: number,
+  endTime?: number
+): TopicSnapshot {
+  const first = startTime ?? summaries.reduce((min, summary) => Math.min(min, summary.firstSeen), Infinity);
+  const last = endTime ?? summaries.reduce((max, summary) => Math.max(max, summary.lastMessage.timestamp), 0);
+  const spanMs = Number.isFinite(first) ? last - first : 0;
+  return { summaries, spanMs: Math.max(spanMs, MIN_SNAPSHOT_SPAN_MS), schemas };
+}
+
+/**
+ * Describe what was learned about a topic's payloads by path ("$" is the
+ * payload itself, "$.items[]" the elements of an array): the types each value
+ * was seen with, and whether a field is optional
+ * Integers count as numbers, so a reading that happens to be whole isn't a change.
+ */
+function describeSchemaShape(schema: InferredSchema | undefined): Record<string, string> {
+  if (!schema?.root) {
+    return { $: schema && schema.sampleSize > 0 ? 'not JSON' : 'no messages' };
+  }
+
+  const shape: Record<string, string> = {};
+  listSchemaFields(schema).forEach(({ path, node, required }) => {
+    const types = new Set(Object.keys(node.types).map((type) => (type === 'integer' ? 'number' : type)));
+    if (path === '$' && schema.jsonCount < schema.sampleSize) {
+      types.add('not JSON');
+    }
+    shape[path] = `${Array.from(types).sort().join(' | ')}${required ? '' : ' (optional)'}`;
+  });
+  return shape;
+}
+
+/**
+ * Compare two payload shapes
+ */
+function diffShapes(before: Record<string, string>, after: Record<string, string>): PayloadShapeChange[] {
+  const paths = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(paths)
+    .filter((path) => before[path] !== after[path])
+    .sort()
+    .map((path) => ({ path, before: before[path], after: after[path] }));
+}
+
+function snapshotStats(summary: StoredTopicSummary, spanMs: number): TopicSnapshotStats {
+  return {
+    messageCount: summary.messageCount,
+    messagesPerMinute: summary.messageCount / (spanMs / 60_000),
+    avgPayloadBytes: summary.totalPayloadBytes / summary.messageCount,
+  };
+}
+
+/**
+ * Compare the topics of two snapshots: topics that appeared or vanished, and
+ * topics whose message rate or payload shape changed
+ * Payload shapes are the schemas inferred from each side's messages, so
+ * optional fields and mixed types seen on both sides aren't changes.
+ */
+export function diffTopicSnapshots(before: TopicSnapshot, after: TopicSnapshot): TopicTreeDiff {
+  const beforeByTopic = new Map(before.summaries.map((summary) => [summary.lastMessage.topic, summary]));
+  const afterByTopic = new Map(after.summaries.map((summary) => [summary.lastMessage.topic, summary]));
+  const topics = new Set([...beforeByTopic.keys(), ...afterByTopic.keys()]);
+
+  const entries = Array.from(topics)
+    .sort()
+    .map((topic): TopicDiffEntry => {
+      const beforeSummary = beforeByTopic.get(topic);
+      const afterSummary = afterByTopic.get(topic);
+      if (!beforeSummary || !afterSummary) {
+        return {
+          topic,
+          status: beforeSummary ? 'removed' : 'added',
+          before: beforeSummary && snapshotStats(beforeSummary, before.spanMs),
+          after: afterSummary && snapshotStats(afterSummary, after.spanMs),
+          shapeChanges: [],
+        };
+      }
+
+      const beforeStats = snapshotStats(beforeSummary, before.spanMs);
+      const afterStats = snapshotStats(afterSummary, after.spanMs);
+      const rateChange = afterStats.messagesPerMinute / beforeStats.messagesPerMinute - 1;
+      const shapeChanges = diffShapes(
+        describeSchemaShape(before.schemas.get(topic)),
+        describeSchemaShape(after.schemas.get(topic))
+      );
+      const changed = shapeChanges.length > 0 || Math.abs(rateChange) >= RATE_CHANGE_THRESHOLD;
+
+      return {
+        topic,
+        status: changed ? 'changed' : 'unchanged',
+        before: beforeStats,
+        after: afterStats,
+        rateChange,
+        shapeChanges,
+      };
+    });
+
+  const counts: Record<TopicDiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  entries.forEach((entry) => counts[entry.status]++);
+
+  return { entries, counts };
+}
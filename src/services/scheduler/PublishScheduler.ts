@@ -0,0 +1,259 @@
+import { EventEmitter } from 'events';
+import { getNextCronTime, parseCron, CronSchedule } from './cron';
+import { renderTemplate } from '../../../shared/utils/templateVariables';
+import type { PublishJob, PublishJobConfig, PublishJobStatus, PublishOptions } from '../../../shared/types/models';
+
+// Shortest interval between the messages of a job
+const MIN_INTERVAL_MS = 10;
+
+// Stopped and completed jobs kept in the list
+const MAX_FINISHED_JOBS = 50;
+
+// Longest delay setTimeout supports; later cron runs are waited for in steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Sends one message of a job (the topic and payload are already rendered)
+export type JobPublisher = (
+  connectionId: string,
+  topic: string,
+  payload: string,
+  options: PublishOptions
+) => Promise<void>;
+
+interface ScheduledJob {
+  job: PublishJob;
+  environment: Record<string, string>;
+  cron?: CronSchedule;
+  timer?: NodeJS.Timeout;
+  endTimer?: NodeJS.Timeout;
+  publishing: boolean;
+}
+
+/**
+ * Runs periodic publishing jobs in the main process, so they keep going while
+ * the renderer reloads. Emits 'changed' with the job list when a job starts,
+ * stops or completes; sent counts are read with getJobs().
+ */
+export class PublishScheduler extends EventEmitter {
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private publish: JobPublisher;
+
+  constructor(publish: JobPublisher) {
+    super();
+    this.publish = publish;
+  }
+
+  /**
+   * Start a job
+   * @param environment - Values for {{env.NAME}} template variables
+   * @throws Error if the topic or schedule is invalid
+   */
+  start(config: PublishJobConfig & { connectionId: string }, environment: Record<string, string> = {}): PublishJob {
+    if (!config.topic) {
+      throw new Error('Enter a topic');
+    }
+    if (config.durationMs !== undefined && config.durationMs <= 0) {
+      throw new Error('Duration must be positive');
+    }
+
+    const scheduled: ScheduledJob = {
+      job: {
+        ...config,
+        id: this.generateId(),
+        status: 'running',
+        startedAt: Date.now(),
+        sentCount: 0,
+        errorCount: 0,
+      },
+      environment,
+      publishing: false,
+    };
+
+    const { schedule } = config;
+    if (schedule.type === 'interval') {
+      if (!(schedule.intervalMs >= MIN_INTERVAL_MS)) {
+        throw new Error(`Interval must be at least ${MIN_INTERVAL_MS} ms`);
+      }
+    } else {
+      scheduled.cron = parseCron(schedule.expression);
+      if (getNextCronTime(scheduled.cron, Date.now()) === undefined) {
+        throw new Error('Cron expression never matches');
+      }
+    }
+
+    this.jobs.set(scheduled.job.id, scheduled);
+
+    if (schedule.type === 'interval') {
+      // The first message goes out right away
+      scheduled.timer = setInterval(() => this.runInterval(scheduled, schedule.intervalMs), schedule.intervalMs);
+      this.runInterval(scheduled, schedule.intervalMs);
+    } else {
+      this.scheduleCron(scheduled);
+    }
+
+    if (config.durationMs !== undefined) {
+      scheduled.endTimer = setTimeout(() => this.finish(scheduled, 'completed'), config.durationMs);
+    }
+
+    this.pruneFinished();
+    this.emitChanged();
+    return { ...scheduled.job };
+  }
+
+  /**
+   * Stop a running job (it stays in the list)
+   */
+  stop(id: string): void {
+    const scheduled = this.jobs.get(id);
+    if (scheduled?.job.status === 'running') {
+      this.finish(scheduled, 'stopped');
+    }
+  }
+
+  /**
+   * Stop a job and remove it from the list
+   */
+  remove(id: string): void {
+    const scheduled = this.jobs.get(id);
+    if (!scheduled) {
+      return;
+    }
+
+    this.clearTimers(scheduled);
+    scheduled.job.status = 'stopped';
+    this.jobs.delete(id);
+    this.emitChanged();
+  }
+
+  /**
+   * Stop the jobs of a session that was closed
+   */
+  stopConnection(connectionId: string, reason: string): void {
+    for (const scheduled of this.jobs.values()) {
+      if (scheduled.job.connectionId === connectionId && scheduled.job.status === 'running') {
+        scheduled.job.lastError = reason;
+        this.finish(scheduled, 'stopped');
+      }
+    }
+  }
+
+  /**
+   * Stop every running job
+   */
+  stopAll(): void {
+    for (const scheduled of this.jobs.values()) {
+      if (scheduled.job.status === 'running') {
+        this.finish(scheduled, 'stopped');
+      }
+    }
+  }
+
+  /**
+   * Get all jobs, newest first
+   */
+  getJobs(): PublishJob[] {
+    return Array.from(this.jobs.values())
+      .map((scheduled) => ({ ...scheduled.job }))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Send one message of an interval job
+   */
+  private runInterval(scheduled: ScheduledJob, intervalMs: number): void {
+    scheduled.job.nextRunAt = Date.now() + intervalMs;
+    this.send(scheduled);
+  }
+
+  /**
+   * Wait for the next time matching a cron job's expression
+   */
+  private scheduleCron(scheduled: ScheduledJob): void {
+    const next = getNextCronTime(scheduled.cron!, Date.now());
+    if (next === undefined) {
+      this.finish(scheduled, 'completed');
+      return;
+    }
+
+    scheduled.job.nextRunAt = next;
+    scheduled.timer = setTimeout(() => {
+      if (Date.now() >= next) {
+        this.send(scheduled);
+      }
+      this.scheduleCron(scheduled);
+    }, Math.min(next - Date.now(), MAX_TIMER_DELAY_MS));
+  }
+
+  /**
+   * Render and publish the job's message
+   * Runs that come due while the previous message is still being sent are skipped.
+   */
+  private async send(scheduled: ScheduledJob): Promise<void> {
+    const { job } = scheduled;
+    if (job.status !== 'running' || scheduled.publishing) {
+      return;
+    }
+
+    const render = (text: string) =>
+      renderTemplate(text, { counter: job.sentCount + 1, environment: scheduled.environment });
+
+    const userProperties = job.userProperties
+      ? Object.fromEntries(Object.entries(job.userProperties).map(([key, value]) => [key, render(value)]))
+      : undefined;
+
+    scheduled.publishing = true;
+    try {
+      await this.publish(job.connectionId, render(job.topic), render(job.payload), {
+        qos: job.qos,
+        retain: job.retain,
+        userProperties,
+      });
+      job.sentCount++;
+      job.lastSentAt = Date.now();
+    } catch (error) {
+      job.errorCount++;
+      job.lastError = error instanceof Error ? error.message : String(error);
+    } finally {
+      scheduled.publishing = false;
+    }
+  }
+
+  /**
+   * End a running job
+   */
+  private finish(scheduled: ScheduledJob, status: PublishJobStatus): void {
+    this.clearTimers(scheduled);
+    scheduled.job.status = status;
+    scheduled.job.endedAt = Date.now();
+    scheduled.job.nextRunAt = undefined;
+    this.emitChanged();
+  }
+
+  private clearTimers(scheduled: ScheduledJob): void {
+    clearTimeout(scheduled.timer);
+    clearTimeout(scheduled.endTimer);
+    scheduled.timer = undefined;
+    scheduled.endTimer = undefined;
+  }
+
+  /**
+   * Forget the oldest finished jobs beyond MAX_FINISHED_JOBS
+   */
+  private pruneFinished(): void {
+    const finished = this.getJobs().filter((job) => job.status !== 'running');
+    for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private emitChanged(): void {
+    this.emit('changed', this.getJobs());
+  }
+
+  /**
+   * Generate a unique ID for a job
+   */
+  private generateId(): string {
+    return `job_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { getNextCronTime, parseCron } from './cron';
+
+// Local times, so the tests don't depend on the machine's time zone
+const at = (month: number, day: number, hour = 0, minute = 0, second = 0): number =>
+  new Date(2030, month - 1, day, hour, minute, second).getTime();
+
+const next = (expression: string, after: number): number | undefined =>
+  getNextCronTime(parseCron(expression), after);
+
+describe('parseCron', () => {
+  it('defaults the seconds field to 0', () => {
+    const schedule = parseCron('*/15 9 * * *');
+    expect([...schedule.seconds]).toEqual([0]);
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9]);
+  });
+
+  it('expands ranges, steps and lists', () => {
+    const schedule = parseCron('*/20 0-30/10 1,12 5/10 1-3 *');
+    expect([...schedule.seconds]).toEqual([0, 20, 40]);
+    expect([...schedule.minutes]).toEqual([0, 10, 20, 30]);
+    expect([...schedule.hours]).toEqual([1, 12]);
+    expect([...schedule.daysOfMonth]).toEqual([5, 15, 25]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 5-7').daysOfWeek].sort()).toEqual([0, 5, 6]);
+  });
+
+  it('records which day fields are unrestricted', () => {
+    expect(parseCron('0 0 * * 1')).toMatchObject({ anyDayOfMonth: true, anyDayOfWeek: false });
+    expect(parseCron('0 0 1 * *')).toMatchObject({ anyDayOfMonth: false, anyDayOfWeek: true });
+  });
+
+  it.each([
+    ['* * * *', 'needs 5 fields'],
+    ['* * * * * * *', 'needs 5 fields'],
+    ['60 * * * *', 'Invalid minute field'],
+    ['* 24 * * *', 'Invalid hour field'],
+    ['* * 0 * *', 'Invalid day of month field'],
+    ['* * * 13 *', 'Invalid month field'],
+    ['* * * * 8', 'Invalid day of week field'],
+    ['5-1 * * * *', 'Invalid minute field'],
+    ['*/0 * * * *', 'Invalid minute field'],
+    ['a * * * *', 'Invalid minute value'],
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('returns the next matching time strictly after the given one', () => {
+    expect(next('*/15 * * * *', at(1, 10, 9, 0))).toBe(at(1, 10, 9, 15));
+    expect(next('*/15 * * * *', at(1, 10, 9, 7, 30))).toBe(at(1, 10, 9, 15));
+  });
+
+  it('matches seconds when the field is given', () => {
+    expect(next('*/10 * * * * *', at(1, 10, 9, 0, 5))).toBe(at(1, 10, 9, 0, 10));
+  });
+
+  it('rolls over to the next day, month and year', () => {
+    expect(next('30 8 * * *', at(1, 10, 9))).toBe(at(1, 11, 8, 30));
+    expect(next('0 0 1 * *', at(1, 10))).toBe(at(2, 1));
+    expect(next('0 0 1 1 *', at(1, 10))).toBe(new Date(2031, 0, 1).getTime());
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2030-01-10 is a Thursday: the next 15th or Monday is Monday the 14th
+    expect(next('0 12 15 * 1', at(1, 10))).toBe(at(1, 14, 12));
+    expect(next('0 12 11 * 1', at(1, 10))).toBe(at(1, 11, 12));
+  });
+
+  it('finds 29 February in a later leap year', () => {
+    expect(next('0 0 29 2 *', at(3, 1))).toBe(new Date(2032, 1, 29).getTime());
+  });
+
+  it('returns undefined for dates that never occur', () => {
+    expect(next('0 0 30 2 *', at(1, 1))).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+// Cron expressions for scheduled publishing:
+//
+//   [second] minute hour day-of-month month day-of-week
+//
+// Fields accept *, numbers, ranges (1-5), steps (*/15, 0-30/5) and lists (1,15,30).
+// The seconds field is optional (defaults to 0). Day of week runs from 0 (Sunday)
+// to 6; 7 is also Sunday. Times are evaluated in local time.
+
+export interface CronSchedule {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // When both day fields are restricted, a day matching either one is used
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: 'second', min: 0, max: 59 },
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// How far ahead to look for the next run (covers Feb 29)
+const MAX_LOOKAHEAD_YEARS = 5;
+
+/**
+ * Parse a cron expression
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5 && parts.length !== 6) {
+    throw new Error('Cron expression needs 5 fields (or 6 with seconds)');
+  }
+  if (parts.length === 5) {
+    parts.unshift('0');
+  }
+
+  const [seconds, minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index])
+  );
+
+  // Sunday may be written as 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    seconds,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[3] === '*',
+    anyDayOfWeek: parts[5] === '*',
+  };
+}
+
+/**
+ * Get the first time after the given one that matches the schedule
+ * @returns Milliseconds since the epoch, or undefined if no time matches (e.g. 30 February)
+ */
+export function getNextCronTime(schedule: CronSchedule, after: number): number | undefined {
+  const date = new Date(after);
+  date.setMilliseconds(0);
+  date.setSeconds(date.getSeconds() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_LOOKAHEAD_YEARS);
+
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    if (!schedule.seconds.has(date.getSeconds())) {
+      date.setSeconds(date.getSeconds() + 1, 0);
+      continue;
+    }
+    return date.getTime();
+  }
+
+  return undefined;
+}
+
+/**
+ * Check the day of month and day of week fields
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth) {
+    return dayOfWeek;
+  }
+  if (schedule.anyDayOfWeek) {
+    return dayOfMonth;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Expand one field into the values it matches
+ */
+function parseField(text: string, field: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [rangeText, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, field.name);
+    if (rest.length > 0 || step < 1) {
+      throw new Error(`Invalid ${field.name} field: ${text}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangeText === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangeText.includes('-')) {
+      const [startText, endText] = rangeText.split('-');
+      start = parseNumber(startText, field.name);
+      end = parseNumber(endText, field.name);
+    } else {
+      // "5/15" runs from 5 to the end of the range
+      start = parseNumber(rangeText, field.name);
+      end = stepText === undefined ? start : field.max;
+    }
+
+    if (start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid ${field.name} field: ${text} (allowed ${field.min}-${field.max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseNumber(text: string, fieldName: string): number {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid ${fieldName} value: ${text}`);
+  }
+  return Number(text);
+}
@@ -0,0 +1,217 @@
+import { EventEmitter } from 'events';
+import { createDeviceGenerator, DeviceGenerator } from './generators';
+import { renderTemplate } from '../../../shared/utils/templateVariables';
+import type { JobPublisher } from '../scheduler/PublishScheduler';
+import type { SimulatorFleet, SimulatorRun } from '../../../shared/types/models';
+
+// Shortest time between the messages of a device
+const MIN_INTERVAL_MS = 10;
+
+const MAX_DEVICE_COUNT = 10000;
+
+// Fleet placeholders, substituted after the publish template variables
+const DEVICE_NUMBER_PATTERN = /\{\{\s*n\s*\}\}/g;
+const VALUE_PATTERN = /\{\{\s*value\s*\}\}/g;
+
+interface SimulatedDevice {
+  number: number; // 1-based, substituted for {{n}}
+  generator: DeviceGenerator;
+  sentCount: number; // Substituted for {{counter}}
+  done: boolean;
+}
+
+interface Simulation {
+  fleet: SimulatorFleet;
+  run: SimulatorRun;
+  devices: SimulatedDevice[];
+  environment: Record<string, string>;
+  timer?: NodeJS.Timeout;
+  publishing: boolean;
+}
+
+/**
+ * Runs fleets of simulated devices in the main process, publishing generated
+ * values on every device's topic at the fleet's interval. Emits 'changed'
+ * with the runs when a fleet starts or stops; sent counts are read with getRuns().
+ */
+export class DeviceSimulator extends EventEmitter {
+  // Keyed by fleet ID; finished runs are kept until the fleet is started again
+  private simulations: Map<string, Simulation> = new Map();
+  private publish: JobPublisher;
+
+  constructor(publish: JobPublisher) {
+    super();
+    this.publish = publish;
+  }
+
+  /**
+   * Start (or restart) a fleet on a session
+   * @param environment - Values for {{env.NAME}} template variables
+   * @throws Error if the fleet settings are invalid
+   */
+  start(fleet: SimulatorFleet, connectionId: string, environment: Record<string, string> = {}): SimulatorRun {
+    if (!fleet.topicPattern) {
+      throw new Error('Enter a topic pattern');
+    }
+    if (!Number.isInteger(fleet.deviceCount) || fleet.deviceCount < 1 || fleet.deviceCount > MAX_DEVICE_COUNT) {
+      throw new Error(`Device count must be between 1 and ${MAX_DEVICE_COUNT}`);
+    }
+    if (!(fleet.intervalMs >= MIN_INTERVAL_MS)) {
+      throw new Error(`Interval must be at least ${MIN_INTERVAL_MS} ms`);
+    }
+
+    const devices = Array.from({ length: fleet.deviceCount }, (_, index) => ({
+      number: index + 1,
+      generator: createDeviceGenerator(fleet.generator, index, fleet.deviceCount),
+      sentCount: 0,
+      done: false,
+    }));
+
+    this.stop(fleet.id);
+
+    const simulation: Simulation = {
+      fleet,
+      run: {
+        fleetId: fleet.id,
+        connectionId,
+        running: true,
+        startedAt: Date.now(),
+        sentCount: 0,
+        errorCount: 0,
+      },
+      devices,
+      environment,
+      publishing: false,
+    };
+    this.simulations.set(fleet.id, simulation);
+
+    // Every device sends right away, then once per interval
+    simulation.timer = setInterval(() => this.tick(simulation), fleet.intervalMs);
+    this.tick(simulation);
+
+    this.emitChanged();
+    return { ...simulation.run };
+  }
+
+  /**
+   * Stop a running fleet
+   */
+  stop(fleetId: string): void {
+    const simulation = this.simulations.get(fleetId);
+    if (simulation?.run.running) {
+      this.finish(simulation);
+    }
+  }
+
+  /**
+   * Stop a fleet and forget its run (e.g. when the fleet is deleted)
+   */
+  remove(fleetId: string): void {
+    this.stop(fleetId);
+    if (this.simulations.delete(fleetId)) {
+      this.emitChanged();
+    }
+  }
+
+  /**
+   * Stop the fleets running on a session that was closed
+   */
+  stopConnection(connectionId: string, reason: string): void {
+    for (const simulation of this.simulations.values()) {
+      if (simulation.run.connectionId === connectionId && simulation.run.running) {
+        simulation.run.lastError = reason;
+        this.finish(simulation);
+      }
+    }
+  }
+
+  /**
+   * Stop every running fleet
+   */
+  stopAll(): void {
+    for (const simulation of this.simulations.values()) {
+      if (simulation.run.running) {
+        this.finish(simulation);
+      }
+    }
+  }
+
+  /**
+   * Get the runs of all fleets that have been started
+   */
+  getRuns(): SimulatorRun[] {
+    return Array.from(this.simulations.values()).map((simulation) => ({ ...simulation.run }));
+  }
+
+  /**
+   * Send the next message of every device
+   * Ticks that come due while the previous round is still being sent are skipped.
+   */
+  private async tick(simulation: Simulation): Promise<void> {
+    if (!simulation.run.running || simulation.publishing) {
+      return;
+    }
+
+    const elapsedSeconds = (Date.now() - simulation.run.startedAt) / 1000;
+    simulation.publishing = true;
+    try {
+      await Promise.all(
+        simulation.devices
+          .filter((device) => !device.done)
+          .map((device) => this.sendDeviceMessage(simulation, device, elapsedSeconds))
+      );
+    } finally {
+      simulation.publishing = false;
+    }
+
+    // Non-looping CSV replays end once every device has sent its last row
+    if (simulation.run.running && simulation.devices.every((device) => device.done)) {
+      this.finish(simulation);
+    }
+  }
+
+  private async sendDeviceMessage(
+    simulation: Simulation,
+    device: SimulatedDevice,
+    elapsedSeconds: number
+  ): Promise<void> {
+    const { fleet, run } = simulation;
+    const value = device.generator(elapsedSeconds);
+    if (value === undefined) {
+      device.done = true;
+      return;
+    }
+
+    const formattedValue = typeof value === 'number'
+      ? String(Number(value.toFixed(fleet.decimals)))
+      : value;
+    const render = (text: string) =>
+      renderTemplate(text, { counter: device.sentCount + 1, environment: simulation.environment })
+        .replace(DEVICE_NUMBER_PATTERN, String(device.number))
+        .replace(VALUE_PATTERN, () => formattedValue); // Replayed text may contain $ patterns
+
+    try {
+      await this.publish(run.connectionId, render(fleet.topicPattern), render(fleet.payloadTemplate), {
+        qos: fleet.qos,
+        retain: fleet.retain,
+      });
+      device.sentCount++;
+      run.sentCount++;
+    } catch (error) {
+      run.errorCount++;
+      run.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private finish(simulation: Simulation): void {
+    clearInterval(simulation.timer);
+    simulation.timer = undefined;
+    simulation.run.running = false;
+    simulation.run.endedAt = Date.now();
+    this.emitChanged();
+  }
+
+  private emitChanged(): void {
+    this.emit('changed', this.getRuns());
+  }
+}
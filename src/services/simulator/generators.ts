@@ -0,0 +1,136 @@
+import type { SimulatorGenerator } from '../../../shared/types/models';
+
+// Produces a device's next value, or undefined once it has nothing left to send
+export type DeviceGenerator = (elapsedSeconds: number) => number | string | undefined;
+
+/**
+ * Create the value generator of one device in a fleet
+ * @param deviceIndex - 0-based position of the device in the fleet
+ * @throws Error if the generator settings are invalid
+ */
+export function createDeviceGenerator(
+  generator: SimulatorGenerator,
+  deviceIndex: number,
+  deviceCount: number
+): DeviceGenerator {
+  switch (generator.type) {
+    case 'sine': {
+      if (!(generator.periodSeconds > 0)) {
+        throw new Error('Sine period must be positive');
+      }
+      const amplitude = (generator.max - generator.min) / 2;
+      const phase = (2 * Math.PI * deviceIndex) / deviceCount;
+      return (elapsedSeconds) =>
+        generator.min +
+        amplitude * (1 + Math.sin((2 * Math.PI * elapsedSeconds) / generator.periodSeconds + phase));
+    }
+
+    case 'randomWalk': {
+      let value = generator.start;
+      return () => {
+        value += (Math.random() * 2 - 1) * generator.step;
+        if (generator.min !== undefined) {
+          value = Math.max(generator.min, value);
+        }
+        if (generator.max !== undefined) {
+          value = Math.min(generator.max, value);
+        }
+        return value;
+      };
+    }
+
+    case 'step': {
+      if (generator.values.length === 0) {
+        throw new Error('Step generator needs at least one value');
+      }
+      if (!(generator.holdSeconds > 0)) {
+        throw new Error('Step hold time must be positive');
+      }
+      return (elapsedSeconds) =>
+        generator.values[Math.floor(elapsedSeconds / generator.holdSeconds) % generator.values.length];
+    }
+
+    case 'csv': {
+      const values = parseCsvColumn(generator.csv, generator.column);
+      if (values.length === 0) {
+        throw new Error(`CSV column "${generator.column}" has no values`);
+      }
+      let row = 0;
+      return () => {
+        if (row >= values.length) {
+          if (!generator.loop) {
+            return undefined;
+          }
+          row = 0;
+        }
+        const value = values[row++];
+        // Numeric cells are sent as numbers so they are rounded like generated values
+        return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+      };
+    }
+  }
+}
+
+/**
+ * Get the cells of a named column from CSV text with a header row
+ * Quoted fields may contain commas, doubled quotes and line breaks.
+ * @throws Error if the column does not exist
+ */
+export function parseCsvColumn(csv: string, column: string): string[] {
+  const [header, ...rows] = parseCsv(csv);
+  const columnIndex = header?.findIndex((name) => name.trim() === column.trim()) ?? -1;
+  if (columnIndex === -1) {
+    throw new Error(`CSV has no column named "${column}"`);
+  }
+
+  return rows
+    .filter((row) => row.length > 1 || row[0] !== '') // Blank lines
+    .map((row) => row[columnIndex] ?? '');
+}
+
+/**
+ * Split CSV text into rows of cells
+ */
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+import * as protobuf from 'protobufjs';
+import type { MqttMessage, SparkplugMetricState } from '../../../shared/types/models';
+import { getReplayMessages, SparkplugExplorer } from './SparkplugExplorer';
+import { decodeSparkplugMessage, parseSparkplugTopic } from './sparkplugB';
+
+// Wire-compatible subset of sparkplug_b.proto for building test payloads
+const payloadType = protobuf
+  .parse(`
+    syntax = "proto2";
+    message Payload {
+      message Metric {
+        optional string name = 1;
+        optional uint64 alias = 2;
+        optional uint64 timestamp = 3;
+        optional uint32 datatype = 4;
+        optional bool is_historical = 5;
+        optional bool is_null = 7;
+        oneof value {
+          uint32 int_value = 10;
+          uint64 long_value = 11;
+          double double_value = 13;
+          bool boolean_value = 14;
+          string string_value = 15;
+        }
+      }
+      optional uint64 timestamp = 1;
+      repeated Metric metrics = 2;
+      optional uint64 seq = 3;
+    }
+  `, { keepCase: true })
+  .root.lookupType('Payload');
+
+// Sparkplug B data type IDs used below
+const INT8 = 1;
+const INT32 = 3;
+const INT64 = 4;
+const UINT64 = 8;
+const DOUBLE = 10;
+const STRING = 12;
+
+interface TestMetric {
+  name?: string;
+  alias?: number;
+  datatype: number;
+  int_value?: number;
+  long_value?: string;
+  double_value?: number;
+  string_value?: string;
+  is_historical?: boolean;
+  is_null?: boolean;
+}
+
+let nextId = 0;
+
+function message(topic: string, timestamp: number, metrics: TestMetric[] = []): MqttMessage {
+  const payload = payloadType.encode(payloadType.fromObject({ timestamp, seq: 0, metrics })).finish();
+  return {
+    id: `msg-${nextId++}`,
+    topic: `spBv1.0/${topic}`,
+    payload: Buffer.from(payload),
+    qos: 0,
+    retained: false,
+    timestamp,
+    connectionId: 'conn-1',
+  };
+}
+
+const metricValues = (metrics: SparkplugMetricState[]): Record<string, unknown> =>
+  Object.fromEntries(metrics.map((metric) => [metric.name, metric.value]));
+
+describe('parseSparkplugTopic', () => {
+  it('parses node and device topics', () => {
+    expect(parseSparkplugTopic('spBv1.0/plant/NDATA/edge1')).toEqual({
+      groupId: 'plant',
+      messageType: 'NDATA',
+      edgeNodeId: 'edge1',
+      deviceId: undefined,
+    });
+    expect(parseSparkplugTopic('spBv1.0/plant/DDATA/edge1/pump')).toMatchObject({ deviceId: 'pump' });
+  });
+
+  it('rejects other topics', () => {
+    expect(parseSparkplugTopic('plant/NDATA/edge1')).toBeNull();
+    expect(parseSparkplugTopic('spBv1.0/STATE/host')).toBeNull();
+    expect(parseSparkplugTopic('spBv1.0/plant/NDATA/edge1/pump')).toBeNull();
+    expect(parseSparkplugTopic('spBv1.0/plant/DDATA/edge1')).toBeNull();
+    expect(parseSparkplugTopic('spBv1.0/plant/XDATA/edge1')).toBeNull();
+  });
+});
+
+describe('decodeSparkplugMessage', () => {
+  it('reinterprets unsigned wire values for signed types', () => {
+    const info = decodeSparkplugMessage(
+      message('plant/NDATA/edge1', 1000, [
+        { name: 'int8', datatype: INT8, int_value: 0xff },
+        { name: 'int32', datatype: INT32, int_value: 0xfffffffe },
+        { name: 'int64', datatype: INT64, long_value: '18446744073709551615' },
+        { name: 'uint64', datatype: UINT64, long_value: '18446744073709551615' },
+        { name: 'double', datatype: DOUBLE, double_value: 2.5 },
+        { name: 'null', datatype: STRING, is_null: true },
+      ])
+    );
+
+    expect(info?.timestamp).toBe(1000);
+    expect(info?.metrics.map((metric) => [metric.name, metric.datatype, metric.value])).toEqual([
+      ['int8', 'Int8', -1],
+      ['int32', 'Int32', -2],
+      ['int64', 'Int64', -1],
+      ['uint64', 'UInt64', '18446744073709551615'],
+      ['double', 'Double', 2.5],
+      ['null', 'String', null],
+    ]);
+  });
+
+  it('ignores non-Sparkplug topics and undecodable payloads', () => {
+    expect(decodeSparkplugMessage({ ...message('plant/NDATA/edge1', 1000), topic: 'plant/data' })).toBeUndefined();
+    expect(
+      decodeSparkplugMessage({ ...message('plant/NDATA/edge1', 1000), payload: Buffer.from([0xff, 0xff]) })
+    ).toBeUndefined();
+  });
+});
+
+describe('SparkplugExplorer', () => {
+  it('names metrics that only carry an alias from the birth certificates', () => {
+    const explorer = new SparkplugExplorer();
+    explorer.handleMessage(message('plant/NBIRTH/edge1', 1000, [
+      { name: 'Node/Uptime', alias: 1, datatype: INT64, long_value: '0' },
+    ]));
+    explorer.handleMessage(message('plant/DBIRTH/edge1/pump', 1001, [
+      { name: 'Pump/Speed', alias: 2, datatype: DOUBLE, double_value: 0 },
+    ]));
+    explorer.handleMessage(message('plant/NDATA/edge1', 1002, [{ alias: 1, datatype: INT64, long_value: '42' }]));
+    explorer.handleMessage(message('plant/DDATA/edge1/pump', 1003, [{ alias: 2, datatype: DOUBLE, double_value: 3.5 }]));
+
+    const [node] = explorer.toJSON()[0].edgeNodes;
+    expect(node.online).toBe(true);
+    expect(metricValues(node.metrics)).toEqual({ 'Node/Uptime': 42 });
+    expect(metricValues(node.devices[0].metrics)).toEqual({ 'Pump/Speed': 3.5 });
+  });
+
+  it('forgets the aliases of the previous node session on rebirth', () => {
+    const explorer = new SparkplugExplorer();
+    explorer.handleMessage(message('plant/NBIRTH/edge1', 1000, [
+      { name: 'Temperature', alias: 1, datatype: DOUBLE, double_value: 20 },
+    ]));
+    explorer.handleMessage(message('plant/NBIRTH/edge1', 2000, [
+      { name: 'Pressure', alias: 2, datatype: DOUBLE, double_value: 1 },
+    ]));
+    explorer.handleMessage(message('plant/NDATA/edge1', 2001, [{ alias: 1, datatype: DOUBLE, double_value: 21 }]));
+
+    expect(metricValues(explorer.toJSON()[0].edgeNodes[0].metrics)).toEqual({ Pressure: 1, '#1': 21 });
+  });
+
+  it('skips historical values', () => {
+    const explorer = new SparkplugExplorer();
+    explorer.handleMessage(message('plant/NBIRTH/edge1', 1000, [
+      { name: 'Temperature', alias: 1, datatype: DOUBLE, double_value: 20 },
+    ]));
+    explorer.handleMessage(message('plant/NDATA/edge1', 1001, [
+      { alias: 1, datatype: DOUBLE, double_value: 5, is_historical: true },
+    ]));
+
+    expect(metricValues(explorer.toJSON()[0].edgeNodes[0].metrics)).toEqual({ Temperature: 20 });
+  });
+
+  it('takes devices offline with their edge node', () => {
+    const explorer = new SparkplugExplorer();
+    explorer.handleMessage(message('plant/NBIRTH/edge1', 1000));
+    explorer.handleMessage(message('plant/DBIRTH/edge1/pump', 1001));
+    explorer.handleMessage(message('plant/NDEATH/edge1', 1002));
+
+    const [node] = explorer.toJSON()[0].edgeNodes;
+    expect(node.online).toBe(false);
+    expect(node.devices[0].online).toBe(false);
+  });
+
+  it('decodes with the known aliases without changing its state', () => {
+    const explorer = new SparkplugExplorer();
+    explorer.handleMessage(message('plant/NBIRTH/edge1', 1000, [
+      { name: 'Temperature', alias: 1, datatype: DOUBLE, double_value: 20 },
+    ]));
+
+    const info = explorer.decode(message('plant/NDATA/edge1', 1001, [{ alias: 1, datatype: DOUBLE, double_value: 30 }]));
+
+    expect(info?.metrics[0].name).toBe('Temperature');
+    expect(metricValues(explorer.toJSON()[0].edgeNodes[0].metrics)).toEqual({ Temperature: 20 });
+  });
+});
+
+describe('getReplayMessages', () => {
+  it('replays the latest births, then the messages sent since them', () => {
+    const nodeBirth = message('plant/NBIRTH/edge1', 2000);
+    const deviceBirth = message('plant/DBIRTH/edge1/pump', 3000);
+    const staleNodeData = message('plant/NDATA/edge1', 1500);
+    const nodeData = message('plant/NDATA/edge1', 2500);
+    const staleDeviceData = message('plant/DDATA/edge1/pump', 2600);
+    const deviceData = message('plant/DDATA/edge1/pump', 3000);
+    const olderBirth = message('plant/NBIRTH/edge1', 1000);
+    const otherNodeData = message('plant/NDATA/edge2', 100);
+
+    expect(
+      getReplayMessages(
+        [nodeBirth, deviceBirth],
+        [olderBirth, staleNodeData, nodeData, staleDeviceData, deviceData, otherNodeData]
+      )
+    ).toEqual([otherNodeData, nodeBirth, nodeData, deviceBirth, deviceData]);
+  });
+});
@@ -0,0 +1,297 @@
+import type {
+  MqttMessage,
+  SparkplugDeviceState,
+  SparkplugEdgeNodeState,
+  SparkplugGroupState,
+  SparkplugMessageInfo,
+  SparkplugMetric,
+  SparkplugMetricState,
+} from '../../../shared/types/models';
+import { decodeSparkplugMessage, parseSparkplugTopic } from './sparkplugB';
+
+interface DeviceEntry {
+  deviceId: string;
+  online: boolean;
+  lastBirth?: number;
+  lastDeath?: number;
+  lastMessage?: number;
+  metrics: Map<string, SparkplugMetricState>;
+}
+
+interface EdgeNodeEntry {
+  edgeNodeId: string;
+  online: boolean;
+  lastBirth?: number;
+  lastDeath?: number;
+  lastMessage?: number;
+  metrics: Map<string, SparkplugMetricState>;
+  devices: Map<string, DeviceEntry>;
+  // Aliases are unique across an edge node and all of its devices
+  aliases: Map<number, string>;
+}
+
+/**
+ * Select and order stored messages to rebuild an explorer from: the latest
+ * birth certificates, then the messages sent since the birth of their edge
+ * node and device (oldest first)
+ * @param births - Latest NBIRTH of each edge node and DBIRTH of each device, however old
+ * @param messages - Recent stored Sparkplug B messages
+ */
+export function getReplayMessages(births: MqttMessage[], messages: MqttMessage[]): MqttMessage[] {
+  const birthTimes = new Map<string, number>();
+  births.forEach((birth) => {
+    const topic = parseSparkplugTopic(birth.topic);
+    if (topic) {
+      birthTimes.set(`${topic.groupId}/${topic.edgeNodeId}/${topic.deviceId ?? ''}`, birth.timestamp);
+    }
+  });
+
+  const isCurrent = (message: MqttMessage): boolean => {
+    const topic = parseSparkplugTopic(message.topic);
+    if (!topic || topic.messageType === 'NBIRTH' || topic.messageType === 'DBIRTH') {
+      return false;
+    }
+    // Messages from before a rebirth used aliases and metrics it replaced
+    const nodeBirth = birthTimes.get(`${topic.groupId}/${topic.edgeNodeId}/`);
+    const deviceBirth = topic.deviceId
+      ? birthTimes.get(`${topic.groupId}/${topic.edgeNodeId}/${topic.deviceId}`)
+      : undefined;
+    return (nodeBirth === undefined || message.timestamp >= nodeBirth)
+      && (deviceBirth === undefined || message.timestamp >= deviceBirth);
+  };
+
+  // A stable sort keeps births ahead of messages with the same timestamp
+  return [...births, ...messages.filter(isCurrent)].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Tracks Sparkplug B groups, edge nodes, devices and their latest metric
+ * values for one session. Birth certificates register metric aliases so
+ * later DATA and CMD messages that only carry aliases can be named.
+ */
+export class SparkplugExplorer {
+  private groups: Map<string, Map<string, EdgeNodeEntry>> = new Map();
+
+  /**
+   * Decode a message and apply it to the explorer state
+   * @returns The decoded payload, or undefined for non-Sparkplug messages
+   */
+  handleMessage(message: MqttMessage): SparkplugMessageInfo | undefined {
+    const topic = parseSparkplugTopic(message.topic);
+    if (!topic) {
+      return undefined;
+    }
+
+    const node = this.getEdgeNode(topic.groupId, topic.edgeNodeId);
+
+    // A new node session invalidates the aliases of the previous one
+    if (topic.messageType === 'NBIRTH') {
+      node.aliases.clear();
+    }
+
+    const info = decodeSparkplugMessage(message, node.aliases);
+    if (!info) {
+      return undefined;
+    }
+
+    const device = topic.deviceId ? this.getDevice(node, topic.deviceId) : undefined;
+    const timestamp = info.timestamp ?? message.timestamp;
+
+    switch (topic.messageType) {
+      case 'NBIRTH':
+        node.online = true;
+        node.lastBirth = timestamp;
+        node.metrics.clear();
+        this.registerAliases(node, info.metrics);
+        this.updateMetrics(node.metrics, info.metrics, timestamp);
+        break;
+
+      case 'DBIRTH':
+        device!.online = true;
+        device!.lastBirth = timestamp;
+        device!.metrics.clear();
+        this.registerAliases(node, info.metrics);
+        this.updateMetrics(device!.metrics, info.metrics, timestamp);
+        break;
+
+      case 'NDEATH':
+        // Devices go offline with their edge node
+        node.online = false;
+        node.lastDeath = timestamp;
+        node.devices.forEach((entry) => {
+          entry.online = false;
+        });
+        break;
+
+      case 'DDEATH':
+        device!.online = false;
+        device!.lastDeath = timestamp;
+        break;
+
+      case 'NDATA':
+        this.updateMetrics(node.metrics, info.metrics, timestamp);
+        break;
+
+      case 'DDATA':
+        this.updateMetrics(device!.metrics, info.metrics, timestamp);
+        break;
+
+      default:
+        // NCMD/DCMD are requests to the node and don't change its reported state
+        return info;
+    }
+
+    node.lastMessage = message.timestamp;
+    if (device) {
+      device.lastMessage = message.timestamp;
+    }
+
+    return info;
+  }
+
+  /**
+   * Decode a message using the aliases known so far, without changing the explorer state
+   */
+  decode(message: MqttMessage): SparkplugMessageInfo | undefined {
+    const topic = parseSparkplugTopic(message.topic);
+    const aliases = topic
+      ? this.groups.get(topic.groupId)?.get(topic.edgeNodeId)?.aliases
+      : undefined;
+    return decodeSparkplugMessage(message, aliases);
+  }
+
+  /**
+   * Replace the explorer state by replaying messages (oldest first)
+   */
+  rebuild(messages: MqttMessage[]): void {
+    this.clear();
+    messages.forEach((message) => this.handleMessage(message));
+  }
+
+  /**
+   * Check if any Sparkplug B traffic has been seen
+   */
+  isEmpty(): boolean {
+    return this.groups.size === 0;
+  }
+
+  /**
+   * Forget all groups, nodes and devices
+   */
+  clear(): void {
+    this.groups.clear();
+  }
+
+  /**
+   * Export the explorer state for serialization
+   */
+  toJSON(): SparkplugGroupState[] {
+    const convertMetrics = (metrics: Map<string, SparkplugMetricState>): SparkplugMetricState[] =>
+      Array.from(metrics.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+    const convertDevice = (device: DeviceEntry): SparkplugDeviceState => ({
+      deviceId: device.deviceId,
+      online: device.online,
+      lastBirth: device.lastBirth,
+      lastDeath: device.lastDeath,
+      lastMessage: device.lastMessage,
+      metrics: convertMetrics(device.metrics),
+    });
+
+    const convertNode = (node: EdgeNodeEntry): SparkplugEdgeNodeState => ({
+      edgeNodeId: node.edgeNodeId,
+      online: node.online,
+      lastBirth: node.lastBirth,
+      lastDeath: node.lastDeath,
+      lastMessage: node.lastMessage,
+      metrics: convertMetrics(node.metrics),
+      devices: Array.from(node.devices.values())
+        .sort((a, b) => a.deviceId.localeCompare(b.deviceId))
+        .map(convertDevice),
+    });
+
+    return Array.from(this.groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([groupId, nodes]) => ({
+        groupId,
+        edgeNodes: Array.from(nodes.values())
+          .sort((a, b) => a.edgeNodeId.localeCompare(b.edgeNodeId))
+          .map(convertNode),
+      }));
+  }
+
+  /**
+   * Get or create an edge node entry
+   */
+  private getEdgeNode(groupId: string, edgeNodeId: string): EdgeNodeEntry {
+    let nodes = this.groups.get(groupId);
+    if (!nodes) {
+      nodes = new Map();
+      this.groups.set(groupId, nodes);
+    }
+
+    let node = nodes.get(edgeNodeId);
+    if (!node) {
+      node = {
+        edgeNodeId,
+        online: false,
+        metrics: new Map(),
+        devices: new Map(),
+        aliases: new Map(),
+      };
+      nodes.set(edgeNodeId, node);
+    }
+
+    return node;
+  }
+
+  /**
+   * Get or create a device entry under an edge node
+   */
+  private getDevice(node: EdgeNodeEntry, deviceId: string): DeviceEntry {
+    let device = node.devices.get(deviceId);
+    if (!device) {
+      device = {
+        deviceId,
+        online: false,
+        metrics: new Map(),
+      };
+      node.devices.set(deviceId, device);
+    }
+    return device;
+  }
+
+  /**
+   * Remember the alias → name pairs declared in a birth certificate
+   */
+  private registerAliases(node: EdgeNodeEntry, metrics: SparkplugMetric[]): void {
+    for (const metric of metrics) {
+      if (metric.name && metric.alias !== undefined) {
+        node.aliases.set(metric.alias, metric.name);
+      }
+    }
+  }
+
+  /**
+   * Store the latest value of each metric (unresolved aliases are keyed as "#<alias>")
+   */
+  private updateMetrics(
+    target: Map<string, SparkplugMetricState>,
+    metrics: SparkplugMetric[],
+    timestamp: number
+  ): void {
+    for (const metric of metrics) {
+      // Historical values are backfill, not the current reading
+      if (metric.isHistorical) {
+        continue;
+      }
+
+      const name = metric.name ?? `#${metric.alias ?? '?'}`;
+      target.set(name, {
+        ...metric,
+        name,
+        updatedAt: metric.timestamp ?? timestamp,
+      });
+    }
+  }
+}
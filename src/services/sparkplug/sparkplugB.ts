@@ -0,0 +1,296 @@
+import * as protobuf from 'protobufjs';
+import type {
+  MqttMessage,
+  SparkplugMessageInfo,
+  SparkplugMessageType,
+  SparkplugMetric,
+  SparkplugTopic,
+  SparkplugValue,
+} from '../../../shared/types/models';
+import { toPayloadBuffer } from '../mqtt/payload';
+
+export const SPARKPLUG_NAMESPACE = 'spBv1.0';
+
+// Eclipse Tahu sparkplug_b.proto (extension ranges omitted; unknown fields are skipped)
+const SPARKPLUG_B_PROTO = `
+syntax = "proto2";
+package org.eclipse.tahu.protobuf;
+
+message Payload {
+  message Template {
+    message Parameter {
+      optional string name = 1;
+      optional uint32 type = 2;
+      oneof value {
+        uint32 int_value = 3;
+        uint64 long_value = 4;
+        float float_value = 5;
+        double double_value = 6;
+        bool boolean_value = 7;
+        string string_value = 8;
+      }
+    }
+    optional string version = 1;
+    repeated Metric metrics = 2;
+    repeated Parameter parameters = 3;
+    optional string template_ref = 4;
+    optional bool is_definition = 5;
+  }
+
+  message DataSet {
+    message DataSetValue {
+      oneof value {
+        uint32 int_value = 1;
+        uint64 long_value = 2;
+        float float_value = 3;
+        double double_value = 4;
+        bool boolean_value = 5;
+        string string_value = 6;
+      }
+    }
+    message Row {
+      repeated DataSetValue elements = 1;
+    }
+    optional uint64 num_of_columns = 1;
+    repeated string columns = 2;
+    repeated uint32 types = 3;
+    repeated Row rows = 4;
+  }
+
+  message PropertyValue {
+    optional uint32 type = 1;
+    optional bool is_null = 2;
+    oneof value {
+      uint32 int_value = 3;
+      uint64 long_value = 4;
+      float float_value = 5;
+      double double_value = 6;
+      bool boolean_value = 7;
+      string string_value = 8;
+      PropertySet propertyset_value = 9;
+      PropertySetList propertysets_value = 10;
+    }
+  }
+
+  message PropertySet {
+    repeated string keys = 1;
+    repeated PropertyValue values = 2;
+  }
+
+  message PropertySetList {
+    repeated PropertySet propertyset = 1;
+  }
+
+  message MetaData {
+    optional bool is_multi_part = 1;
+    optional string content_type = 2;
+    optional uint64 size = 3;
+    optional uint64 seq = 4;
+    optional string file_name = 5;
+    optional string file_type = 6;
+    optional string md5 = 7;
+    optional string description = 8;
+  }
+
+  message Metric {
+    optional string name = 1;
+    optional uint64 alias = 2;
+    optional uint64 timestamp = 3;
+    optional uint32 datatype = 4;
+    optional bool is_historical = 5;
+    optional bool is_transient = 6;
+    optional bool is_null = 7;
+    optional MetaData metadata = 8;
+    optional PropertySet properties = 9;
+    oneof value {
+      uint32 int_value = 10;
+      uint64 long_value = 11;
+      float float_value = 12;
+      double double_value = 13;
+      bool boolean_value = 14;
+      string string_value = 15;
+      bytes bytes_value = 16;
+      DataSet dataset_value = 17;
+      Template template_value = 18;
+    }
+  }
+
+  optional uint64 timestamp = 1;
+  repeated Metric metrics = 2;
+  optional uint64 seq = 3;
+  optional string uuid = 4;
+  optional bytes body = 5;
+}
+`;
+
+// Sparkplug B data type IDs (index = datatype value)
+const DATA_TYPES = [
+  'Unknown', 'Int8', 'Int16', 'Int32', 'Int64', 'UInt8', 'UInt16', 'UInt32', 'UInt64',
+  'Float', 'Double', 'Boolean', 'String', 'DateTime', 'Text', 'UUID', 'DataSet', 'Bytes',
+  'File', 'Template', 'PropertySet', 'PropertySetList', 'Int8Array', 'Int16Array',
+  'Int32Array', 'Int64Array', 'UInt8Array', 'UInt16Array', 'UInt32Array', 'UInt64Array',
+  'FloatArray', 'DoubleArray', 'BooleanArray', 'StringArray', 'DateTimeArray',
+];
+
+// Payload and Payload.Metric as plain objects (longs as strings, bytes as base64,
+// and the name of the set oneof field in value)
+interface DecodedPayload {
+  timestamp?: string;
+  seq?: string;
+  uuid?: string;
+  metrics?: DecodedMetric[];
+}
+
+interface DecodedMetric {
+  name?: string;
+  alias?: string;
+  timestamp?: string;
+  datatype?: number;
+  is_historical?: boolean;
+  is_transient?: boolean;
+  is_null?: boolean;
+  value?: string;
+  [field: string]: unknown;
+}
+
+const MESSAGE_TYPES: SparkplugMessageType[] = [
+  'NBIRTH', 'NDEATH', 'DBIRTH', 'DDEATH', 'NDATA', 'DDATA', 'NCMD', 'DCMD',
+];
+
+const payloadType = protobuf
+  .parse(SPARKPLUG_B_PROTO, { keepCase: true })
+  .root.lookupType('org.eclipse.tahu.protobuf.Payload');
+
+/**
+ * Parse a Sparkplug B topic: spBv1.0/<group_id>/<message_type>/<edge_node_id>[/<device_id>]
+ * @returns null for non-Sparkplug topics and STATE messages (which are not protobuf)
+ */
+export function parseSparkplugTopic(topic: string): SparkplugTopic | null {
+  const parts = topic.split('/');
+  if (parts[0] !== SPARKPLUG_NAMESPACE || parts.length < 4 || parts.length > 5) {
+    return null;
+  }
+
+  const messageType = parts[2] as SparkplugMessageType;
+  if (!MESSAGE_TYPES.includes(messageType)) {
+    return null;
+  }
+
+  const isDeviceMessage = messageType.startsWith('D');
+  if (isDeviceMessage !== (parts.length === 5)) {
+    return null;
+  }
+
+  return {
+    groupId: parts[1],
+    messageType,
+    edgeNodeId: parts[3],
+    deviceId: parts[4],
+  };
+}
+
+/**
+ * Decode a Sparkplug B payload
+ * @param aliases - Alias → metric name map from the edge node's birth certificates
+ */
+export function decodeSparkplugPayload(
+  topic: SparkplugTopic,
+  payload: MqttMessage['payload'],
+  aliases?: Map<number, string>
+): SparkplugMessageInfo {
+  const decoded = payloadType.toObject(payloadType.decode(toPayloadBuffer(payload)), {
+    longs: String,
+    bytes: String, // base64
+    oneofs: true,
+  }) as DecodedPayload;
+
+  return {
+    ...topic,
+    timestamp: toNumber(decoded.timestamp),
+    seq: toNumber(decoded.seq),
+    uuid: decoded.uuid,
+    metrics: (decoded.metrics ?? []).map((metric) => toMetric(metric, aliases)),
+  };
+}
+
+/**
+ * Decode a message if it is on a Sparkplug B topic
+ * @returns undefined for other topics or payloads that fail to decode
+ */
+export function decodeSparkplugMessage(
+  message: MqttMessage,
+  aliases?: Map<number, string>
+): SparkplugMessageInfo | undefined {
+  const topic = parseSparkplugTopic(message.topic);
+  if (!topic) {
+    return undefined;
+  }
+
+  try {
+    return decodeSparkplugPayload(topic, message.payload, aliases);
+  } catch (error) {
+    console.error(`Failed to decode Sparkplug B payload on ${message.topic}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Convert a decoded protobuf metric into its display form
+ */
+function toMetric(metric: DecodedMetric, aliases?: Map<number, string>): SparkplugMetric {
+  const alias = toNumber(metric.alias);
+  const datatype = metric.datatype ?? 0;
+
+  return {
+    name: metric.name ?? (alias !== undefined ? aliases?.get(alias) : undefined),
+    alias,
+    timestamp: toNumber(metric.timestamp),
+    datatype: DATA_TYPES[datatype] ?? `Unknown(${datatype})`,
+    value: metric.is_null ? null : toValue(metric, datatype),
+    isHistorical: metric.is_historical || undefined,
+    isTransient: metric.is_transient || undefined,
+  };
+}
+
+/**
+ * Read a metric value, reinterpreting unsigned wire values for signed types
+ */
+function toValue(metric: DecodedMetric, datatype: number): SparkplugValue {
+  if (!metric.value) {
+    return null;
+  }
+
+  const raw = metric[metric.value] as SparkplugValue;
+  switch (DATA_TYPES[datatype]) {
+    case 'Int8':
+      return (Number(raw) << 24) >> 24;
+    case 'Int16':
+      return (Number(raw) << 16) >> 16;
+    case 'Int32':
+      return Number(raw) | 0;
+    case 'Int64':
+      return toSafeNumber(BigInt.asIntN(64, BigInt(String(raw))));
+    case 'UInt64':
+      return toSafeNumber(BigInt(String(raw)));
+    case 'DateTime':
+      return Number(raw);
+    default:
+      // long_value for other integer types, and nested objects for DataSet/Template
+      return metric.value === 'long_value' ? toSafeNumber(BigInt(String(raw))) : raw;
+  }
+}
+
+/**
+ * Convert a 64-bit value to a number, keeping it as a string when it would lose precision
+ */
+function toSafeNumber(value: bigint): number | string {
+  const num = Number(value);
+  return Number.isSafeInteger(num) ? num : value.toString();
+}
+
+/**
+ * Convert an optional long (decoded as a string) to a number
+ */
+function toNumber(value: string | number | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
@@ -0,0 +1,41 @@
+import Store from 'electron-store';
+import type { AlertRule } from '../../../shared/types/models';
+
+/**
+ * Persists alert rules. Raised alerts are logged in the message history database.
+ */
+export class AlertRuleStore {
+  private store: any; // Using any to avoid type issues with electron-store v11
+
+  constructor() {
+    this.store = new Store({
+      name: 'alert-rules',
+      defaults: {
+        rules: [],
+      },
+    });
+  }
+
+  /**
+   * Get all alert rules
+   */
+  getRules(): AlertRule[] {
+    return this.store.get('rules') as AlertRule[];
+  }
+
+  /**
+   * Replace the alert rules, assigning IDs to new ones
+   */
+  saveRules(rules: AlertRule[]): AlertRule[] {
+    const saved = rules.map((rule) => ({ ...rule, id: rule.id || this.generateId() }));
+    this.store.set('rules', saved);
+    return saved;
+  }
+
+  /**
+   * Generate a unique ID for an alert rule
+   */
+  private generateId(): string {
+    return `alert_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
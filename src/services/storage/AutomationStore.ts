@@ -0,0 +1,62 @@
+import Store from 'electron-store';
+import { randomBytes } from 'crypto';
+import type { AutomationSettings } from '../../../shared/types/models';
+
+export const DEFAULT_AUTOMATION_PORT = 9901;
+
+export class AutomationStore {
+  private store: any; // Using any to avoid type issues with electron-store v11
+
+  constructor() {
+    this.store = new Store({
+      name: 'automation',
+      defaults: {
+        settings: {
+          enabled: false,
+          port: DEFAULT_AUTOMATION_PORT,
+        },
+      },
+    });
+  }
+
+  /**
+   * Get the automation API settings, creating an access token on first use
+   */
+  getSettings(): AutomationSettings {
+    const settings = this.store.get('settings') as Partial<AutomationSettings>;
+
+    if (!settings.token) {
+      settings.token = this.generateToken();
+      this.store.set('settings', settings);
+    }
+
+    return {
+      enabled: settings.enabled ?? false,
+      port: settings.port ?? DEFAULT_AUTOMATION_PORT,
+      token: settings.token,
+    };
+  }
+
+  /**
+   * Save the automation API settings
+   */
+  saveSettings(settings: AutomationSettings): void {
+    this.store.set('settings', settings);
+  }
+
+  /**
+   * Replace the access token, invalidating the old one
+   */
+  regenerateToken(): AutomationSettings {
+    const settings = { ...this.getSettings(), token: this.generateToken() };
+    this.saveSettings(settings);
+    return settings;
+  }
+
+  /**
+   * Generate a random access token
+   */
+  private generateToken(): string {
+    return randomBytes(24).toString('hex');
+  }
+}
@@ -1,6 +1,6 @@
 import Store from 'electron-store';
 import { safeStorage } from 'electron';
-import type { ConnectionConfig } from '../../../shared/types/models';
+import type { ConnectionConfig, PayloadDecoderAssignment } from '../../../shared/types/models';
 
 export class ConnectionStore {
   private store: any; // Using any to avoid type issues with electron-store v11
@@ -86,6 +86,20 @@ export class ConnectionStore {
     });
   }
 
+  /**
+   * Get the payload decoder assignments of every profile, by connection ID
+   */
+  getPayloadDecoderAssignments(): Record<string, PayloadDecoderAssignment[]> {
+    const connections = this.store.get('connections') as Record<string, ConnectionConfig>;
+    const assignments: Record<string, PayloadDecoderAssignment[]> = {};
+    Object.values(connections).forEach((conn) => {
+      if (conn.payloadDecoders && conn.payloadDecoders.length > 0) {
+        assignments[conn.id] = conn.payloadDecoders;
+      }
+    });
+    return assignments;
+  }
+
   /**
    * Delete a connection profile
    */
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MqttMessage } from '../../../shared/types/models';
+import { MessageHistory } from './MessageHistory';
+
+vi.mock('electron', () => ({ app: { getPath: () => '' } }));
+
+const TOPICS = [
+  'sensors/a/temp',
+  'sensors/b/temp',
+  'sensors/a/b/c/temp',
+  'sensors/a/humidity',
+  'sensors',
+  'sensorsX/a/temp',
+  'plant_1/line/temp',
+  'plantX1/line/temp',
+  '$SYS/broker/uptime',
+];
+
+function createMessage(topic: string, index: number): MqttMessage {
+  return {
+    id: `msg-${index}`,
+    topic,
+    payload: Buffer.from(JSON.stringify({ value: index })),
+    qos: 0,
+    retained: false,
+    timestamp: 1000 + index,
+    connectionId: 'conn-1',
+  };
+}
+
+describe('MessageHistory.searchMessages', () => {
+  let history: MessageHistory;
+
+  const searchTopics = (topic: string): string[] =>
+    history
+      .searchMessages({ connectionId: 'conn-1', topic })
+      .map((message) => message.topic)
+      .sort();
+
+  beforeEach(() => {
+    history = new MessageHistory(':memory:');
+    TOPICS.forEach((topic, index) => history.addMessage(createMessage(topic, index)));
+  });
+
+  afterEach(() => {
+    history.close();
+  });
+
+  it('matches + against exactly one level', () => {
+    expect(searchTopics('sensors/+/temp')).toEqual(['sensors/a/temp', 'sensors/b/temp']);
+  });
+
+  it('matches # against the parent level and its children', () => {
+    expect(searchTopics('sensors/#')).toEqual([
+      'sensors',
+      'sensors/a/b/c/temp',
+      'sensors/a/humidity',
+      'sensors/a/temp',
+      'sensors/b/temp',
+    ]);
+  });
+
+  it('treats _ in a topic literally', () => {
+    expect(searchTopics('plant_1/+/temp')).toEqual(['plant_1/line/temp']);
+    expect(searchTopics('plant_1/line/temp')).toEqual(['plant_1/line/temp']);
+  });
+
+  it('keeps $ topics out of leading wildcards', () => {
+    expect(searchTopics('#')).not.toContain('$SYS/broker/uptime');
+    expect(searchTopics('$SYS/#')).toEqual(['$SYS/broker/uptime']);
+  });
+
+  it('ignores shared subscription prefixes', () => {
+    expect(searchTopics('$share/group/sensors/+/temp')).toEqual(['sensors/a/temp', 'sensors/b/temp']);
+  });
+});
+
+describe('MessageHistory retention', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let history: MessageHistory;
+
+  const storedIds = (): string[] =>
+    history
+      .searchMessages()
+      .map((message) => message.id)
+      .sort();
+
+  const addAt = (id: string, timestamp: number, connectionId = 'conn-1', payload = '{"value":1}'): void =>
+    history.addMessage({
+      id,
+      topic: `sensors/${id}`,
+      payload: Buffer.from(payload),
+      qos: 0,
+      retained: false,
+      timestamp,
+      connectionId,
+    });
+
+  beforeEach(() => {
+    history = new MessageHistory(':memory:');
+  });
+
+  afterEach(() => {
+    history.close();
+  });
+
+  it('deletes messages older than maxAgeDays', () => {
+    const now = Date.now();
+    addAt('old', now - 3 * DAY_MS);
+    addAt('recent', now - DAY_MS / 2);
+
+    const result = history.prune({ maxAgeDays: 1 });
+
+    expect(result.deletedByAge).toBe(1);
+    expect(result.totalDeleted).toBe(1);
+    expect(storedIds()).toEqual(['recent']);
+  });
+
+  it('keeps the newest maxMessages messages of each connection', () => {
+    for (let i = 0; i < 4; i++) {
+      addAt(`a${i}`, 1000 + i, 'conn-a');
+      addAt(`b${i}`, 1000 + i, 'conn-b');
+    }
+
+    const result = history.prune({ maxMessages: 2 });
+
+    expect(result.deletedByCount).toBe(4);
+    expect(storedIds()).toEqual(['a2', 'a3', 'b2', 'b3']);
+  });
+
+  it('keeps the newest payloads that fit in maxStorageMB', () => {
+    const payload = 'x'.repeat(400 * 1024);
+    addAt('oldest', 1000, 'conn-1', payload);
+    addAt('middle', 2000, 'conn-1', payload);
+    addAt('newest', 3000, 'conn-1', payload);
+
+    const result = history.prune({ maxStorageMB: 1 });
+
+    expect(result.deletedBySize).toBe(1);
+    expect(storedIds()).toEqual(['middle', 'newest']);
+  });
+
+  it('counts without deleting on a dry run', () => {
+    for (let i = 0; i < 3; i++) {
+      addAt(`m${i}`, 1000 + i);
+    }
+
+    const result = history.prune({ maxMessages: 1 }, true);
+
+    expect(result.dryRun).toBe(true);
+    expect(result.deletedByCount).toBe(2);
+    expect(storedIds()).toEqual(['m0', 'm1', 'm2']);
+  });
+
+  it('finds payloads after compacting', () => {
+    for (let i = 0; i < 6; i++) {
+      addAt(`m${i}`, 1000 + i, 'conn-1', JSON.stringify({ value: i }));
+    }
+    history.clearOlderThan(1003);
+    history.compact();
+
+    expect(history.searchMessages({ payloadSearch: '"value"' })).toHaveLength(3);
+    expect(history.searchMessages({ payloadSearch: '4' }).map((message) => message.id)).toEqual(['m4']);
+  });
+});
+
+describe('MessageHistory.forEachRecentPayload', () => {
+  let history: MessageHistory;
+
+  const recentPayloads = (limitPerTopic: number, startTime?: number, endTime?: number): Record<string, string[]> => {
+    const payloads: Record<string, string[]> = {};
+    history.forEachRecentPayload(
+      'conn-1',
+      limitPerTopic,
+      (topic, payload) => {
+        payloads[topic] = [...(payloads[topic] ?? []), payload.toString()];
+      },
+      startTime,
+      endTime
+    );
+    return payloads;
+  };
+
+  beforeEach(() => {
+    history = new MessageHistory(':memory:');
+    for (let i = 0; i < 5; i++) {
+      history.addMessage({ ...createMessage('a', i), payload: Buffer.from(`a${i}`) });
+      history.addMessage({ ...createMessage('b', i + 10), payload: Buffer.from(`b${i}`) });
+    }
+    history.addMessage({ ...createMessage('a', 20), payload: Buffer.from('other'), connectionId: 'conn-2' });
+  });
+
+  afterEach(() => {
+    history.close();
+  });
+
+  it('passes on the newest payloads of each topic, up to the limit', () => {
+    expect(recentPayloads(3)).toEqual({ a: ['a4', 'a3', 'a2'], b: ['b4', 'b3', 'b2'] });
+  });
+
+  it('only reads messages in the time window', () => {
+    expect(recentPayloads(10, 1001, 1011)).toEqual({ a: ['a4', 'a3', 'a2', 'a1'], b: ['b1', 'b0'] });
+  });
+});
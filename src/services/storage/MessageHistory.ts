@@ -1,7 +1,71 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import { app } from 'electron';
-import type { MqttMessage, MessageFilter, Statistics } from '../../../shared/types/models';
+import type {
+  MqttMessage,
+  MessageFilter,
+  MessageProperties,
+  QoS,
+  Statistics,
+  RetentionLimits,
+  RetentionResult,
+  AlertEvent,
+  StoredTopicSummary,
+} from '../../../shared/types/models';
+import { toPayloadBuffer } from '../mqtt/payload';
+import { MessageDecoder } from '../mqtt/MessageDecoder';
+import {
+  getLiteralPrefix,
+  getPrefixUpperBound,
+  hasWildcards,
+  stripSharedSubscription,
+  topicMatchesFilter,
+} from '../../../shared/utils/topicMatch';
+import { stringifyDecodedValue } from '../../../shared/utils/payloadDecoders';
+
+// A row of the messages table; JSON columns are stored as text
+interface MessageRow {
+  id: string;
+  topic: string;
+  payload: Buffer | string | null;
+  qos: QoS;
+  retained: number;
+  timestamp: number;
+  connection_id: string | null;
+  user_properties: string | null;
+  content_type: string | null;
+  payload_format_indicator: number | null;
+  message_expiry_interval: number | null;
+  response_topic: string | null;
+  correlation_data: Buffer | null;
+  topic_alias: number | null;
+  subscription_identifiers: string | null;
+  validation_pattern: string | null;
+  validation_valid: number | null;
+  validation_errors: string | null;
+}
+
+// A topic's latest message joined with the totals of its messages
+interface TopicSummaryRow extends MessageRow {
+  message_count: number;
+  first_seen: number;
+  min_payload_bytes: number;
+  max_payload_bytes: number;
+  total_payload_bytes: number;
+}
+
+// A row of the alerts table
+interface AlertRow {
+  id: number;
+  rule_id: string;
+  rule_name: string;
+  condition_type: AlertEvent['conditionType'];
+  topic: string;
+  connection_id: string | null;
+  message: string;
+  value: number | null;
+  timestamp: number;
+}
 
 export class MessageHistory {
   private db: Database.Database;
@@ -15,10 +79,20 @@ export class MessageHistory {
     this.db = new Database(dbPath || defaultDbPath);
     this.initializeDatabase();
 
+    // MQTT topic filter matching for wildcard searches
+    this.db.function('mqtt_topic_match', { deterministic: true }, (topic, filter) =>
+      topicMatchesFilter(String(topic), String(filter)) ? 1 : 0
+    );
+
     // Prepare statements for better performance
     this.insertStmt = this.db.prepare(`
-      INSERT INTO messages (id, topic, payload, qos, retained, timestamp, connection_id, user_properties)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO messages (
+        id, topic, payload, qos, retained, timestamp, connection_id, user_properties,
+        content_type, payload_format_indicator, message_expiry_interval, response_topic,
+        correlation_data, topic_alias, subscription_identifiers,
+        validation_pattern, validation_valid, validation_errors
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     this.selectStmt = this.db.prepare(`
@@ -53,14 +127,44 @@ export class MessageHistory {
     `);
 
     // Migration: Add user_properties column if it doesn't exist
-    const columns = this.db.prepare("PRAGMA table_info(messages)").all() as any[];
-    const hasUserProperties = columns.some((col: any) => col.name === 'user_properties');
+    const columns = this.db.prepare("PRAGMA table_info(messages)").all() as Array<{ name: string }>;
+    const hasUserProperties = columns.some((col) => col.name === 'user_properties');
 
     if (!hasUserProperties) {
       console.log('Migrating database: adding user_properties column');
       this.db.exec('ALTER TABLE messages ADD COLUMN user_properties TEXT');
     }
 
+    // Migration: Add MQTT 5.0 property columns if they don't exist
+    const propertyColumns: Array<[string, string]> = [
+      ['content_type', 'TEXT'],
+      ['payload_format_indicator', 'INTEGER'],
+      ['message_expiry_interval', 'INTEGER'],
+      ['response_topic', 'TEXT'],
+      ['correlation_data', 'BLOB'],
+      ['topic_alias', 'INTEGER'],
+      ['subscription_identifiers', 'TEXT'],
+    ];
+    for (const [name, type] of propertyColumns) {
+      if (!columns.some((col) => col.name === name)) {
+        console.log(`Migrating database: adding ${name} column`);
+        this.db.exec(`ALTER TABLE messages ADD COLUMN ${name} ${type}`);
+      }
+    }
+
+    // Migration: Add payload schema validation columns if they don't exist
+    const validationColumns: Array<[string, string]> = [
+      ['validation_pattern', 'TEXT'],
+      ['validation_valid', 'INTEGER'],
+      ['validation_errors', 'TEXT'],
+    ];
+    for (const [name, type] of validationColumns) {
+      if (!columns.some((col) => col.name === name)) {
+        console.log(`Migrating database: adding ${name} column`);
+        this.db.exec(`ALTER TABLE messages ADD COLUMN ${name} ${type}`);
+      }
+    }
+
     // Create FTS5 virtual table for full-text search on payload
     this.db.exec(`
       CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
@@ -83,6 +187,22 @@ export class MessageHistory {
       END;
     `);
 
+    // Create alert log table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rule_id TEXT NOT NULL,
+        rule_name TEXT NOT NULL,
+        condition_type TEXT NOT NULL,
+        topic TEXT NOT NULL,
+        connection_id TEXT,
+        message TEXT NOT NULL,
+        value REAL,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_alerts_timestamp ON alerts(timestamp);
+    `);
+
     console.log('Database initialized successfully');
   }
 
@@ -91,13 +211,13 @@ export class MessageHistory {
    */
   addMessage(message: MqttMessage): void {
     try {
-      const payload = Buffer.isBuffer(message.payload)
-        ? message.payload
-        : Buffer.from(message.payload);
+      const payload = toPayloadBuffer(message.payload);
 
       const userPropertiesJson = message.userProperties
         ? JSON.stringify(message.userProperties)
         : null;
+      const properties = message.properties ?? {};
+      const validation = message.validation;
 
       this.insertStmt.run(
         message.id,
@@ -107,7 +227,17 @@ export class MessageHistory {
         message.retained ? 1 : 0,
         message.timestamp,
         message.connectionId || null,
-        userPropertiesJson
+        userPropertiesJson,
+        properties.contentType ?? null,
+        properties.payloadFormatIndicator === undefined ? null : properties.payloadFormatIndicator ? 1 : 0,
+        properties.messageExpiryInterval ?? null,
+        properties.responseTopic ?? null,
+        properties.correlationData !== undefined ? toPayloadBuffer(properties.correlationData) : null,
+        properties.topicAlias ?? null,
+        properties.subscriptionIdentifiers ? JSON.stringify(properties.subscriptionIdentifiers) : null,
+        validation?.topicPattern ?? null,
+        validation ? (validation.valid ? 1 : 0) : null,
+        validation ? JSON.stringify(validation.errors) : null
       );
     } catch (error) {
       console.error('Failed to add message to history:', error);
@@ -119,7 +249,7 @@ export class MessageHistory {
    */
   searchMessages(filter: MessageFilter = {}): MqttMessage[] {
     const conditions: string[] = [];
-    const params: any[] = [];
+    const params: Array<string | number | Buffer> = [];
 
     // Connection filter
     if (filter.connectionId) {
@@ -127,18 +257,28 @@ export class MessageHistory {
       params.push(filter.connectionId);
     }
 
-    // Topic filter (supports wildcards)
+    // Topic filter (supports wildcards and shared subscription prefixes)
     if (filter.topic) {
-      if (filter.topic.includes('+') || filter.topic.includes('#')) {
-        // Convert MQTT wildcards to SQL LIKE pattern
-        const pattern = filter.topic
-          .replace(/\+/g, '%')
-          .replace(/#/g, '%');
-        conditions.push('topic LIKE ?');
-        params.push(pattern);
+      const topicFilter = stripSharedSubscription(filter.topic);
+      if (hasWildcards(topicFilter)) {
+        // Narrow by the literal levels before the first wildcard so the topic
+        // index is used, then check each candidate with MQTT matching rules
+        const prefix = getLiteralPrefix(topicFilter);
+        if (prefix) {
+          conditions.push('topic >= ?');
+          params.push(prefix);
+
+          const upperBound = getPrefixUpperBound(prefix);
+          if (upperBound) {
+            conditions.push('topic < ?');
+            params.push(upperBound);
+          }
+        }
+        conditions.push('mqtt_topic_match(topic, ?)');
+        params.push(topicFilter);
       } else {
         conditions.push('topic = ?');
-        params.push(filter.topic);
+        params.push(topicFilter);
       }
     }
 
@@ -177,6 +317,42 @@ export class MessageHistory {
       params.push(`%"${filter.userPropertyValue}"%`);
     }
 
+    // MQTT 5.0 property filters
+    if (filter.contentType) {
+      // Substring match, case-insensitive like LIKE but without its % and _ wildcards
+      conditions.push('instr(lower(content_type), lower(?)) > 0');
+      params.push(filter.contentType);
+    }
+
+    if (filter.responseTopic) {
+      if (hasWildcards(filter.responseTopic)) {
+        conditions.push('response_topic IS NOT NULL AND mqtt_topic_match(response_topic, ?)');
+      } else {
+        conditions.push('response_topic = ?');
+      }
+      params.push(filter.responseTopic);
+    }
+
+    if (filter.correlationData) {
+      // Correlation data is binary, so match either its UTF-8 text or its hex form
+      conditions.push('(correlation_data = ? OR hex(correlation_data) = ?)');
+      params.push(
+        Buffer.from(filter.correlationData, 'utf-8'),
+        filter.correlationData.replace(/\s+/g, '').toUpperCase()
+      );
+    }
+
+    if (filter.subscriptionIdentifier !== undefined) {
+      conditions.push(
+        'EXISTS (SELECT 1 FROM json_each(subscription_identifiers) WHERE json_each.value = ?)'
+      );
+      params.push(filter.subscriptionIdentifier);
+    }
+
+    if (filter.invalidOnly) {
+      conditions.push('validation_valid = 0');
+    }
+
     // Payload search using FTS
     let query = 'SELECT * FROM messages';
 
@@ -213,31 +389,225 @@ export class MessageHistory {
 
     try {
       const stmt = this.db.prepare(query);
-      const rows = stmt.all(...params) as any[];
+      const rows = stmt.all(...params) as MessageRow[];
+
+      return rows.map((row) => this.rowToMessage(row));
+    } catch (error) {
+      console.error('Failed to search messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Convert a messages table row to a message
+   */
+  private rowToMessage(row: MessageRow): MqttMessage {
+    const properties: MessageProperties = {
+      contentType: row.content_type ?? undefined,
+      payloadFormatIndicator:
+        row.payload_format_indicator === null ? undefined : row.payload_format_indicator === 1,
+      messageExpiryInterval: row.message_expiry_interval ?? undefined,
+      responseTopic: row.response_topic ?? undefined,
+      correlationData: row.correlation_data ?? undefined,
+      topicAlias: row.topic_alias ?? undefined,
+      subscriptionIdentifiers: row.subscription_identifiers
+        ? JSON.parse(row.subscription_identifiers)
+        : undefined,
+    };
+    const hasProperties = Object.values(properties).some((value) => value !== undefined);
+
+    return {
+      id: row.id,
+      topic: row.topic,
+      payload: row.payload,
+      qos: row.qos,
+      retained: row.retained === 1,
+      timestamp: row.timestamp,
+      connectionId: row.connection_id,
+      userProperties: row.user_properties ? JSON.parse(row.user_properties) : undefined,
+      properties: hasProperties ? properties : undefined,
+      validation:
+        row.validation_valid === null || row.validation_valid === undefined
+          ? undefined
+          : {
+              topicPattern: row.validation_pattern,
+              valid: row.validation_valid === 1,
+              errors: row.validation_errors ? JSON.parse(row.validation_errors) : [],
+            },
+    };
+  }
+
+  /**
+   * Get the latest stored message of each topic matching a filter
+   * @param topicFilter - Topic filter (supports + and # wildcards)
+   */
+  getLatestMessages(connectionId: string, topicFilter: string): MqttMessage[] {
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM (
+          SELECT *, ROW_NUMBER() OVER (
+            PARTITION BY topic ORDER BY timestamp DESC, rowid DESC
+          ) AS recency
+          FROM messages
+          WHERE connection_id = ? AND mqtt_topic_match(topic, ?)
+        )
+        WHERE recency = 1
+        ORDER BY timestamp, rowid
+      `).all(connectionId, topicFilter) as MessageRow[];
+
+      return rows.map((row) => this.rowToMessage(row));
+    } catch (error) {
+      console.error('Failed to get latest messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the last retained message of each topic, leaving out topics whose
+   * retained message was cleared (an empty payload received or published since)
+   * @param topicFilter - Only topics matching this filter (supports + and # wildcards)
+   */
+  getRetainedMessages(connectionId: string, topicFilter = '#'): MqttMessage[] {
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM (
+          SELECT *, ROW_NUMBER() OVER (
+            PARTITION BY topic ORDER BY timestamp DESC, rowid DESC
+          ) AS recency
+          FROM messages
+          WHERE connection_id = ? AND retained = 1 AND mqtt_topic_match(topic, ?)
+        ) latest
+        WHERE recency = 1
+          AND IFNULL(LENGTH(payload), 0) > 0
+          AND NOT EXISTS (
+            SELECT 1 FROM messages cleared
+            WHERE cleared.connection_id = latest.connection_id
+              AND cleared.topic = latest.topic
+              AND cleared.timestamp > latest.timestamp
+              AND IFNULL(LENGTH(cleared.payload), 0) = 0
+          )
+        ORDER BY topic
+      `).all(connectionId, topicFilter) as MessageRow[];
+
+      return rows.map((row) => this.rowToMessage(row));
+    } catch (error) {
+      console.error('Failed to get retained messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Summarise each topic's stored messages for a connection: its latest message,
+   * message count, first timestamp and payload sizes
+   * @param startTime - Only messages at or after this time
+   * @param endTime - Only messages at or before this time
+   */
+  getTopicSummaries(connectionId: string, startTime?: number, endTime?: number): StoredTopicSummary[] {
+    try {
+      const { whereClause, params } = this.buildWindowClause(connectionId, startTime, endTime);
+
+      const rows = this.db.prepare(`
+        SELECT latest.*, totals.message_count, totals.first_seen,
+          totals.min_payload_bytes, totals.max_payload_bytes, totals.total_payload_bytes
+        FROM (
+          SELECT *, ROW_NUMBER() OVER (
+            PARTITION BY topic ORDER BY timestamp DESC, rowid DESC
+          ) AS recency
+          FROM messages
+          WHERE ${whereClause}
+        ) latest
+        JOIN (
+          SELECT topic,
+            COUNT(*) AS message_count,
+            MIN(timestamp) AS first_seen,
+            MIN(IFNULL(LENGTH(CAST(payload AS BLOB)), 0)) AS min_payload_bytes,
+            MAX(IFNULL(LENGTH(CAST(payload AS BLOB)), 0)) AS max_payload_bytes,
+            SUM(IFNULL(LENGTH(CAST(payload AS BLOB)), 0)) AS total_payload_bytes
+          FROM messages
+          WHERE ${whereClause}
+          GROUP BY topic
+        ) totals ON totals.topic = latest.topic
+        WHERE latest.recency = 1
+        ORDER BY latest.topic
+      `).all(...params, ...params) as TopicSummaryRow[];
 
       return rows.map((row) => ({
-        id: row.id,
-        topic: row.topic,
-        payload: row.payload,
-        qos: row.qos,
-        retained: row.retained === 1,
-        timestamp: row.timestamp,
-        connectionId: row.connection_id,
-        userProperties: row.user_properties ? JSON.parse(row.user_properties) : undefined,
+        lastMessage: this.rowToMessage(row),
+        messageCount: row.message_count,
+        firstSeen: row.first_seen,
+        minPayloadBytes: row.min_payload_bytes,
+        maxPayloadBytes: row.max_payload_bytes,
+        totalPayloadBytes: row.total_payload_bytes,
       }));
     } catch (error) {
-      console.error('Failed to search messages:', error);
+      console.error('Failed to get topic summaries:', error);
       return [];
     }
   }
 
+  /**
+   * Stream the most recent payloads of each of a connection's topics, newest
+   * first, in a single query
+   * @param limitPerTopic - Payloads passed on per topic at most
+   * @param startTime - Only messages at or after this time
+   * @param endTime - Only messages at or before this time
+   */
+  forEachRecentPayload(
+    connectionId: string,
+    limitPerTopic: number,
+    callback: (topic: string, payload: MqttMessage['payload']) => void,
+    startTime?: number,
+    endTime?: number
+  ): void {
+    try {
+      const { whereClause, params } = this.buildWindowClause(connectionId, startTime, endTime);
+      const rows = this.db.prepare(`
+        SELECT topic, payload FROM (
+          SELECT topic, payload, ROW_NUMBER() OVER (
+            PARTITION BY topic ORDER BY timestamp DESC, rowid DESC
+          ) AS recency
+          FROM messages
+          WHERE ${whereClause}
+        )
+        WHERE recency <= ?
+      `).iterate(...params, limitPerTopic) as IterableIterator<{ topic: string; payload: Buffer | string }>;
+
+      for (const row of rows) {
+        callback(row.topic, row.payload);
+      }
+    } catch (error) {
+      console.error('Failed to read recent payloads:', error);
+    }
+  }
+
+  /**
+   * Build the WHERE clause selecting a connection's messages in a time window
+   */
+  private buildWindowClause(
+    connectionId: string,
+    startTime?: number,
+    endTime?: number
+  ): { whereClause: string; params: Array<string | number> } {
+    const conditions = ['connection_id = ?'];
+    const params: Array<string | number> = [connectionId];
+    if (startTime !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(startTime);
+    }
+    if (endTime !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(endTime);
+    }
+    return { whereClause: conditions.join(' AND '), params };
+  }
+
   /**
    * Get recent messages (optionally for a specific connection)
    */
   getRecentMessages(limit: number = 100, connectionId?: string): MqttMessage[] {
     try {
       let query: string;
-      let params: any[];
+      let params: Array<string | number>;
 
       if (connectionId) {
         query = `
@@ -257,18 +627,9 @@ export class MessageHistory {
       }
 
       const stmt = this.db.prepare(query);
-      const rows = stmt.all(...params) as any[];
+      const rows = stmt.all(...params) as MessageRow[];
 
-      return rows.map((row) => ({
-        id: row.id,
-        topic: row.topic,
-        payload: row.payload,
-        qos: row.qos,
-        retained: row.retained === 1,
-        timestamp: row.timestamp,
-        connectionId: row.connection_id,
-        userProperties: row.user_properties ? JSON.parse(row.user_properties) : undefined,
-      }));
+      return rows.map((row) => this.rowToMessage(row));
     } catch (error) {
       console.error('Failed to get recent messages:', error);
       return [];
@@ -380,43 +741,265 @@ export class MessageHistory {
     }
   }
 
+  /**
+   * Delete messages that exceed the retention limits
+   * Age is applied first, then the per-connection count and storage limits
+   * keep the newest messages of each connection.
+   * @param dryRun - If true, count what would be deleted and roll back
+   */
+  prune(limits: RetentionLimits, dryRun = false): RetentionResult {
+    const result: RetentionResult = {
+      dryRun,
+      deletedByAge: 0,
+      deletedByCount: 0,
+      deletedBySize: 0,
+      totalDeleted: 0,
+      compacted: false,
+      timestamp: Date.now(),
+    };
+
+    const run = () => {
+      if (limits.maxAgeDays && limits.maxAgeDays > 0) {
+        const cutoff = Date.now() - limits.maxAgeDays * 24 * 60 * 60 * 1000;
+        result.deletedByAge = this.db
+          .prepare('DELETE FROM messages WHERE timestamp < ?')
+          .run(cutoff).changes;
+      }
+
+      const connectionIds = (
+        this.db.prepare('SELECT DISTINCT connection_id FROM messages').all() as Array<{ connection_id: string | null }>
+      ).map((row) => row.connection_id);
+
+      for (const connectionId of connectionIds) {
+        if (limits.maxMessages && limits.maxMessages > 0) {
+          // Keep the newest maxMessages rows of this connection
+          result.deletedByCount += this.db.prepare(`
+            DELETE FROM messages WHERE rowid IN (
+              SELECT rowid FROM messages
+              WHERE connection_id IS ?
+              ORDER BY timestamp DESC, rowid DESC
+              LIMIT -1 OFFSET ?
+            )
+          `).run(connectionId, limits.maxMessages).changes;
+        }
+
+        if (limits.maxStorageMB && limits.maxStorageMB > 0) {
+          // Keep the newest rows whose payloads fit in maxStorageMB
+          result.deletedBySize += this.db.prepare(`
+            DELETE FROM messages WHERE rowid IN (
+              SELECT rowid FROM (
+                SELECT rowid, SUM(LENGTH(payload)) OVER (
+                  ORDER BY timestamp DESC, rowid DESC
+                ) AS running_size
+                FROM messages
+                WHERE connection_id IS ?
+              )
+              WHERE running_size > ?
+            )
+          `).run(connectionId, Math.floor(limits.maxStorageMB * 1024 * 1024)).changes;
+        }
+      }
+
+      result.totalDeleted = result.deletedByAge + result.deletedByCount + result.deletedBySize;
+    };
+
+    try {
+      if (dryRun) {
+        this.db.exec('BEGIN');
+        try {
+          run();
+        } finally {
+          this.db.exec('ROLLBACK');
+        }
+      } else {
+        this.db.transaction(run)();
+        console.log(`Retention pruned ${result.totalDeleted} messages`);
+      }
+    } catch (error) {
+      console.error('Failed to prune messages:', error);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Reclaim free pages and rebuild the full-text index
+   */
+  compact(): void {
+    try {
+      // VACUUM may renumber the implicit rowids of messages, which the
+      // external-content index is keyed on, so the index is rebuilt after it
+      this.db.exec('VACUUM');
+      this.db.exec("INSERT INTO messages_fts(messages_fts) VALUES('rebuild')");
+      console.log('Database compacted');
+    } catch (error) {
+      console.error('Failed to compact database:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the size of the database file in bytes
+   */
+  getDatabaseSize(): number {
+    try {
+      const pageCount = this.db.pragma('page_count', { simple: true }) as number;
+      const pageSize = this.db.pragma('page_size', { simple: true }) as number;
+      return pageCount * pageSize;
+    } catch (error) {
+      console.error('Failed to get database size:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Record a raised alert in the alert log
+   */
+  addAlert(alert: Omit<AlertEvent, 'id'>): AlertEvent {
+    const result = this.db.prepare(`
+      INSERT INTO alerts (rule_id, rule_name, condition_type, topic, connection_id, message, value, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      alert.ruleId,
+      alert.ruleName,
+      alert.conditionType,
+      alert.topic,
+      alert.connectionId || null,
+      alert.message,
+      alert.value ?? null,
+      alert.timestamp
+    );
+
+    return { ...alert, id: Number(result.lastInsertRowid) };
+  }
+
+  /**
+   * Get the most recent alerts, newest first
+   */
+  getAlerts(limit = 500): AlertEvent[] {
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM alerts
+        ORDER BY timestamp DESC, id DESC
+        LIMIT ?
+      `).all(limit) as AlertRow[];
+
+      return rows.map((row) => ({
+        id: row.id,
+        ruleId: row.rule_id,
+        ruleName: row.rule_name,
+        conditionType: row.condition_type,
+        topic: row.topic,
+        connectionId: row.connection_id ?? undefined,
+        message: row.message,
+        value: row.value ?? undefined,
+        timestamp: row.timestamp,
+      }));
+    } catch (error) {
+      console.error('Failed to get alerts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Clear the alert log
+   */
+  clearAlerts(): void {
+    try {
+      this.db.exec('DELETE FROM alerts');
+    } catch (error) {
+      console.error('Failed to clear alerts:', error);
+    }
+  }
+
   /**
    * Export messages as JSON
+   * @param decoder - Decodes payloads the way the renderer shows them
    */
-  exportAsJSON(filter: MessageFilter = {}): string {
+  exportAsJSON(filter: MessageFilter = {}, decoder: MessageDecoder = new MessageDecoder()): string {
     const messages = this.searchMessages(filter);
 
-    const exportData = messages.map((msg) => ({
-      id: msg.id,
-      topic: msg.topic,
-      payload: msg.payload.toString('utf-8'),
-      qos: msg.qos,
-      retained: msg.retained,
-      timestamp: msg.timestamp,
-      datetime: new Date(msg.timestamp).toISOString(),
-      userProperties: msg.userProperties,
-    }));
+    const exportData = messages.map((msg) => {
+      const decoded = decoder.decode(msg);
+      return {
+        id: msg.id,
+        topic: msg.topic,
+        payload: toPayloadBuffer(msg.payload).toString('utf-8'),
+        // Structured payloads as JSON, others as text (hex when binary)
+        decoded: decoded.format === 'json' ? JSON.parse(stringifyDecodedValue(decoded.value)) : decoded.text,
+        decoders: decoded.decoders,
+        qos: msg.qos,
+        retained: msg.retained,
+        timestamp: msg.timestamp,
+        datetime: new Date(msg.timestamp).toISOString(),
+        userProperties: msg.userProperties,
+        properties: msg.properties && {
+          ...msg.properties,
+          correlationData: msg.properties.correlationData !== undefined
+            ? toPayloadBuffer(msg.properties.correlationData).toString('hex')
+            : undefined,
+        },
+      };
+    });
 
     return JSON.stringify(exportData, null, 2);
   }
 
   /**
    * Export messages as CSV
+   * @param decoder - Decodes payloads the way the renderer shows them
    */
-  exportAsCSV(filter: MessageFilter = {}): string {
+  exportAsCSV(filter: MessageFilter = {}, decoder: MessageDecoder = new MessageDecoder()): string {
     const messages = this.searchMessages(filter);
 
-    const headers = ['ID', 'Topic', 'Payload', 'QoS', 'Retained', 'Timestamp', 'DateTime', 'UserProperties'];
-    const rows = messages.map((msg) => [
-      msg.id,
-      msg.topic,
-      msg.payload.toString('utf-8').replace(/"/g, '""'), // Escape quotes
-      msg.qos,
-      msg.retained,
-      msg.timestamp,
-      new Date(msg.timestamp).toISOString(),
-      msg.userProperties ? JSON.stringify(msg.userProperties).replace(/"/g, '""') : '',
-    ]);
+    const headers = [
+      'ID',
+      'Topic',
+      'Payload',
+      'Decoded',
+      'Decoders',
+      'QoS',
+      'Retained',
+      'Timestamp',
+      'DateTime',
+      'UserProperties',
+      'ContentType',
+      'PayloadFormatIndicator',
+      'MessageExpiryInterval',
+      'ResponseTopic',
+      'CorrelationData', // Hex
+      'TopicAlias',
+      'SubscriptionIdentifiers',
+      'SchemaValid',
+      'SchemaErrors',
+    ];
+    const rows = messages.map((msg) => {
+      const decoded = decoder.decode(msg);
+      return [
+        msg.id,
+        msg.topic,
+        toPayloadBuffer(msg.payload).toString('utf-8').replace(/"/g, '""'), // Escape quotes
+        (decoded.format === 'json' ? stringifyDecodedValue(decoded.value) : decoded.text).replace(/"/g, '""'),
+        decoded.decoders.join('+'),
+        msg.qos,
+        msg.retained,
+        msg.timestamp,
+        new Date(msg.timestamp).toISOString(),
+        msg.userProperties ? JSON.stringify(msg.userProperties).replace(/"/g, '""') : '',
+        (msg.properties?.contentType ?? '').replace(/"/g, '""'),
+        msg.properties?.payloadFormatIndicator ?? '',
+        msg.properties?.messageExpiryInterval ?? '',
+        (msg.properties?.responseTopic ?? '').replace(/"/g, '""'),
+        msg.properties?.correlationData !== undefined
+          ? toPayloadBuffer(msg.properties.correlationData).toString('hex')
+          : '',
+        msg.properties?.topicAlias ?? '',
+        msg.properties?.subscriptionIdentifiers?.join(' ') ?? '',
+        msg.validation?.valid ?? '',
+        (msg.validation?.errors.join('; ') ?? '').replace(/"/g, '""'),
+      ];
+    });
 
     const csvContent = [
       headers.join(','),
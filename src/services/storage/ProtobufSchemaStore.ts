@@ -0,0 +1,82 @@
+import Store from 'electron-store';
+import type {
+  ProtobufRegistry,
+  ProtobufSchemaFile,
+  ProtobufTopicMapping,
+} from '../../../shared/types/models';
+
+/**
+ * Persists registered .proto files / descriptor sets and their topic mappings.
+ * Schemas are parsed and applied in the renderer, next to the other payload decoders.
+ */
+export class ProtobufSchemaStore {
+  private store: any; // Using any to avoid type issues with electron-store v11
+
+  constructor() {
+    this.store = new Store({
+      name: 'protobuf-schemas',
+      defaults: {
+        files: [],
+        mappings: [],
+      },
+    });
+  }
+
+  /**
+   * Get all schema files and topic mappings
+   */
+  getRegistry(): ProtobufRegistry {
+    return {
+      files: this.store.get('files') as ProtobufSchemaFile[],
+      mappings: this.store.get('mappings') as ProtobufTopicMapping[],
+    };
+  }
+
+  /**
+   * Add a schema file, replacing any existing file with the same name
+   */
+  addFile(file: Omit<ProtobufSchemaFile, 'id' | 'addedAt'>): ProtobufSchemaFile {
+    const files = (this.store.get('files') as ProtobufSchemaFile[]).filter(
+      (existing) => existing.name !== file.name
+    );
+
+    const schemaFile: ProtobufSchemaFile = {
+      ...file,
+      id: this.generateId(),
+      addedAt: Date.now(),
+    };
+
+    files.push(schemaFile);
+    this.store.set('files', files);
+    return schemaFile;
+  }
+
+  /**
+   * Remove a schema file
+   */
+  removeFile(id: string): boolean {
+    const files = this.store.get('files') as ProtobufSchemaFile[];
+    const remaining = files.filter((file) => file.id !== id);
+
+    if (remaining.length === files.length) {
+      return false;
+    }
+
+    this.store.set('files', remaining);
+    return true;
+  }
+
+  /**
+   * Replace the topic mappings
+   */
+  saveMappings(mappings: ProtobufTopicMapping[]): void {
+    this.store.set('mappings', mappings);
+  }
+
+  /**
+   * Generate a unique ID for a schema file
+   */
+  private generateId(): string {
+    return `proto_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
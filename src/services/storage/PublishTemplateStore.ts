@@ -0,0 +1,51 @@
+import Store from 'electron-store';
+import type { PublishTemplateSet } from '../../../shared/types/models';
+
+/**
+ * Persists publish templates and their environment values, one set per connection profile
+ */
+export class PublishTemplateStore {
+  private store: any; // Using any to avoid type issues with electron-store v11
+
+  constructor() {
+    this.store = new Store({
+      name: 'publish-templates',
+      defaults: {
+        templateSets: {},
+      },
+    });
+  }
+
+  /**
+   * Get the templates and environment of a connection profile
+   */
+  getTemplateSet(connectionId: string): PublishTemplateSet {
+    const templateSets = this.store.get('templateSets') as Record<string, PublishTemplateSet>;
+    return templateSets[connectionId] ?? { templates: [], environment: {} };
+  }
+
+  /**
+   * Replace the templates and environment of a connection profile, assigning IDs to new templates
+   */
+  saveTemplateSet(connectionId: string, templateSet: PublishTemplateSet): PublishTemplateSet {
+    const saved: PublishTemplateSet = {
+      templates: templateSet.templates.map((template) => ({
+        ...template,
+        id: template.id || this.generateId(),
+      })),
+      environment: templateSet.environment,
+    };
+
+    const templateSets = this.store.get('templateSets') as Record<string, PublishTemplateSet>;
+    templateSets[connectionId] = saved;
+    this.store.set('templateSets', templateSets);
+    return saved;
+  }
+
+  /**
+   * Generate a unique ID for a template
+   */
+  private generateId(): string {
+    return `template_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
@@ -0,0 +1,50 @@
+import Store from 'electron-store';
+import type { SavedRequest } from '../../../shared/types/models';
+
+/**
+ * Persists the request/response tester's saved requests, one collection per connection profile
+ */
+export class RequestCollectionStore {
+  private store: any; // Using any to avoid type issues with electron-store v11
+
+  constructor() {
+    this.store = new Store({
+      name: 'request-collections',
+      defaults: {
+        collections: {},
+      },
+    });
+  }
+
+  /**
+   * Get the saved requests of a connection profile
+   */
+  getCollection(connectionId: string): SavedRequest[] {
+    const collections = this.store.get('collections') as Record<string, SavedRequest[]>;
+    return collections[connectionId] ?? [];
+  }
+
+  /**
+   * Replace the saved requests of a connection profile, assigning IDs to new ones
+   */
+  saveCollection(connectionId: string, requests: SavedRequest[]): SavedRequest[] {
+    const saved = requests.map((request) => ({ ...request, id: request.id || this.generateId() }));
+    const collections = this.store.get('collections') as Record<string, SavedRequest[]>;
+
+    if (saved.length > 0) {
+      collections[connectionId] = saved;
+    } else {
+      delete collections[connectionId];
+    }
+
+    this.store.set('collections', collections);
+    return saved;
+  }
+
+  /**
+   * Generate a unique ID for a saved request
+   */
+  private generateId(): string {
+    return `request_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
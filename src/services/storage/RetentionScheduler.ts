@@ -0,0 +1,109 @@
+import { EventEmitter } from 'events';
+import { MessageHistory } from './MessageHistory';
+import { RetentionStore } from './RetentionStore';
+import type {
+  RetentionLimits,
+  RetentionResult,
+  RetentionSettings,
+  RetentionStatus,
+} from '../../../shared/types/models';
+
+/**
+ * Periodically prunes the message history according to the saved retention
+ * settings. Emits 'pruned' with the RetentionResult whenever messages are deleted.
+ */
+export class RetentionScheduler extends EventEmitter {
+  private messageHistory: MessageHistory;
+  private store: RetentionStore;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(messageHistory: MessageHistory, store: RetentionStore) {
+    super();
+    this.messageHistory = messageHistory;
+    this.store = store;
+  }
+
+  /**
+   * Start (or restart) the schedule from the saved settings
+   * Runs once immediately when enabled so limits apply on startup.
+   */
+  start(): void {
+    this.stop();
+
+    const settings = this.store.getSettings();
+    if (!settings.enabled) {
+      return;
+    }
+
+    this.runScheduled();
+    const intervalMs = Math.max(1, settings.intervalMinutes) * 60 * 1000;
+    this.timer = setInterval(() => this.runScheduled(), intervalMs);
+  }
+
+  /**
+   * Stop the schedule
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Save new settings and reschedule
+   */
+  updateSettings(settings: RetentionSettings): RetentionStatus {
+    this.store.saveSettings(settings);
+    this.start();
+    return this.getStatus();
+  }
+
+  /**
+   * Get the settings, last run and current database size
+   */
+  getStatus(): RetentionStatus {
+    return {
+      settings: this.store.getSettings(),
+      lastRun: this.store.getLastRun(),
+      databaseSize: this.messageHistory.getDatabaseSize(),
+    };
+  }
+
+  /**
+   * Count what would be deleted (defaults to the saved limits)
+   */
+  preview(limits?: RetentionLimits): RetentionResult {
+    return this.messageHistory.prune(limits ?? this.store.getSettings(), true);
+  }
+
+  /**
+   * Delete messages exceeding the limits (defaults to the saved limits)
+   */
+  apply(limits?: RetentionLimits): RetentionResult {
+    const settings = this.store.getSettings();
+    const result = this.messageHistory.prune(limits ?? settings, false);
+
+    if (result.totalDeleted > 0) {
+      if (settings.compactAfterPrune) {
+        this.messageHistory.compact();
+        result.compacted = true;
+      }
+      this.store.setLastRun(result);
+      this.emit('pruned', result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Timer callback; errors are logged so one failed run doesn't stop the schedule
+   */
+  private runScheduled(): void {
+    try {
+      this.apply();
+    } catch (error) {
+      console.error('Scheduled retention run failed:', error);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import Store from 'electron-store';
+import type { RetentionResult, RetentionSettings } from '../../../shared/types/models';
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  enabled: false,
+  intervalMinutes: 60,
+  maxAgeDays: 7,
+  maxMessages: 10000,
+  compactAfterPrune: true,
+};
+
+export class RetentionStore {
+  private store: any; // Using any to avoid type issues with electron-store v11
+
+  constructor() {
+    this.store = new Store({
+      name: 'retention',
+      defaults: {
+        settings: DEFAULT_RETENTION_SETTINGS,
+        lastRun: null,
+      },
+    });
+  }
+
+  /**
+   * Get the retention settings
+   */
+  getSettings(): RetentionSettings {
+    return {
+      ...DEFAULT_RETENTION_SETTINGS,
+      ...(this.store.get('settings') as Partial<RetentionSettings>),
+    };
+  }
+
+  /**
+   * Save the retention settings
+   */
+  saveSettings(settings: RetentionSettings): void {
+    this.store.set('settings', settings);
+  }
+
+  /**
+   * Get the result of the last retention run that deleted anything
+   */
+  getLastRun(): RetentionResult | undefined {
+    return (this.store.get('lastRun') as RetentionResult | null) ?? undefined;
+  }
+
+  /**
+   * Record the result of a retention run
+   */
+  setLastRun(result: RetentionResult): void {
+    this.store.set('lastRun', result);
+  }
+}
@@ -0,0 +1,41 @@
+import Store from 'electron-store';
+import type { SimulatorFleet } from '../../../shared/types/models';
+
+/**
+ * Persists the device simulator's fleet definitions
+ */
+export class SimulatorFleetStore {
+  private store: any; // Using any to avoid type issues with electron-store v11
+
+  constructor() {
+    this.store = new Store({
+      name: 'simulator-fleets',
+      defaults: {
+        fleets: [],
+      },
+    });
+  }
+
+  /**
+   * Get all simulator fleets
+   */
+  getFleets(): SimulatorFleet[] {
+    return this.store.get('fleets') as SimulatorFleet[];
+  }
+
+  /**
+   * Replace the simulator fleets, assigning IDs to new ones
+   */
+  saveFleets(fleets: SimulatorFleet[]): SimulatorFleet[] {
+    const saved = fleets.map((fleet) => ({ ...fleet, id: fleet.id || this.generateId() }));
+    this.store.set('fleets', saved);
+    return saved;
+  }
+
+  /**
+   * Generate a unique ID for a simulator fleet
+   */
+  private generateId(): string {
+    return `fleet_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
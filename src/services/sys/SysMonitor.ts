@@ -0,0 +1,142 @@
+import { EventEmitter } from 'events';
+import { combineNodeValues, parseBrokerVersion, parseSysMetric } from './sysTopics';
+import { decodePayloadText } from '../mqtt/payload';
+import type { MqttService } from '../mqtt/MqttService';
+import type {
+  MqttMessage,
+  SysMetricKey,
+  SysMonitorState,
+  SysTopicUpdate,
+} from '../../../shared/types/models';
+
+const SYS_TOPIC_FILTER = '$SYS/#';
+
+// Points kept per metric; brokers typically publish every 10 seconds, so about two hours
+const MAX_POINTS_PER_METRIC = 720;
+
+// $SYS topics kept per session (EMQX publishes a topic per client event)
+const MAX_TOPICS = 500;
+
+interface MonitoredSession {
+  state: SysMonitorState;
+  // Latest value of each topic reporting a metric, to combine EMQX nodes
+  sources: Map<SysMetricKey, Map<string, number>>;
+  ownsSubscription: boolean;
+}
+
+/**
+ * Subscribes sessions to $SYS/# and collects the broker metrics they publish.
+ * Emits 'update' with a SysTopicUpdate for every $SYS message of a monitored session.
+ */
+export class SysMonitor extends EventEmitter {
+  private sessions: Map<string, MonitoredSession> = new Map();
+
+  /**
+   * Start monitoring a session (does nothing if it already is)
+   */
+  async start(service: MqttService, connectionId: string): Promise<SysMonitorState> {
+    const existing = this.sessions.get(connectionId);
+    if (existing) {
+      return existing.state;
+    }
+
+    // Leave a $SYS/# subscription the user made alone when monitoring stops
+    const ownsSubscription = !service
+      .getSubscriptions()
+      .some((subscription) => subscription.topic === SYS_TOPIC_FILTER);
+
+    const session: MonitoredSession = {
+      state: { connectionId, topics: {}, metrics: {} },
+      sources: new Map(),
+      ownsSubscription,
+    };
+    this.sessions.set(connectionId, session);
+
+    if (ownsSubscription) {
+      try {
+        await service.subscribe(SYS_TOPIC_FILTER, 0);
+      } catch (error) {
+        this.sessions.delete(connectionId);
+        throw error;
+      }
+    }
+
+    return session.state;
+  }
+
+  /**
+   * Stop monitoring a session and forget its metrics
+   */
+  async stop(service: MqttService | undefined, connectionId: string): Promise<void> {
+    const session = this.sessions.get(connectionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(connectionId);
+    if (service && session.ownsSubscription) {
+      await service.unsubscribe(SYS_TOPIC_FILTER);
+    }
+  }
+
+  /**
+   * Forget a session that was closed
+   */
+  clearConnection(connectionId: string): void {
+    this.sessions.delete(connectionId);
+  }
+
+  /**
+   * Get the metrics collected for a session
+   */
+  getState(connectionId: string): SysMonitorState | undefined {
+    return this.sessions.get(connectionId)?.state;
+  }
+
+  /**
+   * Record a received message if it is a $SYS message of a monitored session
+   */
+  handleMessage(message: MqttMessage): void {
+    if (!message.connectionId || !message.topic.startsWith('$SYS/')) {
+      return;
+    }
+    const session = this.sessions.get(message.connectionId);
+    if (!session) {
+      return;
+    }
+
+    const { state } = session;
+    const value = decodePayloadText(message.payload) ?? '';
+    const update: SysTopicUpdate = {
+      connectionId: message.connectionId,
+      topic: message.topic,
+      value,
+      timestamp: message.timestamp,
+    };
+
+    if (message.topic in state.topics || Object.keys(state.topics).length < MAX_TOPICS) {
+      state.topics[message.topic] = { value, timestamp: message.timestamp };
+    }
+    update.broker = parseBrokerVersion(message.topic, value);
+    state.broker = update.broker ?? state.broker;
+
+    const parsed = parseSysMetric(message.topic, value);
+    if (parsed) {
+      const sources = session.sources.get(parsed.metric) ?? new Map<string, number>();
+      sources.set(message.topic, parsed.value);
+      session.sources.set(parsed.metric, sources);
+
+      update.metric = parsed.metric;
+      update.metricValue = combineNodeValues(parsed.metric, Array.from(sources.values()));
+
+      const points = state.metrics[parsed.metric] ?? [];
+      points.push({ timestamp: message.timestamp, value: update.metricValue });
+      if (points.length > MAX_POINTS_PER_METRIC) {
+        points.splice(0, points.length - MAX_POINTS_PER_METRIC);
+      }
+      state.metrics[parsed.metric] = points;
+    }
+
+    this.emit('update', update);
+  }
+}
@@ -0,0 +1,102 @@
+import type { SysMetricKey } from '../../../shared/types/models';
+
+// Known $SYS metric topics of the common brokers. Mosquitto and the HiveMQ $SYS
+// extension publish under $SYS/broker/; EMQX publishes per node under
+// $SYS/brokers/<node>/, so cluster values are combined across nodes.
+
+interface SysMetricPattern {
+  pattern: RegExp;
+  metric: SysMetricKey;
+  parse?: (text: string) => number | undefined;
+}
+
+const SYS_METRIC_PATTERNS: SysMetricPattern[] = [
+  // Mosquitto and HiveMQ
+  { pattern: /^\$SYS\/broker\/clients\/connected$/, metric: 'clientsConnected' },
+  { pattern: /^\$SYS\/broker\/subscriptions\/count$/, metric: 'subscriptions' },
+  { pattern: /^\$SYS\/broker\/messages\/received$/, metric: 'messagesReceived' },
+  { pattern: /^\$SYS\/broker\/messages\/sent$/, metric: 'messagesSent' },
+  { pattern: /^\$SYS\/broker\/load\/messages\/received\/1min$/, metric: 'messagesReceivedLoad' },
+  { pattern: /^\$SYS\/broker\/load\/messages\/sent\/1min$/, metric: 'messagesSentLoad' },
+  { pattern: /^\$SYS\/broker\/load\/bytes\/received\/1min$/, metric: 'bytesReceivedLoad' },
+  { pattern: /^\$SYS\/broker\/load\/bytes\/sent\/1min$/, metric: 'bytesSentLoad' },
+  { pattern: /^\$SYS\/broker\/uptime$/, metric: 'uptimeSeconds', parse: (text) => parseUptime(text, 1) },
+
+  // EMQX
+  { pattern: /^\$SYS\/brokers\/[^/]+\/stats\/connections\/count$/, metric: 'clientsConnected' },
+  { pattern: /^\$SYS\/brokers\/[^/]+\/stats\/subscriptions\/count$/, metric: 'subscriptions' },
+  { pattern: /^\$SYS\/brokers\/[^/]+\/metrics\/messages\/received$/, metric: 'messagesReceived' },
+  { pattern: /^\$SYS\/brokers\/[^/]+\/metrics\/messages\/sent$/, metric: 'messagesSent' },
+  // EMQX 4 writes "2 hours, 5 minutes, 3 seconds"; EMQX 5 a number of milliseconds
+  { pattern: /^\$SYS\/brokers\/[^/]+\/uptime$/, metric: 'uptimeSeconds', parse: (text) => parseUptime(text, 0.001) },
+];
+
+// Metrics that are the same broker-wide rather than per node
+const NODE_MAXIMUM_METRICS = new Set<SysMetricKey>(['uptimeSeconds']);
+
+const UPTIME_UNITS: Record<string, number> = {
+  second: 1,
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+};
+
+/**
+ * Get the metric a $SYS topic reports, with its value
+ * @returns undefined for unknown topics and unparseable values
+ */
+export function parseSysMetric(topic: string, text: string): { metric: SysMetricKey; value: number } | undefined {
+  const known = SYS_METRIC_PATTERNS.find(({ pattern }) => pattern.test(topic));
+  if (!known) {
+    return undefined;
+  }
+
+  const value = known.parse ? known.parse(text) : parseNumber(text);
+  return value === undefined ? undefined : { metric: known.metric, value };
+}
+
+/**
+ * Combine a metric's values from the topics reporting it (one per EMQX node)
+ */
+export function combineNodeValues(metric: SysMetricKey, values: number[]): number {
+  return NODE_MAXIMUM_METRICS.has(metric)
+    ? Math.max(...values)
+    : values.reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * Get the broker name and version from a $SYS version topic
+ */
+export function parseBrokerVersion(topic: string, text: string): string | undefined {
+  if (topic === '$SYS/broker/version') {
+    return text.trim(); // "mosquitto version 2.0.18"
+  }
+  if (/^\$SYS\/brokers\/[^/]+\/version$/.test(topic)) {
+    return `EMQX ${text.trim()}`;
+  }
+  return undefined;
+}
+
+function parseNumber(text: string): number | undefined {
+  const value = Number(text.trim());
+  return text.trim() !== '' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Parse an uptime such as "12345 seconds" or "1 days, 2 hours, 3 minutes"
+ * @param unitlessScale - Seconds per unit of a bare number
+ */
+function parseUptime(text: string, unitlessScale: number): number | undefined {
+  const bare = parseNumber(text);
+  if (bare !== undefined) {
+    return bare * unitlessScale;
+  }
+
+  let seconds = 0;
+  let matched = false;
+  for (const [, amount, unit] of text.matchAll(/(\d+(?:\.\d+)?)\s*(second|minute|hour|day)s?/gi)) {
+    seconds += Number(amount) * UPTIME_UNITS[unit.toLowerCase()];
+    matched = true;
+  }
+  return matched ? seconds : undefined;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { MqttMessage } from '../../../shared/types/models';
+import { PayloadValidator } from './PayloadValidator';
+
+const message = (topic: string, payload: string): MqttMessage => ({
+  id: 'msg-1',
+  topic,
+  payload: Buffer.from(payload),
+  qos: 0,
+  retained: false,
+  timestamp: 1000,
+});
+
+const SENSOR_SCHEMA = JSON.stringify({
+  type: 'object',
+  properties: { value: { type: 'number' } },
+  required: ['value'],
+  additionalProperties: false,
+});
+
+describe('PayloadValidator', () => {
+  it('validates against the schema of the first matching topic pattern', () => {
+    const validator = new PayloadValidator([
+      { topicPattern: 'sensors/+/temp', schema: SENSOR_SCHEMA },
+      { topicPattern: 'sensors/#', schema: 'false' },
+    ]);
+
+    expect(validator.validate(message('sensors/a/temp', '{"value":20}'))).toEqual({
+      topicPattern: 'sensors/+/temp',
+      valid: true,
+      errors: [],
+    });
+    expect(validator.validate(message('sensors/a/temp', '{"value":"20","toString":1}'))).toEqual({
+      topicPattern: 'sensors/+/temp',
+      valid: false,
+      errors: ['$.value: must be number', '$.toString: property is not allowed'],
+    });
+    expect(validator.validate(message('sensors/a/rpm', '1'))?.topicPattern).toBe('sensors/#');
+  });
+
+  it('skips topics without a schema', () => {
+    const validator = new PayloadValidator([{ topicPattern: 'sensors/#', schema: SENSOR_SCHEMA }]);
+    expect(validator.validate(message('other', '{}'))).toBeUndefined();
+  });
+
+  it('reports payloads that are not JSON', () => {
+    const validator = new PayloadValidator([{ topicPattern: '#', schema: SENSOR_SCHEMA }]);
+    expect(validator.validate(message('a', 'oops'))?.errors).toEqual(['Payload is not JSON']);
+  });
+
+  it('reports schemas that cannot be used', () => {
+    const validator = new PayloadValidator([
+      { topicPattern: 'a', schema: '{oops' },
+      { topicPattern: 'b', schema: '[]' },
+      { topicPattern: 'c', schema: '{"$ref":"#/$defs/missing"}' },
+    ]);
+
+    expect(validator.validate(message('a', '{}'))?.errors[0]).toMatch(/^Schema is not valid JSON: /);
+    expect(validator.validate(message('b', '{}'))?.errors).toEqual(['Schema must be an object or a boolean']);
+    expect(validator.validate(message('c', '{}'))?.errors).toEqual([
+      'Schema cannot be applied: Unresolvable $ref "#/$defs/missing"',
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { decodePayloadText } from '../mqtt/payload';
+import { topicMatchesFilter } from '../../../shared/utils/topicMatch';
+import { validateJsonSchema } from './jsonSchema';
+import type { JsonSchema } from './jsonSchema';
+import type { MqttMessage, PayloadSchemaAssignment, PayloadValidation } from '../../../shared/types/models';
+
+interface CompiledAssignment {
+  topicPattern: string;
+  schema?: JsonSchema;
+  error?: string; // Why the schema document can't be used
+}
+
+/**
+ * Validates message payloads against the JSON Schemas a connection profile
+ * attaches to topic patterns
+ */
+export class PayloadValidator {
+  private assignments: CompiledAssignment[];
+
+  constructor(assignments: PayloadSchemaAssignment[] = []) {
+    this.assignments = assignments
+      .filter((assignment) => assignment.topicPattern && assignment.schema)
+      .map((assignment) => {
+        try {
+          const schema: unknown = JSON.parse(assignment.schema);
+          if (typeof schema !== 'boolean' && (schema === null || typeof schema !== 'object' || Array.isArray(schema))) {
+            return { topicPattern: assignment.topicPattern, error: 'Schema must be an object or a boolean' };
+          }
+          return { topicPattern: assignment.topicPattern, schema: schema as JsonSchema };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return { topicPattern: assignment.topicPattern, error: `Schema is not valid JSON: ${message}` };
+        }
+      });
+  }
+
+  /**
+   * Validate a message against the schema of the first topic pattern it matches
+   * @returns The result, or undefined when no schema applies to the topic
+   */
+  validate(message: MqttMessage): PayloadValidation | undefined {
+    const assignment = this.assignments.find(({ topicPattern }) => topicMatchesFilter(message.topic, topicPattern));
+    if (!assignment) {
+      return undefined;
+    }
+
+    const invalid = (error: string): PayloadValidation => ({
+      topicPattern: assignment.topicPattern,
+      valid: false,
+      errors: [error],
+    });
+
+    const schema = assignment.schema;
+    if (assignment.error || schema === undefined) {
+      return invalid(assignment.error ?? 'No schema');
+    }
+
+    const text = decodePayloadText(message.payload);
+    let value: unknown;
+    try {
+      value = JSON.parse(text ?? '');
+    } catch {
+      return invalid('Payload is not JSON');
+    }
+
+    try {
+      const errors = validateJsonSchema(schema, value);
+      return { topicPattern: assignment.topicPattern, valid: errors.length === 0, errors };
+    } catch (error) {
+      // Unresolvable $ref, invalid pattern, ...
+      return invalid(`Schema cannot be applied: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import { describe, expect, it, vi } from 'vitest';
+import { validateJsonSchema } from './jsonSchema';
+import type { JsonSchema } from './jsonSchema';
+
+const errorsOf = (schema: JsonSchema, value: unknown): string[] => validateJsonSchema(schema, value);
+
+describe('validateJsonSchema', () => {
+  it('accepts anything for true and nothing for false', () => {
+    expect(errorsOf(true, { a: 1 })).toEqual([]);
+    expect(errorsOf(false, 1)).toEqual(['$: no value is allowed']);
+    expect(errorsOf({}, null)).toEqual([]);
+  });
+
+  describe('type', () => {
+    it.each([
+      ['null', null, 1],
+      ['boolean', true, 0],
+      ['string', 'a', 1],
+      ['number', 1.5, '1.5'],
+      ['integer', 2, 2.5],
+      ['array', [], {}],
+      ['object', {}, []],
+    ])('checks %s', (type, valid, invalid) => {
+      expect(errorsOf({ type }, valid)).toEqual([]);
+      expect(errorsOf({ type }, invalid)).toEqual([`$: must be ${type}`]);
+    });
+
+    it('accepts any of a list of types', () => {
+      expect(errorsOf({ type: ['string', 'null'] }, null)).toEqual([]);
+      expect(errorsOf({ type: ['string', 'null'] }, 1)).toEqual(['$: must be string or null']);
+    });
+
+    it('counts whole numbers as integers', () => {
+      expect(errorsOf({ type: 'integer' }, 2.0)).toEqual([]);
+    });
+  });
+
+  it('checks enum and const by value', () => {
+    expect(errorsOf({ enum: ['on', { mode: 'auto' }] }, { mode: 'auto' })).toEqual([]);
+    expect(errorsOf({ enum: ['on', 'off'] }, 'idle')).toEqual(['$: must be one of "on", "off"']);
+    expect(errorsOf({ const: [1, 2] }, [1, 2])).toEqual([]);
+    expect(errorsOf({ const: null }, 0)).toEqual(['$: must be null']);
+    expect(errorsOf({ const: { a: 1 } }, { b: 1 })).toEqual(['$: must be {"a":1}']);
+  });
+
+  it('checks numeric limits', () => {
+    const schema = { minimum: 0, maximum: 10, exclusiveMinimum: -1, exclusiveMaximum: 10, multipleOf: 0.5 };
+    expect(errorsOf(schema, 2.5)).toEqual([]);
+    expect(errorsOf(schema, -1)).toEqual(['$: must be >= 0', '$: must be > -1']);
+    expect(errorsOf(schema, 10)).toEqual(['$: must be < 10']);
+    expect(errorsOf(schema, 1.2)).toEqual(['$: must be a multiple of 0.5']);
+    expect(errorsOf({ multipleOf: 0.1 }, 0.3)).toEqual([]);
+    expect(errorsOf(schema, 'not a number')).toEqual([]);
+  });
+
+  it('checks string lengths in code points', () => {
+    expect(errorsOf({ minLength: 2, maxLength: 2 }, '🙂🙂')).toEqual([]);
+    expect(errorsOf({ minLength: 2 }, 'a')).toEqual(['$: must be at least 2 characters']);
+    expect(errorsOf({ maxLength: 1 }, 'ab')).toEqual(['$: must be at most 1 characters']);
+  });
+
+  it('checks patterns', () => {
+    expect(errorsOf({ pattern: '^[a-z]+-\\d+$' }, 'pump-12')).toEqual([]);
+    expect(errorsOf({ pattern: '^[a-z]+-\\d+$' }, 'Pump')).toEqual(['$: must match ^[a-z]+-\\d+$']);
+    expect(errorsOf({ pattern: '^\\p{Lu}' }, 'Émile')).toEqual([]);
+    expect(() => errorsOf({ pattern: '(' }, 'a')).toThrow(SyntaxError);
+  });
+
+  it('compiles each pattern once', () => {
+    const compile = vi.spyOn(globalThis, 'RegExp');
+    const schema = { pattern: '^cache-a', patternProperties: { '^cache-x-': { type: 'string' } } };
+    for (let i = 0; i < 3; i++) {
+      expect(errorsOf(schema, 'cache-abc')).toEqual([]);
+      expect(errorsOf(schema, { 'cache-x-id': 1 })).toEqual(['$.cache-x-id: must be string']);
+    }
+    expect(compile).toHaveBeenCalledTimes(2);
+    compile.mockRestore();
+  });
+
+  describe('arrays', () => {
+    it('checks item counts and uniqueness', () => {
+      expect(errorsOf({ minItems: 1, maxItems: 2 }, [1])).toEqual([]);
+      expect(errorsOf({ minItems: 1 }, [])).toEqual(['$: must have at least 1 items']);
+      expect(errorsOf({ maxItems: 1 }, [1, 2])).toEqual(['$: must have at most 1 items']);
+      expect(errorsOf({ uniqueItems: true }, [{ a: 1 }, { a: 2 }])).toEqual([]);
+      expect(errorsOf({ uniqueItems: true }, [{ a: 1 }, { a: 1 }])).toEqual(['$: must not contain duplicate items']);
+    });
+
+    it('checks items', () => {
+      expect(errorsOf({ items: { type: 'integer' } }, [1, 'a', 3])).toEqual(['$[1]: must be integer']);
+    });
+
+    it('checks 2020-12 prefixItems followed by items', () => {
+      const schema = { prefixItems: [{ type: 'string' }, { type: 'number' }], items: false };
+      expect(errorsOf(schema, ['a', 1])).toEqual([]);
+      expect(errorsOf(schema, [1, 1, true])).toEqual(['$[0]: must be string', '$[2]: no value is allowed']);
+    });
+
+    it('checks draft 7 array items followed by additionalItems', () => {
+      const schema = { items: [{ type: 'string' }], additionalItems: { type: 'boolean' } };
+      expect(errorsOf(schema, ['a', true, false])).toEqual([]);
+      expect(errorsOf(schema, ['a', 1])).toEqual(['$[1]: must be boolean']);
+    });
+
+    it('checks contains', () => {
+      expect(errorsOf({ contains: { const: 2 } }, [1, 2])).toEqual([]);
+      expect(errorsOf({ contains: { const: 2 } }, [1, 3])).toEqual(['$: must contain a matching item']);
+    });
+  });
+
+  describe('objects', () => {
+    it('checks required properties and property counts', () => {
+      const schema = { required: ['id'], minProperties: 1, maxProperties: 2 };
+      expect(errorsOf(schema, { id: 'a' })).toEqual([]);
+      expect(errorsOf(schema, {})).toEqual([
+        '$: missing required property "id"',
+        '$: must have at least 1 properties',
+      ]);
+      expect(errorsOf(schema, { id: 'a', b: 1, c: 2 })).toEqual(['$: must have at most 2 properties']);
+    });
+
+    it('checks properties, patternProperties and additionalProperties', () => {
+      const schema = {
+        properties: { id: { type: 'string' } },
+        patternProperties: { '^x-': { type: 'number' } },
+        additionalProperties: { type: 'boolean' },
+      };
+      expect(errorsOf(schema, { id: 'a', 'x-rate': 1, enabled: true })).toEqual([]);
+      expect(errorsOf(schema, { id: 1, 'x-rate': 'fast', enabled: 'yes' })).toEqual([
+        '$.id: must be string',
+        '$.x-rate: must be number',
+        '$.enabled: must be boolean',
+      ]);
+    });
+
+    it('rejects properties not allowed by additionalProperties false', () => {
+      const schema = { properties: { id: { type: 'string' } }, additionalProperties: false };
+      expect(errorsOf(schema, { id: 'a', extra: 1 })).toEqual(['$.extra: property is not allowed']);
+    });
+
+    it('does not take Object.prototype members for declared properties', () => {
+      const schema = { type: 'object', properties: { id: { type: 'string' } }, additionalProperties: false };
+      expect(errorsOf(schema, JSON.parse('{"id":"a","toString":5}'))).toEqual(['$.toString: property is not allowed']);
+      expect(errorsOf(schema, JSON.parse('{"id":"a","__proto__":5}'))).toEqual(['$.__proto__: property is not allowed']);
+      expect(errorsOf(schema, JSON.parse('{"id":"a","constructor":{}}'))).toEqual([
+        '$.constructor: property is not allowed',
+      ]);
+    });
+
+    it('does not take Object.prototype members for required properties', () => {
+      expect(errorsOf({ type: 'object', required: ['constructor'] }, {})).toEqual([
+        '$: missing required property "constructor"',
+      ]);
+      expect(errorsOf({ type: 'object', required: ['__proto__'] }, JSON.parse('{"__proto__":1}'))).toEqual([]);
+    });
+
+    it('validates properties named like Object.prototype members when declared', () => {
+      const schema = JSON.parse('{"properties":{"__proto__":{"type":"string"},"constructor":{"type":"number"}}}');
+      expect(errorsOf(schema, JSON.parse('{"__proto__":"a","constructor":1}'))).toEqual([]);
+      expect(errorsOf(schema, JSON.parse('{"__proto__":1,"constructor":"a"}'))).toEqual([
+        '$.__proto__: must be string',
+        '$.constructor: must be number',
+      ]);
+    });
+
+    it('compares objects by their own properties', () => {
+      expect(errorsOf({ const: { a: 1 } }, JSON.parse('{"toString":1}'))).toEqual(['$: must be {"a":1}']);
+    });
+  });
+
+  describe('combinators', () => {
+    it('checks allOf, anyOf and oneOf', () => {
+      expect(errorsOf({ allOf: [{ type: 'integer' }, { minimum: 5 }] }, 3)).toEqual(['$: must be >= 5']);
+      expect(errorsOf({ anyOf: [{ type: 'string' }, { type: 'integer' }] }, 3)).toEqual([]);
+      expect(errorsOf({ anyOf: [{ type: 'string' }, { type: 'integer' }] }, 1.5)).toEqual([
+        '$: must match at least one schema in anyOf',
+      ]);
+      expect(errorsOf({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 1.5)).toEqual([]);
+      expect(errorsOf({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 1)).toEqual([
+        '$: must match exactly one schema in oneOf (matched 2)',
+      ]);
+    });
+
+    it('checks not', () => {
+      expect(errorsOf({ not: { type: 'null' } }, 1)).toEqual([]);
+      expect(errorsOf({ not: { type: 'null' } }, null)).toEqual(['$: must not match the schema in not']);
+    });
+
+    it('applies then or else depending on if', () => {
+      const schema = {
+        if: { properties: { kind: { const: 'temp' } } },
+        then: { required: ['celsius'] },
+        else: { required: ['value'] },
+      };
+      expect(errorsOf(schema, { kind: 'temp', celsius: 20 })).toEqual([]);
+      expect(errorsOf(schema, { kind: 'temp', value: 20 })).toEqual(['$: missing required property "celsius"']);
+      expect(errorsOf(schema, { kind: 'rpm' })).toEqual(['$: missing required property "value"']);
+    });
+
+    it('leaves no errors behind from branches that are only tried', () => {
+      const schema = { anyOf: [{ required: ['a'] }, { required: ['b'] }] };
+      expect(errorsOf(schema, { b: 1 })).toEqual([]);
+    });
+  });
+
+  describe('$ref', () => {
+    it('resolves $defs, definitions and the root', () => {
+      const schema = {
+        $defs: { id: { type: 'string' } },
+        definitions: { 'a/b': { type: 'number' } },
+        properties: {
+          id: { $ref: '#/$defs/id' },
+          size: { $ref: '#/definitions/a~1b' },
+          child: { $ref: '#' },
+        },
+      };
+      expect(errorsOf(schema, { id: 'a', size: 1, child: { id: 'b' } })).toEqual([]);
+      expect(errorsOf(schema, { id: 1, size: 'x', child: { id: 2 } })).toEqual([
+        '$.id: must be string',
+        '$.size: must be number',
+        '$.child.id: must be string',
+      ]);
+    });
+
+    it('rejects references it cannot resolve', () => {
+      expect(() => errorsOf({ $ref: 'other.json#/a' }, 1)).toThrow('Unsupported $ref');
+      expect(() => errorsOf({ $ref: '#/$defs/missing' }, 1)).toThrow('Unresolvable $ref');
+      expect(() => errorsOf({ $ref: '#/$defs/toString' }, 1)).toThrow('Unresolvable $ref');
+      expect(() => errorsOf({ $ref: '#/constructor' }, 1)).toThrow('Unresolvable $ref');
+      expect(() => errorsOf({ $defs: { n: 5 }, $ref: '#/$defs/n' }, 1)).toThrow('does not point to a schema');
+    });
+  });
+
+  it('rejects subschemas that are not objects or booleans', () => {
+    expect(() => errorsOf({ items: 5 } as unknown as JsonSchema, [1])).toThrow('Invalid subschema 5');
+  });
+
+  it('reports the paths of nested values', () => {
+    const schema = { properties: { items: { items: { properties: { v: { type: 'number' } } } } } };
+    expect(errorsOf(schema, { items: [{ v: 1 }, { v: 'x' }] })).toEqual(['$.items[1].v: must be number']);
+  });
+
+  it('stops after 20 errors', () => {
+    expect(errorsOf({ items: { type: 'string' } }, Array.from({ length: 30 }, (_, i) => i))).toHaveLength(20);
+  });
+});
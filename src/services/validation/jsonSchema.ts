@@ -0,0 +1,324 @@
+// A JSON Schema validator covering the keywords of drafts 7 and 2020-12 that
+// payload contracts use: types, enums, object properties, arrays, numeric and
+// string limits, patterns, combinators and conditionals. "format" is only an
+// annotation (as in 2020-12) and "$ref" must point within the same document.
+
+export type JsonSchema = boolean | JsonSchemaObject;
+
+// Keywords are checked before use, as schema documents are user input
+export interface JsonSchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  prefixItems?: JsonSchema[];
+  items?: JsonSchema | JsonSchema[];
+  additionalItems?: JsonSchema;
+  contains?: JsonSchema;
+  required?: string[];
+  minProperties?: number;
+  maxProperties?: number;
+  properties?: Record<string, JsonSchema>;
+  patternProperties?: Record<string, JsonSchema>;
+  additionalProperties?: JsonSchema;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  if?: JsonSchema;
+  then?: JsonSchema;
+  else?: JsonSchema;
+  [keyword: string]: unknown;
+}
+
+// Errors reported per value before the rest are left out
+const MAX_ERRORS = 20;
+
+// Compiled "pattern" and "patternProperties" expressions, by source
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Check for an own property, so keys like "constructor" or "__proto__" in a
+ * payload or schema don't match members inherited from Object.prototype
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Compile a pattern once (ECMA-262 regular expressions with Unicode semantics)
+ * @throws SyntaxError if the pattern is invalid
+ */
+function compilePattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern, 'u');
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Check if two JSON values are equal
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => jsonEqual(item, b[index]));
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord);
+  return (
+    aKeys.length === Object.keys(bRecord).length &&
+    aKeys.every((key) => hasOwn(bRecord, key) && jsonEqual(aRecord[key], bRecord[key]))
+  );
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number';
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Resolve a "#", "#/$defs/name" or "#/definitions/name" reference
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref "${ref}" (only references within the schema are supported)`);
+  }
+  const pointer = decodeURIComponent(ref.slice(1));
+  let target: unknown = root;
+  for (const token of pointer.split('/').slice(1)) {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (target === null || typeof target !== 'object' || !hasOwn(target, key)) {
+      throw new Error(`Unresolvable $ref "${ref}"`);
+    }
+    target = (target as Record<string, unknown>)[key];
+  }
+  if (typeof target !== 'boolean' && (target === null || typeof target !== 'object' || Array.isArray(target))) {
+    throw new Error(`$ref "${ref}" does not point to a schema`);
+  }
+  return target as JsonSchema;
+}
+
+/**
+ * Validate a value against a JSON Schema
+ * @returns Error messages prefixed with the path of the offending value ("$" is
+ * the value itself); empty when the value is valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): string[] {
+  const errors: string[] = [];
+  const report = (path: string, message: string) => {
+    if (errors.length < MAX_ERRORS) {
+      errors.push(`${path}: ${message}`);
+    }
+  };
+
+  // Whether a value is valid against a subschema, without reporting its errors
+  const isValid = (subschema: JsonSchema, subvalue: unknown, path: string): boolean => {
+    const before = errors.length;
+    validate(subschema, subvalue, path);
+    const valid = errors.length === before;
+    errors.length = before;
+    return valid;
+  };
+
+  const validate = (node: JsonSchema, value: unknown, path: string): void => {
+    if (node === true) {
+      return;
+    }
+    if (node === false) {
+      report(path, 'no value is allowed');
+      return;
+    }
+    if (node === null || typeof node !== 'object' || Array.isArray(node)) {
+      throw new Error(`Invalid subschema ${JSON.stringify(node)} (must be an object or a boolean)`);
+    }
+
+    if (typeof node.$ref === 'string') {
+      validate(resolveRef(schema, node.$ref), value, path);
+    }
+
+    if (node.type !== undefined) {
+      const types = Array.isArray(node.type) ? node.type : [node.type];
+      if (!types.some((type) => matchesType(value, type))) {
+        report(path, `must be ${types.join(' or ')}`);
+        return;
+      }
+    }
+    if (Array.isArray(node.enum) && !node.enum.some((option) => jsonEqual(option, value))) {
+      report(path, `must be one of ${node.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    }
+    if (hasOwn(node, 'const') && !jsonEqual(node.const, value)) {
+      report(path, `must be ${JSON.stringify(node.const)}`);
+    }
+
+    if (typeof value === 'number') {
+      if (typeof node.minimum === 'number' && value < node.minimum) {
+        report(path, `must be >= ${node.minimum}`);
+      }
+      if (typeof node.maximum === 'number' && value > node.maximum) {
+        report(path, `must be <= ${node.maximum}`);
+      }
+      if (typeof node.exclusiveMinimum === 'number' && value <= node.exclusiveMinimum) {
+        report(path, `must be > ${node.exclusiveMinimum}`);
+      }
+      if (typeof node.exclusiveMaximum === 'number' && value >= node.exclusiveMaximum) {
+        report(path, `must be < ${node.exclusiveMaximum}`);
+      }
+      if (typeof node.multipleOf === 'number' && node.multipleOf > 0) {
+        const quotient = value / node.multipleOf;
+        if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+          report(path, `must be a multiple of ${node.multipleOf}`);
+        }
+      }
+    }
+
+    if (typeof value === 'string') {
+      // Lengths count code points, not UTF-16 units
+      const length = Array.from(value).length;
+      if (typeof node.minLength === 'number' && length < node.minLength) {
+        report(path, `must be at least ${node.minLength} characters`);
+      }
+      if (typeof node.maxLength === 'number' && length > node.maxLength) {
+        report(path, `must be at most ${node.maxLength} characters`);
+      }
+      if (typeof node.pattern === 'string' && !compilePattern(node.pattern).test(value)) {
+        report(path, `must match ${node.pattern}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (typeof node.minItems === 'number' && value.length < node.minItems) {
+        report(path, `must have at least ${node.minItems} items`);
+      }
+      if (typeof node.maxItems === 'number' && value.length > node.maxItems) {
+        report(path, `must have at most ${node.maxItems} items`);
+      }
+      if (node.uniqueItems === true && value.some((item, index) => value.findIndex((other) => jsonEqual(other, item)) !== index)) {
+        report(path, 'must not contain duplicate items');
+      }
+
+      // 2020-12 "prefixItems" + "items", or draft 7 array "items" + "additionalItems"
+      const prefixItems: JsonSchema[] | undefined = Array.isArray(node.prefixItems)
+        ? node.prefixItems
+        : Array.isArray(node.items)
+        ? node.items
+        : undefined;
+      const restItems: JsonSchema | undefined = Array.isArray(node.items) ? node.additionalItems : node.items;
+      value.forEach((item, index) => {
+        const itemSchema = prefixItems && index < prefixItems.length ? prefixItems[index] : restItems;
+        if (itemSchema !== undefined) {
+          validate(itemSchema, item, `${path}[${index}]`);
+        }
+      });
+
+      const contains = node.contains;
+      if (contains !== undefined && !value.some((item, index) => isValid(contains, item, `${path}[${index}]`))) {
+        report(path, 'must contain a matching item');
+      }
+    }
+
+    if (matchesType(value, 'object')) {
+      const object = value as Record<string, unknown>;
+      const keys = Object.keys(object);
+
+      if (Array.isArray(node.required)) {
+        node.required
+          .filter((key) => !hasOwn(object, key))
+          .forEach((key) => report(path, `missing required property "${key}"`));
+      }
+      if (typeof node.minProperties === 'number' && keys.length < node.minProperties) {
+        report(path, `must have at least ${node.minProperties} properties`);
+      }
+      if (typeof node.maxProperties === 'number' && keys.length > node.maxProperties) {
+        report(path, `must have at most ${node.maxProperties} properties`);
+      }
+
+      const properties = node.properties ?? {};
+      const patternProperties = Object.entries(node.patternProperties ?? {}).map(
+        ([pattern, subschema]) => [compilePattern(pattern), subschema] as const
+      );
+      const additionalProperties = node.additionalProperties;
+      keys.forEach((key) => {
+        const childPath = `${path}.${key}`;
+        let matched = false;
+        if (hasOwn(properties, key)) {
+          matched = true;
+          validate(properties[key], object[key], childPath);
+        }
+        patternProperties
+          .filter(([pattern]) => pattern.test(key))
+          .forEach(([, subschema]) => {
+            matched = true;
+            validate(subschema, object[key], childPath);
+          });
+        if (!matched && additionalProperties !== undefined) {
+          if (additionalProperties === false) {
+            report(childPath, 'property is not allowed');
+          } else {
+            validate(additionalProperties, object[key], childPath);
+          }
+        }
+      });
+    }
+
+    if (Array.isArray(node.allOf)) {
+      node.allOf.forEach((subschema) => validate(subschema, value, path));
+    }
+    if (Array.isArray(node.anyOf) && !node.anyOf.some((subschema) => isValid(subschema, value, path))) {
+      report(path, 'must match at least one schema in anyOf');
+    }
+    if (Array.isArray(node.oneOf)) {
+      const matches = node.oneOf.filter((subschema) => isValid(subschema, value, path)).length;
+      if (matches !== 1) {
+        report(path, `must match exactly one schema in oneOf (matched ${matches})`);
+      }
+    }
+    const { not, if: condition } = node;
+    if (not !== undefined && isValid(not, value, path)) {
+      report(path, 'must not match the schema in not');
+    }
+    if (condition !== undefined) {
+      const branch = isValid(condition, value, path) ? node.then : node.else;
+      if (branch !== undefined) {
+        validate(branch, value, path);
+      }
+    }
+  };
+
+  validate(schema, value, '$');
+  return errors;
+}
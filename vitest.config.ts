@@ -0,0 +1,15 @@
+import path from 'path';
+import type { UserConfig } from 'vitest/config';
+
+const config: UserConfig = {
+  resolve: {
+    alias: {
+      '@shared': path.resolve(__dirname, 'shared'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts', 'shared/**/*.test.ts'],
+  },
+};
+
+export default config;